@@ -0,0 +1,85 @@
+import { describe, expect, it } from "bun:test";
+import type { SlideBlock, SlideContent } from "@figdeck/shared";
+import { estimateOverflow, splitOverflowingSlide } from "./auto-fit";
+
+const heading = { kind: "heading" as const, level: 2 as const, text: "Title" };
+const items = (count: number) =>
+  Array.from({ length: count }, (_, index) => `Item ${index + 1}`);
+
+describe("estimateOverflow", () => {
+  it("should return 0 when the content fits", () => {
+    expect(estimateOverflow({ blocks: [heading] })).toBe(0);
+  });
+
+  it("should return the height beyond the slide", () => {
+    const slide: SlideContent = {
+      blocks: [heading, { kind: "bullets", items: items(30) }],
+    };
+    expect(estimateOverflow(slide)).toBeGreaterThan(0);
+  });
+});
+
+describe("splitOverflowingSlide", () => {
+  it("should return the slide unchanged when it fits", () => {
+    const slide: SlideContent = {
+      blocks: [heading, { kind: "bullets", items: items(5) }],
+    };
+    expect(splitOverflowingSlide(slide)).toEqual([slide]);
+  });
+
+  it("should continue a long list on slides that repeat the heading", () => {
+    const slide: SlideContent = {
+      blocks: [
+        heading,
+        { kind: "bullets", items: items(30), ordered: true },
+        { kind: "paragraph", text: "After" },
+      ],
+      notes: "Notes",
+    };
+    const [first, second, ...rest] = splitOverflowingSlide(slide);
+
+    expect(rest).toEqual([]);
+    expect(first.notes).toBe("Notes");
+    expect(first.blocks).toEqual([
+      heading,
+      { kind: "bullets", items: items(21), ordered: true },
+    ]);
+    expect(second.notes).toBeUndefined();
+    expect(second.blocks).toEqual([
+      heading,
+      {
+        kind: "bullets",
+        items: items(30).slice(21),
+        ordered: true,
+        start: 22,
+      },
+      { kind: "paragraph", text: "After" },
+    ]);
+  });
+
+  it("should fit fewer items with larger bullets", () => {
+    const slide: SlideContent = {
+      blocks: [heading, { kind: "bullets", items: items(30) }],
+      styles: { bullets: { size: 48 } },
+    };
+    const parts = splitOverflowingSlide(slide);
+    const counts = parts.map(
+      (part) =>
+        (part.blocks[1] as Extract<SlideBlock, { kind: "bullets" }>).items
+          .length,
+    );
+    expect(counts).toEqual([12, 12, 6]);
+  });
+
+  it("should move a list to a new slide when no item fits", () => {
+    const code = { kind: "code" as const, code: items(40).join("\n") };
+    const slide: SlideContent = {
+      blocks: [heading, code, { kind: "bullets", items: items(2) }],
+    };
+    const parts = splitOverflowingSlide(slide);
+    expect(parts.map((part) => part.blocks)).toEqual([
+      [heading, code],
+      [heading, { kind: "bullets", items: items(2) }],
+    ]);
+  });
+});
@@ -0,0 +1,294 @@
+import {
+  type BulletItem,
+  CHART_LAYOUT,
+  CONTAINER_PADDING,
+  CONTENT_WIDTH,
+  DEFAULT_BULLET_SIZE,
+  DEFAULT_CODE_SIZE,
+  DEFAULT_H1_SIZE,
+  DEFAULT_H2_SIZE,
+  DEFAULT_H3_SIZE,
+  DEFAULT_H4_SIZE,
+  DEFAULT_PARAGRAPH_SIZE,
+  LAYOUT,
+  SLIDE_HEIGHT,
+  type SlideBlock,
+  type SlideContent,
+  type SlideStyles,
+} from "@figdeck/shared";
+
+/**
+ * Layout of the plugin's slide content container, used to estimate how
+ * much content fits on a slide. Heights are approximations from font sizes;
+ * the plugin measures the real layout and reports slides that still overflow.
+ */
+const CONTENT_HEIGHT = SLIDE_HEIGHT - CONTAINER_PADDING * 2;
+const BLOCK_SPACING = 30;
+const BULLET_ITEM_SPACING = 8;
+const BULLET_INDENT = 24;
+const LINE_HEIGHT = 1.2;
+// Average glyph width in em, for estimating where lines wrap
+const CHAR_WIDTH = 0.5;
+const CODE_PADDING_Y = 16;
+const TABLE_CELL_PADDING = 12;
+const BOX_PADDING = 20;
+const FIGMA_CARD_HEIGHT = 120;
+// Images without a size are assumed to be this tall
+const IMAGE_HEIGHT = 480;
+
+/**
+ * Font sizes used for estimation, resolved from slide styles and defaults
+ */
+interface Sizes {
+  headings: [number, number, number, number];
+  paragraph: number;
+  bullet: number;
+  bulletSpacing: number;
+  code: number;
+  table: number;
+  tablePadding: number;
+}
+
+function resolveSizes(styles: SlideStyles | undefined): Sizes {
+  const headings = styles?.headings;
+  return {
+    headings: [
+      headings?.h1?.size ?? DEFAULT_H1_SIZE,
+      headings?.h2?.size ?? DEFAULT_H2_SIZE,
+      headings?.h3?.size ?? DEFAULT_H3_SIZE,
+      headings?.h4?.size ?? DEFAULT_H4_SIZE,
+    ],
+    paragraph: styles?.paragraphs?.size ?? DEFAULT_PARAGRAPH_SIZE,
+    bullet: styles?.bullets?.size ?? DEFAULT_BULLET_SIZE,
+    bulletSpacing: styles?.bullets?.spacing ?? BULLET_ITEM_SPACING,
+    code: styles?.code?.size ?? DEFAULT_CODE_SIZE,
+    table:
+      styles?.table?.size ??
+      (styles?.paragraphs?.size ?? DEFAULT_PARAGRAPH_SIZE) * 0.85,
+    tablePadding: styles?.table?.padding ?? TABLE_CELL_PADDING,
+  };
+}
+
+/**
+ * Estimate the height of wrapped text
+ */
+function estimateTextHeight(text: string, size: number, width: number): number {
+  const charsPerLine = Math.max(1, Math.floor(width / (size * CHAR_WIDTH)));
+  let lines = 0;
+  for (const line of text.split("\n")) {
+    lines += Math.max(1, Math.ceil(line.length / charsPerLine));
+  }
+  return lines * size * LINE_HEIGHT;
+}
+
+/**
+ * Estimate the height of one top-level bullet item with its nested items
+ */
+function estimateBulletItemHeight(
+  item: string | BulletItem,
+  sizes: Sizes,
+  width: number,
+): number {
+  if (typeof item === "string") {
+    return estimateTextHeight(item, sizes.bullet, width);
+  }
+  let height = estimateTextHeight(item.text, sizes.bullet, width);
+  for (const child of item.children ?? []) {
+    height +=
+      sizes.bulletSpacing +
+      estimateBulletItemHeight(child, sizes, width - BULLET_INDENT);
+  }
+  return height;
+}
+
+/**
+ * Estimate the rendered height of a block at the given width
+ */
+function estimateBlockHeight(
+  block: SlideBlock,
+  sizes: Sizes,
+  width: number,
+): number {
+  switch (block.kind) {
+    case "heading":
+      return estimateTextHeight(
+        block.text,
+        sizes.headings[block.level - 1],
+        width,
+      );
+    case "paragraph":
+      return estimateTextHeight(block.text, sizes.paragraph, width);
+    case "bullets":
+      return block.items.reduce<number>(
+        (total, item, index) =>
+          total +
+          (index > 0 ? sizes.bulletSpacing : 0) +
+          estimateBulletItemHeight(item, sizes, width),
+        0,
+      );
+    case "code": {
+      const lines = block.code.split("\n").length;
+      const title = block.title ? sizes.code * LINE_HEIGHT + 16 : 0;
+      return lines * sizes.code * LINE_HEIGHT + CODE_PADDING_Y * 2 + title;
+    }
+    case "blockquote":
+    case "callout":
+      return (
+        estimateTextHeight(block.text, sizes.paragraph, width - BOX_PADDING) +
+        BOX_PADDING * 2
+      );
+    case "table":
+      return (
+        (block.rows.length + 1) *
+        (sizes.table * LINE_HEIGHT + sizes.tablePadding * 2)
+      );
+    case "image":
+      return block.size?.height ?? IMAGE_HEIGHT;
+    case "diagram":
+      return block.diagram.height;
+    case "chart":
+      return CHART_LAYOUT.HEIGHT;
+    case "math":
+      return block.math.height * sizes.paragraph;
+    case "figma":
+      return FIGMA_CARD_HEIGHT;
+    case "footnotes":
+      return block.items.length * sizes.paragraph * LINE_HEIGHT;
+    case "columns": {
+      const count = block.columns.length;
+      const gap = block.gap ?? LAYOUT.COLUMN_GAP;
+      const columnWidth = (width - gap * (count - 1)) / count;
+      return Math.max(
+        ...block.columns.map((column, index) =>
+          column.reduce(
+            (total, item, itemIndex) =>
+              total +
+              (itemIndex > 0 ? BLOCK_SPACING : 0) +
+              estimateBlockHeight(
+                item,
+                sizes,
+                block.widths?.[index] ?? columnWidth,
+              ),
+            0,
+          ),
+        ),
+      );
+    }
+  }
+}
+
+/**
+ * Take top-level items `from`..`to` of a bullet list, keeping the numbering
+ * of ordered lists
+ */
+function sliceBullets(
+  block: Extract<SlideBlock, { kind: "bullets" }>,
+  from: number,
+  to: number,
+): SlideBlock {
+  const sliced = Object.assign({}, block, {
+    items: block.items.slice(from, to) as typeof block.items,
+  });
+  if (block.itemSpans) {
+    sliced.itemSpans = block.itemSpans.slice(from, to);
+  }
+  if (block.ordered && from > 0) {
+    sliced.start = (block.start ?? 1) + from;
+  }
+  return sliced;
+}
+
+/**
+ * Estimated height by which a slide's content exceeds the slide, in pixels
+ * (0 when it fits)
+ */
+export function estimateOverflow(slide: SlideContent): number {
+  const sizes = resolveSizes(slide.styles);
+  let height = 0;
+  slide.blocks.forEach((block, index) => {
+    height +=
+      (index > 0 ? BLOCK_SPACING : 0) +
+      estimateBlockHeight(block, sizes, CONTENT_WIDTH);
+  });
+  return Math.max(0, height - CONTENT_HEIGHT);
+}
+
+/**
+ * Split a slide whose content is estimated to be taller than the slide.
+ * Bullet lists that do not fit continue on follow-up slides, which repeat
+ * the slide's leading heading; other blocks move along with them. Speaker
+ * notes stay on the first slide. Returns the slide unchanged when it fits.
+ */
+export function splitOverflowingSlide(slide: SlideContent): SlideContent[] {
+  const sizes = resolveSizes(slide.styles);
+  const heading =
+    slide.blocks[0]?.kind === "heading" ? slide.blocks[0] : undefined;
+  const headingHeight = heading
+    ? estimateBlockHeight(heading, sizes, CONTENT_WIDTH)
+    : 0;
+
+  const parts: SlideBlock[][] = [];
+  let current: SlideBlock[] = [];
+  let used = 0;
+
+  const fits = (height: number) =>
+    used + (current.length > 0 ? BLOCK_SPACING : 0) + height <= CONTENT_HEIGHT;
+  const add = (block: SlideBlock, height: number) => {
+    used += (current.length > 0 ? BLOCK_SPACING : 0) + height;
+    current.push(block);
+  };
+  const nextPart = () => {
+    parts.push(current);
+    current = heading ? [heading] : [];
+    used = headingHeight;
+  };
+
+  for (const block of slide.blocks) {
+    const height = estimateBlockHeight(block, sizes, CONTENT_WIDTH);
+    if (block.kind !== "bullets" || fits(height)) {
+      add(block, height);
+      continue;
+    }
+
+    let from = 0;
+    while (from < block.items.length) {
+      let to = from;
+      let listHeight = 0;
+      while (to < block.items.length) {
+        const next =
+          listHeight +
+          (to > from ? sizes.bulletSpacing : 0) +
+          estimateBulletItemHeight(block.items[to], sizes, CONTENT_WIDTH);
+        if (!fits(next)) break;
+        listHeight = next;
+        to++;
+      }
+
+      if (to === from) {
+        // Nothing fits: start a new slide, unless it only holds the heading
+        if (current.length > (heading ? 1 : 0)) {
+          nextPart();
+          continue;
+        }
+        listHeight = estimateBulletItemHeight(
+          block.items[from],
+          sizes,
+          CONTENT_WIDTH,
+        );
+        to = from + 1;
+      }
+
+      add(sliceBullets(block, from, to), listHeight);
+      from = to;
+      if (from < block.items.length) nextPart();
+    }
+  }
+  parts.push(current);
+
+  if (parts.length === 1) return [slide];
+  return parts.map((blocks, index) => {
+    const part: SlideContent = { ...slide, blocks };
+    if (index > 0) delete part.notes;
+    return part;
+  });
+}
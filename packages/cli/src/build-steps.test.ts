@@ -0,0 +1,74 @@
+import { describe, expect, it } from "bun:test";
+import type { SlideContent } from "@figdeck/shared";
+import { expandBuildSteps, isPauseComment } from "./build-steps";
+
+const heading = { kind: "heading" as const, level: 2 as const, text: "Title" };
+const paragraph = { kind: "paragraph" as const, text: "Body" };
+const bullets = {
+  kind: "bullets" as const,
+  items: ["One", "Two", "Three"],
+  itemSpans: [[{ text: "One" }], [{ text: "Two" }], [{ text: "Three" }]],
+};
+
+describe("isPauseComment", () => {
+  it("should match pause comments", () => {
+    expect(isPauseComment("<!-- pause -->")).toBe(true);
+    expect(isPauseComment("<!--pause-->")).toBe(true);
+    expect(isPauseComment("  <!-- PAUSE -->  ")).toBe(true);
+  });
+
+  it("should not match other comments", () => {
+    expect(isPauseComment("<!-- notes: pause here -->")).toBe(false);
+    expect(isPauseComment("<!-- paused -->")).toBe(false);
+  });
+});
+
+describe("expandBuildSteps", () => {
+  it("should return the slide unchanged without pauses", () => {
+    const slide: SlideContent = { blocks: [heading, paragraph] };
+    const result = expandBuildSteps(slide, [], false);
+    expect(result).toEqual([slide]);
+    expect(result[0].build).toBeUndefined();
+  });
+
+  it("should add one chunk per pause", () => {
+    const slide: SlideContent = { blocks: [heading, paragraph, bullets] };
+    const result = expandBuildSteps(slide, [1, 2], false);
+
+    expect(result).toHaveLength(3);
+    expect(result.map((s) => s.blocks.length)).toEqual([1, 2, 3]);
+    expect(result.map((s) => s.build)).toEqual([
+      { step: 1, total: 3 },
+      { step: 2, total: 3 },
+      { step: 3, total: 3 },
+    ]);
+  });
+
+  it("should ignore pauses at the start, end or repeated", () => {
+    const slide: SlideContent = { blocks: [heading, paragraph] };
+    const result = expandBuildSteps(slide, [0, 1, 1, 2], false);
+    expect(result).toHaveLength(2);
+  });
+
+  it("should reveal list items one at a time when incremental", () => {
+    const slide: SlideContent = { blocks: [heading, bullets] };
+    const result = expandBuildSteps(slide, [], true);
+
+    expect(result).toHaveLength(3);
+    expect(result[0].blocks).toEqual([
+      heading,
+      { kind: "bullets", items: ["One"], itemSpans: [[{ text: "One" }]] },
+    ]);
+    expect(result[2].blocks).toEqual([heading, bullets]);
+  });
+
+  it("should combine pauses with incremental lists", () => {
+    const slide: SlideContent = { blocks: [heading, bullets, paragraph] };
+    const result = expandBuildSteps(slide, [2], true);
+
+    // one | one, two | all bullets | paragraph
+    expect(result).toHaveLength(4);
+    expect(result[2].blocks).toEqual([heading, bullets]);
+    expect(result[3].blocks).toEqual([heading, bullets, paragraph]);
+  });
+});
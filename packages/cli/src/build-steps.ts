@@ -0,0 +1,83 @@
+import type { SlideBlock, SlideContent } from "@figdeck/shared";
+
+/**
+ * Check whether a raw HTML node is a pause marker:
+ *
+ * <!-- pause -->
+ */
+export function isPauseComment(html: string): boolean {
+  return /^<!--\s*pause\s*-->$/i.test(html.trim());
+}
+
+/**
+ * A point in the reveal sequence: all blocks before `end` are shown, plus
+ * the first `items` top-level items of the bullet list at `end` if set.
+ */
+interface RevealState {
+  end: number;
+  items?: number;
+}
+
+/**
+ * Keep only the first `count` top-level items of a bullet list
+ */
+function truncateBullets(block: SlideBlock, count: number): SlideBlock {
+  if (block.kind !== "bullets") return block;
+  const truncated = Object.assign({}, block, {
+    items: block.items.slice(0, count) as typeof block.items,
+  });
+  if (block.itemSpans) {
+    truncated.itemSpans = block.itemSpans.slice(0, count);
+  }
+  return truncated;
+}
+
+/**
+ * Expand one logical slide into a sequence of build slides.
+ *
+ * Each `<!-- pause -->` (recorded as the block index it appeared at) ends a
+ * step. With `incremental`, every top-level bullet item is revealed in its
+ * own step as well. Returns the slide unchanged when there is only one step.
+ */
+export function expandBuildSteps(
+  slide: SlideContent,
+  pauses: number[],
+  incremental: boolean,
+): SlideContent[] {
+  const { blocks } = slide;
+  const boundaries = Array.from(new Set(pauses))
+    .filter((index) => index > 0 && index < blocks.length)
+    .sort((a, b) => a - b);
+
+  const states: RevealState[] = [];
+  let start = 0;
+  for (const boundary of [...boundaries, blocks.length]) {
+    if (incremental) {
+      for (let index = start; index < boundary; index++) {
+        const block = blocks[index];
+        if (block.kind !== "bullets") continue;
+        for (let count = 1; count < block.items.length; count++) {
+          states.push({ end: index, items: count });
+        }
+      }
+    }
+    states.push({ end: boundary });
+    start = boundary;
+  }
+
+  if (states.length <= 1) {
+    return [slide];
+  }
+
+  return states.map((state, index) => {
+    const stepBlocks = blocks.slice(0, state.end);
+    if (state.items !== undefined) {
+      stepBlocks.push(truncateBullets(blocks[state.end], state.items));
+    }
+    return {
+      ...slide,
+      blocks: stepBlocks,
+      build: { step: index + 1, total: states.length },
+    };
+  });
+}
@@ -153,6 +153,30 @@ some code
     expect(processedMarkdown).toBe(markdown);
   });
 
+  it("should extract titles and user-defined types", () => {
+    const markdown = `:::Decision[Go or no-go]
+Ship it.
+:::`;
+
+    const { calloutBlocks } = extractCalloutBlocks(markdown);
+
+    expect(calloutBlocks).toHaveLength(1);
+    expect(calloutBlocks[0].type).toBe("decision");
+    expect(calloutBlocks[0].title).toBe("Go or no-go");
+    expect(calloutBlocks[0].content).toBe("Ship it.");
+  });
+
+  it("should leave reserved directives alone", () => {
+    const markdown = `:::notes
+Speaker notes.
+:::`;
+
+    const { processedMarkdown, calloutBlocks } = extractCalloutBlocks(markdown);
+
+    expect(calloutBlocks).toHaveLength(0);
+    expect(processedMarkdown).toBe(markdown);
+  });
+
   it("should handle links in callout content", () => {
     const markdown = `:::tip
 Check out [this link](https://example.com) for more info.
@@ -179,6 +203,16 @@ Use \`console.log()\` for debugging.
     expect(codeSpan).toBeDefined();
     expect(codeSpan?.text).toBe("console.log()");
   });
+
+  it("should leave callouts inside fenced code untouched", () => {
+    const markdown = "```md\n:::info\nHello\n:::\n```\n\n:::tip\nReal\n:::";
+
+    const { processedMarkdown, calloutBlocks } = extractCalloutBlocks(markdown);
+
+    expect(calloutBlocks).toHaveLength(1);
+    expect(calloutBlocks[0].content).toBe("Real");
+    expect(processedMarkdown).toStartWith("```md\n:::info\nHello\n:::\n```");
+  });
 });
 
 describe("matchCalloutPlaceholder", () => {
@@ -1,4 +1,9 @@
-import type { CalloutType, TextSpan } from "@figdeck/shared";
+import {
+  type CalloutStyle,
+  isBuiltInCalloutType,
+  type SlideBlock,
+  type TextSpan,
+} from "@figdeck/shared";
 import type {
   Root as MdastRoot,
   Paragraph,
@@ -8,28 +13,42 @@ import type {
 import remarkGfm from "remark-gfm";
 import remarkParse from "remark-parse";
 import { unified } from "unified";
+import { findCodeFenceRanges, isInCodeFence } from "./code-fence.js";
 import { extractSpans } from "./spans.js";
 
 /**
- * Placeholder for a :::note/tip/warning/caution block during AST processing
+ * Placeholder for a :::note/tip/warning/... block during AST processing
  */
 export interface CalloutBlockPlaceholder {
   id: string;
-  type: CalloutType;
+  /** Built-in or user-defined callout type, in lowercase */
+  type: string;
+  /** Custom title from `:::type[Title]` */
+  title?: string;
   content: string;
   spans: TextSpan[];
 }
 
 /**
- * Valid callout types
+ * Directives with their own meaning, which cannot be callout types
  */
-const CALLOUT_TYPES: CalloutType[] = ["note", "tip", "warning", "caution"];
+export const RESERVED_DIRECTIVES: readonly string[] = [
+  "figma",
+  "columns",
+  "column",
+  "notes",
+];
 
 /**
- * Check if a string is a valid callout type
+ * Callout type names: a letter followed by letters, digits and hyphens
  */
-function isCalloutType(type: string): type is CalloutType {
-  return CALLOUT_TYPES.includes(type as CalloutType);
+const CALLOUT_TYPE_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+/**
+ * Check if a string can name a callout type
+ */
+export function isValidCalloutTypeName(type: string): boolean {
+  return CALLOUT_TYPE_PATTERN.test(type) && !RESERVED_DIRECTIVES.includes(type);
 }
 
 /**
@@ -64,8 +83,11 @@ function parseContentSpans(content: string): TextSpan[] {
 }
 
 /**
- * Extract :::note/tip/warning/caution blocks from markdown text and return the modified text
- * with placeholders that can be replaced after AST parsing.
+ * Extract callout blocks (:::note, :::tip, ... or any user-defined type) from
+ * markdown text and return the modified text with placeholders that can be
+ * replaced after AST parsing. Whether a type is defined is only known once
+ * the slide's frontmatter is merged, so every `:::name` that is not a
+ * reserved directive is extracted here.
  *
  * Block format:
  * :::note
@@ -83,6 +105,10 @@ function parseContentSpans(content: string): TextSpan[] {
  * :::caution
  * This action is irreversible.
  * :::
+ *
+ * :::note[Custom title]
+ * The title replaces the type label.
+ * :::
  */
 export function extractCalloutBlocks(
   markdown: string,
@@ -94,35 +120,47 @@ export function extractCalloutBlocks(
   const calloutBlocks: CalloutBlockPlaceholder[] = [];
   let nextIndex = options.startIndex ?? 0;
 
-  // Match :::note/tip/warning/caution ... ::: blocks
-  // The pattern matches the opening directive, captures the type and content, and matches the closing :::
+  // Match :::type ... ::: and :::type[Title] ... ::: blocks
+  // The pattern matches the opening directive, captures the type, title and content, and matches the closing :::
   const calloutBlockRegex =
-    /^:::(note|tip|warning|caution)\s*\n([\s\S]*?)\n:::\s*$/gm;
+    /^:::([a-zA-Z][\w-]*)(?:\[([^\]\n]*)\])?[ \t]*\n([\s\S]*?)\n:::\s*$/gm;
+
+  const codeFences = findCodeFenceRanges(markdown);
 
   const processedMarkdown = markdown.replace(
     calloutBlockRegex,
-    (_match, typeStr: string, content: string) => {
+    (
+      match,
+      typeStr: string,
+      title: string | undefined,
+      content: string,
+      offset: number,
+    ) => {
       const type = typeStr.toLowerCase();
 
-      if (!isCalloutType(type)) {
-        // Should not happen due to regex, but safety check
-        console.warn(`[figdeck] Unknown callout type: ${type}, skipping`);
-        return _match;
+      // Reserved directives are handled by their own extractors, and
+      // directives inside fenced code are samples
+      if (!isValidCalloutTypeName(type) || isInCodeFence(codeFences, offset)) {
+        return match;
       }
 
       const trimmedContent = content.trim();
       const spans = parseContentSpans(trimmedContent);
 
       const id = `FIGDECK_CALLOUT_BLOCK_${nextIndex++}_PLACEHOLDER`;
-      calloutBlocks.push({
+      const calloutBlock: CalloutBlockPlaceholder = {
         id,
         type,
         content: trimmedContent,
         spans,
-      });
-
-      // Return a placeholder paragraph that we can identify after parsing
-      return `\n${id}\n`;
+      };
+      if (title?.trim()) calloutBlock.title = title.trim();
+      calloutBlocks.push(calloutBlock);
+
+      // Return a placeholder paragraph that we can identify after parsing.
+      // It keeps the block's line count so that line numbers of the
+      // processed markdown still match the source.
+      return `\n${id}${"\n".repeat(Math.max(1, match.split("\n").length - 2))}`;
     },
   );
 
@@ -140,3 +178,31 @@ export function matchCalloutPlaceholder(text: string): number | null {
   }
   return null;
 }
+
+/**
+ * Warn about callouts whose type is neither built in nor defined under
+ * `callouts`; they are drawn with the note color and the type name as label
+ */
+export function warnUndefinedCalloutTypes(
+  blocks: SlideBlock[],
+  callouts: Record<string, CalloutStyle> | undefined,
+): void {
+  const items = blocks.flatMap((block) =>
+    block.kind === "columns" ? block.columns.flat() : [block],
+  );
+  const warned = new Set<string>();
+  for (const item of items) {
+    if (
+      item.kind !== "callout" ||
+      isBuiltInCalloutType(item.type) ||
+      (callouts && Object.hasOwn(callouts, item.type)) ||
+      warned.has(item.type)
+    ) {
+      continue;
+    }
+    warned.add(item.type);
+    console.warn(
+      `[figdeck] Unknown callout type "${item.type}". Define it under "callouts" in the frontmatter`,
+    );
+  }
+}
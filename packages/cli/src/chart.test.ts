@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseChart, parseCsv } from "./chart";
+
+describe("parseCsv", () => {
+  it("should split rows and cells, with quoted cells", () => {
+    expect(parseCsv('Name,Value\n"Smith, J",1\r\n\n"Say ""hi""",2\n')).toEqual([
+      ["Name", "Value"],
+      ["Smith, J", "1"],
+      ['Say "hi"', "2"],
+    ]);
+  });
+});
+
+describe("parseChart", () => {
+  it("should parse YAML with labels and named series", () => {
+    const chart = parseChart(
+      `type: line
+title: Revenue
+labels: [Q1, Q2, Q3]
+series:
+  - name: 2024
+    values: [10, 20, 30]
+  - name: 2025
+    values: [15, 25, 35]
+colors: ["#F00"]`,
+      null,
+      undefined,
+    );
+
+    expect(chart).toEqual({
+      type: "line",
+      title: "Revenue",
+      labels: ["Q1", "Q2", "Q3"],
+      series: [
+        { name: "2024", values: [10, 20, 30] },
+        { name: "2025", values: [15, 25, 35] },
+      ],
+      colors: ["#ff0000"],
+    });
+  });
+
+  it("should accept a series map and single values with the type in the meta", () => {
+    expect(
+      parseChart("series:\n  Revenue: [1, 2]", "bar", undefined)?.series,
+    ).toEqual([{ name: "Revenue", values: [1, 2] }]);
+
+    const pie = parseChart(
+      "labels: [A, B]\nvalues: [60, 40]",
+      'pie title="Share"',
+      undefined,
+    );
+    expect(pie).toEqual({
+      type: "pie",
+      title: "Share",
+      labels: ["A", "B"],
+      series: [{ name: "Series 1", values: [60, 40] }],
+    });
+  });
+
+  it("should parse inline CSV", () => {
+    const chart = parseChart(
+      "Month,Visitors,Signups\nJan,120,12\nFeb,150,18",
+      "line",
+      undefined,
+    );
+
+    expect(chart).toEqual({
+      type: "line",
+      labels: ["Jan", "Feb"],
+      series: [
+        { name: "Visitors", values: [120, 150] },
+        { name: "Signups", values: [12, 18] },
+      ],
+    });
+  });
+
+  describe("with files", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "figdeck-chart-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should read a CSV file relative to the base path", () => {
+      writeFileSync(join(dir, "sales.csv"), "Region,Sales\nEU,40\nUS,60\n");
+
+      const chart = parseChart("type: donut\ndata: ./sales.csv", null, dir);
+      expect(chart).toEqual({
+        type: "donut",
+        labels: ["EU", "US"],
+        series: [{ name: "Sales", values: [40, 60] }],
+      });
+    });
+
+    it("should add the CSV file to the watched files", () => {
+      writeFileSync(join(dir, "sales.csv"), "Region,Sales\nEU,40\n");
+      const files = new Set<string>();
+
+      parseChart("data: ./sales.csv", null, dir, { stack: [], files });
+      expect(files).toEqual(new Set([join(dir, "sales.csv")]));
+    });
+
+    it("should warn when the CSV file is missing", () => {
+      const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+      try {
+        expect(parseChart("data: missing.csv", null, dir)).toBeNull();
+        expect(warnSpy).toHaveBeenCalledWith(
+          "[figdeck] Chart data not found: missing.csv",
+        );
+      } finally {
+        warnSpy.mockRestore();
+      }
+    });
+  });
+
+  it("should reject unknown types and invalid values", () => {
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      expect(
+        parseChart("type: radar\nvalues: [1]", null, undefined),
+      ).toBeNull();
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[figdeck] Unknown chart type "radar". Valid types: bar, line, pie, donut',
+      );
+
+      expect(parseChart("values: [1, lots]", null, undefined)).toBeNull();
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[figdeck] Invalid chart value "lots" in series "Series 1"',
+      );
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+
+  it("should keep only the first series of pie charts", () => {
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const chart = parseChart("A,B,C\nx,1,2", "pie", undefined);
+      expect(chart?.series).toEqual([{ name: "B", values: [1] }]);
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[figdeck] pie charts show one series; using "B"',
+      );
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+});
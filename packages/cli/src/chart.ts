@@ -0,0 +1,298 @@
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import {
+  CHART_LAYOUT,
+  type Chart,
+  type ChartSeries,
+  isValidChartType,
+  VALID_CHART_TYPES,
+} from "@figdeck/shared";
+import { parse as parseYaml } from "yaml";
+import { normalizeColor } from "./colors.js";
+import type { IncludeContext } from "./include.js";
+
+/**
+ * Chart settings from the YAML body of a ```chart fence
+ */
+interface ChartYamlConfig {
+  type?: unknown;
+  title?: unknown;
+  labels?: unknown;
+  /** Values of a single unnamed series */
+  values?: unknown;
+  /** List of `{ name, values }`, or a map of series name to values */
+  series?: unknown;
+  /** CSV file with the labels and series, relative to the Markdown file */
+  data?: unknown;
+  colors?: unknown;
+}
+
+/**
+ * Split CSV text into rows of trimmed cells.
+ * Supports quoted cells with `""` escapes; blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endCell = () => {
+    row.push(cell.trim());
+    cell = "";
+  };
+  const endRow = () => {
+    endCell();
+    if (row.some((value) => value !== "")) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      endCell();
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+/**
+ * Parse a chart value; returns null for anything that is not a finite number
+ */
+function parseValue(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string" || value.trim() === "") return null;
+  const number = Number(value.trim());
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Parse a list of chart values, warning about the first invalid one
+ */
+function parseValues(values: unknown, seriesName: string): number[] | null {
+  if (!Array.isArray(values)) {
+    console.warn(
+      `[figdeck] Chart series "${seriesName}" must be a list of numbers`,
+    );
+    return null;
+  }
+  const result: number[] = [];
+  for (const value of values) {
+    const number = parseValue(value);
+    if (number === null) {
+      console.warn(
+        `[figdeck] Invalid chart value "${String(value)}" in series "${seriesName}"`,
+      );
+      return null;
+    }
+    result.push(number);
+  }
+  return result;
+}
+
+/**
+ * Convert CSV rows to labels and series: the first column holds the labels
+ * and every other column is a series named by its header
+ */
+function csvToChartData(
+  rows: string[][],
+): Pick<Chart, "labels" | "series"> | null {
+  const [header, ...body] = rows;
+  if (!header || header.length < 2 || body.length === 0) {
+    console.warn(
+      "[figdeck] Chart CSV needs a header row and a label column plus at least one value column",
+    );
+    return null;
+  }
+  const series: ChartSeries[] = [];
+  for (let column = 1; column < header.length; column++) {
+    const name = header[column] || `Series ${column}`;
+    const values = parseValues(
+      body.map((row) => row[column] ?? ""),
+      name,
+    );
+    if (!values) return null;
+    series.push({ name, values });
+  }
+  return { labels: body.map((row) => row[0]), series };
+}
+
+/**
+ * Read the CSV file referenced by `data:`.
+ * The file is watched like an included file.
+ */
+function readChartCsv(
+  path: string,
+  basePath: string | undefined,
+  includeContext: IncludeContext | undefined,
+): Pick<Chart, "labels" | "series"> | null {
+  const resolvedPath = resolve(basePath ?? ".", path);
+  if (!existsSync(resolvedPath)) {
+    console.warn(`[figdeck] Chart data not found: ${path}`);
+    return null;
+  }
+  includeContext?.files?.add(resolvedPath);
+  try {
+    return csvToChartData(parseCsv(readFileSync(resolvedPath, "utf-8")));
+  } catch (error) {
+    console.warn(
+      `[figdeck] Could not read chart data ${path}: ${(error as Error).message}`,
+    );
+    return null;
+  }
+}
+
+/**
+ * Read `series:` as a list of `{ name, values }` or a map of name to values
+ */
+function parseSeries(series: unknown): ChartSeries[] | null {
+  const entries: Array<[string, unknown]> = Array.isArray(series)
+    ? series.map((entry, index) => {
+        const item = (entry ?? {}) as { name?: unknown; values?: unknown };
+        return [
+          item.name !== undefined ? String(item.name) : `Series ${index + 1}`,
+          item.values,
+        ];
+      })
+    : typeof series === "object" && series !== null
+      ? Object.entries(series)
+      : [];
+  if (entries.length === 0) {
+    console.warn("[figdeck] Chart has no series");
+    return null;
+  }
+  const result: ChartSeries[] = [];
+  for (const [name, values] of entries) {
+    const parsed = parseValues(values, name);
+    if (!parsed) return null;
+    result.push({ name, values: parsed });
+  }
+  return result;
+}
+
+/**
+ * Read the chart type and title from fence meta such as `bar title="Sales"`
+ */
+function parseChartMeta(meta: string | null | undefined): {
+  type?: string;
+  title?: string;
+} {
+  if (!meta) return {};
+  const titleMatch = meta.match(/\btitle=(?:"([^"]*)"|'([^']*)')/);
+  const rest = titleMatch ? meta.replace(titleMatch[0], "") : meta;
+  return {
+    type: rest.trim().split(/\s+/)[0] || undefined,
+    title: titleMatch?.[1] ?? titleMatch?.[2],
+  };
+}
+
+/**
+ * Parse a ```chart fence.
+ * The body is YAML (`type`, `title`, `labels`, `series` or `values`, `data`,
+ * `colors`) or inline CSV; the fence meta can set the type and title, e.g.
+ * ```chart line title="Visitors". A `data:` CSV file is resolved against
+ * `basePath` and added to `includeContext.files` for watch mode. Returns
+ * null (with a warning) if the chart is invalid, so the fence falls back to
+ * a code block.
+ */
+export function parseChart(
+  source: string,
+  meta: string | null | undefined,
+  basePath: string | undefined,
+  includeContext?: IncludeContext,
+): Chart | null {
+  const fromMeta = parseChartMeta(meta);
+
+  let config: ChartYamlConfig = {};
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(source);
+  } catch {
+    parsed = null;
+  }
+  const isYaml =
+    typeof parsed === "object" && parsed !== null && !Array.isArray(parsed);
+  if (isYaml) config = parsed as ChartYamlConfig;
+
+  const type =
+    typeof config.type === "string" ? config.type : (fromMeta.type ?? "bar");
+  if (!isValidChartType(type)) {
+    console.warn(
+      `[figdeck] Unknown chart type "${type}". Valid types: ${VALID_CHART_TYPES.join(", ")}`,
+    );
+    return null;
+  }
+
+  let data: Pick<Chart, "labels" | "series"> | null;
+  if (!isYaml) {
+    data = csvToChartData(parseCsv(source));
+  } else if (typeof config.data === "string") {
+    data = readChartCsv(config.data, basePath, includeContext);
+  } else {
+    const series =
+      config.series !== undefined
+        ? parseSeries(config.series)
+        : config.values !== undefined
+          ? parseSeries([{ name: "Series 1", values: config.values }])
+          : parseSeries(undefined);
+    if (!series) return null;
+    const longest = Math.max(...series.map((s) => s.values.length));
+    const labels = Array.isArray(config.labels)
+      ? config.labels.map((label) => String(label ?? ""))
+      : Array.from({ length: longest }, (_, index) => String(index + 1));
+    data = { labels, series };
+  }
+  if (!data) return null;
+
+  let { labels, series } = data;
+  if (labels.length > CHART_LAYOUT.MAX_POINTS) {
+    console.warn(
+      `[figdeck] Chart has ${labels.length} labels; only the first ${CHART_LAYOUT.MAX_POINTS} are shown`,
+    );
+    labels = labels.slice(0, CHART_LAYOUT.MAX_POINTS);
+  }
+  if (series.length > CHART_LAYOUT.MAX_SERIES) {
+    console.warn(
+      `[figdeck] Chart has ${series.length} series; only the first ${CHART_LAYOUT.MAX_SERIES} are shown`,
+    );
+    series = series.slice(0, CHART_LAYOUT.MAX_SERIES);
+  }
+  if ((type === "pie" || type === "donut") && series.length > 1) {
+    console.warn(
+      `[figdeck] ${type} charts show one series; using "${series[0].name}"`,
+    );
+    series = series.slice(0, 1);
+  }
+  series = series.map((s) => ({
+    name: s.name,
+    values: s.values.slice(0, labels.length),
+  }));
+
+  const chart: Chart = { type, labels, series };
+  const title =
+    typeof config.title === "string" ? config.title : fromMeta.title;
+  if (title) chart.title = title;
+  if (Array.isArray(config.colors)) {
+    const colors = config.colors
+      .filter((color): color is string => typeof color === "string")
+      .map((color) => normalizeColor(color));
+    if (colors.length > 0) chart.colors = colors;
+  }
+  return chart;
+}
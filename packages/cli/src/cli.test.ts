@@ -81,6 +81,33 @@ describe("CLI", () => {
       );
       expect(hasBackground).toBe(true);
     });
+
+    it("should apply figdeck.config.json from a parent directory", async () => {
+      const tmpDir = join(import.meta.dir, ".tmp-config-test");
+      rmSync(tmpDir, { recursive: true, force: true });
+      mkdirSync(join(tmpDir, "decks"), { recursive: true });
+      try {
+        writeFileSync(
+          join(tmpDir, "figdeck.config.json"),
+          JSON.stringify({
+            frontmatter: { align: "center", paragraphs: { size: 30 } },
+          }),
+        );
+        writeFileSync(
+          join(tmpDir, "decks", "slides.md"),
+          "---\nalign: right\n---\n\n# Title\n\nBody\n",
+        );
+
+        const result =
+          await $`bun ${CLI_PATH} build ${join(tmpDir, "decks", "slides.md")}`.text();
+        const slides = JSON.parse(result);
+
+        expect(slides[0].align).toBe("right");
+        expect(slides[0].styles.paragraphs).toEqual({ size: 30 });
+      } finally {
+        rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe("serve command", () => {
@@ -96,6 +123,49 @@ describe("CLI", () => {
     });
   });
 
+  describe("lint command", () => {
+    it("should exit with zero for a valid deck", async () => {
+      const result = await $`bun ${CLI_PATH} lint ${FIXTURES_DIR}/sample.md`
+        .nothrow()
+        .quiet();
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout.toString()).toContain("0 errors");
+    });
+
+    it("should exit with non-zero when errors are found", async () => {
+      const result =
+        await $`bun ${CLI_PATH} lint ${FIXTURES_DIR}/backgrounds.md --format json`
+          .nothrow()
+          .quiet();
+      const report = JSON.parse(result.stdout.toString());
+
+      expect(result.exitCode).toBe(1);
+      expect(report.errorCount).toBeGreaterThan(0);
+      expect(report.files[0].issues[0].code).toBe("background-image-not-found");
+    });
+
+    it("should reject unknown formats", async () => {
+      const result =
+        await $`bun ${CLI_PATH} lint ${FIXTURES_DIR}/sample.md --format xml`
+          .nothrow()
+          .quiet();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr.toString()).toContain("Invalid --format");
+    });
+  });
+
+  describe("preview command", () => {
+    it("should show help without errors", async () => {
+      const result = await $`bun ${CLI_PATH} preview --help`.text();
+
+      expect(result).toContain("preview");
+      expect(result).toContain("--port");
+      expect(result).toContain("--no-watch");
+    });
+  });
+
   describe("help", () => {
     it("should show available commands", async () => {
       const result = await $`bun ${CLI_PATH} --help`.text();
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "bun:test";
+import { findCodeFenceRanges, isInCodeFence } from "./code-fence";
+
+describe("findCodeFenceRanges", () => {
+  it("should find backtick and tilde fences", () => {
+    const markdown = "a\n```\nb\n```\nc\n~~~\nd\n~~~";
+    expect(findCodeFenceRanges(markdown)).toEqual([
+      { start: 2, end: 11 },
+      { start: 14, end: 23 },
+    ]);
+  });
+
+  it("should only close a fence with the same marker", () => {
+    const markdown = "````\n```\n````\nafter";
+    expect(findCodeFenceRanges(markdown)).toEqual([{ start: 0, end: 13 }]);
+  });
+
+  it("should run an unclosed fence to the end", () => {
+    const markdown = "text\n```\ncode";
+    expect(findCodeFenceRanges(markdown)).toEqual([
+      { start: 5, end: markdown.length },
+    ]);
+  });
+});
+
+describe("isInCodeFence", () => {
+  it("should check offsets against the ranges", () => {
+    const ranges = findCodeFenceRanges("a\n```\nb\n```\nc");
+    expect(isInCodeFence(ranges, 0)).toBe(false);
+    expect(isInCodeFence(ranges, 6)).toBe(true);
+    expect(isInCodeFence(ranges, 12)).toBe(false);
+  });
+});
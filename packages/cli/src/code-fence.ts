@@ -0,0 +1,52 @@
+/**
+ * Character range of a fenced code block, from the start of its opening
+ * fence line to the end of its closing fence line
+ */
+export interface CodeFenceRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Find fenced code blocks (``` or ~~~) in markdown, so that directive
+ * extractors can leave code samples alone. An unclosed fence runs to the end.
+ */
+export function findCodeFenceRanges(markdown: string): CodeFenceRange[] {
+  const ranges: CodeFenceRange[] = [];
+  let codeFence: string | null = null;
+  let fenceStart = 0;
+  let offset = 0;
+
+  for (const line of markdown.split("\n")) {
+    const lineEnd = offset + line.length;
+    const trimmed = line.trim();
+
+    const fenceMatch = trimmed.match(/^(```+|~~~+)/);
+    if (fenceMatch) {
+      if (codeFence === null) {
+        codeFence = fenceMatch[1];
+        fenceStart = offset;
+      } else if (trimmed.startsWith(codeFence)) {
+        codeFence = null;
+        ranges.push({ start: fenceStart, end: lineEnd });
+      }
+    }
+
+    offset = lineEnd + 1;
+  }
+
+  if (codeFence !== null) {
+    ranges.push({ start: fenceStart, end: markdown.length });
+  }
+  return ranges;
+}
+
+/**
+ * Whether a character offset lies inside one of the ranges
+ */
+export function isInCodeFence(
+  ranges: CodeFenceRange[],
+  offset: number,
+): boolean {
+  return ranges.some((range) => offset >= range.start && offset <= range.end);
+}
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  CODE_THEMES,
+  loadCodeTheme,
+  parseTokenColorTheme,
+} from "./code-themes";
+import { parseSlideConfig } from "./config";
+
+describe("parseTokenColorTheme", () => {
+  it("maps TextMate scopes to token kinds", () => {
+    const palette = parseTokenColorTheme({
+      colors: {
+        "editor.background": "#1E1E1E",
+        "editor.foreground": "#d4d4d4",
+      },
+      tokenColors: [
+        { scope: "comment", settings: { foreground: "#6A9955" } },
+        {
+          scope: ["keyword.control", "storage.type"],
+          settings: { foreground: "#C586C0" },
+        },
+        { scope: "string.quoted.double", settings: { foreground: "#ce9178" } },
+        {
+          scope: "entity.name.function, support.function",
+          settings: { foreground: "#DCDCAA" },
+        },
+        { scope: "keyword", settings: { foreground: "#569cd6" } },
+      ],
+    });
+
+    expect(palette).toEqual({
+      background: "#1e1e1e",
+      colors: {
+        keyword: "#569cd6",
+        string: "#ce9178",
+        comment: "#6a9955",
+        function: "#dcdcaa",
+        default: "#d4d4d4",
+      },
+    });
+  });
+
+  it("accepts highlight.js scopes, scope-less rules and alpha colors", () => {
+    const palette = parseTokenColorTheme({
+      tokenColors: [
+        { settings: { foreground: "#333333", background: "#ffffff" } },
+        { scope: "title.function", settings: { foreground: "#6f42c1" } },
+        { scope: "built_in", settings: { foreground: "#d73a49cc" } },
+      ],
+    });
+
+    expect(palette).toEqual({
+      background: "#ffffff",
+      colors: { keyword: "#d73a49", function: "#6f42c1", default: "#333333" },
+    });
+  });
+});
+
+describe("loadCodeTheme", () => {
+  let dir: string;
+  let warnSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "figdeck-code-theme-"));
+    warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns built-in themes by name", () => {
+    expect(loadCodeTheme("github-light", dir)).toBe(
+      CODE_THEMES["github-light"],
+    );
+  });
+
+  it("loads JSON theme files relative to the base path", () => {
+    writeFileSync(
+      join(dir, "theme.json"),
+      JSON.stringify({ colors: { "editor.background": "#101010" } }),
+    );
+    expect(loadCodeTheme("./theme.json", dir)).toEqual({
+      background: "#101010",
+    });
+  });
+
+  it("loads theme files with comments and trailing commas", () => {
+    writeFileSync(
+      join(dir, "theme.json"),
+      [
+        "{",
+        "  // Editor colors",
+        '  "colors": { "editor.background": "#101010", },',
+        '  /* "tokenColors": [] */',
+        '  "tokenColors": [',
+        '    { "scope": "comment", "settings": { "foreground": "#6a737d" } }, // muted',
+        "  ],",
+        '  "name": "A // B",',
+        "}",
+      ].join("\n"),
+    );
+    expect(loadCodeTheme("./theme.json", dir)).toEqual({
+      background: "#101010",
+      colors: { comment: "#6a737d" },
+    });
+  });
+
+  it("adds theme files to the watched files", () => {
+    writeFileSync(join(dir, "theme.json"), "{}");
+    const files = new Set<string>();
+    loadCodeTheme("./theme.json", dir, { stack: [], files });
+    expect(files).toEqual(new Set([join(dir, "theme.json")]));
+  });
+
+  it("warns about unknown themes", () => {
+    expect(loadCodeTheme("monokai-pro", dir)).toBeNull();
+    expect(loadCodeTheme("./missing.json", dir)).toBeNull();
+    expect(warnSpy).toHaveBeenCalledWith(
+      "[figdeck] Code theme not found: ./missing.json",
+    );
+  });
+
+  it("lets explicit colors override the theme in frontmatter", () => {
+    const { styles } = parseSlideConfig({
+      code: { theme: "dracula", colors: { keyword: "#ff0000" } },
+    });
+    expect(styles.codePalette?.background).toBe("#282a36");
+    expect(styles.codePalette?.colors).toEqual({
+      ...CODE_THEMES.dracula.colors,
+      keyword: "#ff0000",
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { CodePalette, CodeTokenType } from "@figdeck/shared";
+import { normalizeColor } from "./colors.js";
+import type { IncludeContext } from "./include.js";
+
+/**
+ * Built-in syntax highlighting themes for `code.theme`
+ */
+export const CODE_THEMES: Record<string, CodePalette> = {
+  "one-dark": {
+    background: "#282c34",
+    colors: {
+      keyword: "#c678dd",
+      string: "#98c379",
+      number: "#d19a66",
+      comment: "#7f848e",
+      function: "#61afef",
+      variable: "#e06c75",
+      type: "#e5c07b",
+      punctuation: "#abb2bf",
+      default: "#abb2bf",
+    },
+  },
+  "one-light": {
+    background: "#fafafa",
+    colors: {
+      keyword: "#a626a4",
+      string: "#50a14f",
+      number: "#986801",
+      comment: "#a0a1a7",
+      function: "#4078f2",
+      variable: "#e45649",
+      type: "#c18401",
+      punctuation: "#383a42",
+      default: "#383a42",
+    },
+  },
+  "github-dark": {
+    background: "#0d1117",
+    colors: {
+      keyword: "#ff7b72",
+      string: "#a5d6ff",
+      number: "#79c0ff",
+      comment: "#8b949e",
+      function: "#d2a8ff",
+      variable: "#ffa657",
+      type: "#ffa657",
+      punctuation: "#c9d1d9",
+      default: "#c9d1d9",
+    },
+  },
+  "github-light": {
+    background: "#f6f8fa",
+    colors: {
+      keyword: "#cf222e",
+      string: "#0a3069",
+      number: "#0550ae",
+      comment: "#6e7781",
+      function: "#8250df",
+      variable: "#953800",
+      type: "#953800",
+      punctuation: "#24292f",
+      default: "#24292f",
+    },
+  },
+  dracula: {
+    background: "#282a36",
+    colors: {
+      keyword: "#ff79c6",
+      string: "#f1fa8c",
+      number: "#bd93f9",
+      comment: "#6272a4",
+      function: "#50fa7b",
+      variable: "#ffb86c",
+      type: "#8be9fd",
+      punctuation: "#f8f8f2",
+      default: "#f8f8f2",
+    },
+  },
+  nord: {
+    background: "#2e3440",
+    colors: {
+      keyword: "#81a1c1",
+      string: "#a3be8c",
+      number: "#b48ead",
+      comment: "#616e88",
+      function: "#88c0d0",
+      variable: "#d8dee9",
+      type: "#8fbcbb",
+      punctuation: "#eceff4",
+      default: "#d8dee9",
+    },
+  },
+  "solarized-light": {
+    background: "#fdf6e3",
+    colors: {
+      keyword: "#859900",
+      string: "#2aa198",
+      number: "#d33682",
+      comment: "#93a1a1",
+      function: "#268bd2",
+      variable: "#b58900",
+      type: "#cb4b16",
+      punctuation: "#657b83",
+      default: "#657b83",
+    },
+  },
+};
+
+/**
+ * Scopes that give each token kind its color, most preferred first.
+ * Covers TextMate scopes (VS Code themes) and highlight.js scope names.
+ */
+const TOKEN_SCOPES: Record<Exclude<CodeTokenType, "default">, string[]> = {
+  keyword: [
+    "keyword",
+    "keyword.control",
+    "storage",
+    "storage.type",
+    "built_in",
+  ],
+  string: ["string", "string.quoted", "regexp"],
+  number: ["constant.numeric", "number", "constant.language", "literal"],
+  comment: ["comment"],
+  function: [
+    "entity.name.function",
+    "support.function",
+    "title.function",
+    "title",
+  ],
+  variable: [
+    "variable",
+    "variable.other",
+    "variable.parameter",
+    "attr",
+    "entity.other.attribute-name",
+  ],
+  type: [
+    "entity.name.type",
+    "support.type",
+    "entity.name.class",
+    "support.class",
+    "type",
+    "class",
+  ],
+  punctuation: ["punctuation", "keyword.operator", "operator"],
+};
+
+/**
+ * A theme in the token-color JSON format used by VS Code and TextMate themes
+ */
+interface TokenColorTheme {
+  colors?: Record<string, unknown>;
+  tokenColors?: Array<{
+    scope?: string | string[];
+    settings?: { foreground?: unknown; background?: unknown };
+  }>;
+}
+
+/**
+ * Normalize a theme color, dropping the alpha of #rrggbbaa colors
+ */
+function themeColor(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const color = /^#[0-9a-fA-F]{8}$/.test(value) ? value.slice(0, 7) : value;
+  return normalizeColor(color);
+}
+
+/**
+ * Convert a token-color theme to a code palette.
+ * The frame background and default text come from `editor.background` /
+ * `editor.foreground` (or the scope-less rule); token kinds use the first
+ * preferred scope found, first by exact match and then by scope prefix.
+ */
+export function parseTokenColorTheme(theme: TokenColorTheme): CodePalette {
+  const scopeColors = new Map<string, string>();
+  let globalSettings: { foreground?: unknown; background?: unknown } = {};
+
+  for (const rule of theme.tokenColors ?? []) {
+    if (!rule?.settings) continue;
+    if (rule.scope === undefined) {
+      globalSettings = rule.settings;
+      continue;
+    }
+    const color = themeColor(rule.settings.foreground);
+    if (!color) continue;
+    const scopes = Array.isArray(rule.scope)
+      ? rule.scope
+      : String(rule.scope).split(",");
+    for (const scope of scopes) {
+      scopeColors.set(scope.trim(), color);
+    }
+  }
+
+  const findColor = (preferred: string[]): string | undefined => {
+    for (const scope of preferred) {
+      const color = scopeColors.get(scope);
+      if (color) return color;
+    }
+    for (const scope of preferred) {
+      for (const [candidate, color] of scopeColors) {
+        if (candidate.startsWith(`${scope}.`)) return color;
+      }
+    }
+    return undefined;
+  };
+
+  const colors: NonNullable<CodePalette["colors"]> = {};
+  for (const token of Object.keys(TOKEN_SCOPES) as Array<
+    keyof typeof TOKEN_SCOPES
+  >) {
+    const color = findColor(TOKEN_SCOPES[token]);
+    if (color) colors[token] = color;
+  }
+  const foreground =
+    themeColor(theme.colors?.["editor.foreground"]) ??
+    themeColor(globalSettings.foreground);
+  if (foreground) colors.default = foreground;
+
+  const palette: CodePalette = {};
+  const background =
+    themeColor(theme.colors?.["editor.background"]) ??
+    themeColor(globalSettings.background);
+  if (background) palette.background = background;
+  if (Object.keys(colors).length > 0) palette.colors = colors;
+  return palette;
+}
+
+/**
+ * Parse JSON with comments and trailing commas (JSONC), the format VS Code
+ * theme files are written in
+ */
+function parseJsonc(text: string): unknown {
+  let json = "";
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    if (char === '"') {
+      // Copy strings as-is so `//` in a value is not treated as a comment
+      let end = index + 1;
+      while (end < text.length && text[end] !== '"') {
+        end += text[end] === "\\" ? 2 : 1;
+      }
+      json += text.slice(index, end + 1);
+      index = end + 1;
+    } else if (char === "/" && text[index + 1] === "/") {
+      const end = text.indexOf("\n", index);
+      index = end === -1 ? text.length : end;
+    } else if (char === "/" && text[index + 1] === "*") {
+      const end = text.indexOf("*/", index + 2);
+      index = end === -1 ? text.length : end + 2;
+    } else {
+      if (char === "}" || char === "]") {
+        // Drop a trailing comma, even one followed by a comment
+        const trimmed = json.trimEnd();
+        if (trimmed.endsWith(",")) json = trimmed.slice(0, -1);
+      }
+      json += char;
+      index++;
+    }
+  }
+  return JSON.parse(json);
+}
+
+/**
+ * Resolve a `code.theme` value: a built-in theme name or a token-color JSON
+ * (or JSONC) file relative to `basePath`. Theme files are added to
+ * `includeContext.files` for watch mode. Returns null (with a warning) if it
+ * cannot be loaded.
+ */
+export function loadCodeTheme(
+  name: string,
+  basePath: string | undefined,
+  includeContext?: IncludeContext,
+): CodePalette | null {
+  if (Object.hasOwn(CODE_THEMES, name)) return CODE_THEMES[name];
+
+  if (!name.toLowerCase().endsWith(".json")) {
+    console.warn(
+      `[figdeck] Unknown code theme "${name}". Use a JSON theme file or one of: ${Object.keys(CODE_THEMES).join(", ")}`,
+    );
+    return null;
+  }
+
+  const path = resolve(basePath ?? ".", name);
+  if (!existsSync(path)) {
+    console.warn(`[figdeck] Code theme not found: ${name}`);
+    return null;
+  }
+  includeContext?.files?.add(path);
+  try {
+    return parseTokenColorTheme(
+      parseJsonc(readFileSync(path, "utf-8")) as TokenColorTheme,
+    );
+  } catch (error) {
+    console.warn(
+      `[figdeck] Could not read code theme ${name}: ${(error as Error).message}`,
+    );
+    return null;
+  }
+}
@@ -49,6 +49,15 @@ describe("normalizeColor", () => {
     });
   });
 
+  describe("variable references", () => {
+    it("should keep the variable name and normalize the fallback", () => {
+      expect(normalizeColor("var(Brand/Primary)")).toBe("var(Brand/Primary)");
+      expect(normalizeColor(" var( Brand/Primary ,#ABC )")).toBe(
+        "var(Brand/Primary, #aabbcc)",
+      );
+    });
+  });
+
   describe("unrecognized formats", () => {
     it("should return unrecognized colors as-is", () => {
       expect(normalizeColor("red")).toBe("red");
@@ -94,6 +103,11 @@ describe("parseGradient", () => {
     expect(result?.stops[1].color).toBe("#ff8000");
   });
 
+  it("should accept variable references without fallback as stops", () => {
+    const result = parseGradient("var(Brand/Primary):0%,#fff:100%");
+    expect(result?.stops[0].color).toBe("var(Brand/Primary)");
+  });
+
   it("should return null for invalid gradients", () => {
     expect(parseGradient("")).toBeNull();
     expect(parseGradient("#fff:100%")).toBeNull(); // Only one stop
@@ -24,7 +24,7 @@ export interface ColumnsBlockPlaceholder {
  * @param availableWidth - Available width for percentage/fr calculations
  * @returns Width in pixels or null if invalid
  */
-function parseWidthValue(
+export function parseWidthValue(
   value: string,
   totalFr: number,
   availableWidth: number,
@@ -193,19 +193,22 @@ export function extractColumnsBlocks(markdown: string): {
     const columnsMatch = line.match(/^:::columns(?:\s+(.*))?$/);
 
     if (columnsMatch) {
+      const blockStart = i;
       const attrsStr = columnsMatch[1] || "";
       const blockLines: string[] = [];
       i++; // Move past :::columns
 
       // Collect all lines until we find a standalone ::: (not another directive)
-      // Track nesting depth for nested directive blocks (figma, note, tip, warning, caution)
+      // Track nesting depth for nested directive blocks (figma, callouts, notes)
       let nestedDepth = 0;
       while (i < lines.length) {
         const currentLine = lines[i];
         const trimmedLine = currentLine.trim();
 
         // Check for opening nested directive blocks
-        if (/^:::(figma|note|tip|warning|caution)\s*$/.test(trimmedLine)) {
+        if (
+          /^:::(?!columns?\b)[a-zA-Z][\w-]*(\[[^\]]*\])?\s*$/.test(trimmedLine)
+        ) {
           nestedDepth++;
           blockLines.push(currentLine);
           i++;
@@ -230,6 +233,16 @@ export function extractColumnsBlocks(markdown: string): {
       }
       i++; // Move past closing :::
 
+      // Replacements keep the block's line count so that line numbers of
+      // the processed markdown still match the source
+      const blockLineCount = Math.min(i, lines.length) - blockStart;
+      const pushBlockLines = (replacement: string[]) => {
+        result.push(...replacement);
+        for (let n = replacement.length; n < blockLineCount; n++) {
+          result.push("");
+        }
+      };
+
       const content = blockLines.join("\n");
 
       // Split content by :::column markers
@@ -245,7 +258,7 @@ export function extractColumnsBlocks(markdown: string): {
           `[figdeck] :::columns block has ${columnContents.length} columns, minimum is ${LAYOUT.MIN_COLUMNS}. Rendering as linear content.`,
         );
         // Return the content as-is (fallback)
-        result.push(content);
+        pushBlockLines(["", ...blockLines]);
         continue;
       }
 
@@ -266,9 +279,7 @@ export function extractColumnsBlocks(markdown: string): {
       columnsBlocks.push({ id, attributes, columnContents });
 
       // Add placeholder
-      result.push("");
-      result.push(id);
-      result.push("");
+      pushBlockLines(["", id, ""]);
     } else {
       result.push(line);
       i++;
@@ -1,9 +1,11 @@
-import { describe, expect, it } from "bun:test";
+import { describe, expect, it, spyOn } from "bun:test";
+import { CONTENT_WIDTH } from "@figdeck/shared";
 import {
   mergeFontsConfig,
   mergeSlideNumberConfig,
   mergeStyles,
   mergeTransitionConfig,
+  parseAutoFitConfig,
   parseFontSize,
   parseSlideConfig,
   parseTransitionConfig,
@@ -59,6 +61,19 @@ describe("parseSlideConfig", () => {
         expect(result.background?.gradient?.angle).toBe(45);
       });
 
+      it("should parse color variables in solids and gradients", () => {
+        expect(
+          parseSlideConfig({ background: "var(Brand/Surface, #FFF)" })
+            .background,
+        ).toEqual({ solid: "var(Brand/Surface, #ffffff)" });
+        const result = parseSlideConfig({
+          background: "var(Brand/Primary):0%,#fff:100%",
+        });
+        expect(result.background?.gradient?.stops[0].color).toBe(
+          "var(Brand/Primary)",
+        );
+      });
+
       it("should parse Figma component URL", () => {
         const result = parseSlideConfig({
           background: "https://www.figma.com/design/abc123?node-id=456-789",
@@ -403,6 +418,17 @@ describe("parseSlideConfig", () => {
       expect(result.styles.code?.size).toBe(14);
     });
 
+    it("should parse Figma text style names", () => {
+      const result = parseSlideConfig({
+        headings: { h1: { textStyle: " Slides/Title " } },
+        paragraphs: { textStyle: "Slides/Body" },
+        code: { textStyle: "" },
+      });
+      expect(result.styles.headings?.h1?.textStyle).toBe("Slides/Title");
+      expect(result.styles.paragraphs?.textStyle).toBe("Slides/Body");
+      expect(result.styles.code).toBeUndefined();
+    });
+
     it("should apply base color to all text styles", () => {
       const result = parseSlideConfig({
         color: "#ffffff",
@@ -861,6 +887,36 @@ describe("mergeTransitionConfig", () => {
   });
 });
 
+describe("id in parseSlideConfig", () => {
+  it("should parse string id", () => {
+    const result = parseSlideConfig({ id: "intro" });
+    expect(result.id).toBe("intro");
+  });
+
+  it("should convert numeric id to string", () => {
+    const result = parseSlideConfig({ id: 7 });
+    expect(result.id).toBe("7");
+  });
+
+  it("should ignore invalid id", () => {
+    const result = parseSlideConfig({ id: ["a"] as never });
+    expect(result.id).toBeUndefined();
+  });
+});
+
+describe("layout in parseSlideConfig", () => {
+  it("should parse valid layouts", () => {
+    expect(parseSlideConfig({ layout: "section" }).layout).toBe("section");
+    expect(parseSlideConfig({ layout: "big-number" }).layout).toBe(
+      "big-number",
+    );
+  });
+
+  it("should ignore invalid layouts", () => {
+    expect(parseSlideConfig({ layout: "sideways" }).layout).toBeUndefined();
+  });
+});
+
 describe("transition in parseSlideConfig", () => {
   it("should parse transition shorthand", () => {
     const result = parseSlideConfig({ transition: "dissolve" });
@@ -1074,3 +1130,168 @@ describe("mergeStyles with fonts", () => {
     expect(result.fonts?.h1?.family).toBe("Inter");
   });
 });
+
+describe("code and callout colors in parseSlideConfig", () => {
+  it("should parse the code palette next to the code text style", () => {
+    const result = parseSlideConfig({
+      code: {
+        size: 20,
+        background: "#FFF",
+        colors: { keyword: "#D73A49", default: "#24292e" },
+      },
+    });
+
+    expect(result.styles.code).toEqual({ size: 20 });
+    expect(result.styles.codePalette).toEqual({
+      background: "#ffffff",
+      colors: { keyword: "#d73a49", default: "#24292e" },
+    });
+  });
+
+  it("should parse callout colors, icons and labels", () => {
+    const result = parseSlideConfig({
+      callouts: {
+        tip: { color: "#0a0" },
+        decision: { color: "#f00", icon: " ⚖️ ", label: "Decision" },
+      },
+    });
+
+    expect(result.styles.callouts).toEqual({
+      tip: { color: "#00aa00" },
+      decision: { color: "#ff0000", icon: "⚖️", label: "Decision" },
+    });
+  });
+
+  it("should warn about invalid and reserved callout types", () => {
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const result = parseSlideConfig({
+        callouts: { notes: { color: "#f00" }, "My Type": { color: "#f00" } },
+      });
+
+      expect(result.styles.callouts).toBeUndefined();
+      expect(warnSpy).toHaveBeenCalledTimes(2);
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[figdeck] Invalid callout type "notes". Use lowercase letters, digits and hyphens, except figma, columns, column, notes',
+      );
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+});
+
+describe("mergeStyles with code and callout colors", () => {
+  it("should merge token colors and callout types individually", () => {
+    const result = mergeStyles(
+      {
+        codePalette: { background: "#fafafa", colors: { keyword: "#d73a49" } },
+        callouts: { note: { color: "#0969da" } },
+      },
+      {
+        codePalette: { colors: { string: "#032f62" } },
+        callouts: { tip: { color: "#1a7f37" } },
+      },
+    );
+
+    expect(result.codePalette).toEqual({
+      background: "#fafafa",
+      colors: { keyword: "#d73a49", string: "#032f62" },
+    });
+    expect(result.callouts).toEqual({
+      note: { color: "#0969da" },
+      tip: { color: "#1a7f37" },
+    });
+  });
+});
+
+describe("table style in parseSlideConfig", () => {
+  it("should parse colors, borders, padding and font size", () => {
+    const result = parseSlideConfig({
+      table: {
+        size: 20,
+        headerBackground: "#1F2937",
+        headerColor: "#FFF",
+        stripeBackground: "#f3f4f6",
+        borderColor: "#d1d5db",
+        borderWidth: 0,
+        padding: 8,
+      },
+    });
+
+    expect(result.styles.table).toEqual({
+      size: 20,
+      headerBackground: "#1f2937",
+      headerColor: "#ffffff",
+      stripeBackground: "#f3f4f6",
+      borderColor: "#d1d5db",
+      borderWidth: 0,
+      padding: 8,
+    });
+  });
+
+  it("should resolve column widths against the content width", () => {
+    const result = parseSlideConfig({ table: { columnWidths: "3fr/1fr/200" } });
+
+    expect(result.styles.table?.columnWidths).toEqual([
+      Math.round((CONTENT_WIDTH * 3) / 4),
+      Math.round(CONTENT_WIDTH / 4),
+      200,
+    ]);
+  });
+
+  it("should warn about invalid column widths and drop them", () => {
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const result = parseSlideConfig({
+        table: { columnWidths: "1fr/wide", borderWidth: -1 },
+      });
+
+      expect(result.styles.table).toBeUndefined();
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[figdeck] Invalid table column width "wide", sizing columns to content',
+      );
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+
+  it("should merge slide table styles over the defaults", () => {
+    const result = mergeStyles(
+      { table: { headerBackground: "#1f2937", padding: 8 } },
+      { table: { padding: 16 } },
+    );
+
+    expect(result.table).toEqual({ headerBackground: "#1f2937", padding: 16 });
+  });
+});
+
+describe("parseAutoFitConfig", () => {
+  it("should parse shorthand modes", () => {
+    expect(parseAutoFitConfig("shrink")).toEqual({ mode: "shrink" });
+    expect(parseAutoFitConfig("split")).toEqual({ mode: "split" });
+  });
+
+  it("should parse full object config", () => {
+    expect(parseAutoFitConfig({ mode: "shrink", minScale: 0.75 })).toEqual({
+      mode: "shrink",
+      minScale: 0.75,
+    });
+  });
+
+  it("should return null when disabled", () => {
+    expect(parseAutoFitConfig(false)).toBeNull();
+  });
+
+  it("should warn about invalid modes and scales", () => {
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      expect(parseAutoFitConfig("squeeze")).toBeUndefined();
+      expect(parseAutoFitConfig({ mode: "shrink", minScale: 2 })).toEqual({
+        mode: "shrink",
+      });
+      expect(warnSpy).toHaveBeenCalledTimes(2);
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+});
@@ -1,13 +1,18 @@
 import type {
+  AutoFitConfig,
   BackgroundComponent,
   BackgroundComponentAlign,
   BackgroundComponentFit,
   BackgroundImage,
+  CalloutStyle,
+  CodePalette,
+  CodeTokenType,
   FontConfig,
   FontVariant,
   HorizontalAlign,
   TextStyle as ParsedTextStyle,
   SlideBackground,
+  SlideLayout,
   SlideNumberConfig,
   SlideNumberPosition,
   SlideStyles,
@@ -16,20 +21,36 @@ import type {
   SlideTransitionStyle,
   SlideTransitionTiming,
   SlideTransitionTimingType,
+  TableStyle,
   TitlePrefixConfig,
   VerticalAlign,
 } from "@figdeck/shared";
 import {
+  CONTENT_WIDTH,
+  isValidSlideLayout,
   normalizeTransitionCurve,
   normalizeTransitionStyle,
+  parseColorVariable,
+  VALID_SLIDE_LAYOUTS,
 } from "@figdeck/shared";
+import {
+  isValidCalloutTypeName,
+  RESERVED_DIRECTIVES,
+} from "./callout-block.js";
+import { loadCodeTheme } from "./code-themes.js";
 import { normalizeColor, parseGradient } from "./colors.js";
+import { parseWidthValue } from "./columns-block.js";
 import { parseFigmaUrl } from "./figma-block.js";
+import type { IncludeContext } from "./include.js";
 import {
+  getMimeType,
   isRemoteUrl,
   isSupportedImageFormat,
+  type LocalImageOptions,
   readLocalImage,
+  SVG_MIME_TYPE,
 } from "./local-image.js";
+import { parseSlideId } from "./slide-id.js";
 import { getTemplateDefaults } from "./templates.js";
 
 /**
@@ -41,6 +62,42 @@ interface TextStyle {
   x?: number;
   y?: number;
   spacing?: number;
+  textStyle?: string;
+}
+
+/**
+ * Code style from YAML: a text style plus the code block colors
+ */
+interface CodeYamlConfig extends TextStyle {
+  /** Built-in theme name or token-color JSON file */
+  theme?: string;
+  background?: string;
+  colors?: Record<string, string>;
+}
+
+/**
+ * Callout appearance from YAML, keyed by built-in or user-defined type
+ */
+type CalloutsYamlConfig = Record<
+  string,
+  { color?: string; icon?: string; label?: string }
+>;
+
+/**
+ * Table style from YAML
+ */
+interface TableYamlConfig {
+  size?: number;
+  color?: string;
+  headerColor?: string;
+  headerBackground?: string;
+  background?: string;
+  stripeBackground?: string;
+  borderColor?: string;
+  borderWidth?: number;
+  padding?: number;
+  /** Widths separated by `/`, in the units of `:::columns` (e.g. "2fr/1fr/1fr") */
+  columnWidths?: string;
 }
 
 /**
@@ -98,6 +155,14 @@ interface TransitionYamlConfig {
   timing?: TransitionTimingYamlConfig | string;
 }
 
+/**
+ * Auto-fit configuration from YAML (full object format)
+ */
+interface AutoFitYamlConfig {
+  mode?: string;
+  minScale?: number;
+}
+
 /**
  * Font variant configuration from YAML
  * Supports both shorthand (just family string) and full object
@@ -160,6 +225,20 @@ export interface SlideConfig {
    * Default: true
    */
   cover?: boolean;
+  /**
+   * Theme file or package applied under the frontmatter (global frontmatter only)
+   */
+  theme?: string;
+  /**
+   * Stable slide identity (per-slide frontmatter only).
+   * Keeps the slide matched to its Figma node when slides are reordered.
+   */
+  id?: string | number;
+  /**
+   * Markdown file whose slides replace this slide (per-slide frontmatter only).
+   * Resolved relative to the current file.
+   */
+  src?: string;
   /**
    * Background configuration - unified property that accepts:
    * - String: auto-detected as color, gradient, image, or Figma component
@@ -170,12 +249,21 @@ export interface SlideConfig {
   headings?: HeadingsConfig;
   paragraphs?: TextStyle;
   bullets?: TextStyle;
-  code?: TextStyle;
+  code?: CodeYamlConfig;
+  /** Callout color, icon and label per built-in or user-defined type */
+  callouts?: CalloutsYamlConfig;
+  /** Table colors, borders and sizing */
+  table?: TableYamlConfig;
   slideNumber?: SlideNumberYamlConfig | boolean;
   titlePrefix?: TitlePrefixYamlConfig | false;
   align?: string;
   valign?: string;
+  layout?: string;
+  /** Reveal top-level list items one build slide at a time */
+  incremental?: boolean;
   transition?: TransitionYamlConfig | string;
+  /** Handling of content taller than the slide; `false` disables it */
+  autoFit?: AutoFitYamlConfig | string | false;
   fonts?: FontsYamlConfig;
 }
 
@@ -183,13 +271,18 @@ export interface SlideConfig {
  * Parsed configuration result
  */
 export interface ParsedConfigResult {
+  id: string | undefined;
   background: SlideBackground | null;
   styles: SlideStyles;
   slideNumber: SlideNumberConfig | undefined;
   titlePrefix: TitlePrefixConfig | null | undefined;
   align: HorizontalAlign | undefined;
   valign: VerticalAlign | undefined;
+  layout: SlideLayout | undefined;
+  incremental: boolean | undefined;
   transition: SlideTransitionConfig | undefined;
+  /** null when explicitly disabled with `autoFit: false` */
+  autoFit: AutoFitConfig | null | undefined;
 }
 
 /**
@@ -230,6 +323,9 @@ function parseTextStyle(
       result.spacing = spacing;
     }
   }
+  if (typeof style.textStyle === "string" && style.textStyle.trim()) {
+    result.textStyle = style.textStyle.trim();
+  }
   return Object.keys(result).length > 0 ? result : undefined;
 }
 
@@ -313,6 +409,10 @@ function parseSlideNumberConfig(
 
 export interface ParseSlideConfigOptions {
   basePath?: string;
+  /** Limits for local background images */
+  imageOptions?: LocalImageOptions;
+  /** Collects files the config reads (e.g. a code theme JSON) for watch mode */
+  includeContext?: IncludeContext;
 }
 
 /**
@@ -320,8 +420,9 @@ export interface ParseSlideConfigOptions {
  */
 function parseBackgroundImage(
   url: string,
-  basePath?: string,
+  options: ParseSlideConfigOptions,
 ): BackgroundImage | null {
+  const { basePath } = options;
   if (!url) return null;
 
   // Remote image (http:// or https://)
@@ -334,11 +435,12 @@ function parseBackgroundImage(
 
   // Local image - read and encode
   if (basePath) {
-    if (!isSupportedImageFormat(url)) {
+    // Backgrounds are image fills, so SVG cannot be used
+    if (!isSupportedImageFormat(url) || getMimeType(url) === SVG_MIME_TYPE) {
       console.warn(`[figdeck] Unsupported background image format: ${url}`);
       return null;
     }
-    const result = readLocalImage(url, basePath);
+    const result = readLocalImage(url, basePath, options.imageOptions);
     if (result) {
       return {
         url,
@@ -480,13 +582,15 @@ function parseBackgroundComponent(
 }
 
 /**
- * Check if a string looks like a color (hex or CSS color name)
+ * Check if a string looks like a color (hex, CSS color name or variable)
  */
 function looksLikeColor(value: string): boolean {
   // Hex colors
   if (/^#[0-9a-fA-F]{3,8}$/.test(value)) return true;
   // rgb/rgba/hsl/hsla
   if (/^(rgb|hsl)a?\s*\(/.test(value)) return true;
+  // Figma color variables
+  if (parseColorVariable(value)) return true;
   // Named colors (basic check - normalize will handle validation)
   if (/^[a-zA-Z]+$/.test(value)) return true;
   return false;
@@ -497,7 +601,7 @@ function looksLikeColor(value: string): boolean {
  */
 function looksLikeGradient(value: string): boolean {
   // Gradient format: #color:position%,#color:position%[@angle]
-  return /^#?[0-9a-fA-F]{3,8}:\d+%/.test(value);
+  return /^(#?[0-9a-fA-F]{3,8}|var\([^,()]+\)):\d+%/.test(value);
 }
 
 /**
@@ -516,7 +620,7 @@ function isFigmaComponentUrl(value: string): boolean {
  */
 function parseUnifiedBackground(
   config: string | BackgroundYamlConfig | undefined,
-  basePath?: string,
+  options: ParseSlideConfigOptions,
 ): { background: SlideBackground | null; templateName?: string } {
   if (!config) return { background: null };
 
@@ -545,7 +649,7 @@ function parseUnifiedBackground(
     }
 
     // Otherwise treat as image path/URL
-    const image = parseBackgroundImage(config, basePath);
+    const image = parseBackgroundImage(config, options);
     if (image) {
       return { background: { image } };
     }
@@ -569,7 +673,7 @@ function parseUnifiedBackground(
   } else if (config.color) {
     background = { solid: normalizeColor(config.color) };
   } else if (config.image) {
-    const image = parseBackgroundImage(config.image, basePath);
+    const image = parseBackgroundImage(config.image, options);
     if (image) {
       background = { image };
     }
@@ -613,7 +717,7 @@ export function parseSlideConfig(
   // Parse unified background
   const { background, templateName } = parseUnifiedBackground(
     config.background,
-    options.basePath,
+    options,
   );
 
   // Parse headings
@@ -636,6 +740,20 @@ export function parseSlideConfig(
     styles.fonts = fonts;
   }
 
+  // Parse code block and callout colors
+  const codePalette = parseCodePalette(config.code, options);
+  if (codePalette) {
+    styles.codePalette = codePalette;
+  }
+  const callouts = parseCalloutStyles(config.callouts);
+  if (callouts) {
+    styles.callouts = callouts;
+  }
+  const table = parseTableStyle(config.table);
+  if (table) {
+    styles.table = table;
+  }
+
   // Parse slideNumber config
   const slideNumber = parseSlideNumberConfig(config.slideNumber);
 
@@ -673,17 +791,25 @@ export function parseSlideConfig(
   const align = parseHorizontalAlign(config.align);
   const valign = parseVerticalAlign(config.valign);
 
+  // Parse layout config
+  const layout = parseSlideLayout(config.layout);
+
   // Parse transition config
   const transition = parseTransitionConfig(config.transition);
 
   return {
+    id: parseSlideId(config.id),
     background,
     styles,
     slideNumber,
     titlePrefix,
     align,
     valign,
+    layout,
+    incremental:
+      typeof config.incremental === "boolean" ? config.incremental : undefined,
     transition,
+    autoFit: parseAutoFitConfig(config.autoFit),
   };
 }
 
@@ -711,6 +837,20 @@ function parseVerticalAlign(
   return undefined;
 }
 
+/**
+ * Parse and validate slide layout
+ */
+export function parseSlideLayout(value: unknown): SlideLayout | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === "string" && isValidSlideLayout(value)) {
+    return value;
+  }
+  console.warn(
+    `[figdeck] Invalid layout: ${String(value)}. Valid layouts: ${VALID_SLIDE_LAYOUTS.join(", ")}`,
+  );
+  return undefined;
+}
+
 /**
  * Parse and validate transition style (kebab-case, also accepts underscore)
  */
@@ -844,6 +984,157 @@ function parseFontVariant(
   };
 }
 
+const CODE_TOKEN_TYPES: readonly CodeTokenType[] = [
+  "keyword",
+  "string",
+  "number",
+  "comment",
+  "function",
+  "variable",
+  "type",
+  "punctuation",
+  "default",
+];
+
+/**
+ * Parse the code block background and token colors from the `code` style.
+ * `background` and `colors` override the colors of `theme`.
+ */
+function parseCodePalette(
+  config: CodeYamlConfig | undefined,
+  options: ParseSlideConfigOptions,
+): CodePalette | undefined {
+  if (!config) return undefined;
+  const theme =
+    typeof config.theme === "string"
+      ? loadCodeTheme(config.theme, options.basePath, options.includeContext)
+      : null;
+  const palette: CodePalette = {};
+  if (theme?.background) palette.background = theme.background;
+  if (typeof config.background === "string") {
+    palette.background = normalizeColor(config.background);
+  }
+  if (theme?.colors) palette.colors = { ...theme.colors };
+  if (config.colors && typeof config.colors === "object") {
+    const colors: NonNullable<CodePalette["colors"]> = { ...palette.colors };
+    for (const [token, color] of Object.entries(config.colors)) {
+      if (!CODE_TOKEN_TYPES.includes(token as CodeTokenType)) {
+        console.warn(
+          `[figdeck] Unknown code color "${token}". Valid colors: ${CODE_TOKEN_TYPES.join(", ")}`,
+        );
+        continue;
+      }
+      if (typeof color === "string") {
+        colors[token as CodeTokenType] = normalizeColor(color);
+      }
+    }
+    if (Object.keys(colors).length > 0) palette.colors = colors;
+  }
+  return Object.keys(palette).length > 0 ? palette : undefined;
+}
+
+/**
+ * Parse callout styles from YAML. Keys other than the built-in types define
+ * new callout types, usable as `:::name` blocks.
+ */
+function parseCalloutStyles(
+  config: CalloutsYamlConfig | undefined,
+): SlideStyles["callouts"] {
+  if (!config || typeof config !== "object") return undefined;
+  const result: NonNullable<SlideStyles["callouts"]> = {};
+  for (const [type, style] of Object.entries(config)) {
+    if (!isValidCalloutTypeName(type)) {
+      console.warn(
+        `[figdeck] Invalid callout type "${type}". Use lowercase letters, digits and hyphens, except ${RESERVED_DIRECTIVES.join(", ")}`,
+      );
+      continue;
+    }
+    if (!style || typeof style !== "object") continue;
+    const calloutStyle: CalloutStyle = {};
+    if (typeof style.color === "string") {
+      calloutStyle.color = normalizeColor(style.color);
+    }
+    if (typeof style.icon === "string" && style.icon.trim()) {
+      calloutStyle.icon = style.icon.trim();
+    }
+    if (typeof style.label === "string" && style.label.trim()) {
+      calloutStyle.label = style.label.trim();
+    }
+    result[type] = calloutStyle;
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+const TABLE_COLOR_KEYS = [
+  "color",
+  "headerColor",
+  "headerBackground",
+  "background",
+  "stripeBackground",
+  "borderColor",
+] as const;
+
+/**
+ * Parse `columnWidths` ("2fr/1fr", "40%/60%", "300/200") into pixel widths.
+ * `fr` and `%` are relative to the content width.
+ */
+function parseTableColumnWidths(value: unknown): number[] | undefined {
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const parts = String(value)
+    .split("/")
+    .map((part) => part.trim());
+  let totalFr = 0;
+  for (const part of parts) {
+    const frMatch = part.match(/^(\d+(?:\.\d+)?)fr$/);
+    if (frMatch) totalFr += Number.parseFloat(frMatch[1]);
+  }
+  const widths: number[] = [];
+  for (const part of parts) {
+    const width = parseWidthValue(part, totalFr, CONTENT_WIDTH);
+    if (width === null) {
+      console.warn(
+        `[figdeck] Invalid table column width "${part}", sizing columns to content`,
+      );
+      return undefined;
+    }
+    widths.push(width);
+  }
+  return widths;
+}
+
+/**
+ * Parse the table style from YAML
+ */
+function parseTableStyle(
+  config: TableYamlConfig | undefined,
+): TableStyle | undefined {
+  if (!config || typeof config !== "object") return undefined;
+  const result: TableStyle = {};
+  const size = parseFontSize(config.size);
+  if (size !== undefined) result.size = size;
+  for (const key of TABLE_COLOR_KEYS) {
+    const color = config[key];
+    if (typeof color === "string") result[key] = normalizeColor(color);
+  }
+  if (config.borderWidth !== undefined) {
+    const borderWidth = Number(config.borderWidth);
+    if (!Number.isNaN(borderWidth) && borderWidth >= 0) {
+      result.borderWidth = borderWidth;
+    }
+  }
+  if (config.padding !== undefined) {
+    const padding = Number(config.padding);
+    if (!Number.isNaN(padding) && padding >= 0) {
+      result.padding = padding;
+    }
+  }
+  if (config.columnWidths !== undefined) {
+    const columnWidths = parseTableColumnWidths(config.columnWidths);
+    if (columnWidths) result.columnWidths = columnWidths;
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
 /**
  * Parse fonts config from YAML
  */
@@ -966,6 +1257,60 @@ export function mergeStyles(
     result.fonts = mergedFonts;
   }
 
+  const codePalette = mergeCodePalette(
+    defaultStyles.codePalette,
+    slideStyles.codePalette,
+  );
+  if (codePalette) {
+    result.codePalette = codePalette;
+  }
+
+  const callouts = mergeCalloutStyles(
+    defaultStyles.callouts,
+    slideStyles.callouts,
+  );
+  if (callouts) {
+    result.callouts = callouts;
+  }
+
+  if (defaultStyles.table || slideStyles.table) {
+    result.table = { ...defaultStyles.table, ...slideStyles.table };
+  }
+
+  return result;
+}
+
+/**
+ * Merge code palettes, with slide colors overriding defaults per token
+ */
+function mergeCodePalette(
+  defaultPalette: CodePalette | undefined,
+  slidePalette: CodePalette | undefined,
+): CodePalette | undefined {
+  if (!defaultPalette) return slidePalette;
+  if (!slidePalette) return defaultPalette;
+  const result: CodePalette = {};
+  const background = slidePalette.background ?? defaultPalette.background;
+  if (background) result.background = background;
+  if (defaultPalette.colors || slidePalette.colors) {
+    result.colors = { ...defaultPalette.colors, ...slidePalette.colors };
+  }
+  return result;
+}
+
+/**
+ * Merge callout styles, with slide styles overriding defaults per type
+ */
+function mergeCalloutStyles(
+  defaultStyles: SlideStyles["callouts"],
+  slideStyles: SlideStyles["callouts"],
+): SlideStyles["callouts"] {
+  if (!defaultStyles) return slideStyles;
+  if (!slideStyles) return defaultStyles;
+  const result: Record<string, CalloutStyle> = { ...defaultStyles };
+  for (const type of Object.keys(slideStyles)) {
+    result[type] = { ...defaultStyles[type], ...slideStyles[type] };
+  }
   return result;
 }
 
@@ -1031,3 +1376,36 @@ export function mergeTransitionConfig(
 
   return result;
 }
+
+/**
+ * Parse auto-fit config from YAML (`shrink`, `split`, `false` or
+ * `{ mode, minScale }`). Returns null when explicitly disabled.
+ */
+export function parseAutoFitConfig(
+  config: AutoFitYamlConfig | string | false | undefined,
+): AutoFitConfig | null | undefined {
+  if (config === undefined || config === null) return undefined;
+  if (config === false) return null;
+
+  const { mode, minScale } =
+    typeof config === "object" ? config : { mode: config, minScale: undefined };
+  if (mode !== "shrink" && mode !== "split") {
+    console.warn(
+      `[figdeck] Invalid autoFit: ${String(mode)}. Use shrink, split or false`,
+    );
+    return undefined;
+  }
+
+  const result: AutoFitConfig = { mode };
+  if (minScale !== undefined) {
+    const scale = Number(minScale);
+    if (Number.isNaN(scale) || scale < 0.1 || scale > 1) {
+      console.warn(
+        `[figdeck] Invalid autoFit.minScale: ${String(minScale)}. Use a number between 0.1 and 1`,
+      );
+    } else {
+      result.minScale = scale;
+    }
+  }
+  return result;
+}
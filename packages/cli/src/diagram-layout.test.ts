@@ -0,0 +1,99 @@
+import { describe, expect, it } from "bun:test";
+import type { Diagram } from "@figdeck/shared";
+import { layoutDiagram } from "./diagram-layout";
+import { parseMermaid } from "./mermaid";
+
+function layout(source: string): Diagram {
+  const graph = parseMermaid(source);
+  if (!graph) throw new Error("parse failed");
+  const diagram = layoutDiagram(graph);
+  if (!diagram) throw new Error("layout failed");
+  return diagram;
+}
+
+function node(diagram: Diagram, id: string) {
+  const found = diagram.nodes.find((n) => n.id === id);
+  if (!found) throw new Error(`missing node ${id}`);
+  return found;
+}
+
+describe("layoutDiagram", () => {
+  it("should place flowchart ranks top to bottom", () => {
+    const diagram = layout("flowchart TB\n  A --> B\n  A --> C\n  B --> D");
+
+    expect(node(diagram, "A").y).toBeLessThan(node(diagram, "B").y);
+    expect(node(diagram, "B").y).toBe(node(diagram, "C").y);
+    expect(node(diagram, "D").y).toBeGreaterThan(node(diagram, "B").y);
+  });
+
+  it("should place flowchart ranks left to right and right to left", () => {
+    const lr = layout("flowchart LR\n  A --> B");
+    expect(node(lr, "A").x).toBeLessThan(node(lr, "B").x);
+
+    const rl = layout("flowchart RL\n  A --> B");
+    expect(node(rl, "A").x).toBeGreaterThan(node(rl, "B").x);
+  });
+
+  it("should keep every element inside the diagram bounds", () => {
+    const diagram = layout(
+      "flowchart TB\n  A[Long label text here] -->|edge label| B{Decision}\n  B --> A\n  B --> B",
+    );
+
+    for (const n of diagram.nodes) {
+      expect(n.x).toBeGreaterThanOrEqual(0);
+      expect(n.y).toBeGreaterThanOrEqual(0);
+      expect(n.x + n.width).toBeLessThanOrEqual(diagram.width);
+      expect(n.y + n.height).toBeLessThanOrEqual(diagram.height);
+    }
+    for (const e of diagram.edges) {
+      for (const p of e.points) {
+        expect(p.x).toBeGreaterThanOrEqual(0);
+        expect(p.x).toBeLessThanOrEqual(diagram.width);
+      }
+    }
+  });
+
+  it("should handle cycles without growing ranks forever", () => {
+    const diagram = layout("flowchart TB\n  A --> B --> C --> A");
+    expect(node(diagram, "A").y).toBeLessThan(node(diagram, "C").y);
+  });
+
+  it("should clip edges to node borders", () => {
+    const diagram = layout("flowchart TB\n  A --> B");
+    const a = node(diagram, "A");
+    const b = node(diagram, "B");
+    const [start, end] = diagram.edges[0].points;
+
+    expect(start.y).toBe(a.y + a.height);
+    expect(end.y).toBe(b.y);
+  });
+
+  it("should lay out sequence diagrams with lifelines and messages", () => {
+    const diagram = layout(
+      "sequenceDiagram\n  A->>B: A fairly long message label\n  B-->>A: ok",
+    );
+
+    const a = node(diagram, "A");
+    const b = node(diagram, "B");
+    expect(a.y).toBe(b.y);
+    expect(b.x).toBeGreaterThan(a.x + a.width);
+
+    // Two lifelines followed by two messages
+    expect(diagram.edges).toHaveLength(4);
+    expect(diagram.edges[0].arrow).toBe(false);
+    expect(diagram.edges[0].line).toBe("dotted");
+    const [first, second] = diagram.edges.slice(2);
+    expect(first.points[0].y).toBeLessThan(second.points[0].y);
+    expect(second.line).toBe("dotted");
+  });
+
+  it("should reject diagrams with too many elements", () => {
+    const lines = Array.from(
+      { length: 150 },
+      (_, i) => `  N${i} --> N${i + 1}`,
+    );
+    const graph = parseMermaid(`flowchart TB\n${lines.join("\n")}`);
+    if (!graph) throw new Error("parse failed");
+    expect(layoutDiagram(graph)).toBeNull();
+  });
+});
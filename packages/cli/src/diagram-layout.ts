@@ -0,0 +1,532 @@
+import type {
+  Diagram,
+  DiagramEdge,
+  DiagramNode,
+  DiagramNodeShape,
+  DiagramPoint,
+} from "@figdeck/shared";
+import { DIAGRAM_LAYOUT } from "@figdeck/shared";
+import type { FlowchartGraph, MermaidGraph, SequenceGraph } from "./mermaid.js";
+
+const LINE_HEIGHT = Math.round(DIAGRAM_LAYOUT.FONT_SIZE * 1.2);
+
+/** Width of a self-referencing loop (flowchart and sequence) */
+const SELF_LOOP_SIZE = 48;
+
+/** Distance between two edges connecting the same nodes in opposite directions */
+const PARALLEL_EDGE_OFFSET = 10;
+
+/**
+ * Approximate rendered size of a label
+ */
+function measureLabel(label: string): { width: number; height: number } {
+  const lines = label.split("\n");
+  const longest = Math.max(...lines.map((line) => line.length));
+  return {
+    width: Math.ceil(
+      longest * DIAGRAM_LAYOUT.FONT_SIZE * DIAGRAM_LAYOUT.CHAR_WIDTH_RATIO,
+    ),
+    height: lines.length * LINE_HEIGHT,
+  };
+}
+
+/**
+ * Size of a node box that fits its label inside the given shape
+ */
+function measureNode(
+  label: string,
+  shape: DiagramNodeShape,
+): { width: number; height: number } {
+  const text = measureLabel(label);
+  const width = Math.max(
+    DIAGRAM_LAYOUT.NODE_MIN_WIDTH,
+    text.width + DIAGRAM_LAYOUT.NODE_PADDING_X * 2,
+  );
+  const height = Math.max(
+    DIAGRAM_LAYOUT.NODE_HEIGHT,
+    text.height + (DIAGRAM_LAYOUT.NODE_HEIGHT - LINE_HEIGHT),
+  );
+
+  switch (shape) {
+    case "diamond":
+      // Text has to fit inside the inscribed rectangle
+      return {
+        width: Math.round(width * 1.5),
+        height: Math.round(height * 1.5),
+      };
+    case "circle": {
+      const size = Math.max(width, height);
+      return { width: size, height: size };
+    }
+    default:
+      return { width, height };
+  }
+}
+
+/**
+ * Point where the ray from a node's center towards `target` leaves the node
+ */
+function clipToNode(node: DiagramNode, target: DiagramPoint): DiagramPoint {
+  const cx = node.x + node.width / 2;
+  const cy = node.y + node.height / 2;
+  const dx = target.x - cx;
+  const dy = target.y - cy;
+  if (dx === 0 && dy === 0) return { x: cx, y: cy };
+
+  const hw = node.width / 2;
+  const hh = node.height / 2;
+  let t: number;
+  if (node.shape === "diamond") {
+    t = 1 / (Math.abs(dx) / hw + Math.abs(dy) / hh);
+  } else if (node.shape === "circle") {
+    t = hw / Math.hypot(dx, dy);
+  } else {
+    t = Math.min(
+      dx === 0 ? Number.POSITIVE_INFINITY : hw / Math.abs(dx),
+      dy === 0 ? Number.POSITIVE_INFINITY : hh / Math.abs(dy),
+    );
+  }
+  return { x: cx + dx * t, y: cy + dy * t };
+}
+
+/**
+ * Assign each node a rank (layer) along the flow direction.
+ * Edges closing a cycle are ignored so that every other edge points forward.
+ */
+function rankNodes(graph: FlowchartGraph): Map<string, number> {
+  const outgoing = new Map<string, string[]>();
+  for (const node of graph.nodes) outgoing.set(node.id, []);
+  for (const edge of graph.edges) {
+    if (edge.from !== edge.to) outgoing.get(edge.from)?.push(edge.to);
+  }
+
+  // Depth-first search in declaration order to find back edges
+  const state = new Map<string, "visiting" | "done">();
+  const forward: Array<[string, string]> = [];
+  const visit = (id: string) => {
+    state.set(id, "visiting");
+    for (const next of outgoing.get(id) ?? []) {
+      const nextState = state.get(next);
+      if (nextState === "visiting") continue;
+      forward.push([id, next]);
+      if (nextState === undefined) visit(next);
+    }
+    state.set(id, "done");
+  };
+  for (const node of graph.nodes) {
+    if (!state.has(node.id)) visit(node.id);
+  }
+
+  // Longest path from the sources over forward edges (Kahn's algorithm)
+  const ranks = new Map<string, number>();
+  const indegree = new Map<string, number>();
+  for (const node of graph.nodes) {
+    ranks.set(node.id, 0);
+    indegree.set(node.id, 0);
+  }
+  for (const [, to] of forward) {
+    indegree.set(to, (indegree.get(to) ?? 0) + 1);
+  }
+  const queue = graph.nodes
+    .map((node) => node.id)
+    .filter((id) => indegree.get(id) === 0);
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    for (const [from, to] of forward) {
+      if (from !== id) continue;
+      ranks.set(to, Math.max(ranks.get(to) ?? 0, (ranks.get(id) ?? 0) + 1));
+      const remaining = (indegree.get(to) ?? 0) - 1;
+      indegree.set(to, remaining);
+      if (remaining === 0) queue.push(to);
+    }
+  }
+  return ranks;
+}
+
+/**
+ * Order nodes within each rank to reduce crossings (barycenter heuristic)
+ */
+function orderRanks(
+  graph: FlowchartGraph,
+  ranks: Map<string, number>,
+): string[][] {
+  const layers: string[][] = [];
+  for (const node of graph.nodes) {
+    const rank = ranks.get(node.id) ?? 0;
+    while (layers.length <= rank) layers.push([]);
+    layers[rank].push(node.id);
+  }
+
+  const neighbors = (id: string, towards: "up" | "down") =>
+    graph.edges
+      .filter((edge) => (towards === "up" ? edge.to === id : edge.from === id))
+      .map((edge) => (towards === "up" ? edge.from : edge.to));
+
+  const sweep = (
+    layerIndex: number,
+    reference: string[],
+    towards: "up" | "down",
+  ) => {
+    const positions = new Map(reference.map((id, index) => [id, index]));
+    const layer = layers[layerIndex];
+    const keys = new Map<string, number>();
+    layer.forEach((id, index) => {
+      const linked = neighbors(id, towards)
+        .map((other) => positions.get(other))
+        .filter((position): position is number => position !== undefined);
+      keys.set(
+        id,
+        linked.length > 0
+          ? linked.reduce((sum, position) => sum + position, 0) / linked.length
+          : index,
+      );
+    });
+    layer.sort((a, b) => (keys.get(a) ?? 0) - (keys.get(b) ?? 0));
+  };
+
+  for (let pass = 0; pass < 2; pass++) {
+    for (let i = 1; i < layers.length; i++) sweep(i, layers[i - 1], "up");
+    for (let i = layers.length - 2; i >= 0; i--)
+      sweep(i, layers[i + 1], "down");
+  }
+  return layers;
+}
+
+/**
+ * Lay out a flowchart as ranked layers along its direction
+ */
+function layoutFlowchart(graph: FlowchartGraph): Diagram {
+  const vertical = graph.direction === "TB" || graph.direction === "BT";
+  const reversed = graph.direction === "BT" || graph.direction === "RL";
+
+  const sizes = new Map(
+    graph.nodes.map((node) => [node.id, measureNode(node.label, node.shape)]),
+  );
+  const mainSize = (id: string) => {
+    const size = sizes.get(id) ?? { width: 0, height: 0 };
+    return vertical ? size.height : size.width;
+  };
+  const crossSize = (id: string) => {
+    const size = sizes.get(id) ?? { width: 0, height: 0 };
+    return vertical ? size.width : size.height;
+  };
+
+  const layers = orderRanks(graph, rankNodes(graph));
+
+  const thickness = layers.map((layer) => Math.max(...layer.map(mainSize)));
+  const lengths = layers.map(
+    (layer) =>
+      layer.reduce((sum, id) => sum + crossSize(id), 0) +
+      DIAGRAM_LAYOUT.NODE_GAP * (layer.length - 1),
+  );
+  const totalMain =
+    thickness.reduce((sum, value) => sum + value, 0) +
+    DIAGRAM_LAYOUT.RANK_GAP * (layers.length - 1);
+  const totalCross = Math.max(...lengths);
+
+  const nodes: DiagramNode[] = [];
+  const nodesById = new Map<string, DiagramNode>();
+  let mainOffset = 0;
+  layers.forEach((layer, rank) => {
+    let crossOffset = (totalCross - lengths[rank]) / 2;
+    const mainCenter = mainOffset + thickness[rank] / 2;
+    const main = reversed ? totalMain - mainCenter : mainCenter;
+
+    for (const id of layer) {
+      const size = sizes.get(id) ?? { width: 0, height: 0 };
+      const cross = crossOffset + crossSize(id) / 2;
+      const cx = vertical ? cross : main;
+      const cy = vertical ? main : cross;
+      const source = graph.nodes.find((node) => node.id === id);
+      const node: DiagramNode = {
+        id,
+        label: source?.label ?? id,
+        shape: source?.shape ?? "rect",
+        x: cx - size.width / 2,
+        y: cy - size.height / 2,
+        width: size.width,
+        height: size.height,
+      };
+      nodes.push(node);
+      nodesById.set(id, node);
+      crossOffset += crossSize(id) + DIAGRAM_LAYOUT.NODE_GAP;
+    }
+    mainOffset += thickness[rank] + DIAGRAM_LAYOUT.RANK_GAP;
+  });
+
+  const edges: DiagramEdge[] = [];
+  for (const edge of graph.edges) {
+    const from = nodesById.get(edge.from);
+    const to = nodesById.get(edge.to);
+    if (!from || !to) continue;
+
+    let points: DiagramPoint[];
+    if (from === to) {
+      // Loop out of the right side and back in
+      const right = from.x + from.width;
+      const top = from.y + from.height / 4;
+      const bottom = from.y + (from.height * 3) / 4;
+      points = [
+        { x: right, y: top },
+        { x: right + SELF_LOOP_SIZE, y: top },
+        { x: right + SELF_LOOP_SIZE, y: bottom },
+        { x: right, y: bottom },
+      ];
+    } else {
+      const fromCenter = {
+        x: from.x + from.width / 2,
+        y: from.y + from.height / 2,
+      };
+      const toCenter = { x: to.x + to.width / 2, y: to.y + to.height / 2 };
+      points = [clipToNode(from, toCenter), clipToNode(to, fromCenter)];
+
+      // Keep edges in both directions between two nodes apart
+      const hasReverse = graph.edges.some(
+        (other) => other.from === edge.to && other.to === edge.from,
+      );
+      if (hasReverse) {
+        const dx = toCenter.x - fromCenter.x;
+        const dy = toCenter.y - fromCenter.y;
+        const length = Math.hypot(dx, dy);
+        const offsetX = (-dy / length) * PARALLEL_EDGE_OFFSET;
+        const offsetY = (dx / length) * PARALLEL_EDGE_OFFSET;
+        points = points.map((point) => ({
+          x: point.x + offsetX,
+          y: point.y + offsetY,
+        }));
+      }
+    }
+
+    const routed: DiagramEdge = {
+      from: edge.from,
+      to: edge.to,
+      line: edge.line,
+      arrow: edge.arrow,
+      points,
+    };
+    if (edge.label) {
+      const first = points[0];
+      const last = points[points.length - 1];
+      routed.label = edge.label;
+      routed.labelPosition =
+        from === to
+          ? {
+              x: points[1].x + measureLabel(edge.label).width / 2 + 8,
+              y: (points[1].y + points[2].y) / 2,
+            }
+          : { x: (first.x + last.x) / 2, y: (first.y + last.y) / 2 };
+    }
+    edges.push(routed);
+  }
+
+  return finalizeDiagram("flowchart", nodes, edges);
+}
+
+/**
+ * Lay out a sequence diagram: participants in a row, messages top to bottom
+ */
+function layoutSequence(graph: SequenceGraph): Diagram {
+  const padding = DIAGRAM_LAYOUT.NODE_PADDING_X;
+  const nodes: DiagramNode[] = graph.participants.map((participant) => {
+    const size = measureNode(participant.label, "rect");
+    return {
+      id: participant.id,
+      label: participant.label,
+      shape: participant.actor ? "stadium" : "rect",
+      x: 0,
+      y: 0,
+      width: size.width,
+      height: size.height,
+    };
+  });
+  const indexById = new Map(nodes.map((node, index) => [node.id, index]));
+
+  // Place participant centers left to right
+  const centers: number[] = [];
+  nodes.forEach((node, index) => {
+    centers.push(
+      index === 0
+        ? node.width / 2
+        : centers[index - 1] +
+            nodes[index - 1].width / 2 +
+            DIAGRAM_LAYOUT.NODE_GAP +
+            node.width / 2,
+    );
+  });
+
+  // Widen gaps so that message labels fit between their participants
+  const spans = graph.messages
+    .map((message) => ({
+      left: Math.min(
+        indexById.get(message.from) ?? 0,
+        indexById.get(message.to) ?? 0,
+      ),
+      right: Math.max(
+        indexById.get(message.from) ?? 0,
+        indexById.get(message.to) ?? 0,
+      ),
+      width: measureLabel(message.label).width + padding * 2,
+    }))
+    .filter((span) => span.left !== span.right)
+    .sort((a, b) => a.right - a.left - (b.right - b.left));
+  for (const span of spans) {
+    const deficit = span.width - (centers[span.right] - centers[span.left]);
+    if (deficit <= 0) continue;
+    for (let i = span.right; i < centers.length; i++) {
+      centers[i] += deficit;
+    }
+  }
+  nodes.forEach((node, index) => {
+    node.x = centers[index] - node.width / 2;
+  });
+
+  const headerHeight = Math.max(...nodes.map((node) => node.height), 0);
+  const messageEdges: DiagramEdge[] = [];
+  let y = headerHeight + DIAGRAM_LAYOUT.MESSAGE_GAP;
+  for (const message of graph.messages) {
+    const fromX = centers[indexById.get(message.from) ?? 0];
+    const toX = centers[indexById.get(message.to) ?? 0];
+    const label = measureLabel(message.label);
+
+    const edge: DiagramEdge = {
+      from: message.from,
+      to: message.to,
+      line: message.line,
+      arrow: message.arrow,
+      points: [],
+    };
+    if (message.from === message.to) {
+      const loopHeight = DIAGRAM_LAYOUT.MESSAGE_GAP / 2;
+      edge.points = [
+        { x: fromX, y },
+        { x: fromX + SELF_LOOP_SIZE, y },
+        { x: fromX + SELF_LOOP_SIZE, y: y + loopHeight },
+        { x: fromX, y: y + loopHeight },
+      ];
+      if (message.label) {
+        edge.label = message.label;
+        edge.labelPosition = {
+          x: fromX + SELF_LOOP_SIZE + 8 + label.width / 2,
+          y: y + loopHeight / 2,
+        };
+      }
+      y += loopHeight;
+    } else {
+      edge.points = [
+        { x: fromX, y },
+        { x: toX, y },
+      ];
+      if (message.label) {
+        edge.label = message.label;
+        edge.labelPosition = {
+          x: (fromX + toX) / 2,
+          y: y - label.height / 2 - 4,
+        };
+      }
+    }
+    messageEdges.push(edge);
+    y += DIAGRAM_LAYOUT.MESSAGE_GAP;
+  }
+
+  // Lifelines go first so messages are drawn on top of them
+  const lifelineEnd = y - DIAGRAM_LAYOUT.MESSAGE_GAP / 2;
+  const lifelines: DiagramEdge[] = nodes.map((node, index) => ({
+    from: node.id,
+    to: node.id,
+    line: "dotted",
+    arrow: false,
+    points: [
+      { x: centers[index], y: node.y + node.height },
+      { x: centers[index], y: lifelineEnd },
+    ],
+  }));
+
+  return finalizeDiagram("sequence", nodes, [...lifelines, ...messageEdges]);
+}
+
+/**
+ * Move the diagram to a (0, 0) origin, round coordinates and compute its size
+ */
+function finalizeDiagram(
+  type: Diagram["type"],
+  nodes: DiagramNode[],
+  edges: DiagramEdge[],
+): Diagram {
+  let minX = Number.POSITIVE_INFINITY;
+  let minY = Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY;
+  let maxY = Number.NEGATIVE_INFINITY;
+  const include = (x: number, y: number) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  };
+
+  for (const node of nodes) {
+    include(node.x, node.y);
+    include(node.x + node.width, node.y + node.height);
+  }
+  for (const edge of edges) {
+    for (const point of edge.points) include(point.x, point.y);
+    if (edge.label && edge.labelPosition) {
+      const size = measureLabel(edge.label);
+      include(
+        edge.labelPosition.x - size.width / 2,
+        edge.labelPosition.y - size.height / 2,
+      );
+      include(
+        edge.labelPosition.x + size.width / 2,
+        edge.labelPosition.y + size.height / 2,
+      );
+    }
+  }
+  if (!Number.isFinite(minX)) {
+    return { type, width: 0, height: 0, nodes, edges };
+  }
+
+  const move = (point: DiagramPoint): DiagramPoint => ({
+    x: Math.round(point.x - minX),
+    y: Math.round(point.y - minY),
+  });
+
+  return {
+    type,
+    width: Math.ceil(maxX - minX),
+    height: Math.ceil(maxY - minY),
+    nodes: nodes.map((node) => ({
+      ...node,
+      ...move(node),
+      width: Math.round(node.width),
+      height: Math.round(node.height),
+    })),
+    edges: edges.map((edge) => {
+      const moved: DiagramEdge = { ...edge, points: edge.points.map(move) };
+      if (edge.labelPosition) moved.labelPosition = move(edge.labelPosition);
+      return moved;
+    }),
+  };
+}
+
+/**
+ * Compute the layout of a parsed Mermaid graph.
+ * Returns null for empty diagrams or ones above DIAGRAM_LAYOUT.MAX_ELEMENTS.
+ */
+export function layoutDiagram(graph: MermaidGraph): Diagram | null {
+  const nodeCount =
+    graph.type === "flowchart" ? graph.nodes.length : graph.participants.length;
+  const edgeCount =
+    graph.type === "flowchart" ? graph.edges.length : graph.messages.length;
+
+  if (nodeCount === 0) return null;
+  if (nodeCount + edgeCount > DIAGRAM_LAYOUT.MAX_ELEMENTS) {
+    console.warn(
+      `[figdeck] Diagram has too many elements (max: ${DIAGRAM_LAYOUT.MAX_ELEMENTS}), rendering as code`,
+    );
+    return null;
+  }
+
+  return graph.type === "flowchart"
+    ? layoutFlowchart(graph)
+    : layoutSequence(graph);
+}
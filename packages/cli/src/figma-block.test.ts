@@ -326,6 +326,21 @@ text.content=
     expect(content).toContain("• Variation B");
   });
 
+  it("should convert task lists in multiline text to checkbox glyphs", () => {
+    const markdown = `:::figma
+link=https://www.figma.com/file/abc/Name?node-id=1-2
+text.tasks=
+  - [x] Design review
+  - [ ] Launch
+:::`;
+
+    const { figmaBlocks } = extractFigmaBlocks(markdown);
+
+    const tasks = figmaBlocks[0].link.textOverrides?.tasks?.text;
+    expect(tasks).toContain("☑ Design review");
+    expect(tasks).toContain("☐ Launch");
+  });
+
   it("should convert blockquotes in multiline text to quoted text", () => {
     const markdown = `:::figma
 link=https://www.figma.com/file/abc/Name?node-id=1-2
@@ -417,3 +432,46 @@ y=200
     expect(figmaBlocks[0].link.textOverrides).toBeUndefined();
   });
 });
+
+describe("extractFigmaBlocks component overrides", () => {
+  it("should extract variant and component property values", () => {
+    const markdown = `:::figma
+link=https://www.figma.com/file/abc/Name?node-id=1-2
+variant.State=Active
+prop.Show icon=false
+prop.Icon=https://www.figma.com/file/abc/Name?node-id=3-4
+:::`;
+
+    const { figmaBlocks } = extractFigmaBlocks(markdown);
+
+    expect(figmaBlocks[0].link.component).toEqual({
+      variants: { State: "Active" },
+      properties: {
+        "Show icon": "false",
+        Icon: "https://www.figma.com/file/abc/Name?node-id=3-4",
+      },
+    });
+    expect(figmaBlocks[0].link.nestedInstances).toBeUndefined();
+  });
+
+  it("should group nested instance overrides by layer path", () => {
+    const markdown = `:::figma
+link=https://www.figma.com/file/abc/Name?node-id=1-2
+Toolbar > Button > variant.Size=Small
+Toolbar > Button > prop.Label=Save
+Toolbar>Avatar>variant.Shape=Square
+:::`;
+
+    const { figmaBlocks } = extractFigmaBlocks(markdown);
+
+    expect(figmaBlocks[0].link.component).toBeUndefined();
+    expect(figmaBlocks[0].link.nestedInstances).toEqual([
+      {
+        path: ["Toolbar", "Button"],
+        variants: { Size: "Small" },
+        properties: { Label: "Save" },
+      },
+      { path: ["Toolbar", "Avatar"], variants: { Shape: "Square" } },
+    ]);
+  });
+});
@@ -1,6 +1,12 @@
-import type { FigmaSelectionLink, TextSpan } from "@figdeck/shared";
+import type {
+  ComponentPropertyOverrides,
+  FigmaSelectionLink,
+  NestedInstanceOverride,
+  TextSpan,
+} from "@figdeck/shared";
 import {
   BULLET_MARKERS,
+  getTaskMarker,
   isValidFigmaHostname,
   parseFigmaUrl,
 } from "@figdeck/shared";
@@ -29,6 +35,67 @@ export interface FigmaBlockPlaceholder {
   link: FigmaSelectionLink;
 }
 
+/**
+ * Component override key: `[Layer > ...] variant.Name` or `[Layer > ...] prop.Name`
+ */
+const COMPONENT_OVERRIDE_KEY = /^(?:(.+?)\s*>\s*)?(variant|prop)\.(.+)$/;
+
+/**
+ * Collect variant and property overrides from block properties, grouping
+ * keys with a `Layer > ` path into nested instance overrides
+ */
+function parseComponentOverrides(props: Record<string, string>): {
+  component?: ComponentPropertyOverrides;
+  nestedInstances?: NestedInstanceOverride[];
+} {
+  const component: ComponentPropertyOverrides = {};
+  const nested = new Map<string, NestedInstanceOverride>();
+
+  for (const [key, value] of Object.entries(props)) {
+    const match = key.match(COMPONENT_OVERRIDE_KEY);
+    if (!match) continue;
+    const [, pathText, kind, name] = match;
+
+    let target: ComponentPropertyOverrides = component;
+    if (pathText) {
+      const path = pathText.split(">").map((part) => part.trim());
+      if (path.some((part) => part === "")) {
+        console.warn(`[figdeck] Invalid nested instance path in "${key}"`);
+        continue;
+      }
+      const pathKey = path.join(">");
+      let override = nested.get(pathKey);
+      if (!override) {
+        override = { path };
+        nested.set(pathKey, override);
+      }
+      target = override;
+    }
+
+    if (kind === "variant") {
+      target.variants = Object.assign(target.variants ?? {}, {
+        [name.trim()]: value,
+      });
+    } else {
+      target.properties = Object.assign(target.properties ?? {}, {
+        [name.trim()]: value,
+      });
+    }
+  }
+
+  const result: {
+    component?: ComponentPropertyOverrides;
+    nestedInstances?: NestedInstanceOverride[];
+  } = {};
+  if (component.variants || component.properties) {
+    result.component = component;
+  }
+  if (nested.size > 0) {
+    result.nestedInstances = Array.from(nested.values());
+  }
+  return result;
+}
+
 /** Remark processor for parsing markdown content */
 const markdownProcessor = unified().use(remarkParse).use(remarkGfm);
 
@@ -145,7 +212,12 @@ function formatListToSpans(
 
   for (const item of list.children) {
     const listItem = item as ListItem;
-    const prefix = list.ordered ? `${num}.` : marker;
+    const prefix =
+      typeof listItem.checked === "boolean"
+        ? getTaskMarker(listItem.checked)
+        : list.ordered
+          ? `${num}.`
+          : marker;
 
     for (const child of listItem.children) {
       if (child.type === "paragraph") {
@@ -203,6 +275,15 @@ function formatListToSpans(
  * y=300
  * :::
  *
+ * Component instances with variant, property and nested instance overrides:
+ * :::figma
+ * link=https://www.figma.com/file/xxx?node-id=1234-5678
+ * variant.State=Active
+ * prop.Show icon=false
+ * prop.Icon=https://www.figma.com/file/xxx?node-id=2222-3333
+ * Toolbar > Button > variant.Size=Small
+ * :::
+ *
  * Extended format with rich content:
  * :::figma
  * link=https://www.figma.com/file/xxx?node-id=1234-5678
@@ -231,7 +312,10 @@ export function extractFigmaBlocks(
 
   const processedMarkdown = markdown.replace(
     figmaBlockRegex,
-    (_match, content: string) => {
+    (match, content: string) => {
+      // Replacements keep the block's line count so that line numbers of
+      // the processed markdown still match the source
+      const blankLines = "\n".repeat(match.split("\n").length - 1);
       const lines = content.split("\n");
       const props: Record<string, string> = {};
       const contentLines: string[] = [];
@@ -303,7 +387,7 @@ export function extractFigmaBlocks(
         console.warn(
           "[figdeck] :::figma block missing 'link' property, skipping",
         );
-        return "";
+        return blankLines;
       }
 
       // Validate hostname before processing
@@ -312,14 +396,14 @@ export function extractFigmaBlocks(
         hostname = new URL(props.link).hostname;
       } catch {
         console.warn(`[figdeck] Invalid URL format: ${props.link}`);
-        return "";
+        return blankLines;
       }
 
       if (!isValidFigmaHostname(hostname)) {
         console.warn(
           `[figdeck] Rejected Figma URL with invalid hostname "${hostname}": ${props.link}`,
         );
-        return "";
+        return blankLines;
       }
 
       const { fileKey, nodeId } = parseFigmaUrl(props.link);
@@ -357,12 +441,15 @@ export function extractFigmaBlocks(
           Object.keys(textOverrides).length > 0 ? textOverrides : undefined,
         hideLink: props.hideLink === "true" ? true : undefined,
       };
+      const { component, nestedInstances } = parseComponentOverrides(props);
+      if (component) link.component = component;
+      if (nestedInstances) link.nestedInstances = nestedInstances;
 
       const id = `FIGDECK_FIGMA_BLOCK_${nextIndex++}_PLACEHOLDER`;
       figmaBlocks.push({ id, link });
 
       // Return a placeholder paragraph that we can identify after parsing
-      return `\n${id}\n`;
+      return `\n${id}${blankLines.slice(1)}`;
     },
   );
 
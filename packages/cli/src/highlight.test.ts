@@ -0,0 +1,34 @@
+import { describe, expect, it } from "bun:test";
+import { tokenizeCode } from "./highlight.js";
+
+describe("tokenizeCode", () => {
+  it("matches language aliases case-insensitively", () => {
+    expect(tokenizeCode("key: 1", "YML")).toEqual([
+      { text: "key:", token: "variable" },
+      { text: " ", token: "default" },
+      { text: "1", token: "number" },
+    ]);
+  });
+
+  it("tokenizes Dockerfiles", () => {
+    expect(tokenizeCode("FROM node:22", "dockerfile")?.[0]).toEqual({
+      text: "FROM",
+      token: "keyword",
+    });
+  });
+
+  it("returns undefined without a known language", () => {
+    expect(tokenizeCode("x", undefined)).toBeUndefined();
+    expect(tokenizeCode("x", "unknown-lang")).toBeUndefined();
+  });
+
+  it("skips code over the size limit", () => {
+    expect(tokenizeCode("x".repeat(10001), "ts")).toBeUndefined();
+  });
+
+  it("keeps the full text", () => {
+    const code = 'fun main() {\n  println("<hi> & bye")\n}';
+    const tokens = tokenizeCode(code, "kt");
+    expect(tokens?.map((token) => token.text).join("")).toBe(code);
+  });
+});
@@ -0,0 +1,21 @@
+import { type CodeToken, parseHighlightedHtml } from "@figdeck/shared";
+import hljs from "highlight.js";
+
+// Larger blocks are sent as plain text to keep the slide payload small
+const MAX_HIGHLIGHT_LENGTH = 10000;
+
+/**
+ * Tokenize code with every highlight.js grammar, so the plugin only has to
+ * color the tokens. Language names and aliases (`kt`, `yml`, `docker`, ...)
+ * are matched case-insensitively.
+ * Returns undefined for code without a known language or over the size limit.
+ */
+export function tokenizeCode(
+  code: string,
+  language: string | undefined,
+): CodeToken[] | undefined {
+  if (!language || code.length > MAX_HIGHLIGHT_LENGTH) return undefined;
+  const lang = language.toLowerCase();
+  if (!hljs.getLanguage(lang)) return undefined;
+  return parseHighlightedHtml(hljs.highlight(code, { language: lang }).value);
+}
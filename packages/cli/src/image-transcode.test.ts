@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, spyOn } from "bun:test";
+import type { SlideContent } from "@figdeck/shared";
+import sharp from "sharp";
+import {
+  clearTranscodeCache,
+  getTranscodeCacheSize,
+  MAX_TRANSCODE_CACHE_ENTRIES,
+  needsTranscode,
+  transcodeSlideImages,
+  transcodeToPng,
+} from "./image-transcode";
+
+const PNG_SIGNATURE = "iVBORw0KGgo";
+
+async function createImage(format: "webp" | "avif"): Promise<string> {
+  const image = sharp({
+    create: { width: 4, height: 3, channels: 3, background: "#ff0000" },
+  });
+  const buffer = await image.toFormat(format).toBuffer();
+  return buffer.toString("base64");
+}
+
+afterEach(() => {
+  clearTranscodeCache();
+});
+
+describe("needsTranscode", () => {
+  it("returns true for WebP and AVIF", () => {
+    expect(needsTranscode("image/webp")).toBe(true);
+    expect(needsTranscode("image/avif")).toBe(true);
+  });
+
+  it("returns false for formats Figma accepts", () => {
+    expect(needsTranscode("image/png")).toBe(false);
+    expect(needsTranscode("image/svg+xml")).toBe(false);
+    expect(needsTranscode(undefined)).toBe(false);
+  });
+});
+
+describe("transcodeToPng", () => {
+  it("converts WebP to PNG", async () => {
+    const png = await transcodeToPng(await createImage("webp"));
+    expect(png).toStartWith(PNG_SIGNATURE);
+
+    const metadata = await sharp(Buffer.from(png ?? "", "base64")).metadata();
+    expect(metadata.width).toBe(4);
+    expect(metadata.height).toBe(3);
+  });
+
+  it("converts AVIF to PNG", async () => {
+    const png = await transcodeToPng(await createImage("avif"));
+    expect(png).toStartWith(PNG_SIGNATURE);
+  });
+
+  it("returns null for undecodable data", async () => {
+    const png = await transcodeToPng(
+      Buffer.from("not an image").toString("base64"),
+    );
+    expect(png).toBeNull();
+  });
+
+  it("evicts the least recently used conversion when full", async () => {
+    const data = Array.from(
+      { length: MAX_TRANSCODE_CACHE_ENTRIES + 1 },
+      (_, i) => Buffer.from(`not an image ${i}`).toString("base64"),
+    );
+    const results = data.slice(0, -1).map((item) => transcodeToPng(item));
+
+    // Using the first entry again keeps it over the second
+    expect(transcodeToPng(data[0])).toBe(results[0]);
+    results.push(transcodeToPng(data[data.length - 1]));
+    await Promise.all(results);
+
+    expect(getTranscodeCacheSize()).toBe(MAX_TRANSCODE_CACHE_ENTRIES);
+    expect(transcodeToPng(data[0])).toBe(results[0]);
+    expect(transcodeToPng(data[1])).not.toBe(results[1]);
+  });
+});
+
+describe("transcodeSlideImages", () => {
+  it("converts image blocks, column images and backgrounds", async () => {
+    const webp = await createImage("webp");
+    const slides: SlideContent[] = [
+      {
+        background: {
+          image: { url: "bg.webp", mimeType: "image/webp", dataBase64: webp },
+        },
+        blocks: [
+          {
+            kind: "image",
+            url: "photo.webp",
+            mimeType: "image/webp",
+            dataBase64: webp,
+          },
+          {
+            kind: "columns",
+            columns: [
+              [
+                {
+                  kind: "image",
+                  url: "side.webp",
+                  mimeType: "image/webp",
+                  dataBase64: webp,
+                },
+              ],
+            ],
+          },
+        ],
+      },
+    ];
+
+    await transcodeSlideImages(slides);
+
+    const [image, columns] = slides[0].blocks;
+    if (image.kind !== "image" || columns.kind !== "columns") {
+      throw new Error("unexpected blocks");
+    }
+    const columnImage = columns.columns[0][0];
+    if (columnImage.kind !== "image") throw new Error("expected image");
+
+    for (const converted of [image, columnImage, slides[0].background?.image]) {
+      expect(converted?.mimeType).toBe("image/png");
+      expect(converted?.dataBase64).toStartWith(PNG_SIGNATURE);
+    }
+  });
+
+  it("drops image data that cannot be converted", async () => {
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    const slides: SlideContent[] = [
+      {
+        blocks: [
+          {
+            kind: "image",
+            url: "broken.webp",
+            mimeType: "image/webp",
+            dataBase64: Buffer.from("broken").toString("base64"),
+          },
+        ],
+      },
+    ];
+
+    await transcodeSlideImages(slides);
+
+    expect(slides[0].blocks[0]).toEqual({ kind: "image", url: "broken.webp" });
+    expect(warnSpy).toHaveBeenCalledWith(
+      "[figdeck] Failed to convert image to PNG: broken.webp",
+    );
+    warnSpy.mockRestore();
+  });
+});
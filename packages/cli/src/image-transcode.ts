@@ -0,0 +1,129 @@
+import { createHash } from "node:crypto";
+import type { SlideBlockItem, SlideContent } from "@figdeck/shared";
+import sharp from "sharp";
+
+/**
+ * Formats Figma's createImage API rejects, converted to PNG before sending
+ */
+const TRANSCODED_MIME_TYPES = new Set(["image/webp", "image/avif"]);
+
+/** Image fields shared by image blocks and background images */
+interface EncodedImage {
+  url: string;
+  mimeType?: string;
+  dataBase64?: string;
+}
+
+/**
+ * Maximum number of converted images kept in the cache
+ */
+export const MAX_TRANSCODE_CACHE_ENTRIES = 32;
+
+// Conversion cache: keyed by a hash of the source base64 so unchanged files
+// are converted once across watch-mode reparses. Map order tracks recent use;
+// the least recently used entry is evicted first.
+const pngCache = new Map<string, Promise<string | null>>();
+
+/**
+ * Clear the conversion cache. Useful for testing.
+ */
+export function clearTranscodeCache(): void {
+  pngCache.clear();
+}
+
+/**
+ * Get the current size of the conversion cache (for testing/debugging).
+ */
+export function getTranscodeCacheSize(): number {
+  return pngCache.size;
+}
+
+/**
+ * Check if an image needs converting to PNG before it can be sent
+ */
+export function needsTranscode(mimeType: string | undefined): boolean {
+  return mimeType !== undefined && TRANSCODED_MIME_TYPES.has(mimeType);
+}
+
+/**
+ * Convert base64 image data (WebP, AVIF, ...) to base64 PNG.
+ * Returns null if the data cannot be decoded.
+ */
+export function transcodeToPng(dataBase64: string): Promise<string | null> {
+  const key = createHash("sha256").update(dataBase64).digest("hex");
+  let result = pngCache.get(key);
+  if (result) {
+    pngCache.delete(key);
+  } else {
+    result = sharp(Buffer.from(dataBase64, "base64"))
+      .png()
+      .toBuffer()
+      .then((png) => png.toString("base64"))
+      .catch(() => null);
+    const oldest = pngCache.keys().next();
+    if (pngCache.size >= MAX_TRANSCODE_CACHE_ENTRIES && !oldest.done) {
+      pngCache.delete(oldest.value);
+    }
+  }
+  pngCache.set(key, result);
+  return result;
+}
+
+/**
+ * Convert an image in place; drops the data when conversion fails so the
+ * plugin shows a placeholder
+ */
+async function transcodeImage(image: EncodedImage): Promise<void> {
+  if (!image.dataBase64 || !needsTranscode(image.mimeType)) return;
+
+  const png = await transcodeToPng(image.dataBase64);
+  if (png) {
+    image.dataBase64 = png;
+    image.mimeType = "image/png";
+  } else {
+    console.warn(`[figdeck] Failed to convert image to PNG: ${image.url}`);
+    delete image.dataBase64;
+    delete image.mimeType;
+  }
+}
+
+/**
+ * Collect image blocks, including those inside columns
+ */
+function collectImageBlocks(blocks: SlideContent["blocks"]): EncodedImage[] {
+  const images: EncodedImage[] = [];
+  for (const block of blocks) {
+    if (block.kind === "image") {
+      images.push(block);
+    } else if (block.kind === "columns") {
+      for (const column of block.columns) {
+        images.push(
+          ...column.filter(
+            (item): item is Extract<SlideBlockItem, { kind: "image" }> =>
+              item.kind === "image",
+          ),
+        );
+      }
+    }
+  }
+  return images;
+}
+
+/**
+ * Convert WebP and AVIF images in parsed slides (blocks and backgrounds)
+ * to PNG. Slides are updated in place and returned.
+ */
+export async function transcodeSlideImages(
+  slides: SlideContent[],
+): Promise<SlideContent[]> {
+  const images: EncodedImage[] = [];
+  for (const slide of slides) {
+    if (slide.background?.image) {
+      images.push(slide.background.image);
+    }
+    images.push(...collectImageBlocks(slide.blocks));
+  }
+
+  await Promise.all(images.map(transcodeImage));
+  return slides;
+}
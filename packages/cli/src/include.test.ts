@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  getFrontmatterSrc,
+  parseIncludeComment,
+  readIncludeFile,
+  splitAtIncludes,
+} from "./include";
+import { parseMarkdown } from "./markdown";
+
+describe("parseIncludeComment", () => {
+  it("should return the include path", () => {
+    expect(parseIncludeComment("<!-- include: ./sections/intro.md -->")).toBe(
+      "./sections/intro.md",
+    );
+  });
+
+  it("should return null for other comments", () => {
+    expect(parseIncludeComment("<!-- notes: hello -->")).toBeNull();
+    expect(parseIncludeComment("Some text")).toBeNull();
+  });
+});
+
+describe("getFrontmatterSrc", () => {
+  it("should read src from fenced frontmatter", () => {
+    expect(getFrontmatterSrc("---\nsrc: ./team.md\n---\n")).toBe("./team.md");
+  });
+
+  it("should read src from implicit frontmatter", () => {
+    expect(getFrontmatterSrc("src: ./team.md\n---")).toBe("./team.md");
+  });
+
+  it("should return undefined without src", () => {
+    expect(getFrontmatterSrc("---\nid: intro\n---\n## Title")).toBeUndefined();
+    expect(getFrontmatterSrc("## Title")).toBeUndefined();
+  });
+});
+
+describe("splitAtIncludes", () => {
+  it("should split text around include comments", () => {
+    const segments = splitAtIncludes(
+      "## Before\n\n<!-- include: ./a.md -->\n\n## After",
+    );
+
+    expect(segments).toEqual([
+      { kind: "text", text: "## Before" },
+      { kind: "include", path: "./a.md" },
+      { kind: "text", text: "## After" },
+    ]);
+  });
+
+  it("should ignore include comments inside code fences", () => {
+    const markdown = "```html\n<!-- include: ./a.md -->\n```";
+    expect(splitAtIncludes(markdown)).toEqual([
+      { kind: "text", text: markdown },
+    ]);
+  });
+});
+
+describe("includes", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "figdeck-include-"));
+    mkdirSync(join(dir, "sections"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should insert slides from an include comment", () => {
+    writeFileSync(
+      join(dir, "sections", "intro.md"),
+      "## Intro 1\n\n---\n\n## Intro 2",
+    );
+
+    const slides = parseMarkdown(
+      "# Deck\n\n---\n\n<!-- include: ./sections/intro.md -->\n\n---\n\n## End",
+      { basePath: dir },
+    );
+
+    expect(slides).toHaveLength(4);
+    const titles = slides.map((slide) =>
+      slide.blocks[0].kind === "heading" ? slide.blocks[0].text : "",
+    );
+    expect(titles).toEqual(["Deck", "Intro 1", "Intro 2", "End"]);
+  });
+
+  it("should replace a slide with src frontmatter", () => {
+    writeFileSync(join(dir, "team.md"), "## Team");
+
+    const slides = parseMarkdown("# Deck\n\n---\nsrc: ./team.md\n---", {
+      basePath: dir,
+    });
+
+    expect(slides).toHaveLength(2);
+    expect(slides[1].blocks[0]).toMatchObject({ text: "Team" });
+  });
+
+  it("should ignore the included file's global frontmatter", () => {
+    writeFileSync(
+      join(dir, "part.md"),
+      "---\nfigdeck: true\nalign: right\n---\n## Part",
+    );
+
+    const slides = parseMarkdown(
+      "---\nalign: center\n---\n# Deck\n\n---\n\n<!-- include: ./part.md -->",
+      { basePath: dir },
+    );
+
+    expect(slides).toHaveLength(2);
+    expect(slides[1].align).toBe("center");
+  });
+
+  it("should resolve image paths against the included file", () => {
+    // Minimal 1x1 PNG
+    const png = Buffer.from(
+      "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==",
+      "base64",
+    );
+    writeFileSync(join(dir, "sections", "logo.png"), png);
+    writeFileSync(join(dir, "sections", "brand.md"), "![](./logo.png)");
+
+    const slides = parseMarkdown("<!-- include: ./sections/brand.md -->", {
+      basePath: dir,
+    });
+
+    const image = slides[0].blocks[0];
+    expect(image.kind).toBe("image");
+    if (image.kind !== "image") return;
+    expect(image.dataBase64).toBeDefined();
+  });
+
+  it("should collect included files", () => {
+    writeFileSync(join(dir, "a.md"), "## A\n\n---\n\n<!-- include: ./b.md -->");
+    writeFileSync(join(dir, "b.md"), "## B");
+    const includedFiles = new Set<string>();
+
+    parseMarkdown("<!-- include: ./a.md -->", { basePath: dir, includedFiles });
+
+    expect([...includedFiles].sort()).toEqual(
+      [join(dir, "a.md"), join(dir, "b.md")].sort(),
+    );
+  });
+
+  it("should report include cycles as errors", () => {
+    writeFileSync(join(dir, "a.md"), "<!-- include: ./b.md -->");
+    writeFileSync(join(dir, "b.md"), "<!-- include: ./a.md -->");
+
+    expect(() =>
+      parseMarkdown("<!-- include: ./a.md -->", { basePath: dir }),
+    ).toThrow("Include cycle detected: a.md -> b.md -> a.md");
+  });
+
+  it("should detect cycles back to the entry file", () => {
+    const entry = join(dir, "slides.md");
+    writeFileSync(join(dir, "a.md"), "<!-- include: ./slides.md -->");
+
+    expect(() =>
+      parseMarkdown("<!-- include: ./a.md -->", {
+        basePath: dir,
+        filePath: entry,
+      }),
+    ).toThrow("Include cycle detected: slides.md -> a.md -> slides.md");
+  });
+
+  it("should skip missing include files", () => {
+    const slides = parseMarkdown("## Only\n\n<!-- include: ./missing.md -->", {
+      basePath: dir,
+    });
+
+    expect(slides).toHaveLength(1);
+  });
+
+  it("readIncludeFile should return null for missing files", () => {
+    expect(readIncludeFile("./nope.md", dir, { stack: [] })).toBeNull();
+  });
+});
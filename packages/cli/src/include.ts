@@ -0,0 +1,135 @@
+import { existsSync, readFileSync } from "node:fs";
+import { basename, resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
+
+/**
+ * A piece of slide markdown: either plain text or a reference to another file
+ */
+export type IncludeSegment =
+  | { kind: "text"; text: string }
+  | { kind: "include"; path: string };
+
+/**
+ * State shared while expanding includes.
+ * `stack` holds the absolute paths of files currently being expanded,
+ * `files` collects every included file (for watching).
+ */
+export interface IncludeContext {
+  stack: string[];
+  files?: Set<string>;
+}
+
+/**
+ * Parse an include comment line.
+ *
+ * <!-- include: ./sections/intro.md -->
+ *
+ * Returns the referenced path, or null if the line is not an include.
+ */
+export function parseIncludeComment(line: string): string | null {
+  const match = line.trim().match(/^<!--\s*include:\s*(.+?)\s*-->$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Get the `src:` value from a slide's frontmatter, if any.
+ * Supports both fenced frontmatter and the implicit form produced by
+ * a slide separator followed by key/value lines.
+ */
+export function getFrontmatterSrc(slideMarkdown: string): string | undefined {
+  const trimmedStart = slideMarkdown.trimStart();
+
+  let yamlBlock: string | null = null;
+  if (trimmedStart.startsWith("---\n")) {
+    const endIndex = trimmedStart.indexOf("\n---", 4);
+    if (endIndex !== -1) {
+      yamlBlock = trimmedStart.slice(4, endIndex);
+    }
+  } else if (/^[a-zA-Z_][a-zA-Z0-9_]*:\s*/.test(trimmedStart)) {
+    const separatorIndex = trimmedStart.indexOf("\n---");
+    if (separatorIndex !== -1) {
+      yamlBlock = trimmedStart.slice(0, separatorIndex);
+    }
+  }
+
+  if (yamlBlock === null) return undefined;
+
+  try {
+    const config = parseYaml(yamlBlock) as { src?: unknown } | null;
+    if (config && typeof config.src === "string" && config.src.trim()) {
+      return config.src.trim();
+    }
+  } catch {
+    // Invalid YAML is reported when the slide itself is parsed
+  }
+  return undefined;
+}
+
+/**
+ * Split a slide's markdown at include comments.
+ * Include comments inside fenced code blocks are left untouched.
+ */
+export function splitAtIncludes(slideMarkdown: string): IncludeSegment[] {
+  const segments: IncludeSegment[] = [];
+  let currentLines: string[] = [];
+  let codeFence: string | null = null;
+
+  const flushText = () => {
+    const text = currentLines.join("\n").trim();
+    if (text) {
+      segments.push({ kind: "text", text });
+    }
+    currentLines = [];
+  };
+
+  for (const line of slideMarkdown.split(/\r?\n/)) {
+    const trimmed = line.trim();
+
+    const fenceMatch = trimmed.match(/^(```+|~~~+)/);
+    if (fenceMatch) {
+      if (codeFence === null) {
+        codeFence = fenceMatch[1];
+      } else if (trimmed.startsWith(codeFence)) {
+        codeFence = null;
+      }
+    }
+
+    const includePath =
+      codeFence === null && !fenceMatch ? parseIncludeComment(line) : null;
+    if (includePath) {
+      flushText();
+      segments.push({ kind: "include", path: includePath });
+      continue;
+    }
+
+    currentLines.push(line);
+  }
+
+  flushText();
+  return segments;
+}
+
+/**
+ * Read an included markdown file.
+ * Throws on include cycles; returns null (with a warning) if the file is missing.
+ */
+export function readIncludeFile(
+  includePath: string,
+  basePath: string | undefined,
+  context: IncludeContext,
+): { path: string; markdown: string } | null {
+  const resolvedPath = resolve(basePath ?? ".", includePath);
+
+  if (context.stack.includes(resolvedPath)) {
+    const cycle = [...context.stack, resolvedPath].map((p) => basename(p));
+    throw new Error(`Include cycle detected: ${cycle.join(" -> ")}`);
+  }
+
+  if (!existsSync(resolvedPath)) {
+    console.warn(`[figdeck] Include file not found: ${includePath}`);
+    return null;
+  }
+
+  context.files?.add(resolvedPath);
+  return { path: resolvedPath, markdown: readFileSync(resolvedPath, "utf-8") };
+}
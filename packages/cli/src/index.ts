@@ -2,13 +2,28 @@ import {
   existsSync,
   mkdirSync,
   readFileSync,
+  unwatchFile,
   watchFile,
   writeFileSync,
 } from "node:fs";
-import { dirname, join, resolve } from "node:path";
+import { basename, dirname, join, relative, resolve, sep } from "node:path";
 import { fileURLToPath } from "node:url";
+import { type LoadedConfig, loadConfig } from "@figdeck/lint";
+import type { EditMessage, SlideContent } from "@figdeck/shared";
 import { Command } from "commander";
+import { transcodeSlideImages } from "./image-transcode.js";
+import {
+  countIssues,
+  formatJson,
+  formatSarif,
+  formatText,
+  isLintFormat,
+  LINT_FORMATS,
+  lintFiles,
+} from "./lint.js";
 import { parseMarkdown } from "./markdown.js";
+import { startPreviewServer } from "./preview-server.js";
+import { getConfigParseOptions } from "./project-config.js";
 import {
   getAgentsTemplate,
   getClaudeTemplate,
@@ -16,17 +31,171 @@ import {
   getCursorTemplate,
   getInitTemplate,
 } from "./templates.js";
+import {
+  applySourceEdits,
+  formatUnifiedDiff,
+  getEditSourcePath,
+  resolveTextEdit,
+} from "./text-edit.js";
 import { generateSecret, isLoopbackHost, startServer } from "./ws-server.js";
 
 // Debounce delay for file watch (ms)
 const WATCH_DEBOUNCE_MS = 200;
 
+// How `serve` handles text edits made in Figma
+const EDIT_MODES = ["diff", "write", "off"] as const;
+type EditMode = (typeof EDIT_MODES)[number];
+
 // Read CLI version from package.json
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const pkgPath = resolve(__dirname, "../package.json");
 const pkg = JSON.parse(readFileSync(pkgPath, "utf-8"));
 const CLI_VERSION: string = pkg.version;
 
+/**
+ * Find the project config (figdeck.config.json / figdeck.config.ts) for a deck
+ * and report which file is used
+ */
+async function loadProjectConfig(
+  resolvedPath: string,
+  log = true,
+): Promise<LoadedConfig | null> {
+  // Serving or building a deck trusts its project, including figdeck.config.ts
+  const loaded = await loadConfig(dirname(resolvedPath), { allowScript: true });
+  if (loaded && log) {
+    console.log(`Using config ${relative(process.cwd(), loaded.path)}`);
+  }
+  return loaded;
+}
+
+/**
+ * Parse a Markdown deck and convert images Figma cannot decode.
+ * Files pulled in with includes are added to `includedFiles`.
+ */
+async function loadDeck(
+  resolvedPath: string,
+  config: LoadedConfig | null,
+  includedFiles = new Set<string>(),
+): Promise<SlideContent[]> {
+  const markdown = readFileSync(resolvedPath, "utf-8");
+  return transcodeSlideImages(
+    parseMarkdown(markdown, {
+      basePath: dirname(resolvedPath),
+      filePath: resolvedPath,
+      includedFiles,
+      ...getConfigParseOptions(config),
+    }),
+  );
+}
+
+/**
+ * Watch a deck and its include graph, re-parsing on every change
+ */
+function watchDeck(
+  file: string,
+  resolvedPath: string,
+  config: LoadedConfig | null,
+  initialIncludedFiles: Set<string>,
+  onChange: (slides: SlideContent[]) => void,
+): void {
+  console.log(`Watching ${file} for changes...`);
+
+  let includedFiles = initialIncludedFiles;
+  let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  let parseGeneration = 0;
+  const watchedFiles = new Set<string>();
+
+  const onFileChange = () => {
+    // Debounce rapid file changes
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+    debounceTimer = setTimeout(async () => {
+      debounceTimer = null;
+      const generation = ++parseGeneration;
+      try {
+        includedFiles = new Set<string>();
+        const slides = await loadDeck(resolvedPath, config, includedFiles);
+        // A newer change was parsed while images were converting
+        if (generation !== parseGeneration) return;
+        console.log(
+          `File changed. Parsed ${slides.length} slides from ${file}`,
+        );
+        onChange(slides);
+      } catch (error) {
+        console.error("Error reading file:", (error as Error).message);
+      } finally {
+        updateWatchedFiles();
+      }
+    }, WATCH_DEBOUNCE_MS);
+  };
+
+  // Watch the entry file plus every file in the include graph
+  const updateWatchedFiles = () => {
+    const nextFiles = new Set([resolvedPath, ...includedFiles]);
+    for (const watched of watchedFiles) {
+      if (!nextFiles.has(watched)) {
+        unwatchFile(watched, onFileChange);
+        watchedFiles.delete(watched);
+      }
+    }
+    for (const next of nextFiles) {
+      if (!watchedFiles.has(next)) {
+        watchFile(next, { interval: 300 }, onFileChange);
+        watchedFiles.add(next);
+      }
+    }
+  };
+
+  updateWatchedFiles();
+  if (includedFiles.size > 0) {
+    console.log(`Watching ${includedFiles.size} included file(s)`);
+  }
+}
+
+/**
+ * Map a text edit made in Figma back to the deck and either write it to the
+ * file or print it as a diff for review
+ */
+function handleFigmaEdit(
+  file: string,
+  resolvedPath: string,
+  mode: EditMode,
+  edit: EditMessage,
+  slides: SlideContent[],
+): void {
+  try {
+    // Slides from included files are patched in the file they came from
+    const sourcePath = getEditSourcePath(slides, edit) ?? resolvedPath;
+    const markdown = readFileSync(sourcePath, "utf-8");
+    const result = resolveTextEdit(markdown, slides, edit);
+    if (!result.ok) {
+      console.warn(`Could not sync edit from Figma: ${result.reason}`);
+      return;
+    }
+
+    const updated = applySourceEdits(markdown, result.edits);
+    if (updated === markdown) return;
+
+    if (mode === "write") {
+      writeFileSync(sourcePath, updated);
+      const displayPath =
+        sourcePath === resolvedPath
+          ? file
+          : relative(process.cwd(), sourcePath);
+      console.log(`Applied edit from Figma to ${displayPath}`);
+    } else {
+      // Paths in the diff are relative so it can be applied with `git apply`
+      const diffPath = relative(process.cwd(), sourcePath).split(sep).join("/");
+      console.log(
+        `Edit from Figma (run with --edits write to apply it):\n${formatUnifiedDiff(diffPath, markdown, updated)}`,
+      );
+    }
+  } catch (error) {
+    console.error("Error applying edit:", (error as Error).message);
+  }
+}
+
 const program = new Command();
 
 program
@@ -211,12 +380,12 @@ program
   .description("Parse Markdown and output slides JSON")
   .argument("<file>", "Markdown file path")
   .option("-o, --out <path>", "Output file path (default: stdout)")
-  .action((file: string, options: { out?: string }) => {
+  .action(async (file: string, options: { out?: string }) => {
     try {
       const resolvedPath = resolve(file);
-      const basePath = dirname(resolvedPath);
-      const markdown = readFileSync(resolvedPath, "utf-8");
-      const slides = parseMarkdown(markdown, { basePath });
+      // stdout may carry the JSON, so the config file is not reported
+      const config = await loadProjectConfig(resolvedPath, false);
+      const slides = await loadDeck(resolvedPath, config);
       const json = JSON.stringify(slides, null, 2);
 
       if (options.out) {
@@ -231,31 +400,116 @@ program
     }
   });
 
+// lint: check Markdown files for problems the plugin would hit
+program
+  .command("lint")
+  .description("Check Markdown files for errors (exits non-zero on errors)")
+  .argument("<files...>", "Markdown file paths")
+  .option(
+    "-f, --format <format>",
+    `Output format (${LINT_FORMATS.join(", ")})`,
+    "text",
+  )
+  .option("-o, --out <path>", "Output file path (default: stdout)")
+  .option(
+    "--max-image-size <mb>",
+    "Maximum local image size in MB (0 to disable)",
+  )
+  .action(
+    async (
+      files: string[],
+      options: { format: string; out?: string; maxImageSize?: string },
+    ) => {
+      try {
+        if (!isLintFormat(options.format)) {
+          console.error(`Error: Invalid --format: ${options.format}`);
+          console.error(`Valid formats: ${LINT_FORMATS.join(", ")}`);
+          process.exit(1);
+        }
+
+        let maxImageSizeMb: number | null | undefined;
+        if (options.maxImageSize !== undefined) {
+          const value = Number(options.maxImageSize);
+          if (!Number.isFinite(value) || value < 0) {
+            console.error(
+              `Error: Invalid --max-image-size: ${options.maxImageSize}`,
+            );
+            process.exit(1);
+          }
+          maxImageSizeMb = value === 0 ? null : value;
+        }
+
+        const results = await lintFiles(files, { maxImageSizeMb });
+        const report =
+          options.format === "json"
+            ? formatJson(results)
+            : options.format === "sarif"
+              ? formatSarif(results, CLI_VERSION)
+              : formatText(results);
+
+        if (options.out) {
+          writeFileSync(options.out, report, "utf-8");
+          console.log(`Wrote lint report to ${options.out}`);
+        } else {
+          console.log(report);
+        }
+
+        if (countIssues(results, "error") > 0) {
+          process.exit(1);
+        }
+      } catch (error) {
+        console.error("Error:", (error as Error).message);
+        process.exit(1);
+      }
+    },
+  );
+
 // serve: start WebSocket server, optionally watch for changes (default command)
 program
   .command("serve", { isDefault: true })
   .description("Start WebSocket server for Figma plugin connection")
   .argument("<file>", "Markdown file path")
-  .option("--host <host>", "WebSocket host", "127.0.0.1")
-  .option("-p, --port <port>", "WebSocket port", "4141")
+  .option("--host <host>", "WebSocket host (default: 127.0.0.1)")
+  .option("-p, --port <port>", "WebSocket port (default: 4141)")
   .option("--no-watch", "Disable watching for file changes")
   .option("--allow-remote", "Allow binding to non-loopback hosts")
   .option("--secret <secret>", "Require authentication with this secret")
   .option("--no-auth", "Disable authentication (not recommended for remote)")
+  .option(
+    "--edits <mode>",
+    `Text edits made in Figma: ${EDIT_MODES.join(", ")}`,
+    "diff",
+  )
   .action(
     async (
       file: string,
       options: {
-        host: string;
-        port: string;
+        host?: string;
+        port?: string;
         watch: boolean;
         allowRemote?: boolean;
         secret?: string;
         auth: boolean;
+        edits: string;
       },
     ) => {
       try {
-        const host = options.host;
+        const resolvedPath = resolve(file);
+        const config = await loadProjectConfig(resolvedPath);
+        // Command-line flags take precedence over the project config
+        const serveConfig = config?.config.serve ?? {};
+        const host = options.host ?? serveConfig.host ?? "127.0.0.1";
+        const port =
+          options.port !== undefined
+            ? parseInt(options.port, 10)
+            : (serveConfig.port ?? 4141);
+        const secretOption = options.secret ?? serveConfig.secret;
+        const editMode = options.edits as EditMode;
+        if (!EDIT_MODES.includes(editMode)) {
+          console.error(`Error: Invalid --edits: ${options.edits}`);
+          console.error(`Valid modes: ${EDIT_MODES.join(", ")}`);
+          process.exit(1);
+        }
         const isLoopback = isLoopbackHost(host);
 
         // Security check: require --allow-remote for non-loopback hosts
@@ -274,18 +528,16 @@ program
         if (options.auth !== false) {
           if (!isLoopback) {
             // Always require auth for remote connections
-            secret = options.secret || generateSecret();
-          } else if (options.secret) {
+            secret = secretOption || generateSecret();
+          } else if (secretOption) {
             // Use provided secret even for loopback
-            secret = options.secret;
+            secret = secretOption;
           }
           // For loopback without explicit secret, no auth required (backwards compat)
         }
 
-        const resolvedPath = resolve(file);
-        const basePath = dirname(resolvedPath);
-        let markdown = readFileSync(resolvedPath, "utf-8");
-        let slides = parseMarkdown(markdown, { basePath });
+        const includedFiles = new Set<string>();
+        const slides = await loadDeck(resolvedPath, config, includedFiles);
 
         console.log(`Parsed ${slides.length} slides from ${file}`);
 
@@ -297,36 +549,83 @@ program
 
         const server = await startServer(slides, {
           host,
-          port: parseInt(options.port, 10),
+          port,
           secret,
           cliVersion: CLI_VERSION,
+          onEdit:
+            editMode === "off"
+              ? undefined
+              : (edit, sentSlides) =>
+                  handleFigmaEdit(
+                    file,
+                    resolvedPath,
+                    editMode,
+                    edit,
+                    sentSlides,
+                  ),
         });
 
         if (options.watch) {
-          console.log(`Watching ${file} for changes...`);
-
-          let debounceTimer: ReturnType<typeof setTimeout> | null = null;
-          watchFile(file, { interval: 300 }, () => {
-            // Debounce rapid file changes
-            if (debounceTimer) {
-              clearTimeout(debounceTimer);
-            }
-            debounceTimer = setTimeout(() => {
-              debounceTimer = null;
-              try {
-                markdown = readFileSync(resolvedPath, "utf-8");
-                slides = parseMarkdown(markdown, { basePath });
-                console.log(
-                  `File changed. Parsed ${slides.length} slides from ${file}`,
-                );
-                server.broadcast(slides);
-              } catch (error) {
-                console.error("Error reading file:", (error as Error).message);
-              }
-            }, WATCH_DEBOUNCE_MS);
-          });
+          watchDeck(file, resolvedPath, config, includedFiles, (updated) =>
+            server.broadcast(updated),
+          );
+        }
+
+        console.log("Press Ctrl+C to stop the server.");
+        process.on("SIGINT", () => {
+          console.log("\nShutting down...");
+          server.close();
+          process.exit(0);
+        });
+      } catch (error) {
+        console.error("Error:", (error as Error).message);
+        process.exit(1);
+      }
+    },
+  );
+
+// preview: render slides as HTML in the browser, no Figma required
+program
+  .command("preview")
+  .description("Preview slides as HTML in the browser (no Figma required)")
+  .argument("<file>", "Markdown file path")
+  .option("--host <host>", "HTTP host", "127.0.0.1")
+  .option("-p, --port <port>", "HTTP port", "4142")
+  .option("--no-watch", "Disable watching for file changes")
+  .action(
+    async (
+      file: string,
+      options: { host: string; port: string; watch: boolean },
+    ) => {
+      try {
+        if (!isLoopbackHost(options.host)) {
+          console.error(
+            `Error: Preview server only binds to loopback hosts, got "${options.host}"`,
+          );
+          process.exit(1);
+        }
+
+        const resolvedPath = resolve(file);
+        const config = await loadProjectConfig(resolvedPath);
+        const includedFiles = new Set<string>();
+        const slides = await loadDeck(resolvedPath, config, includedFiles);
+
+        console.log(`Parsed ${slides.length} slides from ${file}`);
+
+        const server = await startPreviewServer(slides, {
+          host: options.host,
+          port: parseInt(options.port, 10),
+          title: basename(resolvedPath),
+          liveReload: options.watch,
+        });
+
+        if (options.watch) {
+          watchDeck(file, resolvedPath, config, includedFiles, (updated) =>
+            server.update(updated),
+          );
         }
 
+        console.log(`Open ${server.url} in your browser.`);
         console.log("Press Ctrl+C to stop the server.");
         process.on("SIGINT", () => {
           console.log("\nShutting down...");
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  countIssues,
+  type FileLintResult,
+  formatJson,
+  formatSarif,
+  formatText,
+  isLintFormat,
+  lintFiles,
+} from "./lint";
+
+const results: FileLintResult[] = [
+  {
+    file: "decks/slides.md",
+    issues: [
+      {
+        severity: "error",
+        message: "Unclosed :::figma block",
+        code: "figma-unclosed",
+        range: { startLine: 2, startColumn: 0, endLine: 2, endColumn: 8 },
+      },
+      {
+        severity: "warning",
+        message: "Image not found",
+        range: { startLine: 5, startColumn: 4, endLine: 5, endColumn: 20 },
+      },
+    ],
+  },
+  { file: "clean.md", issues: [] },
+];
+
+describe("isLintFormat", () => {
+  it("accepts supported formats only", () => {
+    expect(isLintFormat("text")).toBe(true);
+    expect(isLintFormat("sarif")).toBe(true);
+    expect(isLintFormat("xml")).toBe(false);
+  });
+});
+
+describe("formatText", () => {
+  it("prints 1-based positions and a summary", () => {
+    expect(formatText(results)).toBe(
+      [
+        "decks/slides.md:3:1 error Unclosed :::figma block (figma-unclosed)",
+        "decks/slides.md:6:5 warning Image not found",
+        "",
+        "1 error, 1 warning in 2 files",
+      ].join("\n"),
+    );
+  });
+
+  it("prints only the summary for clean files", () => {
+    expect(formatText([{ file: "a.md", issues: [] }])).toBe(
+      "0 errors, 0 warnings in 1 file",
+    );
+  });
+});
+
+describe("formatJson", () => {
+  it("includes counts and 1-based positions", () => {
+    const report = JSON.parse(formatJson(results));
+    expect(report.errorCount).toBe(1);
+    expect(report.warningCount).toBe(1);
+    expect(report.files[0].issues[0]).toEqual({
+      severity: "error",
+      code: "figma-unclosed",
+      message: "Unclosed :::figma block",
+      line: 3,
+      column: 1,
+      endLine: 3,
+      endColumn: 9,
+    });
+    expect(report.files[0].issues[1].code).toBeNull();
+  });
+});
+
+describe("formatSarif", () => {
+  it("produces a SARIF 2.1.0 run with rules and locations", () => {
+    const report = JSON.parse(formatSarif(results, "1.0.0", "/repo"));
+    expect(report.version).toBe("2.1.0");
+
+    const run = report.runs[0];
+    expect(run.tool.driver.name).toBe("figdeck");
+    expect(run.tool.driver.version).toBe("1.0.0");
+    expect(run.tool.driver.rules).toEqual([
+      { id: "figdeck" },
+      { id: "figma-unclosed" },
+    ]);
+
+    expect(run.results).toHaveLength(2);
+    expect(run.results[0]).toMatchObject({
+      ruleId: "figma-unclosed",
+      level: "error",
+      message: { text: "Unclosed :::figma block" },
+    });
+    expect(run.results[0].locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: "decks/slides.md", uriBaseId: "%SRCROOT%" },
+      region: { startLine: 3, startColumn: 1, endLine: 3, endColumn: 9 },
+    });
+    expect(run.results[1]).toMatchObject({
+      ruleId: "figdeck",
+      level: "warning",
+    });
+  });
+});
+
+describe("lintFiles", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "figdeck-lint-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reports issues found by the shared analyzers", async () => {
+    const file = join(dir, "slides.md");
+    writeFileSync(
+      file,
+      ["---", "transition: nope", "---", "# Title", "", ":::figma", ""].join(
+        "\n",
+      ),
+    );
+
+    const [result] = await lintFiles([file]);
+    const codes = result.issues.map((issue) => issue.code);
+    expect(codes).toContain("frontmatter-invalid-value");
+    expect(codes).toContain("figma-unclosed");
+    expect(countIssues([result], "error")).toBeGreaterThan(0);
+  });
+
+  it("resolves images against the file's directory", async () => {
+    writeFileSync(join(dir, "logo.png"), "x".repeat(2048));
+    const file = join(dir, "slides.md");
+    writeFileSync(file, "# Title\n\n![](./logo.png)\n");
+
+    const [result] = await lintFiles([file], { maxImageSizeMb: 0.001 });
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0].code).toBe("image-too-large");
+
+    const [unchecked] = await lintFiles([file], { maxImageSizeMb: null });
+    expect(unchecked.issues).toEqual([]);
+  });
+
+  it("returns no issues for a valid deck", async () => {
+    const file = join(dir, "slides.md");
+    writeFileSync(file, "---\ntransition: dissolve\n---\n# Title\n");
+
+    const [result] = await lintFiles([file]);
+    expect(result.issues).toEqual([]);
+  });
+});
@@ -0,0 +1,211 @@
+import { readFileSync } from "node:fs";
+import { dirname, relative, resolve, sep } from "node:path";
+import { analyzeDocument, type Issue, loadConfig } from "@figdeck/lint";
+
+/**
+ * Output formats for `figdeck lint`
+ */
+export const LINT_FORMATS = ["text", "json", "sarif"] as const;
+export type LintFormat = (typeof LINT_FORMATS)[number];
+
+/** Rule id for issues the analyzers report without a code */
+const DEFAULT_RULE_ID = "figdeck";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const INFORMATION_URI = "https://github.com/7nohe/figdeck";
+
+export interface LintOptions {
+  /**
+   * Maximum local image size in MB; null disables the check.
+   * Defaults to `images.maxSizeMb` from each file's project config.
+   */
+  maxImageSizeMb?: number | null;
+}
+
+/**
+ * Issues found in one file
+ */
+export interface FileLintResult {
+  /** Path as given on the command line */
+  file: string;
+  issues: Issue[];
+}
+
+export function isLintFormat(value: string): value is LintFormat {
+  return LINT_FORMATS.includes(value as LintFormat);
+}
+
+/**
+ * Analyze Markdown files with the same checks as the VS Code extension.
+ * Relative and root-relative images resolve against each file's directory,
+ * like `figdeck build`.
+ */
+export async function lintFiles(
+  files: string[],
+  options: LintOptions = {},
+): Promise<FileLintResult[]> {
+  const results: FileLintResult[] = [];
+  for (const file of files) {
+    const filePath = resolve(file);
+    const text = readFileSync(filePath, "utf-8");
+    let images: { maxSizeMb: number | null } | undefined;
+    if (options.maxImageSizeMb !== undefined) {
+      images = { maxSizeMb: options.maxImageSizeMb };
+    } else {
+      // Linting never runs figdeck.config.ts; only its JSON sibling applies
+      const config = await loadConfig(dirname(filePath));
+      const maxSizeMb = config?.config.images?.maxSizeMb;
+      if (maxSizeMb !== undefined) {
+        images = { maxSizeMb: maxSizeMb === 0 ? null : maxSizeMb };
+      }
+    }
+    const { issues } = await analyzeDocument(
+      { uri: { scheme: "file", fsPath: filePath }, getText: () => text },
+      dirname(filePath),
+      { images },
+    );
+    issues.sort(
+      (a, b) =>
+        a.range.startLine - b.range.startLine ||
+        a.range.startColumn - b.range.startColumn,
+    );
+    results.push({ file, issues });
+  }
+  return results;
+}
+
+export function countIssues(
+  results: FileLintResult[],
+  severity: Issue["severity"],
+): number {
+  return results.reduce(
+    (count, result) =>
+      count + result.issues.filter((i) => i.severity === severity).length,
+    0,
+  );
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Human-readable report: `file:line:column severity message (code)`
+ */
+export function formatText(results: FileLintResult[]): string {
+  const lines: string[] = [];
+  for (const { file, issues } of results) {
+    for (const issue of issues) {
+      const position = `${issue.range.startLine + 1}:${issue.range.startColumn + 1}`;
+      const code = issue.code ? ` (${issue.code})` : "";
+      lines.push(
+        `${file}:${position} ${issue.severity} ${issue.message}${code}`,
+      );
+    }
+  }
+
+  const errors = countIssues(results, "error");
+  const warnings = countIssues(results, "warning");
+  if (lines.length > 0) lines.push("");
+  lines.push(
+    `${plural(errors, "error")}, ${plural(warnings, "warning")} in ${plural(results.length, "file")}`,
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Machine-readable report with 1-based positions
+ */
+export function formatJson(results: FileLintResult[]): string {
+  const files = results.map(({ file, issues }) => ({
+    file,
+    issues: issues.map((issue) => ({
+      severity: issue.severity,
+      code: issue.code ?? null,
+      message: issue.message,
+      line: issue.range.startLine + 1,
+      column: issue.range.startColumn + 1,
+      endLine: issue.range.endLine + 1,
+      endColumn: issue.range.endColumn + 1,
+    })),
+  }));
+  return JSON.stringify(
+    {
+      files,
+      errorCount: countIssues(results, "error"),
+      warningCount: countIssues(results, "warning"),
+    },
+    null,
+    2,
+  );
+}
+
+function toSarifLevel(severity: Issue["severity"]): string {
+  switch (severity) {
+    case "error":
+      return "error";
+    case "warning":
+      return "warning";
+    default:
+      return "note";
+  }
+}
+
+/**
+ * SARIF 2.1.0 report for code scanning tools. Artifact URIs are relative to
+ * the working directory so they match repository paths in CI.
+ */
+export function formatSarif(
+  results: FileLintResult[],
+  toolVersion: string,
+  cwd = process.cwd(),
+): string {
+  const ruleIds = new Set<string>();
+  const sarifResults = results.flatMap(({ file, issues }) => {
+    const uri = relative(cwd, resolve(cwd, file)).split(sep).join("/");
+    return issues.map((issue) => {
+      const ruleId = issue.code ?? DEFAULT_RULE_ID;
+      ruleIds.add(ruleId);
+      return {
+        ruleId,
+        level: toSarifLevel(issue.severity),
+        message: { text: issue.message },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri, uriBaseId: "%SRCROOT%" },
+              region: {
+                startLine: issue.range.startLine + 1,
+                startColumn: issue.range.startColumn + 1,
+                endLine: issue.range.endLine + 1,
+                endColumn: issue.range.endColumn + 1,
+              },
+            },
+          },
+        ],
+      };
+    });
+  });
+
+  return JSON.stringify(
+    {
+      $schema: SARIF_SCHEMA,
+      version: "2.1.0",
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: "figdeck",
+              version: toolVersion,
+              informationUri: INFORMATION_URI,
+              rules: [...ruleIds].sort().map((id) => ({ id })),
+            },
+          },
+          results: sarifResults,
+        },
+      ],
+    },
+    null,
+    2,
+  );
+}
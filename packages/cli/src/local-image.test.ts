@@ -36,11 +36,14 @@ describe("isRemoteUrl", () => {
 });
 
 describe("isSupportedImageFormat", () => {
-  it("returns true for supported formats (PNG, JPEG, GIF only)", () => {
+  it("returns true for supported formats", () => {
     expect(isSupportedImageFormat("image.jpg")).toBe(true);
     expect(isSupportedImageFormat("image.jpeg")).toBe(true);
     expect(isSupportedImageFormat("image.png")).toBe(true);
     expect(isSupportedImageFormat("image.gif")).toBe(true);
+    expect(isSupportedImageFormat("image.svg")).toBe(true);
+    expect(isSupportedImageFormat("image.webp")).toBe(true);
+    expect(isSupportedImageFormat("image.avif")).toBe(true);
   });
 
   it("returns true for uppercase extensions", () => {
@@ -48,9 +51,7 @@ describe("isSupportedImageFormat", () => {
     expect(isSupportedImageFormat("image.PNG")).toBe(true);
   });
 
-  it("returns false for unsupported formats (WebP, SVG not supported by Figma Slides)", () => {
-    expect(isSupportedImageFormat("image.webp")).toBe(false);
-    expect(isSupportedImageFormat("image.svg")).toBe(false);
+  it("returns false for unsupported formats", () => {
     expect(isSupportedImageFormat("image.bmp")).toBe(false);
     expect(isSupportedImageFormat("image.tiff")).toBe(false);
     expect(isSupportedImageFormat("document.pdf")).toBe(false);
@@ -59,16 +60,17 @@ describe("isSupportedImageFormat", () => {
 });
 
 describe("getMimeType", () => {
-  it("returns correct MIME types (PNG, JPEG, GIF only)", () => {
+  it("returns correct MIME types", () => {
     expect(getMimeType("image.jpg")).toBe("image/jpeg");
     expect(getMimeType("image.jpeg")).toBe("image/jpeg");
     expect(getMimeType("image.png")).toBe("image/png");
     expect(getMimeType("image.gif")).toBe("image/gif");
+    expect(getMimeType("image.svg")).toBe("image/svg+xml");
+    expect(getMimeType("image.webp")).toBe("image/webp");
+    expect(getMimeType("image.avif")).toBe("image/avif");
   });
 
-  it("returns null for unsupported formats (WebP, SVG not supported)", () => {
-    expect(getMimeType("image.webp")).toBe(null);
-    expect(getMimeType("image.svg")).toBe(null);
+  it("returns null for unsupported formats", () => {
     expect(getMimeType("image.bmp")).toBe(null);
     expect(getMimeType("file.txt")).toBe(null);
   });
@@ -216,18 +218,30 @@ describe("readLocalImage", () => {
     readSpy.mockRestore();
   });
 
-  it("returns null for unsupported formats (WebP, SVG)", () => {
+  it("returns SVG files as markup", () => {
+    const svg = '<svg xmlns="http://www.w3.org/2000/svg"></svg>';
+
     const existsSpy = spyOn(fs, "existsSync").mockReturnValue(true);
     const statSpy = spyOn(fs, "statSync").mockReturnValue({
-      size: 1000,
+      size: svg.length,
     } as fs.Stats);
+    const readSpy = spyOn(fs, "readFileSync").mockReturnValue(Buffer.from(svg));
 
-    // WebP is not supported by Figma Slides
-    let result = readLocalImage("modern.webp", testBasePath);
-    expect(result).toBe(null);
+    const result = readLocalImage("vector.svg", testBasePath);
+    expect(result).toEqual({ mimeType: "image/svg+xml", svg });
+
+    existsSpy.mockRestore();
+    statSpy.mockRestore();
+    readSpy.mockRestore();
+  });
+
+  it("returns null for unsupported formats (BMP)", () => {
+    const existsSpy = spyOn(fs, "existsSync").mockReturnValue(true);
+    const statSpy = spyOn(fs, "statSync").mockReturnValue({
+      size: 1000,
+    } as fs.Stats);
 
-    // SVG is not supported by Figma Slides createImage API
-    result = readLocalImage("vector.svg", testBasePath);
+    const result = readLocalImage("legacy.bmp", testBasePath);
     expect(result).toBe(null);
 
     existsSpy.mockRestore();
@@ -25,21 +25,29 @@ export function getImageCacheSize(): number {
 }
 
 // Supported image extensions and their MIME types
-// Only formats supported by Figma's createImage API: PNG, JPEG, GIF
-// Note: WebP and SVG are NOT supported by Figma Slides
+// Figma's createImage API only takes PNG, JPEG and GIF: SVG is sent as
+// markup for createNodeFromSvg, and WebP/AVIF are transcoded to PNG
 const MIME_TYPES: Record<string, string> = {
   ".jpg": "image/jpeg",
   ".jpeg": "image/jpeg",
   ".png": "image/png",
   ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
 };
 
+export const SVG_MIME_TYPE = "image/svg+xml";
+
 // Default maximum file size (5MB)
 const DEFAULT_MAX_SIZE = 5 * 1024 * 1024;
 
 export interface LocalImageResult {
-  dataBase64: string;
   mimeType: string;
+  /** Base64-encoded bytes (raster formats) */
+  dataBase64?: string;
+  /** SVG markup (SVG files) */
+  svg?: string;
 }
 
 export interface LocalImageOptions {
@@ -80,7 +88,8 @@ export function resolveImagePath(imagePath: string, basePath: string): string {
 }
 
 /**
- * Read a local image file and return base64-encoded data with MIME type.
+ * Read a local image file and return base64-encoded data (or SVG markup)
+ * with MIME type.
  * Returns null if:
  * - The file doesn't exist
  * - The format is not supported
@@ -128,8 +137,10 @@ export function readLocalImage(
 
   try {
     const buffer = readFileSync(resolvedPath);
-    const dataBase64 = buffer.toString("base64");
-    const result = { dataBase64, mimeType };
+    const result: LocalImageResult =
+      mimeType === SVG_MIME_TYPE
+        ? { mimeType, svg: buffer.toString("utf-8") }
+        : { mimeType, dataBase64: buffer.toString("base64") };
 
     // Store in cache
     imageCache.set(resolvedPath, {
@@ -1,4 +1,7 @@
-import { describe, expect, it } from "bun:test";
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { parseImageAlt, parseMarkdown } from "./markdown.js";
 
 describe("parseMarkdown", () => {
@@ -1141,6 +1144,302 @@ Some content.`);
     });
   });
 
+  describe("speaker notes", () => {
+    it("should extract notes from an HTML comment", () => {
+      const result = parseMarkdown(
+        "## Title\n\nBody\n\n<!-- notes: Talk about the roadmap -->",
+      );
+      expect(result).toHaveLength(1);
+      expect(result[0].notes).toBe("Talk about the roadmap");
+      expect(result[0].blocks).toHaveLength(2);
+    });
+
+    it("should extract notes from a :::notes block", () => {
+      const result = parseMarkdown(
+        "## Title\n\n:::notes\nMention **pricing**.\n:::\n\nBody",
+      );
+      expect(result[0].notes).toBe("Mention **pricing**.");
+      expect(result[0].blocks).toEqual([
+        {
+          kind: "heading",
+          level: 2,
+          text: "Title",
+          spans: [{ text: "Title" }],
+        },
+        { kind: "paragraph", text: "Body", spans: [{ text: "Body" }] },
+      ]);
+    });
+
+    it("should join multiple notes with a blank line", () => {
+      const result = parseMarkdown(
+        "## Title\n\n<!-- notes: First -->\n\n:::notes\nSecond\n:::",
+      );
+      expect(result[0].notes).toBe("First\n\nSecond");
+    });
+
+    it("should keep notes in document order", () => {
+      const result = parseMarkdown(
+        ":::notes\nFirst\n:::\n\n## Title\n\n<!-- notes: Second -->\n\n:::notes\nThird\n:::",
+      );
+      expect(result[0].notes).toBe("First\n\nSecond\n\nThird");
+      expect(result[0].blocks).toHaveLength(1);
+    });
+
+    it("should collect notes written inside columns", () => {
+      const result = parseMarkdown(
+        "## Title\n\n:::columns\n:::column\nLeft\n\n:::notes\nFrom the left\n:::\n:::column\nRight\n\n<!-- notes: From the right -->\n:::\n",
+      );
+      expect(result[0].notes).toBe("From the left\n\nFrom the right");
+      const columns = result[0].blocks[1];
+      expect(columns.kind).toBe("columns");
+      if (columns.kind === "columns") {
+        expect(columns.columns[0]).toEqual([
+          { kind: "paragraph", text: "Left", spans: [{ text: "Left" }] },
+        ]);
+      }
+    });
+
+    it("should keep a slide with only notes", () => {
+      const result = parseMarkdown(
+        "## One\n\n---\n\n:::notes\nOnly notes\n:::",
+      );
+      expect(result).toHaveLength(2);
+      expect(result[1].blocks).toEqual([]);
+      expect(result[1].notes).toBe("Only notes");
+    });
+
+    it("should leave :::notes inside fenced code as code", () => {
+      const result = parseMarkdown(
+        "## Title\n\n```md\n:::notes\nSample\n:::\n```",
+      );
+      expect(result[0].notes).toBeUndefined();
+      expect(result[0].blocks[1]).toMatchObject({
+        kind: "code",
+        code: ":::notes\nSample\n:::",
+      });
+    });
+
+    it("should keep notes per slide", () => {
+      const result = parseMarkdown(
+        "## One\n\n<!-- notes: For one -->\n\n---\n\n## Two",
+      );
+      expect(result).toHaveLength(2);
+      expect(result[0].notes).toBe("For one");
+      expect(result[1].notes).toBeUndefined();
+    });
+
+    it("should ignore regular HTML comments", () => {
+      const result = parseMarkdown("## Title\n\n<!-- draft -->");
+      expect(result[0].notes).toBeUndefined();
+      expect(result[0].blocks).toHaveLength(1);
+    });
+  });
+
+  describe("layouts", () => {
+    it("should apply per-slide layout", () => {
+      const result = parseMarkdown(`# Title
+
+---
+layout: quote
+---
+> Simplicity is the ultimate sophistication.`);
+
+      expect(result[0].layout).toBeUndefined();
+      expect(result[1].layout).toBe("quote");
+    });
+
+    it("should apply global layout and allow resetting to default", () => {
+      const result = parseMarkdown(`---
+layout: section
+---
+# Part 1
+
+---
+layout: default
+---
+## Details`);
+
+      expect(result[0].layout).toBe("section");
+      expect(result[1].layout).toBeUndefined();
+    });
+  });
+
+  describe("mermaid diagrams", () => {
+    it("should turn mermaid fences into diagram blocks", () => {
+      const result = parseMarkdown(
+        "## Flow\n\n```mermaid\nflowchart LR\n  A --> B\n```",
+      );
+      const block = result[0].blocks[1];
+      expect(block.kind).toBe("diagram");
+      if (block.kind !== "diagram") return;
+      expect(block.diagram.type).toBe("flowchart");
+      expect(block.diagram.nodes).toHaveLength(2);
+      expect(block.diagram.edges).toHaveLength(1);
+    });
+
+    it("should keep unsupported mermaid diagrams as code", () => {
+      const result = parseMarkdown('```mermaid\npie\n  "A": 1\n```');
+      expect(result[0].blocks[0]).toEqual({
+        kind: "code",
+        language: "mermaid",
+        code: 'pie\n  "A": 1',
+      });
+    });
+  });
+
+  describe("charts", () => {
+    it("should turn chart fences into chart blocks", () => {
+      const result = parseMarkdown(
+        "## Sales\n\n```chart bar\nQuarter,Sales\nQ1,10\nQ2,20\n```",
+      );
+      expect(result[0].blocks[1]).toEqual({
+        kind: "chart",
+        chart: {
+          type: "bar",
+          labels: ["Q1", "Q2"],
+          series: [{ name: "Sales", values: [10, 20] }],
+        },
+      });
+    });
+
+    it("should keep invalid charts as code", () => {
+      const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+      try {
+        const result = parseMarkdown("```chart\ntype: radar\n```");
+        expect(result[0].blocks[0]).toEqual({
+          kind: "code",
+          language: "chart",
+          code: "type: radar",
+        });
+      } finally {
+        warnSpy.mockRestore();
+      }
+    });
+  });
+
+  describe("math", () => {
+    it("should turn display math into math blocks", () => {
+      const result = parseMarkdown("## Energy\n\n$$\nE = mc^2\n$$");
+      const block = result[0].blocks[1];
+      expect(block.kind).toBe("math");
+      if (block.kind !== "math") return;
+      expect(block.tex).toBe("E = mc^2");
+      expect(block.math.svg).toStartWith("<svg");
+    });
+
+    it("should render inline math in paragraphs", () => {
+      const result = parseMarkdown("Mass $m$ and energy");
+      const block = result[0].blocks[0];
+      if (block.kind !== "paragraph") throw new Error("expected paragraph");
+      expect(block.text).toBe("Mass m and energy");
+      expect(block.spans?.[1].math).toBeDefined();
+    });
+
+    it("should keep invalid display math as a LaTeX code block", () => {
+      const result = parseMarkdown("$$\n\\frac{a\n$$");
+      expect(result[0].blocks[0]).toEqual({
+        kind: "code",
+        language: "latex",
+        code: "\\frac{a",
+      });
+    });
+  });
+
+  describe("build slides", () => {
+    it("should split a slide at pause comments", () => {
+      const result = parseMarkdown(`## Agenda
+
+First point
+
+<!-- pause -->
+
+Second point`);
+
+      expect(result).toHaveLength(2);
+      expect(result[0].blocks).toHaveLength(2);
+      expect(result[1].blocks).toHaveLength(3);
+      expect(result[1].build).toEqual({ step: 2, total: 2 });
+    });
+
+    it("should reveal list items with incremental frontmatter", () => {
+      const result = parseMarkdown(`# Cover
+
+---
+incremental: true
+---
+## Steps
+
+- Plan
+- Build
+- Ship`);
+
+      expect(result).toHaveLength(4);
+      const lastList = result[3].blocks[1];
+      expect(lastList.kind === "bullets" && lastList.items).toHaveLength(3);
+      const firstList = result[1].blocks[1];
+      expect(firstList.kind === "bullets" && firstList.items).toHaveLength(1);
+    });
+
+    it("should give build steps ids derived from the first step", () => {
+      const result = parseMarkdown(`---
+figdeck: true
+---
+---
+id: agenda
+---
+## Agenda
+
+<!-- pause -->
+
+Details`);
+
+      expect(result.map((s) => s.id)).toEqual(["agenda", "agenda-step2"]);
+    });
+
+    it("should mark every step of the first slide as cover", () => {
+      const result = parseMarkdown(
+        "# Title\n\n<!-- pause -->\n\nSubtitle\n\n---\n\n## Next",
+      );
+      expect(result.map((s) => s.cover)).toEqual([true, true, undefined]);
+    });
+
+    it("should not treat pause comments in code as markers", () => {
+      const result = parseMarkdown("```html\n<!-- pause -->\n```");
+      expect(result).toHaveLength(1);
+    });
+  });
+
+  describe("slide ids", () => {
+    it("should use id from slide frontmatter", () => {
+      const result = parseMarkdown(`---
+figdeck: true
+---
+---
+id: intro
+---
+## Welcome`);
+      expect(result[0].id).toBe("intro");
+    });
+
+    it("should assign fingerprints that survive reordering", () => {
+      const original = parseMarkdown("## One\n\n---\n\n## Two");
+      const reordered = parseMarkdown("## Two\n\n---\n\n## One");
+      expect(reordered[0].id).toBe(original[1].id);
+      expect(reordered[1].id).toBe(original[0].id);
+    });
+
+    it("should keep identity when the slide body changes", () => {
+      const before = parseMarkdown("## Roadmap\n\nQ1 plans");
+      const after = parseMarkdown("## Roadmap\n\nQ2 plans");
+      expect(after[0].id).toBe(before[0].id);
+    });
+
+    it("should make duplicate ids unique", () => {
+      const result = parseMarkdown("## Same\n\n---\n\n## Same");
+      expect(result[0].id).not.toBe(result[1].id);
+    });
+  });
+
   describe("h1 and h2 in same slide", () => {
     it("should include both h1 and h2 as blocks when in same slide", () => {
       const result = parseMarkdown(`# Main Title
@@ -1853,6 +2152,75 @@ Regular text.
     }
   });
 
+  it("should parse custom titles and new built-in types", () => {
+    const result = parseMarkdown(`## Slide
+
+:::question[Why Figma?]
+Slides stay editable.
+:::
+
+:::success
+Deployed.
+:::`);
+
+    const blocks = result[0].blocks;
+    expect(blocks[1]).toMatchObject({
+      kind: "callout",
+      type: "question",
+      title: "Why Figma?",
+      text: "Slides stay editable.",
+    });
+    expect(blocks[2]).toMatchObject({ kind: "callout", type: "success" });
+    expect(blocks[2]).not.toHaveProperty("title");
+  });
+
+  it("should parse user-defined callout types and warn about undefined ones", () => {
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const result = parseMarkdown(`---
+callouts:
+  decision:
+    color: "#7c3aed"
+    icon: "⚖️"
+---
+
+## Slide
+
+:::decision
+Ship on Friday.
+:::
+
+:::idea
+Undefined type.
+:::`);
+
+      const blocks = result[0].blocks;
+      expect(blocks[1]).toMatchObject({ kind: "callout", type: "decision" });
+      expect(blocks[2]).toMatchObject({ kind: "callout", type: "idea" });
+      expect(result[0].styles?.callouts?.decision).toEqual({
+        color: "#7c3aed",
+        icon: "⚖️",
+      });
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[figdeck] Unknown callout type "idea". Define it under "callouts" in the frontmatter',
+      );
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+
+  it("should keep :::notes as speaker notes", () => {
+    const result = parseMarkdown(`## Slide
+
+:::notes
+Say hello.
+:::`);
+
+    expect(result[0].blocks).toHaveLength(1);
+    expect(result[0].notes).toBe("Say hello.");
+  });
+
   it("should not collide callout placeholders between global and columns", () => {
     const result = parseMarkdown(`## Slide
 
@@ -1890,3 +2258,405 @@ Regular text.
     }
   });
 });
+
+describe("base frontmatter", () => {
+  it("merges the global frontmatter over the base frontmatter", () => {
+    const markdown = `---
+headings:
+  h1:
+    color: "#ff0000"
+slideNumber:
+  position: top-right
+---
+
+# Title`;
+    const slides = parseMarkdown(markdown, {
+      baseFrontmatter: {
+        align: "center",
+        headings: { h1: { size: 64, color: "#000000" } },
+        slideNumber: { show: true, size: 12 },
+        titlePrefix: false,
+      },
+    });
+
+    expect(slides[0].align).toBe("center");
+    expect(slides[0].styles?.headings?.h1).toEqual({
+      size: 64,
+      color: "#ff0000",
+    });
+    expect(slides[0].slideNumber).toMatchObject({
+      show: true,
+      size: 12,
+      position: "top-right",
+    });
+    expect(slides[0].titlePrefix).toBeNull();
+  });
+
+  it("lets the global frontmatter override the base cover setting", () => {
+    const base = { baseFrontmatter: { cover: false } };
+    expect(parseMarkdown("# One", base)[0].cover).toBeUndefined();
+    expect(parseMarkdown("---\ncover: true\n---\n# One", base)[0].cover).toBe(
+      true,
+    );
+  });
+
+  it("applies to included files", () => {
+    const dir = mkdtempSync(join(tmpdir(), "figdeck-base-"));
+    try {
+      writeFileSync(join(dir, "part.md"), "# Included");
+      const slides = parseMarkdown("# Entry\n\n<!-- include: ./part.md -->", {
+        basePath: dir,
+        baseFrontmatter: { valign: "bottom" },
+      });
+      expect(slides.map((slide) => slide.valign)).toEqual(["bottom", "bottom"]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("theme frontmatter", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "figdeck-theme-"));
+    writeFileSync(
+      join(dir, "brand.yaml"),
+      [
+        "background: '#101820'",
+        "headings:",
+        "  h1:",
+        "    size: 72",
+        "    color: '#ffffff'",
+        "code:",
+        "  background: '#fafafa'",
+        "  colors:",
+        "    keyword: '#d73a49'",
+        "callouts:",
+        "  note:",
+        "    color: '#0969da'",
+        "slideNumber: true",
+      ].join("\n"),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("applies a local theme under the global frontmatter", () => {
+    const markdown = `---
+theme: ./brand.yaml
+headings:
+  h1:
+    color: "#ff0000"
+---
+
+# Title`;
+    const slides = parseMarkdown(markdown, { basePath: dir });
+
+    expect(slides[0].background).toEqual({ solid: "#101820" });
+    expect(slides[0].styles?.headings?.h1).toEqual({
+      size: 72,
+      color: "#ff0000",
+    });
+    expect(slides[0].styles?.codePalette).toEqual({
+      background: "#fafafa",
+      colors: { keyword: "#d73a49" },
+    });
+    expect(slides[0].styles?.callouts).toEqual({
+      note: { color: "#0969da" },
+    });
+    expect(slides[0].slideNumber).toEqual({ show: true });
+  });
+
+  it("resolves themes from packages and watches the theme file", () => {
+    const pkg = join(dir, "node_modules", "@acme", "deck-theme");
+    mkdirSync(pkg, { recursive: true });
+    writeFileSync(
+      join(pkg, "package.json"),
+      JSON.stringify({ name: "@acme/deck-theme", main: "theme.json" }),
+    );
+    writeFileSync(join(pkg, "theme.json"), JSON.stringify({ align: "right" }));
+
+    const includedFiles = new Set<string>();
+    const slides = parseMarkdown("---\ntheme: '@acme/deck-theme'\n---\n# A", {
+      basePath: dir,
+      includedFiles,
+    });
+
+    expect(slides[0].align).toBe("right");
+    expect(includedFiles.has(join(pkg, "theme.json"))).toBe(true);
+  });
+
+  it("watches code theme files from global and slide frontmatter", () => {
+    writeFileSync(join(dir, "global.json"), "{}");
+    writeFileSync(join(dir, "slide.json"), "{}");
+    const includedFiles = new Set<string>();
+    parseMarkdown(
+      "---\ncode:\n  theme: ./global.json\n---\n# A\n\n---\n\n---\ncode:\n  theme: ./slide.json\n---\n## B",
+      { basePath: dir, includedFiles },
+    );
+
+    expect(includedFiles).toEqual(
+      new Set([join(dir, "global.json"), join(dir, "slide.json")]),
+    );
+  });
+
+  it("uses the project config theme unless the deck sets one", () => {
+    writeFileSync(join(dir, "other.yaml"), "valign: bottom");
+    const options = {
+      basePath: dir,
+      baseFrontmatter: { theme: "./brand.yaml", align: "center" },
+      baseFrontmatterPath: dir,
+    };
+
+    const fromConfig = parseMarkdown("# A", options);
+    expect(fromConfig[0].background).toEqual({ solid: "#101820" });
+    expect(fromConfig[0].align).toBe("center");
+
+    const fromDeck = parseMarkdown(
+      "---\ntheme: ./other.yaml\n---\n# A",
+      options,
+    );
+    expect(fromDeck[0].background).toBeUndefined();
+    expect(fromDeck[0].valign).toBe("bottom");
+    expect(fromDeck[0].align).toBe("center");
+  });
+
+  it("warns and ignores missing themes", () => {
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const slides = parseMarkdown("---\ntheme: ./missing.yaml\n---\n# A", {
+        basePath: dir,
+      });
+      expect(slides).toHaveLength(1);
+      expect(warnSpy).toHaveBeenCalledWith(
+        "[figdeck] Theme not found: ./missing.yaml",
+      );
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+});
+
+describe("chart data files", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "figdeck-chart-data-"));
+    writeFileSync(join(dir, "sales.csv"), "Region,Sales\nEU,40\nUS,60\n");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("watches CSV files of charts, including charts in columns", () => {
+    const includedFiles = new Set<string>();
+    writeFileSync(join(dir, "visits.csv"), "Month,Visits\nJan,5\n");
+    const markdown = [
+      "```chart",
+      "data: ./sales.csv",
+      "```",
+      "",
+      ":::columns",
+      ":::column",
+      "```chart",
+      "data: ./visits.csv",
+      "```",
+      ":::column",
+      "Text",
+      ":::",
+    ].join("\n");
+
+    parseMarkdown(markdown, { basePath: dir, includedFiles });
+
+    expect(includedFiles).toEqual(
+      new Set([join(dir, "sales.csv"), join(dir, "visits.csv")]),
+    );
+  });
+});
+
+describe("code fence meta", () => {
+  it("parses highlighted lines, title and flags", () => {
+    const markdown = [
+      '```ts {1,3-4} title="server.ts" showLineNumbers dim',
+      "a",
+      "b",
+      "c",
+      "d",
+      "```",
+    ].join("\n");
+    const [slide] = parseMarkdown(markdown);
+    expect(slide.blocks[0]).toMatchObject({
+      kind: "code",
+      language: "ts",
+      code: "a\nb\nc\nd",
+      highlightLines: [1, 3, 4],
+      title: "server.ts",
+      showLineNumbers: true,
+      dimUnhighlighted: true,
+    });
+  });
+
+  it("drops lines outside the code and ignores dim without highlights", () => {
+    const [slide] = parseMarkdown(
+      "```js {2-9} title='a dim b'\nx\ny\n```\n\n```js dim\nz\n```",
+    );
+    expect(slide.blocks[0]).toMatchObject({
+      highlightLines: [2],
+      title: "a dim b",
+    });
+    expect(slide.blocks[0]).not.toHaveProperty("dimUnhighlighted");
+    expect(slide.blocks[1]).toMatchObject({ language: "js", code: "z" });
+    expect(slide.blocks[1]).not.toHaveProperty("highlightLines");
+  });
+});
+
+describe("code tokens", () => {
+  it("tokenizes languages the plugin does not bundle", () => {
+    const [slide] = parseMarkdown('```kotlin\nval name = "figdeck"\n```');
+    const block = slide.blocks[0];
+    expect(block.kind === "code" && block.tokens).toEqual([
+      { text: "val", token: "keyword" },
+      { text: " name = ", token: "default" },
+      { text: '"figdeck"', token: "string" },
+    ]);
+  });
+
+  it("leaves code without a known language untokenized", () => {
+    const [slide] = parseMarkdown("```\nplain\n```\n\n```nope\nx\n```");
+    expect(slide.blocks[0]).not.toHaveProperty("tokens");
+    expect(slide.blocks[1]).not.toHaveProperty("tokens");
+  });
+});
+
+describe("autoFit", () => {
+  const longList = Array.from({ length: 30 }, (_, i) => `- Item ${i + 1}`);
+
+  it("splits long lists with a global autoFit: split", () => {
+    const result = parseMarkdown(
+      ["---", "autoFit: split", "---", "## Agenda", "", ...longList].join("\n"),
+    );
+
+    expect(result).toHaveLength(2);
+    expect(result[0].autoFit).toEqual({ mode: "split" });
+    expect(result[1].blocks[0]).toMatchObject({ text: "Agenda" });
+    expect(result[0].id).not.toBe(result[1].id);
+  });
+
+  it("derives ids of follow-up slides from the split slide", () => {
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const result = parseMarkdown(
+        [
+          "---",
+          "autoFit: split",
+          "---",
+          "---",
+          "id: agenda",
+          "---",
+          "## Agenda",
+          "",
+          ...longList,
+          "",
+          "---",
+          "",
+          "## Agenda",
+          "",
+          ...longList,
+        ].join("\n"),
+      );
+
+      expect(result.map((slide) => slide.id)).toEqual([
+        "agenda",
+        "agenda-cont2",
+        expect.stringMatching(/^h-/),
+        `${result[2].id}-cont2`,
+      ]);
+      expect(warnSpy).not.toHaveBeenCalled();
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+
+  it("lets a slide disable the global setting", () => {
+    const result = parseMarkdown(
+      [
+        "---",
+        "autoFit: split",
+        "---",
+        "# Cover",
+        "---",
+        "autoFit: false",
+        "---",
+        "## Agenda",
+        "",
+        ...longList,
+      ].join("\n"),
+    );
+
+    expect(result).toHaveLength(2);
+    expect(result[1].autoFit).toBeUndefined();
+  });
+
+  it("warns when a layout or the cover keeps an overflowing slide from fitting", () => {
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const result = parseMarkdown(
+        [
+          "---",
+          "autoFit: shrink",
+          "---",
+          "# Cover",
+          "",
+          ...longList,
+          "",
+          "---",
+          "layout: title-only",
+          "autoFit: split",
+          "---",
+          "## Agenda",
+          "",
+          ...longList,
+          "",
+          "---",
+          "layout: title-only",
+          "---",
+          "## Short",
+        ].join("\n"),
+      );
+
+      expect(result).toHaveLength(3);
+      expect(warnSpy.mock.calls).toEqual([
+        [
+          "[figdeck] autoFit: split is not applied to slides with layout: title-only, and this slide may overflow",
+        ],
+        [
+          "[figdeck] autoFit: shrink is not applied to the cover slide, and it may overflow",
+        ],
+      ]);
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+
+  it("passes shrink settings to the plugin", () => {
+    const result = parseMarkdown(
+      [
+        "---",
+        "autoFit:",
+        "  mode: shrink",
+        "  minScale: 0.7",
+        "---",
+        "## Agenda",
+        "",
+        ...longList,
+      ].join("\n"),
+    );
+
+    expect(result).toHaveLength(1);
+    expect(result[0].autoFit).toEqual({ mode: "shrink", minScale: 0.7 });
+  });
+});
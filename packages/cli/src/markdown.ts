@@ -1,4 +1,6 @@
+import { dirname, resolve } from "node:path";
 import {
+  type AutoFitConfig,
   type FootnoteItem,
   type HorizontalAlign,
   type ImagePosition,
@@ -9,6 +11,7 @@ import {
   type SlideBlock,
   type SlideBlockItem,
   type SlideContent,
+  type SlideLayout,
   type SlideNumberConfig,
   type SlideStyles,
   type SlideTransitionConfig,
@@ -21,6 +24,7 @@ import type {
   Blockquote,
   Code,
   Heading,
+  Html,
   Image,
   List,
   Paragraph,
@@ -31,14 +35,19 @@ import type {
 } from "mdast";
 import remarkFrontmatter from "remark-frontmatter";
 import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
 import remarkParse from "remark-parse";
 import { unified } from "unified";
 import { parse as parseYaml } from "yaml";
+import { estimateOverflow, splitOverflowingSlide } from "./auto-fit.js";
+import { expandBuildSteps, isPauseComment } from "./build-steps.js";
 import {
   type CalloutBlockPlaceholder,
   extractCalloutBlocks,
   matchCalloutPlaceholder,
+  warnUndefinedCalloutTypes,
 } from "./callout-block.js";
+import { parseChart } from "./chart.js";
 import {
   type ColumnsBlockPlaceholder,
   createColumnsBlock,
@@ -53,12 +62,32 @@ import {
   parseSlideConfig,
   type SlideConfig,
 } from "./config.js";
+import { layoutDiagram } from "./diagram-layout.js";
 import {
   extractFigmaBlocks,
   type FigmaBlockPlaceholder,
   matchFigmaPlaceholder,
 } from "./figma-block.js";
-import { isRemoteUrl, readLocalImage } from "./local-image.js";
+import { tokenizeCode } from "./highlight.js";
+import {
+  getFrontmatterSrc,
+  type IncludeContext,
+  readIncludeFile,
+  splitAtIncludes,
+} from "./include.js";
+import {
+  isRemoteUrl,
+  type LocalImageOptions,
+  readLocalImage,
+} from "./local-image.js";
+import { renderMath } from "./math.js";
+import { parseMermaid } from "./mermaid.js";
+import {
+  extractNotesBlocks,
+  parseNotesBlockMarker,
+  parseNotesComment,
+} from "./notes-block.js";
+import { assignSlideIds, markContinuationSlide } from "./slide-id.js";
 import {
   extractBlockquoteContent,
   extractBulletItems,
@@ -66,12 +95,55 @@ import {
   extractTableRow,
   spansToText,
 } from "./spans.js";
+import { loadTheme } from "./theme.js";
 
-// Processor instance for parsing markdown with frontmatter and GFM support
+// Processor instance for parsing markdown with frontmatter, GFM and math support
 const processor = unified()
   .use(remarkParse)
   .use(remarkFrontmatter, ["yaml"])
-  .use(remarkGfm);
+  .use(remarkGfm)
+  .use(remarkMath);
+
+/**
+ * Where a slide was parsed from. Build steps and split parts of one slide
+ * share one object.
+ * `path` is undefined for an entry file parsed without `filePath`.
+ * `line` is the 0-based line of the slide body (after its frontmatter) in
+ * that file, or undefined if it could not be located, and `body` is the
+ * body as parsed. Directive blocks in `body` are replaced by placeholders
+ * that keep their line count, so its lines match the file from `line` on.
+ */
+export interface SlideSource {
+  path: string | undefined;
+  line: number | undefined;
+  body: string;
+}
+
+/**
+ * File and line a slide's markdown starts at
+ */
+interface SlideLocation {
+  path: string | undefined;
+  line: number | undefined;
+}
+
+/** Source of every parsed slide, kept out of the slides sent to the plugin */
+const slideSources = new WeakMap<SlideContent, SlideSource>();
+
+/**
+ * Source file of a slide returned by `parseMarkdown`
+ */
+export function getSlideSource(slide: SlideContent): SlideSource | undefined {
+  return slideSources.get(slide);
+}
+
+/**
+ * Parse Markdown into an mdast tree with source positions, using the same
+ * syntax extensions as the slide parser
+ */
+export function parseMarkdownTree(markdown: string): Root {
+  return processor.parse(markdown) as Root;
+}
 
 /**
  * Parse Marp-style size and position specifications from image alt text.
@@ -175,6 +247,8 @@ export function parseImageAlt(alt: string): {
 function extractFrontmatter(
   markdown: string,
   basePath?: string,
+  imageOptions?: LocalImageOptions,
+  includeContext?: IncludeContext,
 ): {
   body: string;
   config: ParsedConfigResult | null;
@@ -190,6 +264,8 @@ function extractFrontmatter(
       try {
         const config = parseSlideConfig(parseYaml(yamlBlock) as SlideConfig, {
           basePath,
+          imageOptions,
+          includeContext,
         });
         return { body: rest, config };
       } catch {
@@ -212,7 +288,7 @@ function extractFrontmatter(
       try {
         const config = parseSlideConfig(
           parseYaml(potentialYaml) as SlideConfig,
-          { basePath },
+          { basePath, imageOptions, includeContext },
         );
         // Check that the line after separator is blank or real content
         const rest = trimmedStart.slice(separatorIndex + 4).trimStart();
@@ -232,7 +308,15 @@ function extractFrontmatter(
 interface SlideBuilder {
   blocks: SlideBlock[];
   basePath?: string;
+  imageOptions?: LocalImageOptions;
+  /** Collects files the slide reads (e.g. chart CSV) for watch mode */
+  includeContext?: IncludeContext;
   footnoteDefinitions: Map<string, FootnoteItem>;
+  notes: string[];
+  /** Notes pulled out of `:::notes` blocks, looked up by their markers */
+  blockNotes: string[];
+  /** Block indices where `<!-- pause -->` markers appeared */
+  pauses: number[];
 }
 
 /**
@@ -281,7 +365,11 @@ function processParagraph(
       });
     } else if (builder.basePath) {
       // Local image - attempt to read and encode
-      const localImage = readLocalImage(imgNode.url, builder.basePath);
+      const localImage = readLocalImage(
+        imgNode.url,
+        builder.basePath,
+        builder.imageOptions,
+      );
       if (localImage) {
         builder.blocks.push({
           kind: "image",
@@ -289,6 +377,7 @@ function processParagraph(
           alt: cleanAlt || undefined,
           source: "local",
           dataBase64: localImage.dataBase64,
+          svg: localImage.svg,
           mimeType: localImage.mimeType,
           size,
           position,
@@ -348,12 +437,14 @@ function processParagraph(
   if (calloutIndex !== null) {
     const calloutBlock = calloutBlocks[calloutIndex];
     if (calloutBlock) {
-      builder.blocks.push({
+      const callout: SlideBlock = {
         kind: "callout",
         type: calloutBlock.type,
         text: calloutBlock.content,
         spans: calloutBlock.spans,
-      });
+      };
+      if (calloutBlock.title) callout.title = calloutBlock.title;
+      builder.blocks.push(callout);
     }
     return;
   }
@@ -376,13 +467,117 @@ function processList(listNode: List, builder: SlideBuilder): void {
 }
 
 /**
- * Process a code block node
+ * Process a code block node.
+ * Mermaid fences become diagrams and chart fences become charts; ones that
+ * cannot be parsed stay code blocks.
  */
 function processCode(codeNode: Code, builder: SlideBuilder): void {
-  builder.blocks.push({
+  if (codeNode.lang === "chart") {
+    const chart = parseChart(
+      codeNode.value,
+      codeNode.meta,
+      builder.basePath,
+      builder.includeContext,
+    );
+    if (chart) {
+      builder.blocks.push({ kind: "chart", chart });
+      return;
+    }
+  }
+
+  if (codeNode.lang === "mermaid") {
+    const graph = parseMermaid(codeNode.value);
+    const diagram = graph ? layoutDiagram(graph) : null;
+    if (diagram) {
+      builder.blocks.push({ kind: "diagram", diagram });
+      return;
+    }
+    if (!graph) {
+      const header = codeNode.value.trim().split(/\s/)[0] || "(empty)";
+      console.warn(
+        `[figdeck] Unsupported mermaid diagram: ${header}, rendering as code`,
+      );
+    }
+  }
+
+  const code: Extract<SlideBlockItem, { kind: "code" }> = {
     kind: "code",
     language: codeNode.lang || undefined,
     code: codeNode.value,
+    ...parseCodeMeta(codeNode.meta, codeNode.value.split("\n").length),
+  };
+  const tokens = tokenizeCode(code.code, code.language);
+  if (tokens) code.tokens = tokens;
+  builder.blocks.push(code);
+}
+
+/**
+ * Parse code fence meta such as `{1,3-5} title="server.ts" showLineNumbers dim`.
+ * Highlighted lines outside the code are dropped.
+ */
+function parseCodeMeta(
+  meta: string | null | undefined,
+  lineCount: number,
+): Pick<
+  Extract<SlideBlockItem, { kind: "code" }>,
+  "highlightLines" | "dimUnhighlighted" | "title" | "showLineNumbers"
+> {
+  if (!meta) return {};
+  const result: ReturnType<typeof parseCodeMeta> = {};
+
+  const titleMatch = meta.match(/\btitle=(?:"([^"]*)"|'([^']*)')/);
+  const title = titleMatch?.[1] ?? titleMatch?.[2];
+  if (title) result.title = title;
+  // Drop the title so words inside it are not read as flags
+  const rest = titleMatch ? meta.replace(titleMatch[0], "") : meta;
+
+  const rangeMatch = rest.match(/\{([\d\s,-]+)\}/);
+  if (rangeMatch) {
+    const lines = new Set<number>();
+    for (const part of rangeMatch[1].split(",")) {
+      const range = part.trim().match(/^(\d+)(?:-(\d+))?$/);
+      if (!range) continue;
+      const start = Number(range[1]);
+      const end = Math.min(Number(range[2] ?? range[1]), lineCount);
+      for (let line = Math.max(start, 1); line <= end; line++) {
+        lines.add(line);
+      }
+    }
+    if (lines.size > 0) {
+      result.highlightLines = [...lines].sort((a, b) => a - b);
+    }
+  }
+
+  const flags = rest.replace(/\{[^}]*\}/g, " ").split(/\s+/);
+  if (flags.includes("showLineNumbers")) result.showLineNumbers = true;
+  if (flags.includes("dim") && result.highlightLines) {
+    result.dimUnhighlighted = true;
+  }
+  return result;
+}
+
+/**
+ * Display math node from remark-math (`$$ ... $$`)
+ */
+interface MathNode {
+  type: "math";
+  value: string;
+}
+
+/**
+ * Process a display math node.
+ * Invalid TeX falls back to a code block showing the source.
+ */
+function processMath(mathNode: MathNode, builder: SlideBuilder): void {
+  const math = renderMath(mathNode.value, true);
+  if (math) {
+    builder.blocks.push({ kind: "math", tex: mathNode.value, math });
+    return;
+  }
+  builder.blocks.push({
+    kind: "code",
+    language: "latex",
+    code: mathNode.value,
   });
 }
 
@@ -417,6 +612,29 @@ function processTable(tableNode: Table, builder: SlideBuilder): void {
   builder.blocks.push({ kind: "table", headers, rows, align });
 }
 
+/**
+ * Process a raw HTML node - only `<!-- notes -->` and `<!-- pause -->`
+ * comments are used
+ */
+function processHtml(htmlNode: Html, builder: SlideBuilder): void {
+  if (isPauseComment(htmlNode.value)) {
+    builder.pauses.push(builder.blocks.length);
+    return;
+  }
+  const blockIndex = parseNotesBlockMarker(htmlNode.value);
+  if (blockIndex !== null) {
+    const blockNote = builder.blockNotes[blockIndex];
+    if (blockNote) {
+      builder.notes.push(blockNote);
+    }
+    return;
+  }
+  const note = parseNotesComment(htmlNode.value);
+  if (note) {
+    builder.notes.push(note);
+  }
+}
+
 /**
  * mdast footnoteDefinition node type
  */
@@ -459,14 +677,18 @@ function processFootnoteDefinition(
 }
 
 /**
- * Parse column content into SlideBlockItems (reusable parser for columns)
+ * Parse column content into SlideBlockItems (reusable parser for columns).
+ * Speaker notes written in a column are added to `notes` of the slide.
  */
 function parseColumnContentToBlocks(
   content: string,
   figmaBlocks: FigmaBlockPlaceholder[],
   columnsBlocks: ColumnsBlockPlaceholder[],
   calloutBlocks: CalloutBlockPlaceholder[],
+  notes: string[],
   basePath?: string,
+  imageOptions?: LocalImageOptions,
+  includeContext?: IncludeContext,
 ): SlideBlockItem[] {
   // Extract figma and callout blocks from column content
   // (since columns are extracted before figma/callout extraction on main markdown)
@@ -475,11 +697,13 @@ function parseColumnContentToBlocks(
     figmaBlocks: localFigmaBlocks,
   } = extractFigmaBlocks(content, { startIndex: figmaBlocks.length });
   const {
-    processedMarkdown: processedContent,
+    processedMarkdown: calloutProcessedContent,
     calloutBlocks: localCalloutBlocks,
   } = extractCalloutBlocks(figmaProcessedContent, {
     startIndex: calloutBlocks.length,
   });
+  const { processedMarkdown: processedContent, notes: blockNotes } =
+    extractNotesBlocks(calloutProcessedContent);
 
   // Merge local blocks with global blocks for matching
   const allFigmaBlocks = [...figmaBlocks, ...localFigmaBlocks];
@@ -489,7 +713,12 @@ function parseColumnContentToBlocks(
   const builder: SlideBuilder = {
     blocks: [],
     basePath,
+    imageOptions,
+    includeContext,
     footnoteDefinitions: new Map(),
+    notes,
+    blockNotes,
+    pauses: [],
   };
 
   // Recursive parseColumnContent for nested columns (though we discourage deep nesting)
@@ -499,7 +728,10 @@ function parseColumnContentToBlocks(
       allFigmaBlocks,
       columnsBlocks,
       allCalloutBlocks,
+      notes,
       basePath,
+      imageOptions,
+      includeContext,
     );
   };
 
@@ -524,6 +756,9 @@ function parseColumnContentToBlocks(
       case "code":
         processCode(node as Code, builder);
         break;
+      case "math":
+        processMath(node as MathNode, builder);
+        break;
       case "blockquote":
         processBlockquote(node as Blockquote, builder);
         break;
@@ -533,6 +768,9 @@ function parseColumnContentToBlocks(
       case "footnoteDefinition":
         processFootnoteDefinition(node as FootnoteDefinitionNode, builder);
         break;
+      case "html":
+        processHtml(node as Html, builder);
+        break;
     }
   }
 
@@ -543,7 +781,9 @@ function parseColumnContentToBlocks(
 }
 
 /**
- * Parse a single slide's markdown content (may include frontmatter)
+ * Parse a single slide's markdown content (may include frontmatter).
+ * Returns several build slides when the slide uses `<!-- pause -->`
+ * or `incremental: true`, and none when it has no content.
  */
 function parseSlideMarkdown(
   slideMarkdown: string,
@@ -554,11 +794,17 @@ function parseSlideMarkdown(
   defaultAlign: HorizontalAlign | undefined,
   defaultValign: VerticalAlign | undefined,
   defaultTransition: SlideTransitionConfig | undefined,
+  defaultLayout: SlideLayout | undefined,
+  defaultIncremental: boolean | undefined,
+  defaultAutoFit: AutoFitConfig | null | undefined,
   figmaBlocks: FigmaBlockPlaceholder[],
   columnsBlocks: ColumnsBlockPlaceholder[],
   calloutBlocks: CalloutBlockPlaceholder[],
   basePath?: string,
-): SlideContent | null {
+  imageOptions?: LocalImageOptions,
+  includeContext?: IncludeContext,
+  location?: SlideLocation,
+): SlideContent[] {
   let slideBackground: SlideBackground | null = null;
   let slideStyles: SlideStyles = {};
   let slideSlideNumber: SlideNumberConfig | undefined;
@@ -566,10 +812,16 @@ function parseSlideMarkdown(
   let slideAlign: HorizontalAlign | undefined;
   let slideValign: VerticalAlign | undefined;
   let slideTransition: SlideTransitionConfig | undefined;
+  let slideLayout: SlideLayout | undefined;
+  let slideIncremental: boolean | undefined;
+  let slideAutoFit: AutoFitConfig | null | undefined;
+  let slideId: string | undefined;
 
   const { body: slideBody, config: frontmatterConfig } = extractFrontmatter(
     slideMarkdown,
     basePath,
+    imageOptions,
+    includeContext,
   );
 
   if (frontmatterConfig) {
@@ -581,13 +833,26 @@ function parseSlideMarkdown(
     slideAlign = frontmatterConfig.align;
     slideValign = frontmatterConfig.valign;
     slideTransition = frontmatterConfig.transition;
+    slideLayout = frontmatterConfig.layout;
+    slideIncremental = frontmatterConfig.incremental;
+    slideAutoFit = frontmatterConfig.autoFit;
+    slideId = frontmatterConfig.id;
   }
 
-  const tree = processor.parse(slideBody) as Root;
+  // Pull :::notes blocks out before parsing so they never render as content
+  const { processedMarkdown: bodyWithoutNotes, notes: blockNotes } =
+    extractNotesBlocks(slideBody);
+
+  const tree = processor.parse(bodyWithoutNotes) as Root;
   const builder: SlideBuilder = {
     blocks: [],
     basePath,
+    imageOptions,
+    includeContext,
     footnoteDefinitions: new Map(),
+    notes: [],
+    blockNotes,
+    pauses: [],
   };
 
   // Create parseColumnContent function for this slide context
@@ -597,7 +862,10 @@ function parseSlideMarkdown(
       figmaBlocks,
       columnsBlocks,
       calloutBlocks,
+      builder.notes,
       basePath,
+      imageOptions,
+      includeContext,
     );
   };
 
@@ -623,6 +891,9 @@ function parseSlideMarkdown(
       case "code":
         processCode(node as Code, builder);
         break;
+      case "math":
+        processMath(node as MathNode, builder);
+        break;
       case "blockquote":
         processBlockquote(node as Blockquote, builder);
         break;
@@ -632,17 +903,26 @@ function parseSlideMarkdown(
       case "footnoteDefinition":
         processFootnoteDefinition(node as FootnoteDefinitionNode, builder);
         break;
+      case "html":
+        processHtml(node as Html, builder);
+        break;
       // Other node types (yaml, thematicBreak, etc.) are ignored
     }
   }
 
-  // Return null if no content was found
-  if (builder.blocks.length === 0 && builder.footnoteDefinitions.size === 0) {
-    return null;
+  // Return no slides if no content was found; a slide with only speaker
+  // notes is kept so the notes are not lost
+  if (
+    builder.blocks.length === 0 &&
+    builder.footnoteDefinitions.size === 0 &&
+    builder.notes.length === 0
+  ) {
+    return [];
   }
 
   // Build the slide content
   const slide: SlideContent = {
+    id: slideId,
     blocks: builder.blocks,
     background: slideBackground || defaultBackground || undefined,
     styles: mergeStyles(defaultStyles, slideStyles),
@@ -652,6 +932,12 @@ function parseSlideMarkdown(
     transition: mergeTransitionConfig(defaultTransition, slideTransition),
   };
 
+  // "default" resets a global layout back to the regular slide layout
+  const layout = slideLayout ?? defaultLayout;
+  if (layout && layout !== "default") {
+    slide.layout = layout;
+  }
+
   // Merge titlePrefix config (slide-specific overrides global defaults)
   // null means explicitly disabled, undefined means use default
   if (slideTitlePrefix === null) {
@@ -667,7 +953,58 @@ function parseSlideMarkdown(
     slide.footnotes = Array.from(builder.footnoteDefinitions.values());
   }
 
-  return slide;
+  warnUndefinedCalloutTypes(slide.blocks, slide.styles?.callouts);
+
+  // Add speaker notes if any were written
+  if (builder.notes.length > 0) {
+    slide.notes = builder.notes.join("\n\n");
+  }
+
+  // null means explicitly disabled, undefined means use default
+  const autoFit = slideAutoFit !== undefined ? slideAutoFit : defaultAutoFit;
+  if (autoFit) {
+    slide.autoFit = autoFit;
+  }
+
+  // The plugin only fits and measures regular slides
+  if (autoFit && slide.layout && estimateOverflow(slide) > 0) {
+    console.warn(
+      `[figdeck] autoFit: ${autoFit.mode} is not applied to slides with layout: ${slide.layout}, and this slide may overflow`,
+    );
+  }
+
+  const incremental = slideIncremental ?? defaultIncremental ?? false;
+  const split = autoFit?.mode === "split" && !slide.layout;
+  if (split && builder.pauses.length > 0) {
+    console.warn(
+      "[figdeck] autoFit: split is ignored on slides with <!-- pause -->",
+    );
+  }
+  const slides =
+    split && builder.pauses.length === 0
+      ? splitOverflowingSlide(slide).flatMap((part, index) => {
+          const steps = expandBuildSteps(part, [], incremental);
+          if (index > 0) {
+            for (const step of steps) markContinuationSlide(step, index + 1);
+          }
+          return steps;
+        })
+      : expandBuildSteps(slide, builder.pauses, incremental);
+
+  const frontmatter = slideMarkdown.slice(
+    0,
+    slideMarkdown.length - slideBody.length,
+  );
+  const source: SlideSource = {
+    path: location?.path,
+    line:
+      location?.line === undefined
+        ? undefined
+        : location.line + frontmatter.split("\n").length - 1,
+    body: bodyWithoutNotes,
+  };
+  for (const part of slides) slideSources.set(part, source);
+  return slides;
 }
 
 /**
@@ -776,14 +1113,68 @@ function splitIntoSlides(content: string): string[] {
 
 export interface ParseMarkdownOptions {
   basePath?: string;
+  /** Absolute path of the markdown file, used to detect include cycles */
+  filePath?: string;
+  /** Collects the absolute paths of every included file */
+  includedFiles?: Set<string>;
+  /** Limits for local images */
+  imageOptions?: LocalImageOptions;
+  /**
+   * Base frontmatter (from the project config) the entry file's global
+   * frontmatter is merged over
+   */
+  baseFrontmatter?: SlideConfig;
+  /** Directory that relative paths in `baseFrontmatter` resolve against */
+  baseFrontmatterPath?: string;
 }
 
-export function parseMarkdown(
-  markdown: string,
-  options: ParseMarkdownOptions = {},
-): SlideContent[] {
-  const { basePath } = options;
+/**
+ * Global defaults from the theme, base and entry file frontmatter, applied to every slide
+ */
+interface GlobalDefaults {
+  background: SlideBackground | null;
+  styles: SlideStyles;
+  slideNumber: SlideNumberConfig | undefined;
+  titlePrefix: TitlePrefixConfig | null | undefined;
+  align: HorizontalAlign | undefined;
+  valign: VerticalAlign | undefined;
+  transition: SlideTransitionConfig | undefined;
+  layout: SlideLayout | undefined;
+  incremental: boolean | undefined;
+  autoFit: AutoFitConfig | null | undefined;
+}
+
+/**
+ * Split a document into its global frontmatter YAML (if any) and the rest
+ */
+function splitGlobalFrontmatter(markdown: string): {
+  yaml: string | null;
+  content: string;
+} {
+  const frontmatterMatch = markdown.match(/^---\n([\s\S]*?)\n---\n/);
+  if (!frontmatterMatch) {
+    return { yaml: null, content: markdown };
+  }
+  return {
+    yaml: frontmatterMatch[1],
+    content: markdown.slice(frontmatterMatch[0].length),
+  };
+}
 
+/**
+ * Extract directive blocks from a document and parse its slides.
+ * Included files go through this as well, so each file has its own
+ * placeholders and resolves relative paths against its own directory.
+ * The entry file passes a function that builds the defaults from its global
+ * frontmatter; included files get the result and their own frontmatter is ignored.
+ */
+function parseDocumentSlides(
+  markdown: string,
+  defaults: GlobalDefaults | ((globalYaml: string | null) => GlobalDefaults),
+  basePath: string | undefined,
+  includeContext: IncludeContext,
+  imageOptions: LocalImageOptions | undefined,
+): { slides: SlideContent[]; globalYaml: string | null } {
   // First, extract :::columns blocks and replace with placeholders
   // This must happen before :::figma extraction to handle columns containing figma blocks
   const { processedMarkdown: columnsProcessed, columnsBlocks } =
@@ -793,81 +1184,313 @@ export function parseMarkdown(
   const { processedMarkdown: figmaProcessed, figmaBlocks } =
     extractFigmaBlocks(columnsProcessed);
 
-  // Then, extract :::note/tip/warning/caution callout blocks
+  // Then, extract :::note/tip/... callout blocks
   const { processedMarkdown, calloutBlocks } =
     extractCalloutBlocks(figmaProcessed);
 
-  let globalDefaultBackground: SlideBackground | null = null;
-  let globalDefaultStyles: SlideStyles = {};
-  let globalDefaultSlideNumber: SlideNumberConfig | undefined;
-  let globalDefaultTitlePrefix: TitlePrefixConfig | null | undefined;
-  let globalDefaultAlign: HorizontalAlign | undefined;
-  let globalDefaultValign: VerticalAlign | undefined;
-  let globalDefaultTransition: SlideTransitionConfig | undefined;
-  let globalCoverEnabled = true;
-  let contentWithoutGlobalFrontmatter = processedMarkdown;
-  const slides: SlideContent[] = [];
+  const { yaml: globalYaml, content } =
+    splitGlobalFrontmatter(processedMarkdown);
 
-  // Check for global frontmatter at the very start
-  const frontmatterMatch = processedMarkdown.match(/^---\n([\s\S]*?)\n---\n/);
-  if (frontmatterMatch) {
-    try {
-      const config = parseYaml(frontmatterMatch[1]) as SlideConfig;
-      if (typeof config.cover === "boolean") {
-        globalCoverEnabled = config.cover;
-      }
-      const {
-        background,
-        styles,
-        slideNumber,
-        titlePrefix,
-        align,
-        valign,
-        transition,
-      } = parseSlideConfig(config, {
-        basePath,
-      });
-      if (background) globalDefaultBackground = background;
-      globalDefaultStyles = styles;
-      globalDefaultSlideNumber = slideNumber;
-      globalDefaultTitlePrefix = titlePrefix;
-      globalDefaultAlign = align;
-      globalDefaultValign = valign;
-      globalDefaultTransition = transition;
-    } catch {
-      // Invalid YAML, ignore
-    }
-    contentWithoutGlobalFrontmatter = processedMarkdown.slice(
-      frontmatterMatch[0].length,
-    );
-  }
+  const slideDefaults =
+    typeof defaults === "function" ? defaults(globalYaml) : defaults;
 
-  // Split the remaining content into slides
-  const slideTexts = splitIntoSlides(contentWithoutGlobalFrontmatter);
+  const slides: SlideContent[] = [];
+  const path = includeContext.stack[includeContext.stack.length - 1];
+
+  // Locate slide texts in the document to record their source lines.
+  // Extracted directive blocks keep their line count, so lines of the
+  // processed content match the source.
+  const searchable = content.replace(/\r\n/g, "\n");
+  let cursor = 0;
+  let cursorLine =
+    processedMarkdown
+      .slice(0, processedMarkdown.length - content.length)
+      .split("\n").length - 1;
+  const locate = (text: string): number | undefined => {
+    const index = searchable.indexOf(text, cursor);
+    if (index === -1) return undefined;
+    const line =
+      cursorLine + searchable.slice(cursor, index).split("\n").length - 1;
+    cursor = index + text.length;
+    cursorLine = line + text.split("\n").length - 1;
+    return line;
+  };
 
-  for (const slideText of slideTexts) {
-    const slide = parseSlideMarkdown(
+  const parseSlideText = (slideText: string) => {
+    const buildSlides = parseSlideMarkdown(
       slideText,
-      globalDefaultBackground,
-      globalDefaultStyles,
-      globalDefaultSlideNumber,
-      globalDefaultTitlePrefix,
-      globalDefaultAlign,
-      globalDefaultValign,
-      globalDefaultTransition,
+      slideDefaults.background,
+      slideDefaults.styles,
+      slideDefaults.slideNumber,
+      slideDefaults.titlePrefix,
+      slideDefaults.align,
+      slideDefaults.valign,
+      slideDefaults.transition,
+      slideDefaults.layout,
+      slideDefaults.incremental,
+      slideDefaults.autoFit,
       figmaBlocks,
       columnsBlocks,
       calloutBlocks,
       basePath,
+      imageOptions,
+      includeContext,
+      { path, line: locate(slideText) },
+    );
+    slides.push(...buildSlides);
+  };
+
+  const includeFile = (includePath: string) => {
+    const included = readIncludeFile(includePath, basePath, includeContext);
+    if (!included) return;
+
+    includeContext.stack.push(included.path);
+    const { slides: includedSlides } = parseDocumentSlides(
+      included.markdown,
+      slideDefaults,
+      dirname(included.path),
+      includeContext,
+      imageOptions,
     );
-    if (slide) {
-      slides.push(slide);
+    includeContext.stack.pop();
+    slides.push(...includedSlides);
+  };
+
+  // Split the remaining content into slides
+  for (const slideText of splitIntoSlides(content)) {
+    // A slide with `src:` in its frontmatter is replaced by that file's slides
+    const src = getFrontmatterSrc(slideText);
+    if (src) {
+      includeFile(src);
+      continue;
+    }
+
+    for (const segment of splitAtIncludes(slideText)) {
+      if (segment.kind === "include") {
+        includeFile(segment.path);
+      } else {
+        parseSlideText(segment.text);
+      }
+    }
+  }
+
+  return { slides, globalYaml };
+}
+
+/**
+ * Parse global frontmatter YAML; invalid YAML counts as no frontmatter
+ */
+function parseGlobalConfig(yaml: string | null): SlideConfig | null {
+  if (yaml === null) return null;
+  try {
+    return parseYaml(yaml) as SlideConfig | null;
+  } catch {
+    // Invalid YAML, ignore
+    return null;
+  }
+}
+
+function createGlobalDefaults(): GlobalDefaults {
+  return {
+    background: null,
+    styles: {},
+    slideNumber: undefined,
+    titlePrefix: undefined,
+    align: undefined,
+    valign: undefined,
+    transition: undefined,
+    layout: undefined,
+    incremental: undefined,
+    autoFit: undefined,
+  };
+}
+
+/**
+ * Parse global defaults from a frontmatter object
+ */
+function parseGlobalDefaultsConfig(
+  config: SlideConfig | null,
+  basePath: string | undefined,
+  includeContext: IncludeContext,
+  imageOptions: LocalImageOptions | undefined,
+): GlobalDefaults {
+  const defaults = createGlobalDefaults();
+  if (!config) return defaults;
+
+  const {
+    background,
+    styles,
+    slideNumber,
+    titlePrefix,
+    align,
+    valign,
+    transition,
+    layout,
+    incremental,
+    autoFit,
+  } = parseSlideConfig(config, {
+    basePath,
+    imageOptions,
+    includeContext,
+  });
+  if (background) defaults.background = background;
+  defaults.styles = styles;
+  defaults.slideNumber = slideNumber;
+  defaults.titlePrefix = titlePrefix;
+  defaults.align = align;
+  defaults.valign = valign;
+  defaults.transition = transition;
+  defaults.layout = layout;
+  defaults.incremental = incremental;
+  defaults.autoFit = autoFit;
+  return defaults;
+}
+
+/**
+ * Merge global defaults over lower-precedence ones (e.g. the entry file's
+ * over the base defaults)
+ */
+function mergeGlobalDefaults(
+  base: GlobalDefaults,
+  entry: GlobalDefaults,
+): GlobalDefaults {
+  return {
+    background: entry.background ?? base.background,
+    styles: mergeStyles(base.styles, entry.styles),
+    slideNumber: mergeSlideNumberConfig(base.slideNumber, entry.slideNumber),
+    // null disables the prefix, undefined keeps the base one
+    titlePrefix:
+      entry.titlePrefix !== undefined ? entry.titlePrefix : base.titlePrefix,
+    align: entry.align ?? base.align,
+    valign: entry.valign ?? base.valign,
+    transition: mergeTransitionConfig(base.transition, entry.transition),
+    layout: entry.layout ?? base.layout,
+    incremental: entry.incremental ?? base.incremental,
+    // null disables auto-fit, undefined keeps the base setting
+    autoFit: entry.autoFit !== undefined ? entry.autoFit : base.autoFit,
+  };
+}
+
+/**
+ * Check whether the cover slide is enabled in the global frontmatter
+ */
+function isCoverEnabled(yaml: string | null, fallback: boolean): boolean {
+  const config = parseGlobalConfig(yaml);
+  if (config && typeof config.cover === "boolean") {
+    return config.cover;
+  }
+  return fallback;
+}
+
+/**
+ * Parse the global defaults of a theme referenced by `theme:`.
+ * The theme file is watched like an included file.
+ */
+function parseThemeDefaults(
+  spec: unknown,
+  basePath: string | undefined,
+  includeContext: IncludeContext,
+  imageOptions: LocalImageOptions | undefined,
+): GlobalDefaults {
+  if (typeof spec !== "string" || !spec.trim()) {
+    if (spec !== undefined) {
+      console.warn("[figdeck] theme must be a file path or package name");
     }
+    return createGlobalDefaults();
   }
+  const theme = loadTheme(spec.trim(), basePath);
+  if (!theme) return createGlobalDefaults();
+  includeContext.files?.add(theme.path);
+  return parseGlobalDefaultsConfig(
+    theme.config,
+    dirname(theme.path),
+    includeContext,
+    imageOptions,
+  );
+}
+
+export function parseMarkdown(
+  markdown: string,
+  options: ParseMarkdownOptions = {},
+): SlideContent[] {
+  const { basePath, filePath, includedFiles, imageOptions, baseFrontmatter } =
+    options;
+
+  const includeContext: IncludeContext = {
+    stack: filePath ? [resolve(filePath)] : [],
+    files: includedFiles,
+  };
+
+  const baseFrontmatterPath = options.baseFrontmatterPath ?? basePath;
+  const baseDefaults = parseGlobalDefaultsConfig(
+    baseFrontmatter ?? null,
+    baseFrontmatterPath,
+    includeContext,
+    imageOptions,
+  );
 
-  if (globalCoverEnabled && slides.length > 0) {
-    slides[0].cover = true;
+  // Layered from lowest precedence: the theme, the project config
+  // frontmatter, then the entry file's global frontmatter. A theme set in
+  // the entry file replaces the one from the project config.
+  const resolveEntryDefaults = (globalYaml: string | null): GlobalDefaults => {
+    const entryConfig = parseGlobalConfig(globalYaml);
+    const themeDefaults =
+      entryConfig?.theme !== undefined
+        ? parseThemeDefaults(
+            entryConfig.theme,
+            basePath,
+            includeContext,
+            imageOptions,
+          )
+        : parseThemeDefaults(
+            baseFrontmatter?.theme,
+            baseFrontmatterPath,
+            includeContext,
+            imageOptions,
+          );
+    return mergeGlobalDefaults(
+      mergeGlobalDefaults(themeDefaults, baseDefaults),
+      parseGlobalDefaultsConfig(
+        entryConfig,
+        basePath,
+        includeContext,
+        imageOptions,
+      ),
+    );
+  };
+
+  const { slides, globalYaml } = parseDocumentSlides(
+    markdown,
+    resolveEntryDefaults,
+    basePath,
+    includeContext,
+    imageOptions,
+  );
+
+  const baseCover =
+    typeof baseFrontmatter?.cover === "boolean" ? baseFrontmatter.cover : true;
+  if (isCoverEnabled(globalYaml, baseCover)) {
+    // Every build step of the first logical slide is part of the cover
+    for (const slide of slides) {
+      slide.cover = true;
+      if (!slide.build || slide.build.step === slide.build.total) {
+        // The plugin only fits and measures regular slides
+        if (
+          slide.autoFit?.mode === "shrink" &&
+          !slide.layout &&
+          estimateOverflow(slide) > 0
+        ) {
+          console.warn(
+            "[figdeck] autoFit: shrink is not applied to the cover slide, and it may overflow",
+          );
+        }
+        break;
+      }
+    }
   }
 
+  // Give every slide a stable identity for incremental updates in the plugin
+  assignSlideIds(slides);
+
   return slides;
 }
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "bun:test";
+import { renderMath } from "./math";
+
+describe("renderMath", () => {
+  it("should render TeX to a standalone SVG", () => {
+    const math = renderMath("E=mc^2", false);
+    expect(math).not.toBeNull();
+    if (!math) return;
+    expect(math.svg).toStartWith('<svg xmlns="http://www.w3.org/2000/svg"');
+    expect(math.svg).toContain("currentColor");
+    expect(math.svg).not.toContain("mjx-container");
+  });
+
+  it("should report sizes in em", () => {
+    const math = renderMath("E=mc^2", false);
+    if (!math) throw new Error("expected math");
+    expect(math.width).toBeGreaterThan(3);
+    expect(math.width).toBeLessThan(5);
+    expect(math.height).toBeGreaterThan(0.5);
+    expect(math.height).toBeLessThan(1.5);
+    expect(math.depth).toBeGreaterThanOrEqual(0);
+    expect(math.depth).toBeLessThan(math.height);
+  });
+
+  it("should render display math larger than inline math", () => {
+    const inline = renderMath("\\sum_{i=1}^n i", false);
+    const display = renderMath("\\sum_{i=1}^n i", true);
+    if (!inline || !display) throw new Error("expected math");
+    expect(display.height).toBeGreaterThan(inline.height);
+  });
+
+  it("should return null for invalid TeX", () => {
+    expect(renderMath("\\frac{a", true)).toBeNull();
+  });
+
+  it("should return null for empty input", () => {
+    expect(renderMath("  ", false)).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import type { MathSvg } from "@figdeck/shared";
+import { liteAdaptor } from "mathjax-full/js/adaptors/liteAdaptor.js";
+import { RegisterHTMLHandler } from "mathjax-full/js/handlers/html.js";
+import { AllPackages } from "mathjax-full/js/input/tex/AllPackages.js";
+import { TeX } from "mathjax-full/js/input/tex.js";
+import { mathjax } from "mathjax-full/js/mathjax.js";
+import { SVG } from "mathjax-full/js/output/svg.js";
+
+/** MathJax SVG output uses 1000 units per em */
+const UNITS_PER_EM = 1000;
+
+/** Maximum TeX source length rendered */
+const MAX_TEX_LENGTH = 5000;
+
+interface MathRenderer {
+  adaptor: ReturnType<typeof liteAdaptor>;
+  document: ReturnType<typeof mathjax.document>;
+}
+
+let renderer: MathRenderer | null = null;
+
+/**
+ * Create the MathJax document on first use; loading TeX packages is slow
+ */
+function getRenderer(): MathRenderer {
+  if (!renderer) {
+    const adaptor = liteAdaptor();
+    RegisterHTMLHandler(adaptor);
+    const document = mathjax.document("", {
+      InputJax: new TeX({
+        packages: AllPackages,
+        // Surface TeX errors instead of rendering them in red
+        formatError: (_jax: unknown, error: Error) => {
+          throw error;
+        },
+      }),
+      OutputJax: new SVG({ fontCache: "none" }),
+    });
+    renderer = { adaptor, document };
+  }
+  return renderer;
+}
+
+/**
+ * Render TeX to a standalone SVG sized in MathJax units (1000 per em).
+ * Returns null and warns when the TeX is invalid.
+ */
+export function renderMath(tex: string, display: boolean): MathSvg | null {
+  const source = tex.trim();
+  if (source === "") return null;
+  if (source.length > MAX_TEX_LENGTH) {
+    console.warn(
+      `[figdeck] Math formula exceeds ${MAX_TEX_LENGTH} characters, skipping`,
+    );
+    return null;
+  }
+
+  let markup: string;
+  try {
+    const { adaptor, document } = getRenderer();
+    const container = document.convert(source, { display });
+    markup = adaptor.innerHTML(container);
+  } catch (error) {
+    // TeX parse errors are not Error instances but carry a message
+    const message = (error as { message?: string }).message ?? String(error);
+    console.warn(`[figdeck] Invalid math "${source}": ${message}`);
+    return null;
+  }
+
+  const viewBox = markup.match(/viewBox="([^"]+)"/);
+  if (!viewBox) return null;
+  const [minX, minY, width, height] = viewBox[1].split(/\s+/).map(Number);
+  if (![minX, minY, width, height].every(Number.isFinite)) return null;
+
+  // Size the SVG in its own units so Figma imports it at a known scale
+  const svg = markup.replace(
+    /^<svg[^>]*>/,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${viewBox[1]}">`,
+  );
+
+  return {
+    svg,
+    width: width / UNITS_PER_EM,
+    height: height / UNITS_PER_EM,
+    depth: Math.max(0, height + minY) / UNITS_PER_EM,
+  };
+}
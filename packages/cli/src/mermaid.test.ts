@@ -0,0 +1,158 @@
+import { describe, expect, it, spyOn } from "bun:test";
+import { parseMermaid } from "./mermaid";
+
+describe("parseMermaid", () => {
+  describe("flowchart", () => {
+    it("should parse direction, nodes and shapes", () => {
+      const graph = parseMermaid(`flowchart LR
+  A[Start] --> B{Is it ok?}
+  B --> C(Retry)
+  C --> D([Done])
+  D --> E((End))`);
+
+      expect(graph?.type).toBe("flowchart");
+      if (graph?.type !== "flowchart") return;
+      expect(graph.direction).toBe("LR");
+      expect(graph.nodes.map((n) => [n.id, n.label, n.shape])).toEqual([
+        ["A", "Start", "rect"],
+        ["B", "Is it ok?", "diamond"],
+        ["C", "Retry", "round"],
+        ["D", "Done", "stadium"],
+        ["E", "End", "circle"],
+      ]);
+    });
+
+    it("should treat graph TD as top to bottom", () => {
+      const graph = parseMermaid("graph TD\n  A --> B");
+      expect(graph?.type === "flowchart" && graph.direction).toBe("TB");
+    });
+
+    it("should parse link styles and labels", () => {
+      const graph = parseMermaid(`flowchart TB
+  A -->|yes| B
+  A -- no --> C
+  B -.-> D
+  C ==> D
+  D --- E`);
+
+      if (graph?.type !== "flowchart") throw new Error("expected flowchart");
+      expect(
+        graph.edges.map((e) => [e.from, e.to, e.label, e.line, e.arrow]),
+      ).toEqual([
+        ["A", "B", "yes", "solid", true],
+        ["A", "C", "no", "solid", true],
+        ["B", "D", undefined, "dotted", true],
+        ["C", "D", undefined, "thick", true],
+        ["D", "E", undefined, "solid", false],
+      ]);
+    });
+
+    it("should expand chains and & groups", () => {
+      const graph = parseMermaid("flowchart TB\n  A & B --> C --> D");
+      if (graph?.type !== "flowchart") throw new Error("expected flowchart");
+      expect(graph.edges.map((e) => `${e.from}${e.to}`)).toEqual([
+        "AC",
+        "BC",
+        "CD",
+      ]);
+    });
+
+    it("should ignore comments, styling and semicolons", () => {
+      const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+      try {
+        const graph = parseMermaid(`flowchart TB
+  %% a comment
+  A["Quoted<br>label"] --> B;
+  classDef hot fill:#f00
+  style A fill:#0f0
+  subgraph one
+  end`);
+
+        if (graph?.type !== "flowchart") throw new Error("expected flowchart");
+        expect(graph.nodes).toHaveLength(2);
+        expect(graph.nodes[0].label).toBe("Quoted\nlabel");
+        expect(warnSpy).toHaveBeenCalledWith(
+          "[figdeck] Mermaid statements not rendered in the diagram: subgraph one",
+        );
+      } finally {
+        warnSpy.mockRestore();
+      }
+    });
+
+    it("should keep closing delimiters inside quoted labels", () => {
+      const graph = parseMermaid(
+        'flowchart LR\n  A["quoted [text]"] --> B("a (b)")',
+      );
+
+      if (graph?.type !== "flowchart") throw new Error("expected flowchart");
+      expect(graph.nodes.map((n) => n.label)).toEqual([
+        "quoted [text]",
+        "a (b)",
+      ]);
+      expect(graph.edges).toHaveLength(1);
+    });
+
+    it("should warn about statements it cannot parse", () => {
+      const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+      try {
+        const graph = parseMermaid("flowchart LR\n  A --> B\n  A --o\n  ???");
+
+        if (graph?.type !== "flowchart") throw new Error("expected flowchart");
+        expect(graph.edges).toHaveLength(1);
+        expect(warnSpy).toHaveBeenCalledWith(
+          "[figdeck] Mermaid statements not rendered in the diagram: A --o, ???",
+        );
+      } finally {
+        warnSpy.mockRestore();
+      }
+    });
+  });
+
+  describe("sequence", () => {
+    it("should parse participants and messages", () => {
+      const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+      const graph = parseMermaid(`sequenceDiagram
+  participant A as Alice
+  actor B as Bob
+  A->>B: Hello
+  B-->>A: Hi!
+  A->>+C: Ask
+  loop Every minute
+    C-)A: Ping
+  end
+  Note right of A: ignored`);
+      expect(warnSpy).toHaveBeenCalledWith(
+        "[figdeck] Mermaid statements not rendered in the diagram: loop Every minute, Note right of A: ignored",
+      );
+      warnSpy.mockRestore();
+
+      if (graph?.type !== "sequence") throw new Error("expected sequence");
+      expect(graph.participants.map((p) => [p.id, p.label, p.actor])).toEqual([
+        ["A", "Alice", false],
+        ["B", "Bob", true],
+        ["C", "C", false],
+      ]);
+      expect(
+        graph.messages.map((m) => [m.from, m.to, m.label, m.line, m.arrow]),
+      ).toEqual([
+        ["A", "B", "Hello", "solid", true],
+        ["B", "A", "Hi!", "dotted", true],
+        ["A", "C", "Ask", "solid", true],
+        ["C", "A", "Ping", "solid", true],
+      ]);
+    });
+
+    it("should draw plain lines without arrowheads", () => {
+      const graph = parseMermaid(
+        "sequenceDiagram\n  A->B: open\n  A-->B: dotted",
+      );
+      if (graph?.type !== "sequence") throw new Error("expected sequence");
+      expect(graph.messages.map((m) => m.arrow)).toEqual([false, false]);
+    });
+  });
+
+  it("should return null for unsupported diagrams", () => {
+    expect(parseMermaid("gantt\n  title Plan")).toBeNull();
+    expect(parseMermaid("")).toBeNull();
+  });
+});
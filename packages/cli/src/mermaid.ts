@@ -0,0 +1,431 @@
+import type { DiagramLineStyle, DiagramNodeShape } from "@figdeck/shared";
+
+export type FlowchartDirection = "TB" | "BT" | "LR" | "RL";
+
+export interface FlowchartNode {
+  id: string;
+  label: string;
+  shape: DiagramNodeShape;
+}
+
+export interface FlowchartEdge {
+  from: string;
+  to: string;
+  label?: string;
+  line: DiagramLineStyle;
+  arrow: boolean;
+}
+
+export interface FlowchartGraph {
+  type: "flowchart";
+  direction: FlowchartDirection;
+  nodes: FlowchartNode[];
+  edges: FlowchartEdge[];
+}
+
+export interface SequenceParticipant {
+  id: string;
+  label: string;
+  actor: boolean;
+}
+
+export interface SequenceMessage {
+  from: string;
+  to: string;
+  label: string;
+  line: "solid" | "dotted";
+  arrow: boolean;
+}
+
+export interface SequenceGraph {
+  type: "sequence";
+  participants: SequenceParticipant[];
+  messages: SequenceMessage[];
+}
+
+/**
+ * Mermaid diagram parsed into a graph, before layout
+ */
+export type MermaidGraph = FlowchartGraph | SequenceGraph;
+
+/** A node reference and the text following it */
+interface NodeRef {
+  id: string;
+  label?: string;
+  shape?: DiagramNodeShape;
+  rest: string;
+}
+
+/** A link and the text following it */
+interface LinkRef {
+  label?: string;
+  line: DiagramLineStyle;
+  arrow: boolean;
+  rest: string;
+}
+
+/**
+ * Node shape delimiters, longest first so `((` wins over `(`
+ */
+const NODE_SHAPES: Array<[string, string, DiagramNodeShape]> = [
+  ["([", "])", "stadium"],
+  ["((", "))", "circle"],
+  ["[(", ")]", "rect"],
+  ["[[", "]]", "rect"],
+  ["[/", "/]", "rect"],
+  ["[\\", "\\]", "rect"],
+  ["{{", "}}", "rect"],
+  ["[", "]", "rect"],
+  ["(", ")", "round"],
+  ["{", "}", "diamond"],
+  [">", "]", "rect"],
+];
+
+/**
+ * Link syntaxes; `label` is the capture group holding an inline label
+ */
+const LINK_PATTERNS: Array<{
+  pattern: RegExp;
+  line: DiagramLineStyle;
+  arrow: boolean;
+}> = [
+  { pattern: /^-\.+->(?:\|([^|]*)\|)?/, line: "dotted", arrow: true },
+  { pattern: /^-\.+-(?:\|([^|]*)\|)?/, line: "dotted", arrow: false },
+  { pattern: /^={2,}>(?:\|([^|]*)\|)?/, line: "thick", arrow: true },
+  { pattern: /^={3,}(?:\|([^|]*)\|)?/, line: "thick", arrow: false },
+  {
+    pattern: /^-{2,}(?:>|[ox](?=\s))(?:\|([^|]*)\|)?/,
+    line: "solid",
+    arrow: true,
+  },
+  { pattern: /^-{3,}(?:\|([^|]*)\|)?/, line: "solid", arrow: false },
+  { pattern: /^-\.\s*(.+?)\s*\.-+>/, line: "dotted", arrow: true },
+  { pattern: /^==\s*(.+?)\s*={2,}>/, line: "thick", arrow: true },
+  { pattern: /^--\s*([^\s-].*?)\s*-{2,}>/, line: "solid", arrow: true },
+  { pattern: /^--\s*([^\s-].*?)\s*-{3,}/, line: "solid", arrow: false },
+];
+
+/**
+ * Flowchart statements that only affect styling
+ */
+const IGNORED_FLOWCHART_KEYWORDS =
+  /^(end|classDef|class|style|linkStyle|click|direction)\b/;
+
+/**
+ * Sequence statements that do not change what is drawn
+ */
+const IGNORED_SEQUENCE_KEYWORDS =
+  /^(end|else|and|autonumber|activate|deactivate|title)\b/;
+
+/**
+ * Normalize a node or edge label: strip quotes and turn <br> into newlines
+ */
+function cleanLabel(label: string): string {
+  let text = label.trim();
+  if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+    text = text.slice(1, -1);
+  }
+  return text
+    .replace(/<br\s*\/?>/gi, "\n")
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n");
+}
+
+/**
+ * Remove `%%` comments and blank lines
+ */
+function sourceLines(source: string): string[] {
+  return source
+    .split(/\r?\n/)
+    .map((line) => line.replace(/%%.*$/, "").trim())
+    .filter((line) => line !== "");
+}
+
+/**
+ * Split a line into statements at `;` outside quotes and brackets
+ */
+function splitStatements(line: string): string[] {
+  const statements: string[] = [];
+  let depth = 0;
+  let inQuote = false;
+  let current = "";
+  for (const char of line) {
+    if (char === '"') inQuote = !inQuote;
+    if (!inQuote) {
+      if ("[({".includes(char)) depth++;
+      if ("])}".includes(char)) depth = Math.max(0, depth - 1);
+      if (char === ";" && depth === 0) {
+        statements.push(current);
+        current = "";
+        continue;
+      }
+    }
+    current += char;
+  }
+  statements.push(current);
+  return statements.map((s) => s.trim()).filter((s) => s !== "");
+}
+
+/**
+ * Index of `close` after a label starting at `start`. A quoted label may
+ * contain the closing delimiter, so the search starts after its quotes.
+ */
+function findLabelEnd(text: string, start: number, close: string): number {
+  const quote = text.slice(start).match(/^\s*"/);
+  if (quote) {
+    const endQuote = text.indexOf('"', start + quote[0].length);
+    if (endQuote !== -1) return text.indexOf(close, endQuote + 1);
+  }
+  return text.indexOf(close, start);
+}
+
+/**
+ * Read a node reference (`A`, `A[Label]`, `B{Choice}`, ...) from the start of `text`
+ */
+function readNode(text: string): NodeRef | null {
+  const idMatch = text.match(/^\s*([\p{L}\p{N}_]+)/u);
+  if (!idMatch) return null;
+
+  const id = idMatch[1];
+  let rest = text.slice(idMatch[0].length);
+
+  for (const [open, close, shape] of NODE_SHAPES) {
+    if (!rest.startsWith(open)) continue;
+    const end = findLabelEnd(rest, open.length, close);
+    if (end === -1) continue;
+    const label = cleanLabel(rest.slice(open.length, end));
+    rest = rest.slice(end + close.length).replace(/^:::[\w-]+/, "");
+    return { id, label, shape, rest };
+  }
+
+  return { id, rest: rest.replace(/^:::[\w-]+/, "") };
+}
+
+/**
+ * Read a link (`-->`, `-- label -->`, `-.->|label|`, ...) from the start of `text`
+ */
+function readLink(text: string): LinkRef | null {
+  const trimmed = text.trimStart();
+  for (const { pattern, line, arrow } of LINK_PATTERNS) {
+    const match = trimmed.match(pattern);
+    if (!match) continue;
+    const label = match[1] !== undefined ? cleanLabel(match[1]) : undefined;
+    return {
+      label: label || undefined,
+      line,
+      arrow,
+      rest: trimmed.slice(match[0].length),
+    };
+  }
+  return null;
+}
+
+/**
+ * Parse a flowchart (`flowchart TD` / `graph LR`) body.
+ * Statements that cannot be drawn (including subgraph grouping) are added
+ * to `skipped`.
+ */
+function parseFlowchart(
+  direction: FlowchartDirection,
+  lines: string[],
+  skipped: string[],
+): FlowchartGraph {
+  const graph: FlowchartGraph = {
+    type: "flowchart",
+    direction,
+    nodes: [],
+    edges: [],
+  };
+  const nodesById = new Map<string, FlowchartNode>();
+
+  const addNode = (node: NodeRef) => {
+    const existing = nodesById.get(node.id);
+    if (existing) {
+      if (node.label !== undefined) existing.label = node.label;
+      if (node.shape !== undefined) existing.shape = node.shape;
+      return;
+    }
+    const created: FlowchartNode = {
+      id: node.id,
+      label: node.label ?? node.id,
+      shape: node.shape ?? "rect",
+    };
+    nodesById.set(node.id, created);
+    graph.nodes.push(created);
+  };
+
+  // `A & B` groups connect every member
+  const readNodeGroup = (text: string) => {
+    const ids: string[] = [];
+    let rest = text;
+    for (;;) {
+      const node = readNode(rest);
+      if (!node) break;
+      addNode(node);
+      ids.push(node.id);
+      rest = node.rest;
+      const ampersand = rest.match(/^\s*&/);
+      if (!ampersand) break;
+      rest = rest.slice(ampersand[0].length);
+    }
+    return ids.length > 0 ? { ids, rest } : null;
+  };
+
+  for (const line of lines) {
+    for (const statement of splitStatements(line)) {
+      if (IGNORED_FLOWCHART_KEYWORDS.test(statement)) continue;
+      if (/^subgraph\b/.test(statement)) {
+        skipped.push(statement);
+        continue;
+      }
+
+      const first = readNodeGroup(statement);
+      if (!first) {
+        skipped.push(statement);
+        continue;
+      }
+
+      let sources = first.ids;
+      let rest = first.rest;
+      while (rest.trim()) {
+        const link = readLink(rest);
+        if (!link) break;
+        const targets = readNodeGroup(link.rest);
+        if (!targets) break;
+        for (const from of sources) {
+          for (const to of targets.ids) {
+            graph.edges.push({
+              from,
+              to,
+              label: link.label,
+              line: link.line,
+              arrow: link.arrow,
+            });
+          }
+        }
+        sources = targets.ids;
+        rest = targets.rest;
+      }
+      if (rest.trim()) skipped.push(statement);
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Sequence arrows, longest first
+ */
+const SEQUENCE_MESSAGE_PATTERN =
+  /^([\p{L}\p{N}_.]+)\s*(-->>|->>|--x|-x|--\)|-\)|-->|->)\s*[+-]?\s*([\p{L}\p{N}_.]+)\s*:\s*(.*)$/u;
+
+/**
+ * Parse a `sequenceDiagram` body. Activations are ignored; notes, block
+ * frames (loop/alt/...) and other statements that cannot be drawn are added
+ * to `skipped`. Messages inside blocks are still drawn.
+ */
+function parseSequence(lines: string[], skipped: string[]): SequenceGraph {
+  const graph: SequenceGraph = {
+    type: "sequence",
+    participants: [],
+    messages: [],
+  };
+  const participantsById = new Map<string, SequenceParticipant>();
+
+  const addParticipant = (id: string, label?: string, actor = false) => {
+    const existing = participantsById.get(id);
+    if (existing) {
+      if (label) existing.label = label;
+      existing.actor = existing.actor || actor;
+      return;
+    }
+    const participant = { id, label: label ?? id, actor };
+    participantsById.set(id, participant);
+    graph.participants.push(participant);
+  };
+
+  for (const line of lines) {
+    const declaration = line.match(
+      /^(participant|actor)\s+([\p{L}\p{N}_.]+)(?:\s+as\s+(.+))?$/u,
+    );
+    if (declaration) {
+      addParticipant(
+        declaration[2],
+        declaration[3] ? cleanLabel(declaration[3]) : undefined,
+        declaration[1] === "actor",
+      );
+      continue;
+    }
+
+    const message = line.match(SEQUENCE_MESSAGE_PATTERN);
+    if (message) {
+      const [, from, arrow, to, label] = message;
+      addParticipant(from);
+      addParticipant(to);
+      graph.messages.push({
+        from,
+        to,
+        label: cleanLabel(label),
+        line: arrow.startsWith("--") ? "dotted" : "solid",
+        arrow: arrow !== "->" && arrow !== "-->",
+      });
+      continue;
+    }
+
+    if (!IGNORED_SEQUENCE_KEYWORDS.test(line)) skipped.push(line);
+  }
+
+  return graph;
+}
+
+/**
+ * Warn about statements left out of a diagram
+ */
+function warnSkipped(skipped: string[]): void {
+  if (skipped.length === 0) return;
+  const shown = skipped.slice(0, 3).join(", ");
+  const more = skipped.length > 3 ? ` and ${skipped.length - 3} more` : "";
+  console.warn(
+    `[figdeck] Mermaid statements not rendered in the diagram: ${shown}${more}`,
+  );
+}
+
+/**
+ * Parse Mermaid source into a graph.
+ * Supports flowcharts (`flowchart` / `graph`) and sequence diagrams;
+ * returns null for other diagram types. Statements that cannot be drawn are
+ * left out with a warning.
+ */
+export function parseMermaid(source: string): MermaidGraph | null {
+  const lines = sourceLines(source);
+  if (lines.length === 0) return null;
+
+  const [header, ...body] = lines;
+  const skipped: string[] = [];
+
+  const flowchart = header.match(/^(?:flowchart|graph)\b\s*(TB|TD|BT|LR|RL)?/i);
+  if (flowchart) {
+    const rawDirection = (flowchart[1] ?? "TB").toUpperCase();
+    const direction = (
+      rawDirection === "TD" ? "TB" : rawDirection
+    ) as FlowchartDirection;
+    // Statements may follow the header on the same line after `;`
+    const inline = header.slice(flowchart[0].length).replace(/^\s*;/, "");
+    const graph = parseFlowchart(
+      direction,
+      inline.trim() ? [inline, ...body] : body,
+      skipped,
+    );
+    warnSkipped(skipped);
+    return graph;
+  }
+
+  if (/^sequenceDiagram\b/.test(header)) {
+    const graph = parseSequence(body, skipped);
+    warnSkipped(skipped);
+    return graph;
+  }
+
+  return null;
+}
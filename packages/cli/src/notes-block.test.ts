@@ -0,0 +1,150 @@
+import { describe, expect, it } from "bun:test";
+import {
+  extractNotesBlocks,
+  parseNotesBlockMarker,
+  parseNotesComment,
+} from "./notes-block";
+
+describe("extractNotesBlocks", () => {
+  it("should extract :::notes block", () => {
+    const markdown = `## Title
+
+:::notes
+Remember to pause here.
+:::
+
+Body text`;
+
+    const { processedMarkdown, notes } = extractNotesBlocks(markdown);
+
+    expect(notes).toEqual(["Remember to pause here."]);
+    expect(processedMarkdown).not.toContain(":::notes");
+    expect(processedMarkdown).not.toContain("Remember to pause here.");
+    expect(processedMarkdown).toContain("Body text");
+  });
+
+  it("should accept a space after the colons", () => {
+    const markdown = `::: notes
+Spaced directive.
+:::`;
+
+    const { notes } = extractNotesBlocks(markdown);
+
+    expect(notes).toEqual(["Spaced directive."]);
+  });
+
+  it("should keep multi-line content", () => {
+    const markdown = `:::notes
+First line.
+
+Second paragraph.
+:::`;
+
+    const { notes } = extractNotesBlocks(markdown);
+
+    expect(notes).toEqual(["First line.\n\nSecond paragraph."]);
+  });
+
+  it("should collect multiple blocks in order", () => {
+    const markdown = `:::notes
+One.
+:::
+
+:::notes
+Two.
+:::`;
+
+    const { notes } = extractNotesBlocks(markdown);
+
+    expect(notes).toEqual(["One.", "Two."]);
+  });
+
+  it("should skip empty blocks", () => {
+    const markdown = `:::notes
+
+:::`;
+
+    const { notes } = extractNotesBlocks(markdown);
+
+    expect(notes).toEqual([]);
+  });
+
+  it("should not touch callout blocks", () => {
+    const markdown = `:::note
+A callout.
+:::`;
+
+    const { processedMarkdown, notes } = extractNotesBlocks(markdown);
+
+    expect(notes).toEqual([]);
+    expect(processedMarkdown).toBe(markdown);
+  });
+
+  it("should leave blocks inside fenced code untouched", () => {
+    const markdown = "```md\n:::notes\nSample\n:::\n```";
+
+    const { processedMarkdown, notes } = extractNotesBlocks(markdown);
+
+    expect(notes).toEqual([]);
+    expect(processedMarkdown).toBe(markdown);
+  });
+});
+
+describe("parseNotesBlockMarker", () => {
+  it("should return the index of each extracted block", () => {
+    const { processedMarkdown } = extractNotesBlocks(`:::notes
+One.
+:::
+
+:::notes
+Two.
+:::`);
+
+    const markers = processedMarkdown
+      .split("\n")
+      .filter((line) => line.trim())
+      .map(parseNotesBlockMarker);
+
+    expect(markers).toEqual([0, 1]);
+  });
+
+  it("should return null for other HTML", () => {
+    expect(parseNotesBlockMarker("<!-- notes: Hi -->")).toBeNull();
+    expect(parseNotesBlockMarker("<!-- pause -->")).toBeNull();
+  });
+});
+
+describe("parseNotesComment", () => {
+  it("should parse single-line notes comment", () => {
+    expect(parseNotesComment("<!-- notes: Say hello -->")).toBe("Say hello");
+  });
+
+  it("should parse notes comment without colon", () => {
+    expect(parseNotesComment("<!-- notes Say hello -->")).toBe("Say hello");
+  });
+
+  it("should parse multi-line notes comment", () => {
+    const html = `<!-- notes
+Line one
+Line two
+-->`;
+    expect(parseNotesComment(html)).toBe("Line one\nLine two");
+  });
+
+  it("should be case-insensitive", () => {
+    expect(parseNotesComment("<!-- NOTES: Loud -->")).toBe("Loud");
+  });
+
+  it("should ignore regular comments", () => {
+    expect(parseNotesComment("<!-- TODO: fix this -->")).toBeNull();
+    expect(parseNotesComment("<!-- notesworthy -->")).toBeNull();
+  });
+
+  it("should ignore non-comment html", () => {
+    expect(parseNotesComment("<div>notes</div>")).toBeNull();
+  });
+
+  it("should return null for empty notes", () => {
+    expect(parseNotesComment("<!-- notes -->")).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import { findCodeFenceRanges, isInCodeFence } from "./code-fence.js";
+
+/**
+ * Extract :::notes blocks from a slide's markdown and return the body
+ * without them, along with the collected note texts.
+ *
+ * Each non-empty block is replaced by a marker comment holding its index
+ * in `notes`, so the parser can merge block notes with `<!-- notes -->`
+ * comments in document order (see `parseNotesBlockMarker`).
+ *
+ * Block format:
+ * :::notes
+ * Mention the Q3 numbers before moving on.
+ * :::
+ *
+ * `::: notes` (with a space) is accepted as well. Blocks inside fenced
+ * code are samples and stay as they are.
+ */
+export function extractNotesBlocks(markdown: string): {
+  processedMarkdown: string;
+  notes: string[];
+} {
+  const notes: string[] = [];
+
+  const notesBlockRegex = /^:::\s*notes\s*\n([\s\S]*?)\n:::\s*$/gm;
+  const codeFences = findCodeFenceRanges(markdown);
+
+  const processedMarkdown = markdown.replace(
+    notesBlockRegex,
+    (match, content: string, offset: number) => {
+      if (isInCodeFence(codeFences, offset)) {
+        return match;
+      }
+
+      // Keep the block's line count so that line numbers of the processed
+      // markdown still match the source
+      const blankLines = "\n".repeat(match.split("\n").length - 1);
+      const trimmedContent = content.trim();
+      if (!trimmedContent) {
+        return blankLines;
+      }
+      notes.push(trimmedContent);
+      return `<!-- figdeck-notes-block:${notes.length - 1} -->${blankLines}`;
+    },
+  );
+
+  return { processedMarkdown, notes };
+}
+
+/**
+ * Return the `notes` index of a marker left by `extractNotesBlocks`,
+ * or null if the HTML is not such a marker.
+ */
+export function parseNotesBlockMarker(html: string): number | null {
+  const match = html.trim().match(/^<!-- figdeck-notes-block:(\d+) -->$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Extract speaker notes from a raw HTML node value.
+ * Only comments starting with `notes` are treated as speaker notes:
+ *
+ * <!-- notes: Short note -->
+ *
+ * <!-- notes
+ * Longer note
+ * spanning multiple lines
+ * -->
+ *
+ * Returns null for any other HTML (including regular comments).
+ */
+export function parseNotesComment(html: string): string | null {
+  const match = html.trim().match(/^<!--\s*notes\b:?([\s\S]*?)-->$/i);
+  if (!match) {
+    return null;
+  }
+  const content = match[1].trim();
+  return content || null;
+}
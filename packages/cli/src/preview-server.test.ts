@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import type { SlideContent } from "@figdeck/shared";
+import {
+  type PreviewServerInstance,
+  startPreviewServer,
+} from "./preview-server";
+
+const slides: SlideContent[] = [
+  { blocks: [{ kind: "heading", level: 1, text: "Hello" }] },
+];
+
+describe("startPreviewServer", () => {
+  let server: PreviewServerInstance | null = null;
+
+  afterEach(() => {
+    server?.close();
+    server = null;
+  });
+
+  it("serves the rendered slides", async () => {
+    server = await startPreviewServer(slides, {
+      host: "127.0.0.1",
+      port: 0,
+      title: "deck.md",
+      liveReload: false,
+    });
+
+    const response = await fetch(server.url);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("text/html");
+    expect(await response.text()).toContain("Hello");
+
+    const missing = await fetch(`${server.url}missing`);
+    expect(missing.status).toBe(404);
+  });
+
+  it("sends a reload event and serves the new slides after update", async () => {
+    server = await startPreviewServer(slides, {
+      host: "127.0.0.1",
+      port: 0,
+      title: "deck.md",
+      liveReload: true,
+    });
+
+    const events = await fetch(`${server.url}events`);
+    expect(events.headers.get("content-type")).toBe("text/event-stream");
+    const reader = (events.body as ReadableStream<Uint8Array>).getReader();
+    const decoder = new TextDecoder();
+    await reader.read(); // initial comment
+
+    server.update([{ blocks: [{ kind: "heading", level: 1, text: "Bye" }] }]);
+    const { value } = await reader.read();
+    expect(decoder.decode(value)).toContain("event: reload");
+    await reader.cancel();
+
+    expect(await (await fetch(server.url)).text()).toContain("Bye");
+  });
+});
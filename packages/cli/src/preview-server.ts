@@ -0,0 +1,115 @@
+import { createServer, type ServerResponse } from "node:http";
+import type { SlideContent } from "@figdeck/shared";
+import { PREVIEW_EVENTS_PATH, renderPreviewHtml } from "./preview.js";
+
+// Comment line sent periodically so proxies keep the event stream open
+const KEEPALIVE_INTERVAL_MS = 30000;
+
+export interface PreviewServerOptions {
+  host: string;
+  port: number;
+  /** Page title, usually the Markdown file name */
+  title: string;
+  /** Push reload events to open pages when slides are updated */
+  liveReload: boolean;
+}
+
+export interface PreviewServerInstance {
+  /** Replace the rendered slides and reload open pages */
+  update: (slides: SlideContent[]) => void;
+  close: () => void;
+  url: string;
+}
+
+/**
+ * Start an HTTP server rendering the slides as HTML.
+ * Open pages listen on an event stream and reload after `update`.
+ */
+export function startPreviewServer(
+  initialSlides: SlideContent[],
+  options: PreviewServerOptions,
+): Promise<PreviewServerInstance> {
+  return new Promise((resolve, reject) => {
+    let html = renderPreviewHtml(initialSlides, {
+      title: options.title,
+      liveReload: options.liveReload,
+    });
+    const clients = new Set<ServerResponse>();
+
+    const server = createServer((req, res) => {
+      const path = (req.url ?? "/").split("?")[0];
+
+      if (req.method !== "GET") {
+        res.writeHead(405, { Allow: "GET" }).end();
+        return;
+      }
+
+      if (path === "/") {
+        res.writeHead(200, {
+          "Content-Type": "text/html; charset=utf-8",
+          "Cache-Control": "no-store",
+        });
+        res.end(html);
+        return;
+      }
+
+      if (path === PREVIEW_EVENTS_PATH && options.liveReload) {
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-store",
+          Connection: "keep-alive",
+        });
+        res.write(": connected\n\n");
+        clients.add(res);
+        req.on("close", () => clients.delete(res));
+        return;
+      }
+
+      res.writeHead(404, { "Content-Type": "text/plain" }).end("Not found");
+    });
+
+    const keepalive = setInterval(() => {
+      for (const client of clients) {
+        client.write(": keepalive\n\n");
+      }
+    }, KEEPALIVE_INTERVAL_MS);
+    keepalive.unref();
+
+    server.on("error", (error) => {
+      clearInterval(keepalive);
+      reject(error);
+    });
+
+    server.listen(options.port, options.host, () => {
+      const address = server.address();
+      const port =
+        address && typeof address === "object" ? address.port : options.port;
+      const host = options.host.includes(":")
+        ? `[${options.host}]`
+        : options.host;
+      const url = `http://${host}:${port}/`;
+      console.log(`Preview server started on ${url}`);
+
+      resolve({
+        update(slides) {
+          html = renderPreviewHtml(slides, {
+            title: options.title,
+            liveReload: options.liveReload,
+          });
+          for (const client of clients) {
+            client.write("event: reload\ndata: {}\n\n");
+          }
+        },
+        close() {
+          clearInterval(keepalive);
+          for (const client of clients) {
+            client.end();
+          }
+          clients.clear();
+          server.close();
+        },
+        url,
+      });
+    });
+  });
+}
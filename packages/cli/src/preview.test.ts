@@ -0,0 +1,383 @@
+import { describe, expect, it } from "bun:test";
+import type { Diagram, SlideContent } from "@figdeck/shared";
+import {
+  escapeHtml,
+  formatPreviewSlideNumber,
+  renderChartSvg,
+  renderDiagramSvg,
+  renderPreviewHtml,
+  renderSlideHtml,
+  renderSpans,
+} from "./preview";
+
+describe("escapeHtml", () => {
+  it("escapes markup and quotes", () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;",
+    );
+  });
+});
+
+describe("renderSpans", () => {
+  it("falls back to escaped plain text without spans", () => {
+    expect(renderSpans(undefined, "a < b")).toBe("a &lt; b");
+  });
+
+  it("renders formatting marks", () => {
+    const html = renderSpans(
+      [
+        { text: "bold", bold: true },
+        { text: " and " },
+        { text: "code", code: true },
+        { text: "gone", strike: true, italic: true },
+      ],
+      "",
+    );
+    expect(html).toBe(
+      "<strong>bold</strong> and <code>code</code><s><em>gone</em></s>",
+    );
+  });
+
+  it("links http URLs and drops unsafe ones", () => {
+    expect(renderSpans([{ text: "site", href: "https://x.dev" }], "")).toBe(
+      '<a href="https://x.dev">site</a>',
+    );
+    expect(
+      renderSpans([{ text: "bad", href: "javascript:alert(1)" }], ""),
+    ).toBe("bad");
+  });
+
+  it("sizes inline math in em", () => {
+    const html = renderSpans(
+      [
+        {
+          text: "x",
+          math: {
+            svg: '<svg xmlns="http://www.w3.org/2000/svg" width="500" height="400" viewBox="0 -300 500 400"></svg>',
+            width: 0.5,
+            height: 0.4,
+            depth: 0.1,
+          },
+        },
+      ],
+      "",
+    );
+    expect(html).toContain('width="0.5em"');
+    expect(html).toContain('height="0.4em"');
+    expect(html).toContain("vertical-align:-0.1em");
+  });
+});
+
+describe("formatPreviewSlideNumber", () => {
+  it("skips the cover slide by default", () => {
+    expect(formatPreviewSlideNumber({}, 1, 5)).toBeNull();
+    expect(formatPreviewSlideNumber({}, 2, 5)).toBe("1 / 4");
+  });
+
+  it("honors show, format, startFrom and offset", () => {
+    expect(formatPreviewSlideNumber({ show: false }, 3, 5)).toBeNull();
+    expect(
+      formatPreviewSlideNumber({ format: "{{current}}", startFrom: 1 }, 1, 5),
+    ).toBe("1");
+    expect(formatPreviewSlideNumber({ startFrom: 1, offset: 10 }, 1, 5)).toBe(
+      "11 / 15",
+    );
+  });
+});
+
+describe("renderDiagramSvg", () => {
+  it("draws nodes, edges and arrowheads", () => {
+    const diagram: Diagram = {
+      type: "flowchart",
+      width: 300,
+      height: 100,
+      nodes: [
+        {
+          id: "A",
+          label: "Start",
+          shape: "round",
+          x: 0,
+          y: 0,
+          width: 120,
+          height: 56,
+        },
+        {
+          id: "B",
+          label: "<End>",
+          shape: "diamond",
+          x: 180,
+          y: 0,
+          width: 120,
+          height: 56,
+        },
+      ],
+      edges: [
+        {
+          from: "A",
+          to: "B",
+          line: "dotted",
+          arrow: true,
+          points: [
+            { x: 120, y: 28 },
+            { x: 180, y: 28 },
+          ],
+        },
+      ],
+    };
+    const svg = renderDiagramSvg(diagram, "#333333");
+    expect(svg).toContain('rx="16"');
+    expect(svg).toContain("<polygon");
+    expect(svg).toContain("&lt;End&gt;");
+    expect(svg).toContain('stroke-dasharray="6 6"');
+    expect(svg).toContain('marker-end="url(#arrow)"');
+  });
+});
+
+describe("renderChartSvg", () => {
+  it("draws bars with axis labels and series colors", () => {
+    const svg = renderChartSvg(
+      {
+        type: "bar",
+        title: "<Sales>",
+        labels: ["Q1", "Q2"],
+        series: [{ name: "2025", values: [10, 20] }],
+        colors: ["#ff0000"],
+      },
+      "#333333",
+    );
+    expect(svg).toContain("&lt;Sales&gt;");
+    expect(svg.match(/<rect [^>]*fill="#ff0000"/g)).toHaveLength(2);
+    expect(svg).toContain(">Q2</text>");
+    expect(svg).toContain(">20</text>");
+  });
+
+  it("draws pie slices and a legend", () => {
+    const svg = renderChartSvg(
+      {
+        type: "pie",
+        labels: ["A", "B"],
+        series: [{ name: "Share", values: [1, 1] }],
+      },
+      "#333333",
+    );
+    expect(svg.match(/<path /g)).toHaveLength(2);
+    expect(svg).toContain(">A</text>");
+    expect(svg).toContain(">B</text>");
+  });
+});
+
+describe("renderSlideHtml", () => {
+  it("renders blocks in an aligned content container", () => {
+    const slide: SlideContent = {
+      align: "center",
+      valign: "bottom",
+      blocks: [
+        { kind: "heading", level: 2, text: "Title" },
+        { kind: "code", language: "ts", code: "const a = <T>() => 1;" },
+      ],
+    };
+    const html = renderSlideHtml(slide, 0, 1);
+    expect(html).toContain("justify-content:flex-end;align-items:center");
+    expect(html).toContain('<h2 class="block" style="font-size:48px');
+    expect(html).toContain("const a = &lt;T&gt;() =&gt; 1;");
+  });
+
+  it("uses shared bullet and task markers", () => {
+    const slide: SlideContent = {
+      blocks: [
+        {
+          kind: "bullets",
+          items: [
+            { text: "Parent", children: [{ text: "Child" }] },
+            { text: "Done", checked: true },
+          ],
+        },
+      ],
+    };
+    const html = renderSlideHtml(slide, 0, 1);
+    expect(html).toContain('<span class="marker">•</span>');
+    expect(html).toContain('<span class="marker">◦</span>');
+    expect(html).toContain('<span class="marker">☑</span>');
+  });
+
+  it("applies style overrides and ignores invalid colors", () => {
+    const slide: SlideContent = {
+      blocks: [{ kind: "paragraph", text: "Body" }],
+      styles: { paragraphs: { size: 30, color: "red;}</style>" } },
+      background: { solid: "#112233" },
+    };
+    const html = renderSlideHtml(slide, 0, 1);
+    expect(html).toContain("font-size:30px");
+    expect(html).not.toContain("</style>");
+    expect(html).toContain("background:rgba(17, 34, 51, 1)");
+  });
+
+  it("applies callout colors and the code palette", () => {
+    const slide: SlideContent = {
+      blocks: [
+        { kind: "callout", type: "note", text: "Heads up" },
+        { kind: "code", code: "let a = 1;" },
+      ],
+      styles: {
+        callouts: { note: { color: "#ff0000" } },
+        codePalette: { background: "#ffffff", colors: { default: "#000" } },
+      },
+    };
+    const html = renderSlideHtml(slide, 0, 1);
+    expect(html).toContain("--accent:rgba(255, 0, 0, 1)");
+    expect(html).toContain(
+      "background:rgba(255, 255, 255, 1);color:rgba(0, 0, 0, 1)",
+    );
+  });
+
+  it("renders callout titles, icons and user-defined types", () => {
+    const slide: SlideContent = {
+      blocks: [
+        { kind: "callout", type: "tip", title: "<Pro> tip", text: "a" },
+        { kind: "callout", type: "decision", text: "b" },
+        { kind: "callout", type: "success", text: "c" },
+      ],
+      styles: {
+        callouts: { decision: { color: "#7c3aed", icon: "⚖️" } },
+      },
+    };
+    const html = renderSlideHtml(slide, 0, 1);
+    expect(html).toContain(">&lt;Pro&gt; tip</div>");
+    expect(html).toContain(">⚖️ DECISION</div>");
+    expect(html).toContain("--accent:rgba(124, 58, 237, 1)");
+    expect(html).toContain("--accent:#1a996b");
+  });
+
+  it("renders code titles, line numbers and highlighted lines", () => {
+    const slide: SlideContent = {
+      blocks: [
+        {
+          kind: "code",
+          code: "a\n<b>",
+          title: "app.ts",
+          highlightLines: [2],
+          dimUnhighlighted: true,
+          showLineNumbers: true,
+        },
+      ],
+    };
+    const html = renderSlideHtml(slide, 0, 1);
+    expect(html).toContain(">app.ts</div>");
+    expect(html).toContain(
+      '<span class="line dim"><span class="ln">1</span>a</span><span class="line hl"><span class="ln">2</span>&lt;b&gt;</span>',
+    );
+  });
+
+  it("applies the table style to header, body and striped rows", () => {
+    const slide: SlideContent = {
+      blocks: [
+        {
+          kind: "table",
+          headers: [[{ text: "A" }], [{ text: "B" }]],
+          rows: [
+            [[{ text: "1" }], [{ text: "2" }]],
+            [[{ text: "3" }], [{ text: "4" }]],
+          ],
+          align: [null, "right"],
+        },
+      ],
+      styles: {
+        table: {
+          size: 18,
+          headerBackground: "#000000",
+          stripeBackground: "#eeeeee",
+          padding: 6,
+          columnWidths: [300],
+        },
+      },
+    };
+    const html = renderSlideHtml(slide, 0, 1);
+    expect(html).toContain('<table class="block table" style="font-size:18px');
+    expect(html).toContain(
+      '<th style="width:300px;padding:6px;background:rgba(0, 0, 0, 1)">',
+    );
+    expect(html).toContain('<td style="text-align:right;padding:6px">2</td>');
+    expect(html).toContain(
+      '<td style="text-align:right;padding:6px;background:rgba(238, 238, 238, 1)">4</td>',
+    );
+  });
+
+  it("enlarges cover headings and places paragraphs bottom-left", () => {
+    const slide: SlideContent = {
+      cover: true,
+      blocks: [
+        { kind: "heading", level: 1, text: "Deck" },
+        { kind: "paragraph", text: "Author" },
+      ],
+    };
+    const html = renderSlideHtml(slide, 0, 1);
+    expect(html).toContain('<h1 class="block" style="font-size:80px');
+    expect(html).toContain(
+      'class="cover-info" style="left:100px;bottom:100px"',
+    );
+  });
+
+  it("places the image of an image-left layout in the media region", () => {
+    const slide: SlideContent = {
+      layout: "image-left",
+      blocks: [
+        { kind: "heading", level: 2, text: "Photo" },
+        { kind: "image", url: "https://example.com/a.png" },
+      ],
+    };
+    const html = renderSlideHtml(slide, 0, 1);
+    expect(html).toContain('class="media" style="left:0px;top:0px"');
+    expect(html).toContain("width:960px;height:1080px");
+    expect(html).toContain("left:960px;top:0px;width:960px");
+  });
+
+  it("positions blocks with custom coordinates absolutely", () => {
+    const slide: SlideContent = {
+      blocks: [{ kind: "paragraph", text: "Pinned" }],
+      styles: { paragraphs: { x: 200, y: 300 } },
+    };
+    expect(renderSlideHtml(slide, 0, 1)).toContain(
+      'class="absolute" style="left:200px;top:300px"',
+    );
+  });
+});
+
+describe("renderPreviewHtml", () => {
+  const slides: SlideContent[] = [
+    { blocks: [{ kind: "heading", level: 1, text: "One" }] },
+    { blocks: [{ kind: "heading", level: 1, text: "Two" }] },
+  ];
+
+  it("renders every slide at 1920x1080", () => {
+    const html = renderPreviewHtml(slides, { title: "deck.md" });
+    expect(html).toContain("<title>deck.md - figdeck preview</title>");
+    expect(html).toContain('id="slide-1"');
+    expect(html).toContain('id="slide-2"');
+    expect(html).toContain("width: 1920px; height: 1080px");
+  });
+
+  it("numbers build steps with their logical slide", () => {
+    const slideNumber = { startFrom: 1, format: "{{current}} of {{total}}" };
+    const heading = { kind: "heading" as const, level: 1 as const, text: "A" };
+    const html = renderPreviewHtml(
+      [
+        { blocks: [heading], slideNumber },
+        { blocks: [heading], slideNumber, build: { step: 1, total: 2 } },
+        { blocks: [heading], slideNumber, build: { step: 2, total: 2 } },
+      ],
+      { title: "deck.md" },
+    );
+    expect(html).toContain("1 of 2");
+    expect(html.split("2 of 2")).toHaveLength(3);
+    expect(html).not.toContain("of 3");
+  });
+
+  it("includes the live reload script only when requested", () => {
+    expect(renderPreviewHtml(slides, { title: "deck.md" })).not.toContain(
+      "EventSource",
+    );
+    expect(
+      renderPreviewHtml(slides, { title: "deck.md", liveReload: true }),
+    ).toContain('new EventSource("/events")');
+  });
+});
@@ -0,0 +1,1125 @@
+import {
+  type BulletItem,
+  type CalloutStyle,
+  CHART_LAYOUT,
+  type Chart,
+  CONTAINER_PADDING,
+  CONTENT_WIDTH,
+  DEFAULT_BULLET_SIZE,
+  DEFAULT_CODE_SIZE,
+  DEFAULT_H1_SIZE,
+  DEFAULT_H2_SIZE,
+  DEFAULT_H3_SIZE,
+  DEFAULT_H4_SIZE,
+  DEFAULT_PARAGRAPH_SIZE,
+  DEFAULT_SLIDE_NUMBER_FORMAT,
+  DEFAULT_SLIDE_NUMBER_PADDING_X,
+  DEFAULT_SLIDE_NUMBER_PADDING_Y,
+  DEFAULT_SLIDE_NUMBER_POSITION,
+  DEFAULT_SLIDE_NUMBER_SIZE,
+  DEFAULT_TEXT_COLOR,
+  DIAGRAM_LAYOUT,
+  type Diagram,
+  FIGMA_BRAND_COLOR,
+  FIGMA_CARD_BG,
+  FIGMA_CARD_BORDER,
+  type FontVariant,
+  type FootnoteItem,
+  getBulletMarker,
+  getCalloutLabel,
+  getChartColor,
+  getSlideNumbers,
+  getTaskMarker,
+  type HorizontalAlign,
+  INLINE_CODE_BG,
+  LAYOUT,
+  LINK_COLOR,
+  parseColorToRGBA,
+  planChart,
+  planLayout,
+  type RGBAColor,
+  SLIDE_HEIGHT,
+  SLIDE_WIDTH,
+  type SlideBlock,
+  type SlideBlockItem,
+  type SlideContent,
+  type SlideNumberConfig,
+  type SlideStyles,
+  type TableStyle,
+  type TextSpan,
+  type TextStyle,
+  type VerticalAlign,
+} from "@figdeck/shared";
+
+/** Path of the server-sent events stream used for live reload */
+export const PREVIEW_EVENTS_PATH = "/events";
+
+// Spacing mirrors the plugin's auto-layout containers
+const BLOCK_SPACING = 30;
+const COLUMN_ITEM_SPACING = 24;
+const BULLET_ITEM_SPACING = 8;
+const BULLET_INDENT = 24;
+const FOOTNOTE_MARGIN = 40;
+
+// Cover and layout emphasis sizes (match the plugin's slide fillers)
+const COVER_DEFAULT_H1_SIZE = 80;
+const COVER_DEFAULT_H2_SIZE = 48;
+const BIG_NUMBER_SIZE = 240;
+const QUOTE_TEXT_SIZE = 48;
+
+/** Tallest a diagram may grow on a slide before it is scaled down */
+const MAX_DIAGRAM_HEIGHT = SLIDE_HEIGHT - CONTAINER_PADDING * 2 - 160;
+
+const CALLOUT_COLORS: Record<string, string> = {
+  note: "#3385e3",
+  tip: "#219654",
+  important: "#8a4fc2",
+  warning: "#cf8721",
+  caution: "#d63d3d",
+  success: "#1a996b",
+  question: "#0d94a8",
+  example: "#5c63d4",
+};
+
+export interface PreviewOptions {
+  /** Document title, usually the Markdown file name */
+  title: string;
+  /** Include the script that reloads the page when the deck changes */
+  liveReload?: boolean;
+}
+
+/**
+ * Resolved CSS for one kind of text element
+ */
+interface PreviewTextStyle {
+  size: number;
+  /** Unset when the element keeps its default color */
+  color?: string;
+  font: string;
+  x?: number;
+  y?: number;
+  spacing?: number;
+}
+
+interface PreviewStyles {
+  h1: PreviewTextStyle;
+  h2: PreviewTextStyle;
+  h3: PreviewTextStyle;
+  h4: PreviewTextStyle;
+  paragraph: PreviewTextStyle;
+  bullet: PreviewTextStyle;
+  code: PreviewTextStyle;
+  /** Extra CSS for code blocks from the code palette */
+  codeBlockCss: string;
+  /** Callout accent colors that replace the built-in ones */
+  callouts: Record<string, string>;
+  /** Callout icons and labels, per type */
+  calloutStyles: Record<string, CalloutStyle>;
+  /** Table settings from the table style */
+  table: PreviewTableStyle;
+}
+
+interface PreviewTableStyle {
+  size?: number;
+  color?: string;
+  /** Extra CSS for the table border */
+  borderCss: string;
+  /** Extra CSS for header cells */
+  headerCss: string;
+  /** Extra CSS for every body cell, and for cells of striped rows */
+  cellCss: string;
+  stripeCss: string;
+  columnWidths: number[];
+}
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Format an RGB(A) color with 0-1 channels as a CSS color
+ */
+function toCssColor(color: RGBAColor): string {
+  const channel = (value: number) => Math.round(value * 255);
+  return `rgba(${channel(color.r)}, ${channel(color.g)}, ${channel(color.b)}, ${color.a ?? 1})`;
+}
+
+/**
+ * Parse a user color into CSS; unrecognized colors fall back so they
+ * cannot inject arbitrary CSS
+ */
+function cssColor(color: string | undefined, fallback: string): string {
+  const parsed = color ? parseColorToRGBA(color) : null;
+  return parsed ? toCssColor(parsed) : fallback;
+}
+
+/**
+ * CSS font-family list for a configured font, ending in a generic family
+ */
+function cssFont(variant: FontVariant | undefined, generic: string): string {
+  const family = variant?.family.replace(/["\\<>]/g, "");
+  return family ? `"${family}", ${generic}` : generic;
+}
+
+function resolveTextStyle(
+  style: TextStyle | undefined,
+  defaultSize: number,
+  font: string,
+): PreviewTextStyle {
+  return {
+    size: style?.size ?? defaultSize,
+    color: style?.color ? cssColor(style.color, DEFAULT_TEXT_COLOR) : undefined,
+    font,
+    x: style?.x,
+    y: style?.y,
+    spacing: style?.spacing,
+  };
+}
+
+/**
+ * Resolve slide styles with the same defaults as the plugin
+ */
+function resolveStyles(styles: SlideStyles | undefined): PreviewStyles {
+  const headings = styles?.headings;
+  const fonts = styles?.fonts;
+  const sans = "Inter, system-ui, sans-serif";
+  return {
+    h1: resolveTextStyle(
+      headings?.h1,
+      DEFAULT_H1_SIZE,
+      cssFont(fonts?.h1, sans),
+    ),
+    h2: resolveTextStyle(
+      headings?.h2,
+      DEFAULT_H2_SIZE,
+      cssFont(fonts?.h2, sans),
+    ),
+    h3: resolveTextStyle(
+      headings?.h3,
+      DEFAULT_H3_SIZE,
+      cssFont(fonts?.h3, sans),
+    ),
+    h4: resolveTextStyle(
+      headings?.h4,
+      DEFAULT_H4_SIZE,
+      cssFont(fonts?.h4, sans),
+    ),
+    paragraph: resolveTextStyle(
+      styles?.paragraphs,
+      DEFAULT_PARAGRAPH_SIZE,
+      cssFont(fonts?.body, sans),
+    ),
+    bullet: resolveTextStyle(
+      styles?.bullets,
+      DEFAULT_BULLET_SIZE,
+      cssFont(fonts?.bullets, sans),
+    ),
+    code: resolveTextStyle(
+      styles?.code,
+      DEFAULT_CODE_SIZE,
+      cssFont(fonts?.code, "ui-monospace, monospace"),
+    ),
+    codeBlockCss: resolveCodeBlockCss(styles),
+    table: resolveTableStyle(styles?.table),
+    callouts: Object.fromEntries(
+      Object.entries(styles?.callouts ?? {}).map(([type, style]) => [
+        type,
+        cssColor(style?.color, CALLOUT_COLORS[type] ?? CALLOUT_COLORS.note),
+      ]),
+    ),
+    calloutStyles: styles?.callouts ?? {},
+  };
+}
+
+/**
+ * Table cell CSS from the table style, matching the plugin's table frames
+ */
+function resolveTableStyle(table: TableStyle | undefined): PreviewTableStyle {
+  let borderCss = "";
+  if (table?.borderColor) {
+    borderCss += `;border-color:${cssColor(table.borderColor, "#d9d9d9")}`;
+  }
+  if (table?.borderWidth !== undefined) {
+    borderCss += `;border-width:${table.borderWidth}px`;
+  }
+  let cellCss = borderCss;
+  if (table?.padding !== undefined) {
+    cellCss += `;padding:${table.padding}px`;
+  }
+  let headerCss = cellCss;
+  if (table?.headerBackground) {
+    headerCss += `;background:${cssColor(table.headerBackground, "#f5f5f5")}`;
+  }
+  if (table?.headerColor) {
+    headerCss += `;color:${cssColor(table.headerColor, DEFAULT_TEXT_COLOR)}`;
+  }
+  const stripeCss = table?.stripeBackground
+    ? `;background:${cssColor(table.stripeBackground, "transparent")}`
+    : "";
+  if (table?.background) {
+    cellCss += `;background:${cssColor(table.background, "transparent")}`;
+  }
+  return {
+    size: table?.size,
+    color: table?.color ? cssColor(table.color, DEFAULT_TEXT_COLOR) : undefined,
+    borderCss,
+    headerCss,
+    cellCss,
+    stripeCss,
+    columnWidths: table?.columnWidths ?? [],
+  };
+}
+
+/**
+ * Code block background and text color from the code palette.
+ * The preview does not highlight syntax, so only the default color applies.
+ */
+function resolveCodeBlockCss(styles: SlideStyles | undefined): string {
+  const palette = styles?.codePalette;
+  let css = "";
+  if (palette?.background) {
+    css += `;background:${cssColor(palette.background, "#212121")}`;
+  }
+  if (palette?.colors?.default) {
+    css += `;color:${cssColor(palette.colors.default, "#d4d4d4")}`;
+  }
+  return css;
+}
+
+function textCss(style: PreviewTextStyle, size = style.size): string {
+  const color = style.color ? `;color:${style.color}` : "";
+  return `font-size:${size}px;font-family:${escapeHtml(style.font)}${color}`;
+}
+
+/**
+ * Allow only links the plugin would also make clickable
+ */
+function safeHref(href: string): string | null {
+  return /^(https?:|mailto:|#)/i.test(href) ? href : null;
+}
+
+/**
+ * Render inline math as an SVG sized in em so it follows the text size
+ */
+function renderInlineMath(span: TextSpan): string {
+  if (!span.math) return "";
+  const { width, height, depth } = span.math;
+  const svg = span.math.svg.replace(/^<svg[^>]*>/, (tag) =>
+    tag
+      .replace(/width="[^"]*"/, `width="${width}em"`)
+      .replace(/height="[^"]*"/, `height="${height}em"`),
+  );
+  return `<span class="math" style="vertical-align:${-depth}em">${svg}</span>`;
+}
+
+/**
+ * Render formatted spans, or plain text when the block has no spans
+ */
+export function renderSpans(
+  spans: TextSpan[] | undefined,
+  fallback: string,
+): string {
+  if (!spans || spans.length === 0) {
+    return escapeHtml(fallback);
+  }
+  return spans
+    .map((span) => {
+      let html = span.math
+        ? renderInlineMath(span)
+        : escapeHtml(span.text).replace(/\n/g, "<br>");
+      if (span.code && !span.math) html = `<code>${html}</code>`;
+      if (span.bold) html = `<strong>${html}</strong>`;
+      if (span.italic) html = `<em>${html}</em>`;
+      if (span.strike) html = `<s>${html}</s>`;
+      if (span.superscript) html = `<sup>${html}</sup>`;
+      const href = span.href ? safeHref(span.href) : null;
+      if (href) html = `<a href="${escapeHtml(href)}">${html}</a>`;
+      return html;
+    })
+    .join("");
+}
+
+function headingStyle(
+  level: 1 | 2 | 3 | 4,
+  styles: PreviewStyles,
+): PreviewTextStyle {
+  return styles[`h${level}`];
+}
+
+function renderBulletItems(
+  items: string[] | BulletItem[],
+  ordered: boolean,
+  start: number,
+  depth: number,
+): string {
+  const rendered = items.map((item, i) => {
+    const bullet: BulletItem = typeof item === "string" ? { text: item } : item;
+    let marker: string;
+    if (typeof bullet.checked === "boolean") {
+      marker = getTaskMarker(bullet.checked);
+    } else {
+      marker = ordered ? `${start + i}.` : getBulletMarker(depth);
+    }
+    const children = bullet.children?.length
+      ? renderBulletItems(
+          bullet.children,
+          bullet.childrenOrdered ?? false,
+          bullet.childrenStart ?? 1,
+          depth + 1,
+        )
+      : "";
+    return `<li><span class="marker">${escapeHtml(marker)}</span><span>${renderSpans(bullet.spans, bullet.text)}</span>${children}</li>`;
+  });
+  const indent = depth > 0 ? ` style="padding-left:${BULLET_INDENT}px"` : "";
+  return `<ul class="bullets"${indent}>${rendered.join("")}</ul>`;
+}
+
+function renderBullets(
+  block: Extract<SlideBlockItem, { kind: "bullets" }>,
+  style: PreviewTextStyle,
+): string {
+  const spacing = style.spacing ?? BULLET_ITEM_SPACING;
+  // Deprecated itemSpans apply to flat string lists
+  const items =
+    block.itemSpans && block.items.every((item) => typeof item === "string")
+      ? (block.items as string[]).map((text, i) => ({
+          text,
+          spans: block.itemSpans?.[i],
+        }))
+      : block.items;
+  return `<div class="block" style="${textCss(style)};--item-spacing:${spacing}px">${renderBulletItems(
+    items,
+    block.ordered ?? false,
+    block.start ?? 1,
+    0,
+  )}</div>`;
+}
+
+function renderTable(
+  block: Extract<SlideBlockItem, { kind: "table" }>,
+  style: PreviewTextStyle,
+  table: PreviewTableStyle,
+): string {
+  const cellStyle = (column: number, css: string) => {
+    const align = block.align?.[column];
+    const width = table.columnWidths[column];
+    const attrs = [
+      align ? `text-align:${align}` : "",
+      width !== undefined ? `width:${width}px` : "",
+    ]
+      .filter(Boolean)
+      .join(";");
+    const combined = `${attrs}${css}`.replace(/^;/, "");
+    return combined ? ` style="${combined}"` : "";
+  };
+  const header = block.headers
+    .map(
+      (cell, i) =>
+        `<th${cellStyle(i, table.headerCss)}>${renderSpans(cell, "")}</th>`,
+    )
+    .join("");
+  const rows = block.rows
+    .map((row, rowIndex) => {
+      const css =
+        rowIndex % 2 === 1 ? table.cellCss + table.stripeCss : table.cellCss;
+      return `<tr>${row.map((cell, i) => `<td${cellStyle(i, css)}>${renderSpans(cell, "")}</td>`).join("")}</tr>`;
+    })
+    .join("");
+  const textStyle = { ...style, color: table.color ?? style.color };
+  return `<table class="block table" style="${textCss(textStyle, table.size ?? style.size)}${table.borderCss}"><thead><tr>${header}</tr></thead><tbody>${rows}</tbody></table>`;
+}
+
+function renderImage(
+  block: Extract<SlideBlockItem, { kind: "image" }>,
+  size = block.size,
+): string {
+  const dimensions = [
+    size?.width !== undefined ? `width:${size.width}px` : "",
+    size?.height !== undefined ? `height:${size.height}px` : "",
+  ]
+    .filter(Boolean)
+    .join(";");
+  const alt = escapeHtml(block.alt ?? "");
+
+  if (block.svg) {
+    const src = `data:image/svg+xml;base64,${Buffer.from(block.svg).toString("base64")}`;
+    return `<img class="block image" src="${src}" alt="${alt}" style="${dimensions}">`;
+  }
+  if (block.dataBase64 && block.mimeType) {
+    return `<img class="block image" src="data:${escapeHtml(block.mimeType)};base64,${block.dataBase64}" alt="${alt}" style="${dimensions}">`;
+  }
+  if (/^https?:\/\//i.test(block.url)) {
+    return `<img class="block image" src="${escapeHtml(block.url)}" alt="${alt}" style="${dimensions}">`;
+  }
+  return `<div class="block image placeholder" style="${dimensions}">${escapeHtml(block.alt || block.url)}</div>`;
+}
+
+function renderFigmaCard(
+  block: Extract<SlideBlockItem, { kind: "figma" }>,
+): string {
+  const link = block.link;
+  const label = link.hideLink
+    ? ""
+    : `<div class="figma-link">${escapeHtml(link.url)}</div>`;
+  return `<div class="block figma" style="background:${toCssColor(FIGMA_CARD_BG)};border-color:${toCssColor(FIGMA_CARD_BORDER)}"><div class="figma-icon" style="background:${toCssColor(FIGMA_BRAND_COLOR)}"></div><div>Figma node ${escapeHtml(link.nodeId ?? "")}</div>${label}</div>`;
+}
+
+/**
+ * Draw a diagram as inline SVG, using the layout computed by the CLI
+ */
+export function renderDiagramSvg(diagram: Diagram, color: string): string {
+  const shapes = diagram.nodes.map((node) => {
+    const cx = node.x + node.width / 2;
+    const cy = node.y + node.height / 2;
+    let outline: string;
+    if (node.shape === "diamond") {
+      outline = `<polygon points="${cx},${node.y} ${node.x + node.width},${cy} ${cx},${node.y + node.height} ${node.x},${cy}"/>`;
+    } else {
+      const radius =
+        node.shape === "round"
+          ? 16
+          : node.shape === "stadium"
+            ? node.height / 2
+            : node.shape === "circle"
+              ? node.width / 2
+              : 4;
+      outline = `<rect x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" rx="${radius}"/>`;
+    }
+    return `<g class="node">${outline}<text x="${cx}" y="${cy}">${escapeHtml(node.label)}</text></g>`;
+  });
+
+  const edges = diagram.edges.map((edge) => {
+    const points = edge.points.map((p) => `${p.x},${p.y}`).join(" ");
+    const width = edge.line === "thick" ? 4 : 2;
+    const dash = edge.line === "dotted" ? ' stroke-dasharray="6 6"' : "";
+    const marker = edge.arrow ? ' marker-end="url(#arrow)"' : "";
+    const label =
+      edge.label && edge.labelPosition
+        ? `<text class="edge-label" x="${edge.labelPosition.x}" y="${edge.labelPosition.y}">${escapeHtml(edge.label)}</text>`
+        : "";
+    return `<polyline points="${points}" stroke-width="${width}"${dash}${marker}/>${label}`;
+  });
+
+  const scale = Math.min(
+    1,
+    CONTENT_WIDTH / diagram.width,
+    MAX_DIAGRAM_HEIGHT / diagram.height,
+  );
+  return `<svg class="block diagram" xmlns="http://www.w3.org/2000/svg" width="${diagram.width * scale}" height="${diagram.height * scale}" viewBox="0 0 ${diagram.width} ${diagram.height}" style="color:${color};font-size:${DIAGRAM_LAYOUT.FONT_SIZE}px"><defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="currentColor"/></marker></defs><g class="edges">${edges.join("")}</g>${shapes.join("")}</svg>`;
+}
+
+function renderFootnotes(
+  items: FootnoteItem[],
+  style: PreviewTextStyle,
+): string {
+  const size = Math.round(style.size * 0.7);
+  const notes = items
+    .map(
+      (item) =>
+        `<div><sup>${escapeHtml(item.id)}</sup> ${renderSpans(item.spans, item.content)}</div>`,
+    )
+    .join("");
+  return `<div class="footnotes" style="font-size:${size}px;font-family:${escapeHtml(style.font)}">${notes}</div>`;
+}
+
+/**
+ * Render a code block with its line numbers, highlighted lines and title tab
+ */
+function renderCodeBlock(
+  block: Extract<SlideBlockItem, { kind: "code" }>,
+  styles: PreviewStyles,
+): string {
+  const style = `${textCss(styles.code)}${styles.codeBlockCss}`;
+  const hasLineOptions = block.showLineNumbers || block.highlightLines;
+  let code = escapeHtml(block.code);
+  if (hasLineOptions) {
+    const highlighted = new Set(block.highlightLines ?? []);
+    code = block.code
+      .split("\n")
+      .map((line, index) => {
+        const classes = ["line"];
+        if (highlighted.has(index + 1)) classes.push("hl");
+        else if (block.dimUnhighlighted) classes.push("dim");
+        const number = block.showLineNumbers
+          ? `<span class="ln">${index + 1}</span>`
+          : "";
+        return `<span class="${classes.join(" ")}">${number}${escapeHtml(line) || " "}</span>`;
+      })
+      .join("");
+  }
+  const pre = `<pre class="${block.title ? "code titled" : "block code"}" style="${style}"><code>${code}</code></pre>`;
+  if (!block.title) return pre;
+  const titleStyle = `${textCss(styles.code, styles.code.size * 0.85)}${styles.codeBlockCss}`;
+  return `<div class="block"><div class="code-title" style="${titleStyle}">${escapeHtml(block.title)}</div>${pre}</div>`;
+}
+
+/**
+ * Render a single block (not columns) to HTML
+ */
+/**
+ * SVG path of a pie or donut slice. Full circles are drawn as two arcs,
+ * since a single arc cannot end where it starts.
+ */
+function slicePath(
+  cx: number,
+  cy: number,
+  radius: number,
+  innerRadius: number,
+  start: number,
+  end: number,
+): string {
+  const point = (r: number, angle: number) =>
+    `${cx + r * Math.cos(angle)},${cy + r * Math.sin(angle)}`;
+  const arcs = (r: number, from: number, to: number, sweep: 0 | 1) => {
+    const middle = (from + to) / 2;
+    return `A${r},${r} 0 0 ${sweep} ${point(r, middle)} A${r},${r} 0 0 ${sweep} ${point(r, to)}`;
+  };
+  const outer = `M${point(radius, start)} ${arcs(radius, start, end, 1)}`;
+  if (innerRadius <= 0) return `${outer} L${cx},${cy} Z`;
+  return `${outer} L${point(innerRadius, end)} ${arcs(innerRadius, end, start, 0)} Z`;
+}
+
+/**
+ * Draw a chart as inline SVG, using the same layout as the plugin
+ */
+export function renderChartSvg(chart: Chart, color: string): string {
+  const plan = planChart(chart);
+  const label = (
+    text: { text: string; x: number; y: number; align: string },
+    className = "",
+  ) => {
+    const anchor =
+      text.align === "center"
+        ? "middle"
+        : text.align === "right"
+          ? "end"
+          : "start";
+    return `<text${className ? ` class="${className}"` : ""} x="${text.x}" y="${text.y}" text-anchor="${anchor}">${escapeHtml(text.text)}</text>`;
+  };
+
+  const parts: string[] = [];
+  if (plan.title) parts.push(label(plan.title, "title"));
+  const plot = plan.plot;
+  if (plot) {
+    for (const tick of plan.ticks) {
+      parts.push(
+        `<line class="grid" x1="${plot.x}" y1="${tick.y}" x2="${plot.x + plot.width}" y2="${tick.y}"/>`,
+        label(tick.label),
+      );
+    }
+    if (plan.baseline !== undefined) {
+      parts.push(
+        `<line class="axis" x1="${plot.x}" y1="${plan.baseline}" x2="${plot.x + plot.width}" y2="${plan.baseline}"/>`,
+      );
+    }
+    for (const category of plan.categories) parts.push(label(category));
+  }
+  for (const bar of plan.bars) {
+    parts.push(
+      `<rect x="${bar.x}" y="${bar.y}" width="${bar.width}" height="${bar.height}" fill="${escapeHtml(getChartColor(chart, bar.series))}"/>`,
+    );
+  }
+  for (const line of plan.lines) {
+    const fill = escapeHtml(getChartColor(chart, line.series));
+    const points = line.points.map((p) => `${p.x},${p.y}`).join(" ");
+    parts.push(
+      `<polyline class="series" points="${points}" stroke="${fill}"/>`,
+      ...line.points.map(
+        (p) => `<circle cx="${p.x}" cy="${p.y}" r="5" fill="${fill}"/>`,
+      ),
+    );
+  }
+  const pie = plan.pie;
+  if (pie) {
+    for (const slice of plan.slices) {
+      parts.push(
+        `<path d="${slicePath(pie.cx, pie.cy, pie.radius, pie.innerRadius, slice.start, slice.end)}" fill="${escapeHtml(getChartColor(chart, slice.index))}"/>`,
+      );
+    }
+  }
+  const swatch = CHART_LAYOUT.LEGEND_SWATCH_SIZE;
+  for (const entry of plan.legend) {
+    parts.push(
+      `<rect x="${entry.x}" y="${entry.y - swatch / 2}" width="${swatch}" height="${swatch}" rx="3" fill="${escapeHtml(getChartColor(chart, entry.colorIndex))}"/>`,
+      label({
+        text: entry.text,
+        x: entry.x + swatch + CHART_LAYOUT.GAP / 2,
+        y: entry.y,
+        align: "left",
+      }),
+    );
+  }
+
+  return `<svg class="block chart" xmlns="http://www.w3.org/2000/svg" width="${plan.width}" height="${plan.height}" viewBox="0 0 ${plan.width} ${plan.height}" style="color:${color};font-size:${CHART_LAYOUT.FONT_SIZE}px">${parts.join("")}</svg>`;
+}
+
+function renderBlockItem(block: SlideBlockItem, styles: PreviewStyles): string {
+  switch (block.kind) {
+    case "heading": {
+      const style = headingStyle(block.level, styles);
+      return `<h${block.level} class="block" style="${textCss(style)}">${renderSpans(block.spans, block.text)}</h${block.level}>`;
+    }
+    case "paragraph":
+      return `<p class="block" style="${textCss(styles.paragraph)}">${renderSpans(block.spans, block.text)}</p>`;
+    case "bullets":
+      return renderBullets(block, styles.bullet);
+    case "code":
+      return renderCodeBlock(block, styles);
+    case "image":
+      return renderImage(block);
+    case "blockquote":
+      return `<blockquote class="block" style="${textCss(styles.paragraph, styles.paragraph.size * 0.95)}">${renderSpans(block.spans, block.text)}</blockquote>`;
+    case "table":
+      return renderTable(block, styles.paragraph, styles.table);
+    case "figma":
+      return renderFigmaCard(block);
+    case "diagram":
+      return renderDiagramSvg(
+        block.diagram,
+        styles.paragraph.color ?? DEFAULT_TEXT_COLOR,
+      );
+    case "chart":
+      return renderChartSvg(
+        block.chart,
+        styles.paragraph.color ?? DEFAULT_TEXT_COLOR,
+      );
+    case "math":
+      return `<div class="block math-block" style="${textCss(styles.paragraph)}">${renderInlineMath({ text: block.tex, math: block.math })}</div>`;
+    case "footnotes":
+      return renderFootnotes(block.items, styles.paragraph);
+    case "callout": {
+      const color =
+        styles.callouts[block.type] ??
+        CALLOUT_COLORS[block.type] ??
+        CALLOUT_COLORS.note;
+      const label = getCalloutLabel(
+        block.type,
+        block.title,
+        styles.calloutStyles[block.type],
+      );
+      return `<div class="block callout" style="${textCss(styles.paragraph)};--accent:${color}"><div class="callout-label">${escapeHtml(label)}</div><div>${renderSpans(block.spans, block.text)}</div></div>`;
+    }
+  }
+}
+
+/**
+ * Render a block, laying out columns side by side
+ */
+function renderBlock(
+  block: SlideBlock,
+  styles: PreviewStyles,
+  availableWidth: number,
+): string {
+  if (block.kind !== "columns") {
+    return renderBlockItem(block, styles);
+  }
+
+  const count = block.columns.length;
+  const gap = Math.min(block.gap ?? LAYOUT.COLUMN_GAP, LAYOUT.MAX_COLUMN_GAP);
+  const widths =
+    block.widths && block.widths.length === count
+      ? block.widths
+      : Array(count).fill(
+          Math.floor((availableWidth - gap * (count - 1)) / count),
+        );
+  // Columns below the minimum width are stacked, as in the plugin
+  const stacked = widths.some((w) => w < LAYOUT.COLUMN_MIN_WIDTH);
+  const columns = block.columns
+    .map((column, i) => {
+      const width = stacked ? availableWidth : widths[i];
+      const items = column
+        .map((item) => renderBlockItem(item, styles))
+        .join("");
+      return `<div class="column" style="width:${width}px">${items}</div>`;
+    })
+    .join("");
+  const direction = stacked ? "column" : "row";
+  return `<div class="block columns" style="flex-direction:${direction};gap:${stacked ? COLUMN_ITEM_SPACING : gap}px;width:${availableWidth}px">${columns}</div>`;
+}
+
+function getBlockStyle(
+  block: SlideBlock,
+  styles: PreviewStyles,
+): PreviewTextStyle | undefined {
+  switch (block.kind) {
+    case "paragraph":
+    case "blockquote":
+      return styles.paragraph;
+    case "bullets":
+      return styles.bullet;
+    case "code":
+      return styles.code;
+    case "heading":
+      return styles.h3;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Coordinates of a block with a custom position, or null for flow blocks
+ */
+function getAbsolutePosition(
+  block: SlideBlock,
+  styles: PreviewStyles,
+): { x: number; y: number } | null {
+  if (block.kind === "figma") {
+    const { x, y } = block.link;
+    return x !== undefined || y !== undefined ? { x: x ?? 0, y: y ?? 0 } : null;
+  }
+  if (block.kind === "image") {
+    const position = block.position;
+    return position && (position.x !== undefined || position.y !== undefined)
+      ? { x: position.x ?? 0, y: position.y ?? 0 }
+      : null;
+  }
+  const style = getBlockStyle(block, styles);
+  return style && (style.x !== undefined || style.y !== undefined)
+    ? { x: style.x ?? 0, y: style.y ?? 0 }
+    : null;
+}
+
+const JUSTIFY: Record<VerticalAlign, string> = {
+  top: "flex-start",
+  middle: "center",
+  bottom: "flex-end",
+};
+
+const ALIGN_ITEMS: Record<HorizontalAlign, string> = {
+  left: "flex-start",
+  center: "center",
+  right: "flex-end",
+};
+
+/**
+ * Auto-layout container positioned on the slide, like the plugin's
+ * "Slide Content" frame
+ */
+function renderContainer(
+  content: string,
+  region: { x: number; y: number; width: number; height: number },
+  align: HorizontalAlign,
+  valign: VerticalAlign,
+): string {
+  return `<div class="content" style="left:${region.x}px;top:${region.y}px;width:${region.width}px;height:${region.height}px;justify-content:${JUSTIFY[valign]};align-items:${ALIGN_ITEMS[align]};text-align:${align}">${content}</div>`;
+}
+
+function withSize(style: PreviewTextStyle, size: number): PreviewTextStyle {
+  return Object.assign({}, style, { size });
+}
+
+/**
+ * Render the slide body: flow blocks in their container and blocks with
+ * custom positions on top
+ */
+function renderSlideBody(slide: SlideContent, styles: PreviewStyles): string {
+  const absolute: string[] = [];
+  const flowBlocks: SlideBlock[] = [];
+  for (const block of slide.blocks) {
+    const position = getAbsolutePosition(block, styles);
+    if (position) {
+      absolute.push(
+        `<div class="absolute" style="left:${position.x}px;top:${position.y}px">${renderBlock(block, styles, CONTENT_WIDTH)}</div>`,
+      );
+    } else {
+      flowBlocks.push(block);
+    }
+  }
+
+  const fullSlide = { x: 0, y: 0, width: SLIDE_WIDTH, height: SLIDE_HEIGHT };
+  const parts: string[] = [];
+  let footnoteLeft = CONTAINER_PADDING;
+  let footnoteBottom = FOOTNOTE_MARGIN;
+
+  if (slide.cover) {
+    const info = flowBlocks.filter((b) => b.kind === "paragraph");
+    const main = flowBlocks.filter((b) => b.kind !== "paragraph");
+    const coverStyles = Object.assign({}, styles, {
+      h1: withSize(
+        styles.h1,
+        slide.styles?.headings?.h1?.size ?? COVER_DEFAULT_H1_SIZE,
+      ),
+      h2: withSize(
+        styles.h2,
+        slide.styles?.headings?.h2?.size ?? COVER_DEFAULT_H2_SIZE,
+      ),
+    });
+    parts.push(
+      renderContainer(
+        main.map((b) => renderBlock(b, coverStyles, CONTENT_WIDTH)).join(""),
+        fullSlide,
+        "center",
+        "middle",
+      ),
+    );
+    if (info.length > 0) {
+      parts.push(
+        `<div class="cover-info" style="left:${CONTAINER_PADDING}px;bottom:${CONTAINER_PADDING}px">${info.map((b) => renderBlock(b, styles, CONTENT_WIDTH)).join("")}</div>`,
+      );
+    }
+  } else if (slide.layout && slide.layout !== "default") {
+    const layout = slide.layout;
+    const plan = planLayout(layout, flowBlocks, SLIDE_WIDTH, SLIDE_HEIGHT);
+    const layoutStyles =
+      layout === "section"
+        ? Object.assign({}, styles, {
+            h1: withSize(
+              styles.h1,
+              slide.styles?.headings?.h1?.size ?? COVER_DEFAULT_H1_SIZE,
+            ),
+          })
+        : styles;
+    const emphasisSize =
+      layout === "big-number" ? BIG_NUMBER_SIZE : QUOTE_TEXT_SIZE;
+    const emphasisStyles = Object.assign({}, layoutStyles, {
+      h1: withSize(layoutStyles.h1, emphasisSize),
+      h2: withSize(layoutStyles.h2, emphasisSize),
+      h3: withSize(layoutStyles.h3, emphasisSize),
+      h4: withSize(layoutStyles.h4, emphasisSize),
+      paragraph: withSize(layoutStyles.paragraph, emphasisSize),
+    });
+
+    if (plan.media && plan.mediaBlock) {
+      parts.push(
+        `<div class="media" style="left:${plan.media.x}px;top:${plan.media.y}px">${renderImage(
+          plan.mediaBlock,
+          { width: plan.media.width, height: plan.media.height },
+        )}</div>`,
+      );
+    }
+    const contentWidth = plan.content.width - CONTAINER_PADDING * 2;
+    const content = plan.contentBlocks
+      .map((block) =>
+        renderBlock(
+          block,
+          block === plan.emphasisBlock ? emphasisStyles : layoutStyles,
+          contentWidth,
+        ),
+      )
+      .join("");
+    parts.push(
+      renderContainer(
+        content,
+        plan.content,
+        slide.align ?? plan.content.align,
+        slide.valign ?? plan.content.valign,
+      ),
+    );
+    footnoteLeft = plan.content.x + CONTAINER_PADDING;
+  } else {
+    parts.push(
+      renderContainer(
+        flowBlocks.map((b) => renderBlock(b, styles, CONTENT_WIDTH)).join(""),
+        fullSlide,
+        slide.align ?? "left",
+        slide.valign ?? "top",
+      ),
+    );
+  }
+
+  if (slide.footnotes && slide.footnotes.length > 0) {
+    if (slide.cover) {
+      // Keep footnotes clear of the cover info block
+      footnoteBottom += CONTAINER_PADDING;
+    }
+    parts.push(
+      `<div class="footnote-area" style="left:${footnoteLeft}px;bottom:${footnoteBottom}px">${renderFootnotes(slide.footnotes, styles.paragraph)}</div>`,
+    );
+  }
+
+  return parts.join("") + absolute.join("");
+}
+
+/**
+ * Slide number text, or null when hidden. Numbering follows the plugin:
+ * slides before `startFrom` (default 2) are skipped.
+ */
+export function formatPreviewSlideNumber(
+  config: SlideNumberConfig,
+  current: number,
+  total: number,
+): string | null {
+  if (config.show === false) return null;
+  const startFrom = config.startFrom ?? 2;
+  if (current < startFrom) return null;
+
+  const offset = config.offset ?? -(startFrom - 1);
+  const displayedTotal = total - (startFrom - 1) + (config.offset ?? 0);
+  return (config.format ?? DEFAULT_SLIDE_NUMBER_FORMAT)
+    .replace(/\{\{current\}\}/g, String(current + offset))
+    .replace(/\{\{total\}\}/g, String(displayedTotal));
+}
+
+function renderSlideNumber(
+  config: SlideNumberConfig | undefined,
+  current: number,
+  total: number,
+): string {
+  if (!config) return "";
+  const text = formatPreviewSlideNumber(config, current, total);
+  if (text === null) return "";
+
+  const position = config.position ?? DEFAULT_SLIDE_NUMBER_POSITION;
+  const [vertical, horizontal] = position.split("-");
+  const paddingX = config.paddingX ?? DEFAULT_SLIDE_NUMBER_PADDING_X;
+  const paddingY = config.paddingY ?? DEFAULT_SLIDE_NUMBER_PADDING_Y;
+  const size = config.size ?? DEFAULT_SLIDE_NUMBER_SIZE;
+  const color = cssColor(config.color, "rgba(128, 128, 128, 0.8)");
+  return `<div class="slide-number" style="${vertical}:${paddingY}px;${horizontal}:${paddingX}px;font-size:${size}px;color:${color}">${escapeHtml(text)}</div>`;
+}
+
+/**
+ * CSS background for a slide. Figma component and template backgrounds
+ * cannot be previewed and fall back to white.
+ */
+function renderBackground(slide: SlideContent): string {
+  const background = slide.background;
+  if (background?.image?.dataBase64 && background.image.mimeType) {
+    return `background:#ffffff url(data:${escapeHtml(background.image.mimeType)};base64,${background.image.dataBase64}) center / cover no-repeat`;
+  }
+  if (background?.gradient && background.gradient.stops.length >= 2) {
+    const stops = background.gradient.stops
+      .map(
+        (stop) =>
+          `${cssColor(stop.color, "#ffffff")} ${Math.round(stop.position * 100)}%`,
+      )
+      .join(", ");
+    // Figma's 0° runs left to right, CSS's 0° runs bottom to top
+    const angle = 90 + (background.gradient.angle ?? 0);
+    return `background:linear-gradient(${angle}deg, ${stops})`;
+  }
+  return `background:${cssColor(background?.solid, "#ffffff")}`;
+}
+
+/**
+ * Render one slide as a 1920x1080 element.
+ * `current` is its slide number, which build steps share with their first step.
+ */
+export function renderSlideHtml(
+  slide: SlideContent,
+  index: number,
+  total: number,
+  current = index + 1,
+): string {
+  const styles = resolveStyles(slide.styles);
+  const body = renderSlideBody(slide, styles);
+  const slideNumber = renderSlideNumber(slide.slideNumber, current, total);
+  return `<section class="slide" id="slide-${index + 1}" style="${renderBackground(slide)}">${body}${slideNumber}</section>`;
+}
+
+const PREVIEW_CSS = `
+* { box-sizing: border-box; }
+body { margin: 0; padding: 24px; background: #1e1e1e; font-family: Inter, system-ui, sans-serif; }
+.frame { position: relative; width: 100%; max-width: ${SLIDE_WIDTH}px; aspect-ratio: ${SLIDE_WIDTH} / ${SLIDE_HEIGHT}; margin: 0 auto 24px; overflow: hidden; box-shadow: 0 2px 12px rgba(0, 0, 0, 0.4); }
+.label { max-width: ${SLIDE_WIDTH}px; margin: 0 auto 8px; color: #aaaaaa; font-size: 13px; }
+.slide { position: absolute; top: 0; left: 0; width: ${SLIDE_WIDTH}px; height: ${SLIDE_HEIGHT}px; overflow: hidden; transform-origin: 0 0; color: ${DEFAULT_TEXT_COLOR}; }
+.content { position: absolute; display: flex; flex-direction: column; gap: ${BLOCK_SPACING}px; padding: ${CONTAINER_PADDING}px; }
+.content > .block { max-width: 100%; }
+.block { margin: 0; }
+h1, h2, h3, h4 { font-weight: 700; line-height: 1.2; }
+p, blockquote, li, td, th { line-height: 1.4; }
+a { color: ${toCssColor(LINK_COLOR)}; text-decoration: underline; }
+code { font-family: ui-monospace, monospace; background: ${toCssColor(INLINE_CODE_BG)}; border-radius: 4px; padding: 0 0.2em; }
+.bullets { list-style: none; margin: 0; padding: 0; text-align: left; }
+.bullets li { margin-top: var(--item-spacing); }
+.bullets li:first-child { margin-top: 0; }
+.bullets .marker { display: inline-block; min-width: 1.2em; margin-right: 0.3em; }
+.code { background: #212121; color: #d4d4d4; border-radius: 8px; padding: 16px 20px; text-align: left; white-space: pre; }
+.code code { background: none; padding: 0; font-family: inherit; }
+.code .line { display: block; margin: 0 -20px; padding: 0 20px; }
+.code .hl { background: rgba(128, 128, 128, 0.2); }
+.code .dim { opacity: 0.4; }
+.code .ln { display: inline-block; min-width: 2ch; margin-right: 16px; text-align: right; opacity: 0.4; }
+.code.titled { border-top-left-radius: 0; }
+.code-title { display: inline-block; background: #212121; color: #d4d4d4; border-radius: 8px 8px 0 0; padding: 8px 16px; }
+blockquote { border-left: 4px solid #cccccc; padding-left: 12px; color: #666666; }
+.table { border-collapse: collapse; border: 1px solid #d9d9d9; }
+.table th, .table td { border: 1px solid #d9d9d9; padding: 12px; }
+.table th { background: #f5f5f5; }
+.image { display: block; object-fit: cover; border-radius: 4px; }
+.image.placeholder { display: flex; align-items: center; justify-content: center; min-width: 400px; min-height: 300px; background: #e6e6e6; color: #808080; font-size: 20px; }
+.figma { display: flex; flex-direction: column; gap: 8px; padding: 24px; border: 1px solid; border-radius: 8px; font-size: 20px; }
+.figma-icon { width: 24px; height: 24px; border-radius: 6px; }
+.figma-link { color: ${toCssColor(FIGMA_BRAND_COLOR)}; font-size: 14px; }
+.diagram { overflow: visible; }
+.diagram .node rect, .diagram .node polygon { fill: currentColor; fill-opacity: 0.08; stroke: currentColor; stroke-width: 2; }
+.diagram text { fill: currentColor; text-anchor: middle; dominant-baseline: central; }
+.diagram polyline { fill: none; stroke: currentColor; }
+.diagram .edge-label { paint-order: stroke; stroke: #ffffff; stroke-width: 6px; }
+.chart { overflow: visible; }
+.chart text { fill: currentColor; dominant-baseline: central; }
+.chart .title { font-weight: bold; }
+.chart .grid { stroke: currentColor; stroke-opacity: 0.15; }
+.chart .axis { stroke: currentColor; stroke-opacity: 0.5; stroke-width: 2; }
+.chart .series { fill: none; stroke-width: 3; stroke-linejoin: round; }
+.math svg { display: inline-block; }
+.callout { position: relative; padding: 16px 16px 16px 20px; border-radius: 6px; background: color-mix(in srgb, var(--accent) 8%, transparent); text-align: left; }
+.callout::before { content: ""; position: absolute; left: 0; top: 0; bottom: 0; width: 4px; border-radius: 6px 0 0 6px; background: var(--accent); }
+.callout-label { margin-bottom: 8px; color: var(--accent); font-weight: 700; }
+.columns { display: flex; align-items: flex-start; text-align: left; }
+.column { display: flex; flex-direction: column; gap: ${COLUMN_ITEM_SPACING}px; }
+.cover-info { position: absolute; display: flex; flex-direction: column; gap: 8px; }
+.footnote-area, .absolute, .media { position: absolute; }
+.footnotes { display: flex; flex-direction: column; gap: 8px; padding-top: 8px; border-top: 1px solid #b3b3b3; color: #808080; }
+.slide-number { position: absolute; font-family: Inter, system-ui, sans-serif; }
+`;
+
+// Scales each 1920x1080 slide to the width of its frame
+const SCALE_SCRIPT = `
+function fit() {
+  for (const frame of document.querySelectorAll(".frame")) {
+    frame.firstElementChild.style.transform = "scale(" + frame.clientWidth / ${SLIDE_WIDTH} + ")";
+  }
+}
+window.addEventListener("resize", fit);
+fit();
+`;
+
+const LIVE_RELOAD_SCRIPT = `
+new EventSource("${PREVIEW_EVENTS_PATH}").addEventListener("reload", () => location.reload());
+`;
+
+/**
+ * Render a deck as a standalone HTML page approximating the Figma output
+ */
+export function renderPreviewHtml(
+  slides: SlideContent[],
+  options: PreviewOptions,
+): string {
+  const { positions, total } = getSlideNumbers(slides);
+  const frames = slides
+    .map((slide, index) => {
+      const step = slide.build
+        ? ` (build ${slide.build.step}/${slide.build.total})`
+        : "";
+      return `<div class="label">${index + 1}${step}</div><div class="frame">${renderSlideHtml(slide, index, total, positions[index])}</div>`;
+    })
+    .join("\n");
+  const reload = options.liveReload
+    ? `<script>${LIVE_RELOAD_SCRIPT}</script>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(options.title)} - figdeck preview</title>
+<style>${PREVIEW_CSS}</style>
+</head>
+<body>
+${frames}
+<script>${SCALE_SCRIPT}</script>
+${reload}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "bun:test";
+import { getConfigParseOptions, getImageOptions } from "./project-config";
+
+describe("getImageOptions", () => {
+  it("converts the size limit to bytes", () => {
+    expect(getImageOptions({ images: { maxSizeMb: 2 } })).toEqual({
+      maxSize: 2 * 1024 * 1024,
+    });
+  });
+
+  it("disables the limit with 0 and keeps the default otherwise", () => {
+    expect(getImageOptions({ images: { maxSizeMb: 0 } })).toEqual({
+      maxSize: Infinity,
+    });
+    expect(getImageOptions({})).toEqual({});
+  });
+});
+
+describe("getConfigParseOptions", () => {
+  it("resolves paths against the config directory", () => {
+    const options = getConfigParseOptions({
+      path: "/work/talks/figdeck.config.json",
+      config: { frontmatter: { background: "./bg.png" } },
+    });
+    expect(options.baseFrontmatterPath).toBe("/work/talks");
+    expect(options.baseFrontmatter).toEqual({ background: "./bg.png" });
+  });
+
+  it("merges top-level fonts over frontmatter fonts", () => {
+    const options = getConfigParseOptions({
+      path: "/work/figdeck.config.json",
+      config: {
+        fonts: { body: { family: "Inter" } },
+        frontmatter: {
+          fonts: { h1: { family: "Roboto" }, body: { family: "Arial" } },
+        },
+      },
+    });
+    expect(options.baseFrontmatter?.fonts).toEqual({
+      h1: { family: "Roboto" },
+      body: { family: "Inter" },
+    });
+  });
+
+  it("returns no options without a config", () => {
+    expect(getConfigParseOptions(null)).toEqual({});
+  });
+});
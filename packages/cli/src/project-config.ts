@@ -0,0 +1,51 @@
+import { dirname } from "node:path";
+import type { FigdeckConfig, LoadedConfig } from "@figdeck/lint";
+import type { SlideConfig } from "./config.js";
+import type { LocalImageOptions } from "./local-image.js";
+import type { ParseMarkdownOptions } from "./markdown.js";
+
+/**
+ * Local image limits from the `images` section; `maxSizeMb: 0` disables
+ * the size limit
+ */
+export function getImageOptions(config: FigdeckConfig): LocalImageOptions {
+  const maxSizeMb = config.images?.maxSizeMb;
+  if (maxSizeMb === undefined) return {};
+  return { maxSize: maxSizeMb === 0 ? Infinity : maxSizeMb * 1024 * 1024 };
+}
+
+/**
+ * Base frontmatter from the `frontmatter` section, with the top-level
+ * `fonts` section merged over its `fonts` key
+ */
+export function getBaseFrontmatter(
+  config: FigdeckConfig,
+): SlideConfig | undefined {
+  if (!config.frontmatter && !config.fonts) return undefined;
+  const frontmatter = { ...config.frontmatter } as SlideConfig;
+  if (config.fonts) {
+    frontmatter.fonts = {
+      ...frontmatter.fonts,
+      ...config.fonts,
+    } as SlideConfig["fonts"];
+  }
+  return frontmatter;
+}
+
+/**
+ * Parse options that apply a project config to a deck.
+ * Relative paths in the config resolve against the config file's directory.
+ */
+export function getConfigParseOptions(
+  loaded: LoadedConfig | null,
+): Pick<
+  ParseMarkdownOptions,
+  "imageOptions" | "baseFrontmatter" | "baseFrontmatterPath"
+> {
+  if (!loaded) return {};
+  return {
+    imageOptions: getImageOptions(loaded.config),
+    baseFrontmatter: getBaseFrontmatter(loaded.config),
+    baseFrontmatterPath: dirname(loaded.path),
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "bun:test";
+import type { SlideContent } from "@figdeck/shared";
+import { diffSlides, isEmptyDiff } from "./slide-diff";
+
+function slide(id: string, text = id): SlideContent {
+  return { id, blocks: [{ kind: "paragraph", text }] };
+}
+
+describe("diffSlides", () => {
+  it("should report no changes for identical decks", () => {
+    const diff = diffSlides([slide("a"), slide("b")], [slide("a"), slide("b")]);
+
+    expect(diff).not.toBeNull();
+    if (!diff) return;
+    expect(isEmptyDiff(diff)).toBe(true);
+    expect(diff.order).toEqual(["a", "b"]);
+  });
+
+  it("should detect added, changed and removed slides", () => {
+    const diff = diffSlides(
+      [slide("a"), slide("b"), slide("c")],
+      [slide("a", "edited"), slide("c"), slide("d")],
+    );
+
+    expect(diff?.added.map((s) => s.id)).toEqual(["d"]);
+    expect(diff?.changed.map((s) => s.id)).toEqual(["a"]);
+    expect(diff?.removed).toEqual(["b"]);
+    expect(diff?.moved).toEqual([]);
+  });
+
+  it("should detect moved slides", () => {
+    const diff = diffSlides(
+      [slide("a"), slide("b"), slide("c")],
+      [slide("c"), slide("a"), slide("b")],
+    );
+
+    expect(diff?.order).toEqual(["c", "a", "b"]);
+    expect(diff?.moved).toEqual(["c", "a", "b"]);
+    expect(diff?.changed).toEqual([]);
+    if (!diff) return;
+    expect(isEmptyDiff(diff)).toBe(false);
+  });
+
+  it("should not treat shifts from insertions as moves", () => {
+    const diff = diffSlides(
+      [slide("a"), slide("b")],
+      [slide("new"), slide("a"), slide("b")],
+    );
+
+    expect(diff?.added.map((s) => s.id)).toEqual(["new"]);
+    expect(diff?.moved).toEqual([]);
+  });
+
+  it("should return null when slides lack ids", () => {
+    const withoutId: SlideContent = { blocks: [] };
+
+    expect(diffSlides([withoutId], [slide("a")])).toBeNull();
+  });
+
+  it("should return null for duplicate ids", () => {
+    expect(diffSlides([slide("a")], [slide("a"), slide("a")])).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import type { SlideContent } from "@figdeck/shared";
+
+/**
+ * Difference between two revisions of a deck, keyed by slide id
+ */
+export interface SlideDiff {
+  order: string[];
+  added: SlideContent[];
+  changed: SlideContent[];
+  removed: string[];
+  /** Ids of slides present in both revisions whose position changed */
+  moved: string[];
+}
+
+/**
+ * Collect slide ids, returning null if any slide lacks an id or ids repeat
+ */
+function collectIds(slides: SlideContent[]): string[] | null {
+  const ids: string[] = [];
+  const seen = new Set<string>();
+  for (const slide of slides) {
+    if (!slide.id || seen.has(slide.id)) {
+      return null;
+    }
+    seen.add(slide.id);
+    ids.push(slide.id);
+  }
+  return ids;
+}
+
+/**
+ * Compute the difference between two revisions of a deck.
+ * Returns null when slides cannot be matched by id, in which case a full
+ * sync is required.
+ */
+export function diffSlides(
+  previous: SlideContent[],
+  next: SlideContent[],
+): SlideDiff | null {
+  const previousIds = collectIds(previous);
+  const nextIds = collectIds(next);
+  if (!previousIds || !nextIds) {
+    return null;
+  }
+
+  const previousById = new Map<string, SlideContent>();
+  for (const slide of previous) {
+    previousById.set(slide.id as string, slide);
+  }
+
+  const added: SlideContent[] = [];
+  const changed: SlideContent[] = [];
+  const moved: string[] = [];
+
+  // Relative order of surviving slides, used to detect moves rather than shifts
+  const nextIdSet = new Set(nextIds);
+  const survivingPrevious = previousIds.filter((id) => nextIdSet.has(id));
+  const survivingNext = nextIds.filter((id) => previousById.has(id));
+
+  for (const slide of next) {
+    const previousSlide = previousById.get(slide.id as string);
+    if (!previousSlide) {
+      added.push(slide);
+    } else if (JSON.stringify(previousSlide) !== JSON.stringify(slide)) {
+      changed.push(slide);
+    }
+  }
+
+  survivingNext.forEach((id, index) => {
+    if (survivingPrevious[index] !== id) {
+      moved.push(id);
+    }
+  });
+
+  const removed = previousIds.filter((id) => !nextIdSet.has(id));
+
+  return { order: nextIds, added, changed, removed, moved };
+}
+
+/**
+ * Check whether a diff contains no changes at all
+ */
+export function isEmptyDiff(diff: SlideDiff): boolean {
+  return (
+    diff.added.length === 0 &&
+    diff.changed.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.moved.length === 0
+  );
+}
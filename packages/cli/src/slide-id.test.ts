@@ -0,0 +1,141 @@
+import { describe, expect, it, spyOn } from "bun:test";
+import type { SlideContent } from "@figdeck/shared";
+import {
+  assignSlideIds,
+  computeSlideFingerprint,
+  markContinuationSlide,
+  parseSlideId,
+} from "./slide-id";
+
+describe("parseSlideId", () => {
+  it("should accept non-empty strings", () => {
+    expect(parseSlideId("intro")).toBe("intro");
+    expect(parseSlideId("  agenda  ")).toBe("agenda");
+  });
+
+  it("should convert finite numbers to strings", () => {
+    expect(parseSlideId(3)).toBe("3");
+  });
+
+  it("should reject empty and invalid values", () => {
+    expect(parseSlideId("")).toBeUndefined();
+    expect(parseSlideId("   ")).toBeUndefined();
+    expect(parseSlideId(Number.NaN)).toBeUndefined();
+    expect(parseSlideId(true)).toBeUndefined();
+    expect(parseSlideId({ id: "x" })).toBeUndefined();
+  });
+
+  it("should truncate very long ids", () => {
+    expect(parseSlideId("a".repeat(300))?.length).toBe(200);
+  });
+});
+
+describe("computeSlideFingerprint", () => {
+  it("should use the first heading so body edits keep identity", () => {
+    const before: SlideContent = {
+      blocks: [
+        { kind: "heading", level: 2, text: "Roadmap" },
+        { kind: "paragraph", text: "Old body" },
+      ],
+    };
+    const after: SlideContent = {
+      blocks: [
+        { kind: "heading", level: 2, text: "Roadmap" },
+        { kind: "paragraph", text: "New body" },
+      ],
+    };
+
+    expect(computeSlideFingerprint(before)).toBe(
+      computeSlideFingerprint(after),
+    );
+    expect(computeSlideFingerprint(before)).toStartWith("h-");
+  });
+
+  it("should normalize heading whitespace and case", () => {
+    const a: SlideContent = {
+      blocks: [{ kind: "heading", level: 1, text: "Hello  World" }],
+    };
+    const b: SlideContent = {
+      blocks: [{ kind: "heading", level: 1, text: "hello world " }],
+    };
+
+    expect(computeSlideFingerprint(a)).toBe(computeSlideFingerprint(b));
+  });
+
+  it("should hash content when there is no heading", () => {
+    const a: SlideContent = { blocks: [{ kind: "paragraph", text: "One" }] };
+    const b: SlideContent = { blocks: [{ kind: "paragraph", text: "Two" }] };
+
+    expect(computeSlideFingerprint(a)).toStartWith("c-");
+    expect(computeSlideFingerprint(a)).not.toBe(computeSlideFingerprint(b));
+  });
+});
+
+describe("assignSlideIds", () => {
+  it("should keep explicit ids", () => {
+    const slides: SlideContent[] = [
+      { id: "intro", blocks: [{ kind: "paragraph", text: "Hi" }] },
+    ];
+
+    assignSlideIds(slides);
+
+    expect(slides[0].id).toBe("intro");
+  });
+
+  it("should assign fingerprints to slides without ids", () => {
+    const slides: SlideContent[] = [
+      { blocks: [{ kind: "heading", level: 2, text: "Agenda" }] },
+    ];
+
+    assignSlideIds(slides);
+
+    expect(slides[0].id).toBe(computeSlideFingerprint(slides[0]));
+  });
+
+  it("should suffix duplicate ids in document order", () => {
+    const heading = { kind: "heading" as const, level: 2 as const, text: "Q" };
+    const slides: SlideContent[] = [
+      { blocks: [heading] },
+      { blocks: [heading] },
+      { blocks: [heading] },
+    ];
+
+    assignSlideIds(slides);
+
+    const base = slides[0].id;
+    expect(slides[1].id).toBe(`${base}-2`);
+    expect(slides[2].id).toBe(`${base}-3`);
+  });
+
+  it("should derive ids of follow-up slides from the first part", () => {
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const heading = {
+        kind: "heading" as const,
+        level: 2 as const,
+        text: "Q",
+      };
+      const slides: SlideContent[] = [
+        { id: "list", blocks: [heading] },
+        { id: "list", blocks: [heading] },
+        { id: "list", blocks: [heading], build: { step: 1, total: 2 } },
+        { id: "list", blocks: [heading], build: { step: 2, total: 2 } },
+      ];
+      markContinuationSlide(slides[1], 2);
+      markContinuationSlide(slides[2], 3);
+      markContinuationSlide(slides[3], 3);
+
+      assignSlideIds(slides);
+
+      expect(slides.map((slide) => slide.id)).toEqual([
+        "list",
+        "list-cont2",
+        "list-cont3",
+        "list-cont3-step2",
+      ]);
+      expect(warnSpy).not.toHaveBeenCalled();
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+});
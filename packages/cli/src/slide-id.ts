@@ -0,0 +1,101 @@
+import { createHash } from "node:crypto";
+import type { SlideContent } from "@figdeck/shared";
+
+/**
+ * Maximum length of an explicit slide id from frontmatter
+ */
+const MAX_SLIDE_ID_LENGTH = 200;
+
+/**
+ * Short, stable hash of a string (first 10 hex chars of SHA-1)
+ */
+function shortHash(value: string): string {
+  return createHash("sha1").update(value).digest("hex").slice(0, 10);
+}
+
+/**
+ * Parse and validate an explicit `id:` value from frontmatter.
+ * Accepts non-empty strings and finite numbers.
+ */
+export function parseSlideId(value: unknown): string | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  return trimmed.slice(0, MAX_SLIDE_ID_LENGTH);
+}
+
+/**
+ * Compute a content fingerprint for a slide without an explicit id.
+ *
+ * The first heading is used when present so that editing the body of a slide
+ * keeps its identity. Slides without headings fall back to a hash of all blocks.
+ */
+export function computeSlideFingerprint(slide: SlideContent): string {
+  const heading = slide.blocks.find((block) => block.kind === "heading");
+  if (heading && heading.kind === "heading" && heading.text.trim()) {
+    const normalized = heading.text.trim().replace(/\s+/g, " ").toLowerCase();
+    return `h-${shortHash(normalized)}`;
+  }
+  return `c-${shortHash(JSON.stringify(slide.blocks))}`;
+}
+
+/**
+ * Follow-up slides created by `autoFit: split`, mapped to their part number
+ * (2 for the first follow-up)
+ */
+const continuationParts = new WeakMap<SlideContent, number>();
+
+/**
+ * Mark a slide as a follow-up part of a slide split by `autoFit: split`.
+ * Its id is derived from the first part in `assignSlideIds`.
+ */
+export function markContinuationSlide(slide: SlideContent, part: number): void {
+  continuationParts.set(slide, part);
+}
+
+/**
+ * Assign a stable `id` to every slide.
+ * Explicit ids from frontmatter are kept, other slides get a fingerprint.
+ * Duplicates get a numeric suffix (`-2`, `-3`, ...) in document order.
+ * Build slides after the first step derive their id from the first step
+ * (`<id>-step2`, `<id>-step3`, ...), and follow-up slides of a split slide
+ * from the first part (`<id>-cont2`, `<id>-cont3`, ...).
+ */
+export function assignSlideIds(slides: SlideContent[]): void {
+  const usedIds = new Set<string>();
+  let buildBaseId = "";
+  let splitBaseId = "";
+
+  for (const slide of slides) {
+    const isLaterStep = slide.build !== undefined && slide.build.step > 1;
+    const part = isLaterStep ? undefined : continuationParts.get(slide);
+    const isDerived = isLaterStep || part !== undefined;
+    const baseId = isLaterStep
+      ? `${buildBaseId}-step${slide.build?.step}`
+      : part !== undefined
+        ? `${splitBaseId}-cont${part}`
+        : (slide.id ?? computeSlideFingerprint(slide));
+    let id = baseId;
+    let count = 1;
+    while (usedIds.has(id)) {
+      count++;
+      id = `${baseId}-${count}`;
+    }
+
+    if (id !== baseId && slide.id !== undefined && !isDerived) {
+      console.warn(`[figdeck] Duplicate slide id "${baseId}", using "${id}"`);
+    }
+
+    if (!isLaterStep) {
+      buildBaseId = id;
+    }
+    if (!isDerived) {
+      splitBaseId = id;
+    }
+    usedIds.add(id);
+    slide.id = id;
+  }
+}
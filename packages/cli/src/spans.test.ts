@@ -101,6 +101,22 @@ describe("extractSpans", () => {
     expect(spans[0]).toEqual({ text: "code", code: true });
   });
 
+  it("should render inline math to SVG", () => {
+    const nodes: PhrasingContent[] = [{ type: "inlineMath", value: "x^2" }];
+    const spans = extractSpans(nodes);
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0].text).toBe("x^2");
+    expect(spans[0].math?.svg).toStartWith("<svg");
+  });
+
+  it("should keep dollar amounts as literal text", () => {
+    const nodes: PhrasingContent[] = [{ type: "inlineMath", value: "10 and " }];
+    const spans = extractSpans(nodes);
+
+    expect(spans).toEqual([{ text: "$10 and $" }]);
+  });
+
   it("should extract link", () => {
     const nodes: PhrasingContent[] = [
       {
@@ -290,6 +306,36 @@ describe("extractBulletItems", () => {
     expect(items[1].children).toBeUndefined();
   });
 
+  it("should keep the checked state of task list items", () => {
+    const list: List = {
+      type: "list",
+      ordered: false,
+      children: [
+        {
+          type: "listItem",
+          checked: true,
+          children: [paragraph([textNode("Done")])],
+        },
+        {
+          type: "listItem",
+          checked: false,
+          children: [paragraph([textNode("Todo")])],
+        },
+        {
+          type: "listItem",
+          checked: null,
+          children: [paragraph([textNode("Plain")])],
+        },
+      ],
+    };
+
+    const items = extractBulletItems(list);
+
+    expect(items[0].checked).toBe(true);
+    expect(items[1].checked).toBe(false);
+    expect(items[2].checked).toBeUndefined();
+  });
+
   it("should extract nested list items", () => {
     const list: List = {
       type: "list",
@@ -14,6 +14,7 @@ import type {
   TableRow,
   Text,
 } from "mdast";
+import { renderMath } from "./math.js";
 
 /**
  * Current inline formatting state during span extraction
@@ -41,7 +42,8 @@ export function extractText(node: Content): string {
 
 /**
  * Extract inline formatting from mdast phrasing content into TextSpan[]
- * Handles: text, strong, emphasis, delete (strikethrough), inlineCode, link
+ * Handles: text, strong, emphasis, delete (strikethrough), inlineCode, link,
+ * inlineMath
  */
 export function extractSpans(
   nodes: PhrasingContent[],
@@ -102,6 +104,21 @@ export function extractSpans(
         spans.push(span);
         break;
       }
+      case "inlineMath": {
+        // Like Pandoc, `$` next to whitespace is not math (e.g. "$10 and $20");
+        // those and invalid TeX stay as literal `$...$` text
+        const mathNode = node as { value: string };
+        const math =
+          mathNode.value.trim() === mathNode.value
+            ? renderMath(mathNode.value, false)
+            : null;
+        const span: TextSpan = math
+          ? { text: mathNode.value, math }
+          : { text: `$${mathNode.value}$` };
+        if (marks.href) span.href = marks.href;
+        spans.push(span);
+        break;
+      }
       case "link": {
         const linkNode = node as Link;
         const childSpans = extractSpans(
@@ -211,6 +228,11 @@ export function extractBulletItems(list: List): BulletItem[] {
     if (item.type === "listItem" && item.children.length > 0) {
       const bulletItem: BulletItem = { text: "", spans: [] };
 
+      // remark-gfm sets checked to true/false on task list items, null otherwise
+      if (typeof item.checked === "boolean") {
+        bulletItem.checked = item.checked;
+      }
+
       // Use a local array to collect spans, avoiding non-null assertions
       const collectedSpans: TextSpan[] = [];
       let collectedText = "";
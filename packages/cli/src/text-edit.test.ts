@@ -0,0 +1,294 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { EditMessage } from "@figdeck/shared";
+import { parseMarkdown } from "./markdown";
+import {
+  applySourceEdits,
+  escapeMarkdownText,
+  formatUnifiedDiff,
+  getEditSourcePath,
+  resolveTextEdit,
+} from "./text-edit";
+
+function edit(
+  slideIndex: number,
+  blockIndex: number,
+  oldText: string,
+  newText: string,
+): EditMessage {
+  return {
+    type: "edit",
+    revision: 1,
+    slideIndex,
+    blockIndex,
+    oldText,
+    newText,
+  };
+}
+
+/**
+ * Resolve an edit against the parsed deck and return the patched Markdown
+ */
+function applyEdit(markdown: string, message: EditMessage): string {
+  const slides = parseMarkdown(markdown);
+  const result = resolveTextEdit(markdown, slides, message);
+  if (!result.ok) throw new Error(result.reason);
+  return applySourceEdits(markdown, result.edits);
+}
+
+describe("resolveTextEdit", () => {
+  it("patches a paragraph typo", () => {
+    const markdown = "# Title\n\nTeh quick fox\n";
+    expect(
+      applyEdit(markdown, edit(0, 1, "Teh quick fox", "The quick fox")),
+    ).toBe("# Title\n\nThe quick fox\n");
+  });
+
+  it("keeps inline formatting around the change", () => {
+    const markdown = "# Title\n\nHello **wrold** and [link](https://x.dev)\n";
+    expect(
+      applyEdit(
+        markdown,
+        edit(0, 1, "Hello wrold and link", "Hello world and link"),
+      ),
+    ).toBe("# Title\n\nHello **world** and [link](https://x.dev)\n");
+  });
+
+  it("patches headings", () => {
+    const markdown = "# Tilte\n";
+    expect(applyEdit(markdown, edit(0, 0, "Tilte", "Title"))).toBe("# Title\n");
+  });
+
+  it("picks the occurrence of repeated text in deck order", () => {
+    const markdown = "# One\n\nSame txt\n\n---\n\n# Two\n\nSame txt\n";
+    const slides = parseMarkdown(markdown);
+    const message = edit(1, 1, "Same txt", "Same text");
+    message.slideId = slides[1].id;
+    expect(applyEdit(markdown, message)).toBe(
+      "# One\n\nSame txt\n\n---\n\n# Two\n\nSame text\n",
+    );
+  });
+
+  it("skips text in speaker notes", () => {
+    const markdown =
+      "# One\n\n:::notes\n\nSay Hello world\n\n:::\n\n---\n\n# Two\n\nSay Hello world\n";
+    expect(
+      applyEdit(markdown, edit(1, 1, "Say Hello world", "Say Hi world")),
+    ).toBe(
+      "# One\n\n:::notes\n\nSay Hello world\n\n:::\n\n---\n\n# Two\n\nSay Hi world\n",
+    );
+  });
+
+  it("skips text in columns and slide frontmatter", () => {
+    const markdown = [
+      ":::columns",
+      ":::column",
+      "Same txt",
+      ":::column",
+      "Other",
+      ":::",
+      "",
+      "---",
+      "align: center",
+      "---",
+      "",
+      "Same txt",
+      "",
+    ].join("\n");
+    expect(applyEdit(markdown, edit(1, 0, "Same txt", "Same text"))).toBe(
+      markdown.replace(/Same txt\n$/, "Same text\n"),
+    );
+  });
+
+  it("counts build steps once", () => {
+    const markdown = [
+      "# Steps",
+      "",
+      "Repeat",
+      "",
+      "<!-- pause -->",
+      "",
+      "Repeat",
+      "",
+      "---",
+      "",
+      "Repeat",
+      "",
+    ].join("\n");
+    const slides = parseMarkdown(markdown);
+    expect(slides).toHaveLength(3);
+    expect(applyEdit(markdown, edit(2, 0, "Repeat", "Repeated"))).toBe(
+      markdown.replace(/Repeat\n$/, "Repeated\n"),
+    );
+  });
+
+  it("patches changed bullet items", () => {
+    const markdown = "# List\n\n- frist\n- second\n- thrid\n";
+    expect(
+      applyEdit(
+        markdown,
+        edit(0, 1, "frist\nsecond\nthrid", "first\nsecond\nthird"),
+      ),
+    ).toBe("# List\n\n- first\n- second\n- third\n");
+  });
+
+  it("strips number prefixes of ordered lists not starting at 1", () => {
+    const markdown = "3. alpah\n4. beta\n";
+    expect(
+      applyEdit(markdown, edit(0, 0, "3. alpah\n4. beta", "3. alpha\n4. beta")),
+    ).toBe("3. alpha\n4. beta\n");
+  });
+
+  it("escapes Markdown syntax in typed text", () => {
+    const markdown = "Price\n";
+    expect(applyEdit(markdown, edit(0, 0, "Price", "Price *now*"))).toBe(
+      "Price \\*now\\*\n",
+    );
+  });
+
+  it("rejects edits inside inline code", () => {
+    const markdown = "Run `npm tset` now\n";
+    const slides = parseMarkdown(markdown);
+    const result = resolveTextEdit(
+      markdown,
+      slides,
+      edit(0, 0, "Run npm tset now", "Run npm test now"),
+    );
+    expect(result.ok).toBe(false);
+  });
+
+  it("rejects edits that add list items", () => {
+    const markdown = "- one\n- two\n";
+    const slides = parseMarkdown(markdown);
+    const result = resolveTextEdit(
+      markdown,
+      slides,
+      edit(0, 0, "one\ntwo", "one\ntwo\nthree"),
+    );
+    expect(result).toEqual({
+      ok: false,
+      reason: "adding or removing list items in Figma is not supported",
+    });
+  });
+
+  it("rejects edits whose old text does not match the slides", () => {
+    const markdown = "Hello\n";
+    const slides = parseMarkdown(markdown);
+    const result = resolveTextEdit(
+      markdown,
+      slides,
+      edit(0, 0, "Goodbye", "Good bye"),
+    );
+    expect(result).toEqual({
+      ok: false,
+      reason: "the edit does not match the sent slides",
+    });
+  });
+
+  it("rejects edits when the source text changed since", () => {
+    const slides = parseMarkdown("Hello wrold\n");
+    const result = resolveTextEdit(
+      "Hello there\n",
+      slides,
+      edit(0, 0, "Hello wrold", "Hello world"),
+    );
+    expect(result.ok).toBe(false);
+  });
+
+  it("rejects blocks that are not plain text", () => {
+    const markdown = "```ts\nconst a = 1;\n```\n";
+    const slides = parseMarkdown(markdown);
+    const result = resolveTextEdit(markdown, slides, edit(0, 0, "a", "b"));
+    expect(result).toEqual({
+      ok: false,
+      reason: "code blocks cannot be synced back to Markdown",
+    });
+  });
+});
+
+describe("resolveTextEdit with includes", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "figdeck-edit-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("patches the included file an edited slide came from", () => {
+    const deck =
+      "## Intro\n\nHello world\n\n---\n\n<!-- include: ./part.md -->\n\n---\n\n## Outro\n\nHello world\n";
+    const part = "## Part\n\nHello world\n";
+    const deckPath = join(dir, "deck.md");
+    const partPath = join(dir, "part.md");
+    writeFileSync(deckPath, deck);
+    writeFileSync(partPath, part);
+
+    const slides = parseMarkdown(deck, { basePath: dir, filePath: deckPath });
+    const message = edit(1, 1, "Hello world", "Hello there");
+
+    expect(getEditSourcePath(slides, message)).toBe(partPath);
+    const result = resolveTextEdit(part, slides, message);
+    if (!result.ok) throw new Error(result.reason);
+    expect(applySourceEdits(part, result.edits)).toBe(
+      "## Part\n\nHello there\n",
+    );
+
+    // The entry file's second occurrence still maps to the Outro slide
+    const outro = edit(2, 1, "Hello world", "Hello again");
+    expect(getEditSourcePath(slides, outro)).toBe(deckPath);
+    const outroResult = resolveTextEdit(deck, slides, outro);
+    if (!outroResult.ok) throw new Error(outroResult.reason);
+    expect(applySourceEdits(deck, outroResult.edits)).toEndWith(
+      "## Outro\n\nHello again\n",
+    );
+  });
+});
+
+describe("escapeMarkdownText", () => {
+  it("escapes inline syntax characters", () => {
+    expect(escapeMarkdownText("a_b [c] `d`")).toBe("a\\_b \\[c\\] \\`d\\`");
+  });
+});
+
+describe("formatUnifiedDiff", () => {
+  it("prints one hunk with context", () => {
+    const before = ["a", "b", "c", "d", "e", "f", "g", "h"].join("\n");
+    const after = before.replace("e", "E");
+    expect(formatUnifiedDiff("slides.md", before, after)).toBe(
+      [
+        "--- a/slides.md",
+        "+++ b/slides.md",
+        "@@ -2,7 +2,7 @@",
+        " b",
+        " c",
+        " d",
+        "-e",
+        "+E",
+        " f",
+        " g",
+        " h",
+      ].join("\n"),
+    );
+  });
+
+  it("does not treat the final newline as a line", () => {
+    expect(formatUnifiedDiff("slides.md", "# Tilte\n", "# Title\n")).toBe(
+      [
+        "--- a/slides.md",
+        "+++ b/slides.md",
+        "@@ -1,1 +1,1 @@",
+        "-# Tilte",
+        "+# Title",
+      ].join("\n"),
+    );
+  });
+
+  it("returns an empty string without changes", () => {
+    expect(formatUnifiedDiff("slides.md", "same", "same")).toBe("");
+  });
+});
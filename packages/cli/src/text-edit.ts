@@ -0,0 +1,465 @@
+import type {
+  EditMessage,
+  SlideBlock,
+  SlideContent,
+  TextSpan,
+} from "@figdeck/shared";
+import type { List, Paragraph, PhrasingContent, RootContent } from "mdast";
+import { getSlideSource, parseMarkdownTree } from "./markdown.js";
+import { extractBulletItems, extractSpans, spansToText } from "./spans.js";
+
+// Lines of context around each change in a unified diff
+const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Replacement of `markdown.slice(start, end)` with `text`
+ */
+export interface SourceEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export type TextEditResult =
+  | { ok: true; edits: SourceEdit[] }
+  | { ok: false; reason: string };
+
+/**
+ * Part of a block's rendered text and where it came from in the source.
+ * `source` is null when the rendered text differs from the source text
+ * (inline code, math, escapes), so edits there cannot be mapped back.
+ */
+interface TextSegment {
+  start: number;
+  length: number;
+  source: number | null;
+}
+
+/**
+ * Text of a heading or paragraph as the plugin renders it
+ */
+function renderedText(spans: TextSpan[] | undefined, text: string): string {
+  return spans && spans.length > 0 ? spansToText(spans) : text;
+}
+
+type BulletsBlock = Extract<SlideBlock, { kind: "bullets" }>;
+
+function bulletTexts(block: BulletsBlock): string[] {
+  return block.items.map((item) =>
+    typeof item === "string" ? item : item.text,
+  );
+}
+
+/**
+ * Number prefix the plugin adds to items of ordered lists not starting at 1
+ */
+function bulletPrefix(block: BulletsBlock, index: number): string {
+  const start = block.start ?? 1;
+  return block.ordered === true && start !== 1 ? `${start + index}. ` : "";
+}
+
+/**
+ * Key identifying blocks that render the same text
+ */
+function blockKey(block: SlideBlock): string | null {
+  switch (block.kind) {
+    case "heading":
+    case "paragraph":
+      return `text:${renderedText(block.spans, block.text)}`;
+    case "bullets":
+      return `bullets:${bulletTexts(block).join("\n")}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Key of a top-level mdast node, matching `blockKey` of the block it becomes
+ */
+function nodeKey(node: RootContent): string | null {
+  switch (node.type) {
+    case "heading":
+    case "paragraph": {
+      const spans = extractSpans(node.children as PhrasingContent[]);
+      return `text:${spansToText(spans)}`;
+    }
+    case "list":
+      return `bullets:${extractBulletItems(node as List)
+        .map((item) => item.text)
+        .join("\n")}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether a slide is the last (or only) step of its logical slide
+ */
+function isFinalStep(slide: SlideContent): boolean {
+  return !slide.build || slide.build.step === slide.build.total;
+}
+
+/**
+ * Split rendered text into segments, following how `extractSpans` turns
+ * inline nodes into text
+ */
+function collectSegments(
+  nodes: PhrasingContent[],
+  markdown: string,
+  segments: TextSegment[],
+  offset: number,
+): number {
+  let position = offset;
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text": {
+        const start = node.position?.start.offset;
+        const end = node.position?.end.offset;
+        const source =
+          start !== undefined &&
+          end !== undefined &&
+          markdown.slice(start, end) === node.value
+            ? start
+            : null;
+        segments.push({ start: position, length: node.value.length, source });
+        position += node.value.length;
+        break;
+      }
+      case "strong":
+      case "emphasis":
+      case "delete":
+      case "link":
+        position = collectSegments(
+          node.children as PhrasingContent[],
+          markdown,
+          segments,
+          position,
+        );
+        break;
+      default: {
+        const length = spansToText(extractSpans([node])).length;
+        segments.push({ start: position, length, source: null });
+        position += length;
+        break;
+      }
+    }
+  }
+  return position;
+}
+
+/**
+ * Escape characters that would turn typed text into Markdown syntax
+ */
+export function escapeMarkdownText(text: string): string {
+  return text.replace(/[\\`*_[\]<~$]/g, "\\$&");
+}
+
+/**
+ * Map a change from `oldText` to `newText` inside one paragraph or heading
+ * to a source edit. Only the changed middle part is replaced, so formatting
+ * around it is kept. Returns null when the change touches text that does not
+ * appear verbatim in the source.
+ */
+function mapTextChange(
+  nodes: PhrasingContent[],
+  markdown: string,
+  oldText: string,
+  newText: string,
+): SourceEdit | null {
+  let prefix = 0;
+  const maxPrefix = Math.min(oldText.length, newText.length);
+  while (prefix < maxPrefix && oldText[prefix] === newText[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (
+    suffix < maxSuffix &&
+    oldText[oldText.length - 1 - suffix] ===
+      newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const from = prefix;
+  const to = oldText.length - suffix;
+  const inserted = newText.slice(prefix, newText.length - suffix);
+
+  const segments: TextSegment[] = [];
+  collectSegments(nodes, markdown, segments, 0);
+
+  for (const segment of segments) {
+    if (segment.source === null) continue;
+    const start = from - segment.start;
+    const end = to - segment.start;
+    if (start >= 0 && end <= segment.length) {
+      return {
+        start: segment.source + start,
+        end: segment.source + end,
+        text: escapeMarkdownText(inserted),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Index of the edited slide, by id when the plugin sent one
+ */
+function findEditedSlideIndex(
+  slides: SlideContent[],
+  edit: EditMessage,
+): number {
+  const index =
+    edit.slideId !== undefined
+      ? slides.findIndex((slide) => slide.id === edit.slideId)
+      : -1;
+  return index === -1 ? edit.slideIndex : index;
+}
+
+/**
+ * Path of the file the edited slide was parsed from, or undefined when it
+ * is unknown (the entry file)
+ */
+export function getEditSourcePath(
+  slides: SlideContent[],
+  edit: EditMessage,
+): string | undefined {
+  const slide = slides[findEditedSlideIndex(slides, edit)];
+  return slide ? getSlideSource(slide)?.path : undefined;
+}
+
+/**
+ * Map a text edit made in Figma back to the Markdown source.
+ *
+ * `markdown` is the file the edited slide was parsed from (see
+ * `getEditSourcePath`). The edited block is looked up in the slides the
+ * plugin rendered, then matched to a heading, paragraph or list in that file
+ * by its text. Only blocks on the lines the edited slide was parsed from
+ * count, so text inside directive blocks or frontmatter is never matched.
+ * When the slide renders several blocks with the same text, their order
+ * decides; the edit is refused when the source has a different number.
+ */
+export function resolveTextEdit(
+  markdown: string,
+  slides: SlideContent[],
+  edit: EditMessage,
+): TextEditResult {
+  const slideIndex = findEditedSlideIndex(slides, edit);
+  const rendered = slides[slideIndex]?.blocks[edit.blockIndex];
+  if (!rendered) {
+    return { ok: false, reason: "the edited block no longer exists" };
+  }
+
+  // Build steps repeat blocks; count each logical slide once via its last step
+  let finalIndex = slideIndex;
+  while (finalIndex < slides.length - 1 && !isFinalStep(slides[finalIndex])) {
+    finalIndex++;
+  }
+  const block = slides[finalIndex].blocks[edit.blockIndex] ?? rendered;
+
+  const key = blockKey(block);
+  if (key === null) {
+    return {
+      ok: false,
+      reason: `${block.kind} blocks cannot be synced back to Markdown`,
+    };
+  }
+
+  const source = getSlideSource(slides[finalIndex]);
+  if (source?.line === undefined) {
+    return {
+      ok: false,
+      reason: "the edited slide could not be located in the Markdown file",
+    };
+  }
+
+  // Which occurrence of this text in the slide was edited. Split parts and
+  // build steps share the source of their slide.
+  let occurrence = 0;
+  let count = 0;
+  for (let i = 0; i < slides.length; i++) {
+    if (!isFinalStep(slides[i]) || getSlideSource(slides[i]) !== source) {
+      continue;
+    }
+    slides[i].blocks.forEach((other, blockIndex) => {
+      if (blockKey(other) !== key) return;
+      if (
+        i < finalIndex ||
+        (i === finalIndex && blockIndex < edit.blockIndex)
+      ) {
+        occurrence++;
+      }
+      count++;
+    });
+  }
+
+  // Lines of the slide body where the text starts. Directive blocks and
+  // notes are placeholders there, so text inside them is left out.
+  const lines = new Set<number>();
+  for (const node of parseMarkdownTree(source.body).children) {
+    if (node.position && nodeKey(node) === key) {
+      lines.add(source.line + node.position.start.line - 1);
+    }
+  }
+  const candidates = parseMarkdownTree(markdown).children.filter(
+    (node) =>
+      node.position !== undefined &&
+      lines.has(node.position.start.line - 1) &&
+      nodeKey(node) === key,
+  );
+  const node = candidates[occurrence];
+  if (!node || candidates.length !== count) {
+    return {
+      ok: false,
+      reason: "the edited text was not found in the Markdown file",
+    };
+  }
+
+  const failure = {
+    ok: false as const,
+    reason:
+      "the edit touches formatted or generated text; apply it in the Markdown file",
+  };
+
+  if (
+    (rendered.kind === "heading" || rendered.kind === "paragraph") &&
+    (node.type === "heading" || node.type === "paragraph")
+  ) {
+    if (edit.oldText !== renderedText(rendered.spans, rendered.text)) {
+      return { ok: false, reason: "the edit does not match the sent slides" };
+    }
+    const sourceEdit = mapTextChange(
+      node.children as PhrasingContent[],
+      markdown,
+      edit.oldText,
+      edit.newText,
+    );
+    return sourceEdit ? { ok: true, edits: [sourceEdit] } : failure;
+  }
+
+  if (rendered.kind === "bullets" && node.type === "list") {
+    const expected = bulletTexts(rendered).map(
+      (text, i) => bulletPrefix(rendered, i) + text,
+    );
+    if (edit.oldText !== expected.join("\n")) {
+      return { ok: false, reason: "the edit does not match the sent slides" };
+    }
+    const newLines = edit.newText.split("\n");
+    if (newLines.length !== expected.length) {
+      return {
+        ok: false,
+        reason: "adding or removing list items in Figma is not supported",
+      };
+    }
+
+    const edits: SourceEdit[] = [];
+    for (let i = 0; i < expected.length; i++) {
+      if (newLines[i] === expected[i]) continue;
+      const prefix = bulletPrefix(rendered, i);
+      const item = node.children[i];
+      const paragraph = item?.children[0];
+      if (
+        !newLines[i].startsWith(prefix) ||
+        item.children.length !== 1 ||
+        paragraph?.type !== "paragraph"
+      ) {
+        return failure;
+      }
+      const sourceEdit = mapTextChange(
+        (paragraph as Paragraph).children,
+        markdown,
+        expected[i].slice(prefix.length),
+        newLines[i].slice(prefix.length),
+      );
+      if (!sourceEdit) return failure;
+      edits.push(sourceEdit);
+    }
+    return { ok: true, edits };
+  }
+
+  return failure;
+}
+
+/**
+ * Apply non-overlapping source edits
+ */
+export function applySourceEdits(
+  markdown: string,
+  edits: SourceEdit[],
+): string {
+  let result = markdown;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+/**
+ * Split text into lines, without the empty entry after a final newline
+ */
+function splitLines(text: string): string[] {
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Unified diff of a file before and after an edit, with one hunk covering
+ * all changed lines
+ */
+export function formatUnifiedDiff(
+  file: string,
+  before: string,
+  after: string,
+): string {
+  const oldLines = splitLines(before);
+  const newLines = splitLines(after);
+
+  let head = 0;
+  while (
+    head < oldLines.length &&
+    head < newLines.length &&
+    oldLines[head] === newLines[head]
+  ) {
+    head++;
+  }
+  if (head === oldLines.length && head === newLines.length) return "";
+
+  let tail = 0;
+  while (
+    tail < oldLines.length - head &&
+    tail < newLines.length - head &&
+    oldLines[oldLines.length - 1 - tail] ===
+      newLines[newLines.length - 1 - tail]
+  ) {
+    tail++;
+  }
+
+  const start = Math.max(0, head - DIFF_CONTEXT_LINES);
+  const oldEnd = Math.min(
+    oldLines.length,
+    oldLines.length - tail + DIFF_CONTEXT_LINES,
+  );
+  const newEnd = Math.min(
+    newLines.length,
+    newLines.length - tail + DIFF_CONTEXT_LINES,
+  );
+
+  const lines = [
+    `--- a/${file}`,
+    `+++ b/${file}`,
+    `@@ -${start + 1},${oldEnd - start} +${start + 1},${newEnd - start} @@`,
+  ];
+  for (let i = start; i < head; i++) lines.push(` ${oldLines[i]}`);
+  for (let i = head; i < oldLines.length - tail; i++) {
+    lines.push(`-${oldLines[i]}`);
+  }
+  for (let i = head; i < newLines.length - tail; i++) {
+    lines.push(`+${newLines[i]}`);
+  }
+  for (let i = oldLines.length - tail; i < oldEnd; i++) {
+    lines.push(` ${oldLines[i]}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadTheme, resolveThemePath } from "./theme";
+
+describe("resolveThemePath", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "figdeck-theme-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("resolves relative paths against the base path", () => {
+    writeFileSync(join(dir, "theme.yaml"), "align: center");
+    expect(resolveThemePath("./theme.yaml", dir)).toBe(join(dir, "theme.yaml"));
+    expect(resolveThemePath("./missing.yaml", dir)).toBeNull();
+  });
+
+  it("resolves package entries and files inside packages", () => {
+    const pkg = join(dir, "node_modules", "deck-theme");
+    mkdirSync(join(pkg, "themes"), { recursive: true });
+    writeFileSync(
+      join(pkg, "package.json"),
+      JSON.stringify({ name: "deck-theme", main: "theme.yaml" }),
+    );
+    writeFileSync(join(pkg, "theme.yaml"), "align: center");
+    writeFileSync(join(pkg, "themes", "dark.yaml"), "align: left");
+
+    expect(resolveThemePath("deck-theme", dir)).toBe(join(pkg, "theme.yaml"));
+    expect(resolveThemePath("deck-theme/themes/dark.yaml", dir)).toBe(
+      join(pkg, "themes", "dark.yaml"),
+    );
+    expect(resolveThemePath("missing-theme", dir)).toBeNull();
+  });
+});
+
+describe("loadTheme", () => {
+  let dir: string;
+  let warnSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "figdeck-theme-"));
+    warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("loads JSON themes", () => {
+    writeFileSync(join(dir, "theme.json"), '{ "valign": "middle" }');
+    expect(loadTheme("./theme.json", dir)).toEqual({
+      path: join(dir, "theme.json"),
+      config: { valign: "middle" },
+    });
+  });
+
+  it("drops keys a theme cannot set", () => {
+    writeFileSync(
+      join(dir, "theme.yaml"),
+      "theme: ./other.yaml\ncover: false\nalign: right",
+    );
+    expect(loadTheme("./theme.yaml", dir)?.config).toEqual({ align: "right" });
+    expect(warnSpy).toHaveBeenCalledWith(
+      `[figdeck] Ignoring "theme" in theme ${join(dir, "theme.yaml")}`,
+    );
+  });
+
+  it("rejects unsupported and invalid files", () => {
+    writeFileSync(join(dir, "theme.css"), "h1 {}");
+    writeFileSync(join(dir, "list.yaml"), "- a\n- b");
+    expect(loadTheme("./theme.css", dir)).toBeNull();
+    expect(loadTheme("./list.yaml", dir)).toBeNull();
+    expect(warnSpy).toHaveBeenCalledWith(
+      `[figdeck] Invalid theme ${join(dir, "list.yaml")}: expected an object`,
+    );
+  });
+});
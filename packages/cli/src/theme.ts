@@ -0,0 +1,100 @@
+import { existsSync, readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { extname, isAbsolute, join, resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
+import type { SlideConfig } from "./config.js";
+
+/**
+ * A theme file loaded for a deck
+ */
+export interface LoadedTheme {
+  /** Absolute path of the theme file */
+  path: string;
+  /** Frontmatter-shaped theme settings */
+  config: SlideConfig;
+}
+
+/**
+ * Check whether a theme reference is a file path rather than a package
+ */
+function isThemeFilePath(spec: string): boolean {
+  return (
+    spec.startsWith("./") ||
+    spec.startsWith("../") ||
+    spec === "." ||
+    isAbsolute(spec)
+  );
+}
+
+/**
+ * Resolve a `theme:` value to the theme file path.
+ * Paths starting with `./`, `../` or `/` resolve against `basePath`; anything
+ * else is a package (or a file inside one) resolved from `basePath` the way
+ * Node.js resolves `require()`, using the package's `main` / `exports` entry.
+ * Returns null if the theme cannot be found.
+ */
+export function resolveThemePath(
+  spec: string,
+  basePath: string | undefined,
+): string | null {
+  const base = resolve(basePath ?? ".");
+  if (isThemeFilePath(spec)) {
+    const path = resolve(base, spec);
+    return existsSync(path) ? path : null;
+  }
+  try {
+    return createRequire(join(base, "package.json")).resolve(spec);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load a theme referenced by the `theme:` frontmatter key.
+ * Themes are YAML or JSON files with the same keys as the global frontmatter.
+ * Returns null (with a warning) if the theme is missing or invalid.
+ */
+export function loadTheme(
+  spec: string,
+  basePath: string | undefined,
+): LoadedTheme | null {
+  const path = resolveThemePath(spec, basePath);
+  if (!path) {
+    console.warn(`[figdeck] Theme not found: ${spec}`);
+    return null;
+  }
+
+  const ext = extname(path).toLowerCase();
+  if (ext !== ".yaml" && ext !== ".yml" && ext !== ".json") {
+    console.warn(
+      `[figdeck] Unsupported theme file: ${path} (use .yaml, .yml or .json)`,
+    );
+    return null;
+  }
+
+  let config: unknown;
+  try {
+    const source = readFileSync(path, "utf-8");
+    config = ext === ".json" ? JSON.parse(source) : parseYaml(source);
+  } catch (error) {
+    console.warn(
+      `[figdeck] Could not read theme ${path}: ${(error as Error).message}`,
+    );
+    return null;
+  }
+
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    console.warn(`[figdeck] Invalid theme ${path}: expected an object`);
+    return null;
+  }
+
+  // Themes cannot chain other themes or decide whether a deck has a cover
+  const settings = { ...config } as SlideConfig;
+  for (const key of ["theme", "cover"] as const) {
+    if (settings[key] !== undefined) {
+      console.warn(`[figdeck] Ignoring "${key}" in theme ${path}`);
+      delete settings[key];
+    }
+  }
+  return { path, config: settings };
+}
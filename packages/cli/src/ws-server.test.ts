@@ -1,6 +1,19 @@
 import { describe, expect, it } from "bun:test";
-import { PROTOCOL_VERSION } from "@figdeck/shared";
-import { generateSecret, isLoopbackHost } from "./ws-server";
+import {
+  type EditMessage,
+  PROTOCOL_VERSION,
+  type SlideContent,
+} from "@figdeck/shared";
+import {
+  createSyncMessage,
+  formatColorVariableWarning,
+  formatOverflowWarning,
+  generateSecret,
+  isLoopbackHost,
+  parseColorVariablesMessage,
+  parseEditMessage,
+  parseOverflowMessage,
+} from "./ws-server";
 
 describe("isLoopbackHost", () => {
   describe("loopback addresses", () => {
@@ -60,3 +73,223 @@ describe("PROTOCOL_VERSION", () => {
     expect(PROTOCOL_VERSION).toMatch(/^\d+$/);
   });
 });
+
+describe("createSyncMessage", () => {
+  const slideA: SlideContent = {
+    id: "a",
+    blocks: [{ kind: "paragraph", text: "A" }],
+  };
+  const slideB: SlideContent = {
+    id: "b",
+    blocks: [{ kind: "paragraph", text: "B" }],
+  };
+
+  it("should send a full sync without an acknowledged revision", () => {
+    const message = createSyncMessage([slideA], 3, undefined);
+
+    expect(message).toEqual({
+      type: "generate-slides",
+      slides: [slideA],
+      revision: 3,
+    });
+  });
+
+  it("should send a patch against the acknowledged revision", () => {
+    const edited: SlideContent = {
+      id: "a",
+      blocks: [{ kind: "paragraph", text: "A2" }],
+    };
+    const message = createSyncMessage([slideB, edited], 5, {
+      revision: 4,
+      slides: [slideA],
+    });
+
+    expect(message).toEqual({
+      type: "patch-slides",
+      baseRevision: 4,
+      revision: 5,
+      order: ["b", "a"],
+      added: [slideB],
+      changed: [edited],
+      removed: [],
+    });
+  });
+
+  it("should return null when nothing changed", () => {
+    const message = createSyncMessage([slideA], 2, {
+      revision: 1,
+      slides: [slideA],
+    });
+
+    expect(message).toBeNull();
+  });
+
+  it("should patch back to the acknowledged slides after a revert", () => {
+    // Revision 2 (B) was sent but not acknowledged; revision 3 reverts to A
+    const message = createSyncMessage(
+      [slideA],
+      3,
+      { revision: 1, slides: [slideA] },
+      { revision: 2, slides: [slideB] },
+    );
+
+    expect(message).toEqual({
+      type: "patch-slides",
+      baseRevision: 1,
+      revision: 3,
+      order: ["a"],
+      added: [],
+      changed: [],
+      removed: [],
+    });
+  });
+
+  it("should return null when the sent revision is up to date", () => {
+    const message = createSyncMessage(
+      [slideB],
+      3,
+      { revision: 1, slides: [slideA] },
+      { revision: 2, slides: [slideB] },
+    );
+
+    expect(message).toBeNull();
+  });
+
+  it("should fall back to a full sync when slides cannot be diffed", () => {
+    const message = createSyncMessage([{ blocks: [] }], 2, {
+      revision: 1,
+      slides: [slideA],
+    });
+
+    expect(message?.type).toBe("generate-slides");
+  });
+});
+
+describe("parseEditMessage", () => {
+  const message = {
+    type: "edit",
+    revision: 3,
+    slideId: "h-abc",
+    slideIndex: 1,
+    blockIndex: 2,
+    oldText: "Teh",
+    newText: "The",
+  };
+
+  it("should accept a valid edit message", () => {
+    expect(parseEditMessage(message)).toEqual(message as EditMessage);
+  });
+
+  it("should default a missing revision to null", () => {
+    const { revision: _revision, ...rest } = message;
+    expect(parseEditMessage(rest)?.revision).toBeNull();
+  });
+
+  it("should reject invalid fields", () => {
+    expect(parseEditMessage({ ...message, blockIndex: -1 })).toBeNull();
+    expect(parseEditMessage({ ...message, slideIndex: "1" })).toBeNull();
+    expect(parseEditMessage({ ...message, newText: 42 })).toBeNull();
+    expect(parseEditMessage(null)).toBeNull();
+  });
+});
+
+describe("parseOverflowMessage", () => {
+  it("should keep valid entries and drop invalid ones", () => {
+    expect(
+      parseOverflowMessage({
+        type: "overflow",
+        revision: 2,
+        slides: [
+          { slideIndex: 1, slideId: "agenda", overflow: 120, scale: 0.6 },
+          { slideIndex: -1, overflow: 10 },
+          { slideIndex: 2 },
+        ],
+      }),
+    ).toEqual({
+      type: "overflow",
+      revision: 2,
+      slides: [{ slideIndex: 1, slideId: "agenda", overflow: 120, scale: 0.6 }],
+    });
+  });
+
+  it("should reject other messages", () => {
+    expect(parseOverflowMessage({ type: "overflow" })).toBeNull();
+    expect(parseOverflowMessage({ type: "edit", slides: [] })).toBeNull();
+  });
+});
+
+describe("formatOverflowWarning", () => {
+  const slides: SlideContent[] = [
+    { blocks: [{ kind: "paragraph", text: "Intro" }] },
+    { blocks: [{ kind: "heading", level: 2, text: "Agenda" }] },
+  ];
+
+  it("should name the slide by its heading", () => {
+    expect(
+      formatOverflowWarning({ slideIndex: 1, overflow: 120.4 }, slides),
+    ).toBe('[figdeck] Slide 2 "Agenda" overflows by 120px');
+  });
+
+  it("should mention the applied text scale", () => {
+    expect(
+      formatOverflowWarning(
+        { slideIndex: 0, overflow: 40, scale: 0.6 },
+        slides,
+      ),
+    ).toBe("[figdeck] Slide 1 overflows by 40px after shrinking text to 60%");
+  });
+});
+
+describe("parseColorVariablesMessage", () => {
+  it("should keep valid entries and drop invalid ones", () => {
+    expect(
+      parseColorVariablesMessage({
+        type: "variables",
+        revision: 3,
+        variables: [
+          { name: "Brand/Primary", status: "bound" },
+          { name: "Brand/Accent", status: "fallback", fallback: "#ff0000" },
+          { name: "Brand/Other", status: "unknown" },
+          { status: "missing" },
+        ],
+      }),
+    ).toEqual({
+      type: "variables",
+      revision: 3,
+      variables: [
+        { name: "Brand/Primary", status: "bound" },
+        { name: "Brand/Accent", status: "fallback", fallback: "#ff0000" },
+      ],
+    });
+  });
+
+  it("should reject other messages", () => {
+    expect(parseColorVariablesMessage({ type: "variables" })).toBeNull();
+    expect(
+      parseColorVariablesMessage({ type: "overflow", variables: [] }),
+    ).toBeNull();
+  });
+});
+
+describe("formatColorVariableWarning", () => {
+  it("should describe missing variables and their fallback", () => {
+    expect(
+      formatColorVariableWarning({
+        name: "Brand/Accent",
+        status: "fallback",
+        fallback: "#ff0000",
+      }),
+    ).toBe(
+      '[figdeck] Color variable "Brand/Accent" not found in Figma; using fallback #ff0000',
+    );
+    expect(
+      formatColorVariableWarning({ name: "Brand/Other", status: "missing" }),
+    ).toContain("has no fallback");
+  });
+
+  it("should stay quiet for bound variables", () => {
+    expect(
+      formatColorVariableWarning({ name: "Brand/Primary", status: "bound" }),
+    ).toBeNull();
+  });
+});
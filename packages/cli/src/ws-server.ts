@@ -1,20 +1,42 @@
 import { randomBytes } from "node:crypto";
 import {
+  type ColorVariableResolution,
+  type ColorVariablesMessage,
+  type EditMessage,
   type GenerateSlidesMessage,
   type HelloMessage,
+  type OverflowMessage,
+  type PatchSlidesMessage,
   PROTOCOL_VERSION,
   type SlideContent,
+  type SlideOverflow,
 } from "@figdeck/shared";
 import { type WebSocket, WebSocketServer } from "ws";
+import { diffSlides, isEmptyDiff } from "./slide-diff.js";
 
 const MAX_PAYLOAD_BYTES = 10 * 1024 * 1024; // 10 MB
 const AUTH_TIMEOUT_MS = 5000;
+// Number of recent revisions kept so plugin acknowledgements can be resolved
+const MAX_REVISION_HISTORY = 20;
+// Longest text accepted in an edit message from the plugin
+const MAX_EDIT_TEXT_LENGTH = 100000;
+
+/**
+ * A revision sent to or acknowledged by a client, with the slides it was
+ * built from
+ */
+export interface ClientRevision {
+  revision: number;
+  slides: SlideContent[];
+}
 
 export interface WsServerOptions {
   host: string;
   port: number;
   secret?: string; // If provided, require auth handshake
   cliVersion: string; // CLI package version for compatibility checking
+  /** Called with text edits made in Figma and the slides they were made on */
+  onEdit?: (edit: EditMessage, slides: SlideContent[]) => void;
 }
 
 export interface WsServerInstance {
@@ -31,12 +53,184 @@ export function isLoopbackHost(host: string): boolean {
   return host === "127.0.0.1" || host === "::1" || host === "localhost";
 }
 
+/**
+ * Build the message that brings a client from its acknowledged revision to
+ * the latest one. Falls back to a full `generate-slides` when there is no
+ * acknowledged revision or the slides cannot be diffed.
+ * Returns null when the last revision sent to the client (by default the
+ * acknowledged one) already has the latest slides. A revision sent but not
+ * yet acknowledged does not count as up to date otherwise, so reverting to
+ * the acknowledged slides still sends a (possibly empty) patch.
+ */
+export function createSyncMessage(
+  slides: SlideContent[],
+  revision: number,
+  acked: ClientRevision | undefined,
+  sent: ClientRevision | undefined = acked,
+): GenerateSlidesMessage | PatchSlidesMessage | null {
+  const sentDiff = sent ? diffSlides(sent.slides, slides) : null;
+  if (sentDiff && isEmptyDiff(sentDiff)) {
+    return null;
+  }
+  const diff = acked ? diffSlides(acked.slides, slides) : null;
+  if (!acked || !diff) {
+    return { type: "generate-slides", slides, revision };
+  }
+  return {
+    type: "patch-slides",
+    baseRevision: acked.revision,
+    revision,
+    order: diff.order,
+    added: diff.added,
+    changed: diff.changed,
+    removed: diff.removed,
+  };
+}
+
+function isIndex(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function isEditText(value: unknown): value is string {
+  return typeof value === "string" && value.length <= MAX_EDIT_TEXT_LENGTH;
+}
+
+/**
+ * Validate an `edit` message from the plugin.
+ * Returns null when a field is missing or has the wrong type.
+ */
+export function parseEditMessage(value: unknown): EditMessage | null {
+  if (typeof value !== "object" || value === null) return null;
+  const message = value as Record<string, unknown>;
+  if (
+    message.type !== "edit" ||
+    !isIndex(message.slideIndex) ||
+    !isIndex(message.blockIndex) ||
+    !isEditText(message.oldText) ||
+    !isEditText(message.newText)
+  ) {
+    return null;
+  }
+  return {
+    type: "edit",
+    revision: typeof message.revision === "number" ? message.revision : null,
+    slideId: typeof message.slideId === "string" ? message.slideId : undefined,
+    slideIndex: message.slideIndex,
+    blockIndex: message.blockIndex,
+    oldText: message.oldText,
+    newText: message.newText,
+  };
+}
+
+/**
+ * Validate an `overflow` message from the plugin.
+ * Entries with missing or invalid fields are dropped.
+ */
+export function parseOverflowMessage(value: unknown): OverflowMessage | null {
+  if (typeof value !== "object" || value === null) return null;
+  const message = value as Record<string, unknown>;
+  if (message.type !== "overflow" || !Array.isArray(message.slides)) {
+    return null;
+  }
+  const slides: SlideOverflow[] = [];
+  for (const entry of message.slides as unknown[]) {
+    if (typeof entry !== "object" || entry === null) continue;
+    const { slideIndex, slideId, overflow, scale } = entry as Record<
+      string,
+      unknown
+    >;
+    if (!isIndex(slideIndex) || typeof overflow !== "number") continue;
+    const slide: SlideOverflow = { slideIndex, overflow };
+    if (typeof slideId === "string") slide.slideId = slideId;
+    if (typeof scale === "number") slide.scale = scale;
+    slides.push(slide);
+  }
+  return {
+    type: "overflow",
+    revision: typeof message.revision === "number" ? message.revision : null,
+    slides,
+  };
+}
+
+/**
+ * Describe an overflowing slide, naming it by its first heading
+ */
+export function formatOverflowWarning(
+  overflow: SlideOverflow,
+  slides: SlideContent[],
+): string {
+  const heading = slides[overflow.slideIndex]?.blocks.find(
+    (block) => block.kind === "heading",
+  );
+  const title = heading?.kind === "heading" ? ` "${heading.text}"` : "";
+  const shrunk =
+    overflow.scale !== undefined
+      ? ` after shrinking text to ${Math.round(overflow.scale * 100)}%`
+      : "";
+  return `[figdeck] Slide ${overflow.slideIndex + 1}${title} overflows by ${Math.round(overflow.overflow)}px${shrunk}`;
+}
+
+const COLOR_VARIABLE_STATUSES = ["bound", "fallback", "missing"];
+
+/**
+ * Validate a `variables` message from the plugin.
+ * Entries with missing or invalid fields are dropped.
+ */
+export function parseColorVariablesMessage(
+  value: unknown,
+): ColorVariablesMessage | null {
+  if (typeof value !== "object" || value === null) return null;
+  const message = value as Record<string, unknown>;
+  if (message.type !== "variables" || !Array.isArray(message.variables)) {
+    return null;
+  }
+  const variables: ColorVariableResolution[] = [];
+  for (const entry of message.variables as unknown[]) {
+    if (typeof entry !== "object" || entry === null) continue;
+    const { name, status, fallback } = entry as Record<string, unknown>;
+    if (typeof name !== "string" || typeof status !== "string") continue;
+    if (!COLOR_VARIABLE_STATUSES.includes(status)) continue;
+    const variable: ColorVariableResolution = {
+      name,
+      status: status as ColorVariableResolution["status"],
+    };
+    if (typeof fallback === "string") variable.fallback = fallback;
+    variables.push(variable);
+  }
+  return {
+    type: "variables",
+    revision: typeof message.revision === "number" ? message.revision : null,
+    variables,
+  };
+}
+
+/**
+ * Describe a color variable the plugin could not bind, or null when bound
+ */
+export function formatColorVariableWarning(
+  variable: ColorVariableResolution,
+): string | null {
+  if (variable.status === "fallback") {
+    return `[figdeck] Color variable "${variable.name}" not found in Figma; using fallback ${variable.fallback}`;
+  }
+  if (variable.status === "missing") {
+    return `[figdeck] Color variable "${variable.name}" not found in Figma and has no fallback; using the default color`;
+  }
+  return null;
+}
+
 export function startServer(
   initialSlides: SlideContent[],
   options: WsServerOptions,
 ): Promise<WsServerInstance> {
   return new Promise((resolve, reject) => {
     let latestSlides = initialSlides;
+    let latestRevision = 1;
+    const revisionHistory = new Map<number, SlideContent[]>([
+      [latestRevision, initialSlides],
+    ]);
+    const ackedRevisions = new Map<WebSocket, ClientRevision>();
+    const sentRevisions = new Map<WebSocket, ClientRevision>();
     const secret = options.secret ?? null;
     const cliVersion = options.cliVersion;
     const authenticatedClients = new WeakSet<WebSocket>();
@@ -63,18 +257,44 @@ export function startServer(
       return !secret || authenticatedClients.has(ws);
     }
 
+    function sendSlides(client: WebSocket) {
+      const message = createSyncMessage(
+        latestSlides,
+        latestRevision,
+        ackedRevisions.get(client),
+        sentRevisions.get(client),
+      );
+      if (!message) {
+        console.log("Slides unchanged, nothing sent to plugin");
+        return;
+      }
+      client.send(JSON.stringify(message));
+      sentRevisions.set(client, {
+        revision: latestRevision,
+        slides: latestSlides,
+      });
+      if (message.type === "patch-slides") {
+        console.log(
+          `Sent patch to plugin (+${message.added.length} ~${message.changed.length} -${message.removed.length})`,
+        );
+      } else {
+        console.log(`Sent ${latestSlides.length} slides to plugin`);
+      }
+    }
+
     function broadcast(slides: SlideContent[]) {
       latestSlides = slides;
-      const message: GenerateSlidesMessage = {
-        type: "generate-slides",
-        slides: latestSlides,
-      };
-      const data = JSON.stringify(message);
+      latestRevision++;
+      revisionHistory.set(latestRevision, slides);
+      for (const revision of revisionHistory.keys()) {
+        if (revision <= latestRevision - MAX_REVISION_HISTORY) {
+          revisionHistory.delete(revision);
+        }
+      }
 
       for (const client of clients) {
         if (client.readyState === client.OPEN && isAuthenticated(client)) {
-          client.send(data);
-          console.log(`Sent ${slides.length} slides to plugin`);
+          sendSlides(client);
         }
       }
     }
@@ -108,12 +328,9 @@ export function startServer(
       }
 
       function sendInitialSlides(client: WebSocket) {
-        const message: GenerateSlidesMessage = {
-          type: "generate-slides",
-          slides: latestSlides,
-        };
-        client.send(JSON.stringify(message));
-        console.log(`Sent ${latestSlides.length} slides to plugin`);
+        ackedRevisions.delete(client);
+        sentRevisions.delete(client);
+        sendSlides(client);
       }
 
       ws.on("message", (data) => {
@@ -174,12 +391,83 @@ export function startServer(
             return;
           }
 
+          if (
+            response.type === "ack" &&
+            typeof response.revision === "number"
+          ) {
+            const slides = revisionHistory.get(response.revision);
+            const current = ackedRevisions.get(ws);
+            if (slides && (!current || current.revision < response.revision)) {
+              ackedRevisions.set(ws, { revision: response.revision, slides });
+            }
+            return;
+          }
+
+          if (response.type === "resync") {
+            console.log(
+              `Plugin revision mismatch (plugin: ${response.revision}), sending full sync`,
+            );
+            sendInitialSlides(ws);
+            return;
+          }
+
+          if (response.type === "edit") {
+            const edit = parseEditMessage(response);
+            if (!edit) {
+              console.log("Ignoring invalid edit message from plugin");
+              return;
+            }
+            // Map the edit against the slides the plugin actually rendered
+            const slides =
+              (edit.revision !== null && revisionHistory.get(edit.revision)) ||
+              latestSlides;
+            options.onEdit?.(edit, slides);
+            return;
+          }
+
+          if (response.type === "overflow") {
+            const message = parseOverflowMessage(response);
+            if (!message) {
+              console.log("Ignoring invalid overflow message from plugin");
+              return;
+            }
+            const slides =
+              (message.revision !== null &&
+                revisionHistory.get(message.revision)) ||
+              latestSlides;
+            for (const overflow of message.slides) {
+              console.warn(formatOverflowWarning(overflow, slides));
+            }
+            return;
+          }
+
+          if (response.type === "variables") {
+            const message = parseColorVariablesMessage(response);
+            if (!message) {
+              console.log("Ignoring invalid variables message from plugin");
+              return;
+            }
+            const bound = message.variables.filter(
+              (variable) => variable.status === "bound",
+            );
+            if (bound.length > 0) {
+              console.log(`Bound ${bound.length} color variable(s) in Figma`);
+            }
+            for (const variable of message.variables) {
+              const warning = formatColorVariableWarning(variable);
+              if (warning) console.warn(warning);
+            }
+            return;
+          }
+
           if (response.type === "success") {
             console.log(
               `Plugin successfully generated ${response.count} slides`,
             );
           } else if (response.type === "error") {
             console.error("Plugin error:", response.message);
+            // The last sent revision may not have rendered; sync from the ack
+            sentRevisions.delete(ws);
           }
         } catch {
           // Ignore parse errors
@@ -189,6 +477,8 @@ export function startServer(
       ws.on("close", () => {
         console.log("Plugin disconnected");
         clients.delete(ws);
+        ackedRevisions.delete(ws);
+        sentRevisions.delete(ws);
         if (authTimer) clearTimeout(authTimer);
       });
     });
@@ -9,6 +9,6 @@ export default defineConfig({
     ".md": "text",
     ".mdc": "text",
   },
-  // Bundle @figdeck/shared into the output (not published to npm)
-  noExternal: ["@figdeck/shared"],
+  // Bundle workspace packages into the output (not published to npm)
+  noExternal: ["@figdeck/shared", "@figdeck/lint"],
 });
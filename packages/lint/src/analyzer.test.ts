@@ -1,7 +1,6 @@
 import { afterEach, describe, expect, it, spyOn } from "bun:test";
 import * as fs from "node:fs";
 import * as path from "node:path";
-import type * as vscode from "vscode";
 import {
   analyzeBackgroundImages,
   analyzeColumnsBlocks,
@@ -14,6 +13,7 @@ import {
   validateImageAlt,
 } from "./analyzer";
 import { validateFrontmatter } from "./frontmatterValidator";
+import type { LintDocument } from "./types";
 
 function makeFileUri(fsPath: string): { scheme: "file"; fsPath: string } {
   return { scheme: "file", fsPath };
@@ -134,6 +134,87 @@ describe("validateFrontmatter", () => {
     );
   });
 
+  it("should detect invalid layout value", () => {
+    const lines = ["---", "layout: sideways", "---"];
+    const issues = validateFrontmatter(lines);
+    expect(issues.some((i) => i.code === "frontmatter-invalid-value")).toBe(
+      true,
+    );
+  });
+
+  it("should accept valid layout value", () => {
+    const lines = ["---", "layout: image-left", "---"];
+    const issues = validateFrontmatter(lines);
+    expect(issues).toHaveLength(0);
+  });
+
+  it("should accept incremental flag", () => {
+    const lines = ["---", "incremental: true", "---"];
+    const issues = validateFrontmatter(lines);
+    expect(issues).toHaveLength(0);
+  });
+
+  it("should accept autoFit shorthand, false and object forms", () => {
+    for (const lines of [
+      ["---", "autoFit: split", "---"],
+      ["---", "autoFit: false", "---"],
+      ["---", "autoFit:", "  mode: shrink", "  minScale: 0.7", "---"],
+    ]) {
+      expect(validateFrontmatter(lines)).toHaveLength(0);
+    }
+  });
+
+  it("should reject an out-of-range autoFit.minScale", () => {
+    const lines = ["---", "autoFit:", "  mode: shrink", "  minScale: 2", "---"];
+    expect(validateFrontmatter(lines).length).toBeGreaterThan(0);
+  });
+
+  it("should validate table styles", () => {
+    const valid = [
+      "---",
+      "table:",
+      '  headerBackground: "#1f2937"',
+      "  borderWidth: 0",
+      "  columnWidths: 2fr/1fr/1fr",
+      "---",
+    ];
+    expect(validateFrontmatter(valid)).toHaveLength(0);
+
+    const invalid = ["---", "table:", "  columnWidths: wide/narrow", "---"];
+    expect(
+      validateFrontmatter(invalid).some(
+        (i) => i.code === "frontmatter-invalid-format",
+      ),
+    ).toBe(true);
+  });
+
+  it("should validate user-defined callout types", () => {
+    const valid = [
+      "---",
+      "callouts:",
+      "  success:",
+      '    icon: "✅"',
+      "  decision:",
+      '    color: "#7c3aed"',
+      "    label: Decision",
+      "---",
+    ];
+    expect(validateFrontmatter(valid)).toHaveLength(0);
+
+    const invalid = [
+      "---",
+      "callouts:",
+      "  decision:",
+      "    color: purple",
+      "---",
+    ];
+    expect(
+      validateFrontmatter(invalid).some(
+        (i) => i.code === "frontmatter-invalid-format",
+      ),
+    ).toBe(true);
+  });
+
   it("should detect invalid color format", () => {
     const lines = ["---", "color: red", "---"];
     const issues = validateFrontmatter(lines);
@@ -148,6 +229,18 @@ describe("validateFrontmatter", () => {
     expect(issues).toHaveLength(0);
   });
 
+  it("should accept color variable references", () => {
+    const lines = [
+      "---",
+      'color: "var(Brand/Text)"',
+      "paragraphs:",
+      '  color: "var(Brand/Muted, #666)"',
+      "---",
+    ];
+    const issues = validateFrontmatter(lines);
+    expect(issues).toHaveLength(0);
+  });
+
   it("should detect number out of range", () => {
     const lines = ["---", "transition:", "  duration: 15", "---"];
     const issues = validateFrontmatter(lines);
@@ -772,7 +865,7 @@ describe("analyzeImages", () => {
     const issues = await analyzeImages(
       ["![alt](https://example.com/image.png)"],
       basePath,
-      documentUri as unknown as vscode.Uri,
+      documentUri,
     );
 
     expect(issues).toHaveLength(0);
@@ -783,9 +876,9 @@ describe("analyzeImages", () => {
     const documentUri = makeFileUri(path.join(basePath, "docs", "slides.md"));
 
     const issues = await analyzeImages(
-      ["![alt](images/image.webp)"],
+      ["![alt](images/image.bmp)"],
       basePath,
-      documentUri as unknown as vscode.Uri,
+      documentUri,
     );
 
     expect(
@@ -793,6 +886,25 @@ describe("analyzeImages", () => {
     ).toBe(true);
   });
 
+  it("does not flag SVG, WebP, or AVIF images", async () => {
+    const basePath = path.resolve("test-workspace");
+    const documentUri = makeFileUri(path.join(basePath, "docs", "slides.md"));
+
+    const issues = await analyzeImages(
+      [
+        "![logo](images/logo.svg)",
+        "![photo](images/photo.webp)",
+        "![photo](images/photo.avif)",
+      ],
+      basePath,
+      documentUri,
+    );
+
+    expect(
+      issues.some((issue) => issue.code === "image-unsupported-format"),
+    ).toBe(false);
+  });
+
   it("warns when a local image exceeds the size limit", async () => {
     const basePath = path.resolve("test-workspace");
     const documentPath = path.join(basePath, "docs", "slides.md");
@@ -818,7 +930,7 @@ describe("analyzeImages", () => {
     const issues = await analyzeImages(
       ["![alt](images/big.png)"],
       basePath,
-      documentUri as unknown as vscode.Uri,
+      documentUri,
     );
 
     expect(statSpy).toHaveBeenCalledWith(expectedPath);
@@ -850,7 +962,7 @@ describe("analyzeImages", () => {
     const issues = await analyzeImages(
       ['![alt](<images/big file.png> "title")'],
       basePath,
-      documentUri as unknown as vscode.Uri,
+      documentUri,
     );
 
     expect(statSpy).toHaveBeenCalledWith(expectedPath);
@@ -882,7 +994,7 @@ describe("analyzeImages", () => {
     const issues = await analyzeImages(
       ["![alt](images/medium.png)"],
       basePath,
-      documentUri as unknown as vscode.Uri,
+      documentUri,
       { maxSizeMb: 1 },
     );
 
@@ -902,7 +1014,7 @@ describe("analyzeImages", () => {
     const issues = await analyzeImages(
       ["![alt](images/huge.png)"],
       basePath,
-      documentUri as unknown as vscode.Uri,
+      documentUri,
       { maxSizeMb: null },
     );
 
@@ -934,19 +1046,13 @@ describe("analyzeImages", () => {
       throw new Error("ENOENT");
     }) as unknown as typeof fs.promises.stat);
 
-    await analyzeImages(
-      ["![alt](images/cached.png)"],
-      basePath,
-      documentUri as unknown as vscode.Uri,
-      { maxSizeMb: 1 },
-    );
+    await analyzeImages(["![alt](images/cached.png)"], basePath, documentUri, {
+      maxSizeMb: 1,
+    });
 
-    await analyzeImages(
-      ["![alt](images/cached.png)"],
-      basePath,
-      documentUri as unknown as vscode.Uri,
-      { maxSizeMb: 1 },
-    );
+    await analyzeImages(["![alt](images/cached.png)"], basePath, documentUri, {
+      maxSizeMb: 1,
+    });
 
     expect(statSpy).toHaveBeenCalledTimes(1);
   });
@@ -966,11 +1072,7 @@ describe("analyzeBackgroundImages", () => {
     const documentUri = makeFileUri(path.join(basePath, "docs", "slides.md"));
     const lines = ["---", 'background: "#1a1a2e"', "---"];
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(issues).toHaveLength(0);
   });
@@ -980,11 +1082,7 @@ describe("analyzeBackgroundImages", () => {
     const documentUri = makeFileUri(path.join(basePath, "docs", "slides.md"));
     const lines = ["---", 'background: "#1a1a2eff"', "---"];
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(issues).toHaveLength(0);
   });
@@ -994,11 +1092,17 @@ describe("analyzeBackgroundImages", () => {
     const documentUri = makeFileUri(path.join(basePath, "docs", "slides.md"));
     const lines = ["---", "background: rgb(255, 0, 0)", "---"];
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
+
+    expect(issues).toHaveLength(0);
+  });
+
+  it("skips color variables", async () => {
+    const basePath = path.resolve("test-workspace");
+    const documentUri = makeFileUri(path.join(basePath, "docs", "slides.md"));
+    const lines = ["---", 'background: "var(Brand/Surface, #fff)"', "---"];
+
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(issues).toHaveLength(0);
   });
@@ -1008,11 +1112,7 @@ describe("analyzeBackgroundImages", () => {
     const documentUri = makeFileUri(path.join(basePath, "docs", "slides.md"));
     const lines = ["---", "background: red", "---"];
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(issues).toHaveLength(0);
   });
@@ -1022,11 +1122,7 @@ describe("analyzeBackgroundImages", () => {
     const documentUri = makeFileUri(path.join(basePath, "docs", "slides.md"));
     const lines = ["---", 'background: "#0d1117:0%,#58a6ff:100%@45"', "---"];
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(issues).toHaveLength(0);
   });
@@ -1036,11 +1132,7 @@ describe("analyzeBackgroundImages", () => {
     const documentUri = makeFileUri(path.join(basePath, "docs", "slides.md"));
     const lines = ["---", "background: 0d1117:0%,58a6ff:100%", "---"];
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(issues).toHaveLength(0);
   });
@@ -1050,11 +1142,7 @@ describe("analyzeBackgroundImages", () => {
     const documentUri = makeFileUri(path.join(basePath, "docs", "slides.md"));
     const lines = ["---", 'background: "#fff"', "---"];
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(issues).toHaveLength(0);
   });
@@ -1064,11 +1152,7 @@ describe("analyzeBackgroundImages", () => {
     const documentUri = makeFileUri(path.join(basePath, "docs", "slides.md"));
     const lines = ["---", "background: hsl(0, 100%, 50%)", "---"];
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(issues).toHaveLength(0);
   });
@@ -1078,11 +1162,7 @@ describe("analyzeBackgroundImages", () => {
     const documentUri = makeFileUri(path.join(basePath, "docs", "slides.md"));
     const lines = ["---", "background: hsla(0, 100%, 50%, 0.5)", "---"];
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(issues).toHaveLength(0);
   });
@@ -1092,11 +1172,7 @@ describe("analyzeBackgroundImages", () => {
     const documentUri = makeFileUri(path.join(basePath, "docs", "slides.md"));
     const lines = ["---", "background: rgba(255, 0, 0, 0.5)", "---"];
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(issues).toHaveLength(0);
   });
@@ -1106,11 +1182,7 @@ describe("analyzeBackgroundImages", () => {
     const documentUri = makeFileUri(path.join(basePath, "docs", "slides.md"));
     const lines = ["---", "background: http://example.com/image.png", "---"];
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(issues).toHaveLength(0);
   });
@@ -1120,11 +1192,7 @@ describe("analyzeBackgroundImages", () => {
     const documentUri = makeFileUri(path.join(basePath, "docs", "slides.md"));
     const lines = ["---", "background: https://example.com/image.png", "---"];
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(issues).toHaveLength(0);
   });
@@ -1139,11 +1207,7 @@ describe("analyzeBackgroundImages", () => {
       throw new Error("ENOENT");
     }) as unknown as typeof fs.promises.stat);
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(
       issues.some((issue) => issue.code === "background-image-not-found"),
@@ -1165,11 +1229,7 @@ describe("analyzeBackgroundImages", () => {
       throw new Error("ENOENT");
     }) as unknown as typeof fs.promises.stat);
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(
       issues.some((issue) => issue.code === "background-image-not-found"),
@@ -1180,17 +1240,13 @@ describe("analyzeBackgroundImages", () => {
     const basePath = path.resolve("test-workspace");
     const documentPath = path.join(basePath, "docs", "slides.md");
     const documentUri = makeFileUri(documentPath);
-    const lines = ["---", "background: ./images/bg.webp", "---"];
+    const lines = ["---", "background: ./images/bg.svg", "---"];
 
     statSpy = spyOn(fs.promises, "stat").mockImplementation((async () => {
       throw new Error("ENOENT");
     }) as unknown as typeof fs.promises.stat);
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(
       issues.some(
@@ -1222,11 +1278,7 @@ describe("analyzeBackgroundImages", () => {
       throw new Error("ENOENT");
     }) as unknown as typeof fs.promises.stat);
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(
       issues.some((issue) => issue.code === "background-image-too-large"),
@@ -1256,11 +1308,7 @@ describe("analyzeBackgroundImages", () => {
       throw new Error("ENOENT");
     }) as unknown as typeof fs.promises.stat);
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(
       issues.some((issue) => issue.code === "background-image-too-large"),
@@ -1290,11 +1338,7 @@ describe("analyzeBackgroundImages", () => {
       throw new Error("ENOENT");
     }) as unknown as typeof fs.promises.stat);
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(
       issues.some((issue) => issue.code === "background-image-too-large"),
@@ -1327,12 +1371,9 @@ describe("analyzeBackgroundImages", () => {
       throw new Error("ENOENT");
     }) as unknown as typeof fs.promises.stat);
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-      { maxSizeMb: 1 },
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri, {
+      maxSizeMb: 1,
+    });
 
     expect(
       issues.some((issue) => issue.code === "background-image-too-large"),
@@ -1362,12 +1403,9 @@ describe("analyzeBackgroundImages", () => {
       throw new Error("ENOENT");
     }) as unknown as typeof fs.promises.stat);
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-      { maxSizeMb: null },
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri, {
+      maxSizeMb: null,
+    });
 
     expect(
       issues.some((issue) => issue.code === "background-image-too-large"),
@@ -1391,11 +1429,7 @@ describe("analyzeBackgroundImages", () => {
       "## Slide 2",
     ];
 
-    const issues = await analyzeBackgroundImages(
-      lines,
-      basePath,
-      documentUri as unknown as vscode.Uri,
-    );
+    const issues = await analyzeBackgroundImages(lines, basePath, documentUri);
 
     expect(issues).toHaveLength(0);
   });
@@ -1432,10 +1466,10 @@ describe("analyzeDocument", () => {
       throw new Error("ENOENT");
     }) as unknown as typeof fs.promises.stat);
 
-    const document = {
+    const document: LintDocument = {
       getText: () => "![alt](images/medium.png)",
       uri: documentUri,
-    } as unknown as vscode.TextDocument;
+    };
 
     const result = await analyzeDocument(document, basePath, {
       images: { maxSizeMb: 1 },
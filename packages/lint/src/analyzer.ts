@@ -1,12 +1,16 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
-import type * as vscode from "vscode";
 import { parse as parseYaml } from "yaml";
 import {
   extractFrontmatterBlocks,
   validateFrontmatter,
-} from "./frontmatterValidator";
-import type { AnalysisResult, Issue } from "./types";
+} from "./frontmatterValidator.js";
+import type {
+  AnalysisResult,
+  DocumentLocation,
+  Issue,
+  LintDocument,
+} from "./types.js";
 
 type CachedFileStat = {
   exists: boolean;
@@ -88,7 +92,7 @@ function parseImageDestination(raw: string): string {
 function toCandidatePaths(
   destination: string,
   basePath: string,
-  documentUri: vscode.Uri,
+  documentUri: DocumentLocation,
 ): string[] {
   const candidates: string[] = [];
 
@@ -142,7 +146,7 @@ function* iterateLinesOutsideCodeFences(
  * Analyze a figdeck markdown document for issues
  */
 export async function analyzeDocument(
-  document: vscode.TextDocument,
+  document: LintDocument,
   basePath: string,
   options?: AnalyzeDocumentOptions,
 ): Promise<AnalysisResult> {
@@ -232,13 +236,23 @@ export function analyzeFrontmatterStructure(lines: string[]): Issue[] {
   return issues;
 }
 
-const SUPPORTED_IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif"];
+// Background images are image fills: SVG is only supported as an inline image
+const SUPPORTED_IMAGE_EXTENSIONS = [
+  "png",
+  "jpg",
+  "jpeg",
+  "gif",
+  "webp",
+  "avif",
+];
 
 function looksLikeColor(value: string): boolean {
   // Hex colors
   if (/^#[0-9a-fA-F]{3,8}$/.test(value)) return true;
   // rgb/rgba/hsl/hsla
   if (/^(rgb|hsl)a?\s*\(/.test(value)) return true;
+  // Figma color variables
+  if (/^var\s*\(/i.test(value)) return true;
   // Named colors (basic check - CLI will validate)
   if (/^[a-zA-Z]+$/.test(value)) return true;
   return false;
@@ -246,7 +260,7 @@ function looksLikeColor(value: string): boolean {
 
 function looksLikeGradient(value: string): boolean {
   // Gradient format: #color:position%,#color:position%[@angle]
-  return /^#?[0-9a-fA-F]{3,8}:\d+%/.test(value);
+  return /^(#?[0-9a-fA-F]{3,8}|var\([^,()]+\)):\d+%/.test(value);
 }
 
 /**
@@ -274,7 +288,7 @@ function findKeyLineInFrontmatter(
 export async function analyzeBackgroundImages(
   lines: string[],
   basePath: string,
-  documentUri: vscode.Uri,
+  documentUri: DocumentLocation,
   options?: AnalyzeImagesOptions,
 ): Promise<Issue[]> {
   const issues: Issue[] = [];
@@ -335,7 +349,7 @@ export async function analyzeBackgroundImages(
     if (ext && !SUPPORTED_IMAGE_EXTENSIONS.includes(ext)) {
       issues.push({
         severity: "warning",
-        message: `Image format '${ext}' is not supported. Use PNG, JPEG, or GIF.`,
+        message: `Image format '${ext}' is not supported. Use PNG, JPEG, GIF, WebP, or AVIF.`,
         range: {
           startLine: keyLine,
           startColumn: 0,
@@ -411,7 +425,7 @@ export async function analyzeBackgroundImages(
 export async function analyzeImages(
   lines: string[],
   basePath: string,
-  documentUri: vscode.Uri,
+  documentUri: DocumentLocation,
   options?: AnalyzeImagesOptions,
 ): Promise<Issue[]> {
   const issues: Issue[] = [];
@@ -436,10 +450,10 @@ export async function analyzeImages(
 
       // Check for unsupported extensions
       const ext = url.toLowerCase().split(".").pop();
-      if (ext && ["webp", "svg", "bmp", "tiff"].includes(ext)) {
+      if (ext && ["bmp", "tiff"].includes(ext)) {
         issues.push({
           severity: "warning",
-          message: `Image format '${ext}' may not be supported by Figma. Use PNG, JPEG, or GIF instead.`,
+          message: `Image format '${ext}' may not be supported by Figma. Use PNG, JPEG, GIF, WebP, AVIF, or SVG instead.`,
           range: {
             startLine: i,
             startColumn: startCol,
@@ -465,7 +479,7 @@ export async function analyzeImages(
             const sizeMb = stat.size / 1024 / 1024;
             issues.push({
               severity: "warning",
-              message: `Image is ${sizeMb.toFixed(1)}MB (max ${maxSizeMb}MB). Consider compressing it or raising 'figdeck.images.maxSizeMb'.`,
+              message: `Image is ${sizeMb.toFixed(1)}MB (max ${maxSizeMb}MB). Consider compressing it or raising the size limit ('figdeck.images.maxSizeMb' in VS Code, --max-image-size for figdeck lint).`,
               range: {
                 startLine: i,
                 startColumn: startCol,
@@ -37,6 +37,8 @@ export type FrontmatterObjectDef = {
   kind: "object";
   description: string;
   children: Record<string, FrontmatterDef>;
+  /** Schema for keys not listed in `children`; unset means unknown keys are reported */
+  additionalChildren?: FrontmatterDef;
 };
 
 export type FrontmatterOneOfDef = {
@@ -45,7 +47,9 @@ export type FrontmatterOneOfDef = {
   options: readonly FrontmatterDef[];
 };
 
-const COLOR_HEX_PATTERN = /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+/** Hex color, or a Figma variable reference with an optional hex fallback */
+const COLOR_PATTERN =
+  /^(#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})|var\(\s*[^,()]+?\s*(,\s*#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})\s*)?\))$/i;
 const FIGMA_URL_PATTERN = /^https:\/\/(www\.)?figma\.com\//;
 
 export const TRANSITION_STYLES = [
@@ -87,6 +91,16 @@ export const TRANSITION_CURVES = [
 
 export const TRANSITION_TIMING_TYPES = ["on-click", "after-delay"] as const;
 
+export const SLIDE_LAYOUTS = [
+  "default",
+  "section",
+  "image-left",
+  "image-right",
+  "quote",
+  "big-number",
+  "title-only",
+] as const;
+
 const TEXT_STYLE_SCHEMA: Record<string, FrontmatterDef> = {
   size: {
     kind: "number",
@@ -97,12 +111,33 @@ const TEXT_STYLE_SCHEMA: Record<string, FrontmatterDef> = {
   color: {
     kind: "string",
     description: "Text color",
-    pattern: COLOR_HEX_PATTERN,
-    patternError: "Invalid color format. Use #rgb or #rrggbb",
+    pattern: COLOR_PATTERN,
+    patternError: "Invalid color format. Use #rgb, #rrggbb or var(Name)",
   },
   x: { kind: "number", description: "Absolute X position" },
   y: { kind: "number", description: "Absolute Y position" },
   spacing: { kind: "number", description: "Gap between items", min: 0 },
+  textStyle: { kind: "string", description: "Figma text style name" },
+};
+
+const COLOR_DEF: FrontmatterDef = {
+  kind: "string",
+  description: "Color",
+  pattern: COLOR_PATTERN,
+  patternError: "Invalid color format. Use #rgb, #rrggbb or var(Name)",
+};
+
+const CALLOUT_STYLE_DEF: FrontmatterDef = {
+  kind: "object",
+  description: "Callout color, icon and label",
+  children: {
+    color: { ...COLOR_DEF, description: "Accent, label and tint color" },
+    icon: { kind: "string", description: "Glyph shown before the label" },
+    label: {
+      kind: "string",
+      description: "Label text (default: type name in uppercase)",
+    },
+  },
 };
 
 const FONT_VARIANT_SCHEMA: Record<string, FrontmatterDef> = {
@@ -187,6 +222,24 @@ export const FRONTMATTER_SPEC: Record<string, FrontmatterDef> = {
     kind: "boolean",
     description: "Treat the first slide as a cover (default: true)",
   },
+  theme: {
+    kind: "string",
+    description:
+      "Theme file (YAML or JSON) or package applied under the frontmatter",
+  },
+  id: {
+    kind: "oneOf",
+    description:
+      "Stable slide identity used to match Figma slides across reorders",
+    options: [
+      { kind: "string", description: "Slide id" },
+      { kind: "number", description: "Numeric slide id" },
+    ],
+  },
+  src: {
+    kind: "string",
+    description: "Markdown file whose slides replace this slide",
+  },
   background: {
     kind: "oneOf",
     description:
@@ -204,13 +257,14 @@ export const FRONTMATTER_SPEC: Record<string, FrontmatterDef> = {
           color: {
             kind: "string",
             description: "Solid background color",
-            pattern: COLOR_HEX_PATTERN,
-            patternError: "Invalid color format. Use #rgb or #rrggbb",
+            pattern: COLOR_PATTERN,
+            patternError:
+              "Invalid color format. Use #rgb, #rrggbb or var(Name)",
           },
           gradient: {
             kind: "string",
             description: "Gradient (e.g., #0d1117:0%,#fff:100%@45)",
-            pattern: /^#[0-9a-fA-F]{3,6}:\d+%/,
+            pattern: /^(#[0-9a-fA-F]{3,6}|var\([^,()]+\)):\d+%/,
             patternError:
               "Invalid gradient format. Use #color:0%,#color:100%[@angle]",
           },
@@ -275,8 +329,8 @@ export const FRONTMATTER_SPEC: Record<string, FrontmatterDef> = {
   color: {
     kind: "string",
     description: "Base text color for all elements",
-    pattern: COLOR_HEX_PATTERN,
-    patternError: "Invalid color format. Use #rgb or #rrggbb",
+    pattern: COLOR_PATTERN,
+    patternError: "Invalid color format. Use #rgb, #rrggbb or var(Name)",
   },
   align: {
     kind: "string",
@@ -288,6 +342,49 @@ export const FRONTMATTER_SPEC: Record<string, FrontmatterDef> = {
     description: "Vertical alignment",
     values: ["top", "middle", "bottom"],
   },
+  layout: {
+    kind: "string",
+    description: "Built-in slide layout",
+    values: SLIDE_LAYOUTS,
+  },
+  incremental: {
+    kind: "boolean",
+    description: "Reveal list items one build slide at a time",
+  },
+  autoFit: {
+    kind: "oneOf",
+    description: "Handle content taller than the slide",
+    options: [
+      {
+        kind: "string",
+        description:
+          "shrink: scale text down in Figma; split: continue long lists on new slides",
+        values: ["shrink", "split"],
+      },
+      {
+        kind: "boolean",
+        description: "false disables autoFit set globally",
+        allowedValues: [false],
+      },
+      {
+        kind: "object",
+        description: "Auto-fit configuration",
+        children: {
+          mode: {
+            kind: "string",
+            description: "shrink or split",
+            values: ["shrink", "split"],
+          },
+          minScale: {
+            kind: "number",
+            description: "Smallest text scale for shrink (default: 0.6)",
+            min: 0.1,
+            max: 1,
+          },
+        },
+      },
+    ],
+  },
   headings: {
     kind: "object",
     description: "Heading styles configuration",
@@ -327,7 +424,85 @@ export const FRONTMATTER_SPEC: Record<string, FrontmatterDef> = {
   code: {
     kind: "object",
     description: "Code block style configuration",
-    children: TEXT_STYLE_SCHEMA,
+    children: {
+      ...TEXT_STYLE_SCHEMA,
+      theme: {
+        kind: "string",
+        description:
+          "Syntax theme: one-dark, one-light, github-dark, github-light, dracula, nord, solarized-light, or a token-color JSON file",
+      },
+      background: { ...COLOR_DEF, description: "Code block background" },
+      colors: {
+        kind: "object",
+        description: "Syntax colors per token kind",
+        children: {
+          keyword: COLOR_DEF,
+          string: COLOR_DEF,
+          number: COLOR_DEF,
+          comment: COLOR_DEF,
+          function: COLOR_DEF,
+          variable: COLOR_DEF,
+          type: COLOR_DEF,
+          punctuation: COLOR_DEF,
+          default: { ...COLOR_DEF, description: "Unhighlighted text" },
+        },
+      },
+    },
+  },
+  callouts: {
+    kind: "object",
+    description: "Callout styles per built-in or user-defined callout type",
+    children: {
+      note: CALLOUT_STYLE_DEF,
+      tip: CALLOUT_STYLE_DEF,
+      important: CALLOUT_STYLE_DEF,
+      warning: CALLOUT_STYLE_DEF,
+      caution: CALLOUT_STYLE_DEF,
+      success: CALLOUT_STYLE_DEF,
+      question: CALLOUT_STYLE_DEF,
+      example: CALLOUT_STYLE_DEF,
+    },
+    additionalChildren: CALLOUT_STYLE_DEF,
+  },
+  table: {
+    kind: "object",
+    description: "Table style configuration",
+    children: {
+      size: {
+        kind: "number",
+        description: "Cell font size (default: 85% of the paragraph size)",
+        min: 1,
+        max: 200,
+      },
+      color: { ...COLOR_DEF, description: "Body text color" },
+      headerColor: { ...COLOR_DEF, description: "Header text color" },
+      headerBackground: { ...COLOR_DEF, description: "Header row fill" },
+      background: { ...COLOR_DEF, description: "Body row fill" },
+      stripeBackground: {
+        ...COLOR_DEF,
+        description: "Fill of every other body row (zebra striping)",
+      },
+      borderColor: { ...COLOR_DEF, description: "Border color" },
+      borderWidth: {
+        kind: "number",
+        description: "Border width in pixels (0 removes borders)",
+        min: 0,
+      },
+      padding: {
+        kind: "number",
+        description: "Cell padding in pixels",
+        min: 0,
+      },
+      columnWidths: {
+        kind: "string",
+        description:
+          'Column widths separated by "/" (e.g. "2fr/1fr", "40%/60%", "300/200")',
+        pattern:
+          /^\s*\d+(\.\d+)?(fr|%|px)?\s*(\/\s*\d+(\.\d+)?(fr|%|px)?\s*)*$/,
+        patternError:
+          'Invalid column widths. Use values like "2fr/1fr", "40%/60%" or "300/200"',
+      },
+    },
   },
   fonts: {
     kind: "object",
@@ -370,8 +545,9 @@ export const FRONTMATTER_SPEC: Record<string, FrontmatterDef> = {
           color: {
             kind: "string",
             description: "Text color",
-            pattern: COLOR_HEX_PATTERN,
-            patternError: "Invalid color format. Use #rgb or #rrggbb",
+            pattern: COLOR_PATTERN,
+            patternError:
+              "Invalid color format. Use #rgb, #rrggbb or var(Name)",
           },
           paddingX: { kind: "number", description: "Horizontal padding" },
           paddingY: { kind: "number", description: "Vertical padding" },
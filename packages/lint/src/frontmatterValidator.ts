@@ -3,8 +3,8 @@ import {
   FRONTMATTER_SPEC,
   type FrontmatterDef,
   TRANSITION_STYLES,
-} from "../frontmatter-spec";
-import type { Issue } from "./types";
+} from "./frontmatter-spec.js";
+import type { Issue } from "./types.js";
 
 type FrontmatterSchema = Record<string, FrontmatterDef>;
 
@@ -362,13 +362,15 @@ function validateValue(
         lines,
         startLine,
         endLine,
+        def.additionalChildren,
       );
     }
   }
 }
 
 /**
- * Validate an object against a schema
+ * Validate an object against a schema.
+ * Keys missing from the schema are checked against `additional` if given.
  */
 function validateObject(
   obj: Record<string, unknown>,
@@ -377,12 +379,13 @@ function validateObject(
   lines: string[],
   startLine: number,
   endLine: number,
+  additional?: FrontmatterDef,
 ): Issue[] {
   const issues: Issue[] = [];
 
   for (const [key, value] of Object.entries(obj)) {
     const keyPath = [...parentPath, key];
-    const def = schema[key];
+    const def = Object.hasOwn(schema, key) ? schema[key] : additional;
 
     if (!def) {
       // Unknown property warning
@@ -0,0 +1,40 @@
+// Analyzers
+
+// Project config (figdeck.config.json / figdeck.config.ts)
+export type {
+  ConfigLoadOptions,
+  FigdeckConfig,
+  ImagesConfig,
+  LoadedConfig,
+  ServeConfig,
+} from "@figdeck/shared/config";
+export {
+  CONFIG_FILE_NAMES,
+  findConfigFile,
+  loadConfig,
+  loadConfigFile,
+  validateConfig,
+} from "@figdeck/shared/config";
+export type {
+  AnalyzeDocumentOptions,
+  AnalyzeImagesOptions,
+} from "./analyzer.js";
+export { analyzeDocument, clearImageDiagnosticsCache } from "./analyzer.js";
+// Frontmatter keys, values and descriptions
+export type {
+  FrontmatterBooleanDef,
+  FrontmatterDef,
+  FrontmatterDefKind,
+  FrontmatterNumberDef,
+  FrontmatterObjectDef,
+  FrontmatterOneOfDef,
+  FrontmatterStringDef,
+} from "./frontmatter-spec.js";
+export {
+  FRONTMATTER_SPEC,
+  SLIDE_LAYOUTS,
+  TRANSITION_CURVES,
+  TRANSITION_STYLES,
+  TRANSITION_TIMING_TYPES,
+} from "./frontmatter-spec.js";
+export * from "./types.js";
@@ -0,0 +1,52 @@
+/**
+ * Severity level for diagnostic issues
+ */
+export type IssueSeverity = "error" | "warning" | "info" | "hint";
+
+/**
+ * A diagnostic issue found in the document
+ */
+export interface Issue {
+  /** Severity of the issue */
+  severity: IssueSeverity;
+  /** Human-readable message describing the issue */
+  message: string;
+  /** Range in the document where the issue occurs (0-based) */
+  range: {
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+  };
+  /** Optional code for the diagnostic (for CodeAction matching) */
+  code?: string;
+  /** Optional data for quick fixes */
+  data?: unknown;
+  /** Optional source identifier */
+  source?: string;
+}
+
+/**
+ * Result of analyzing a document
+ */
+export interface AnalysisResult {
+  issues: Issue[];
+}
+
+/**
+ * Location of an analyzed document. Relative image paths are resolved
+ * against the document directory only for `file` documents.
+ * Structurally compatible with `vscode.Uri`.
+ */
+export interface DocumentLocation {
+  scheme: string;
+  fsPath: string;
+}
+
+/**
+ * A document to analyze. Structurally compatible with `vscode.TextDocument`.
+ */
+export interface LintDocument {
+  uri: DocumentLocation;
+  getText(): string;
+}
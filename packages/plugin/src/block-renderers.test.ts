@@ -19,6 +19,10 @@ const mockTextNode = {
   setRangeTextDecoration: mock(() => {}),
   setRangeHyperlink: mock(() => {}),
   setRangeListOptions: mock(() => {}),
+  resize: mock(function (this: { width: number; height: number }, w, h) {
+    this.width = w;
+    this.height = h;
+  }),
 };
 
 const mockFrameNode = {
@@ -84,6 +88,7 @@ beforeEach(() => {
       width: number;
       height: number;
       appendChild: ReturnType<typeof mock>;
+      insertChild: ReturnType<typeof mock>;
       resize: ReturnType<typeof mock>;
       [key: string]: unknown;
     } = {
@@ -92,18 +97,49 @@ beforeEach(() => {
       width: 100,
       height: 50,
       appendChild: mock(() => {}),
+      insertChild: mock(() => {}),
       resize: mock(() => {}),
     };
     frame.appendChild = mock((child: unknown) => {
       frame.children.push(child);
     });
+    frame.insertChild = mock((index: number, child: unknown) => {
+      frame.children.splice(index, 0, child);
+    });
     frame.resize = mock((w: number, h: number) => {
       frame.width = w;
       frame.height = h;
     });
     return frame;
   }),
-  createRectangle: mock(() => ({ ...mockRectangleNode })),
+  createRectangle: mock(() => ({
+    ...mockRectangleNode,
+    resize: mock(function (
+      this: { width: number; height: number },
+      w: number,
+      h: number,
+    ) {
+      this.width = w;
+      this.height = h;
+    }),
+  })),
+  createVector: mock(() => ({ type: "VECTOR", name: "", vectorPaths: [] })),
+  createNodeFromSvg: mock(() => {
+    const node = {
+      type: "FRAME",
+      name: "",
+      x: 0,
+      y: 0,
+      width: 200,
+      height: 100,
+    };
+    return Object.assign(node, {
+      rescale: mock((scale: number) => {
+        node.width *= scale;
+        node.height *= scale;
+      }),
+    });
+  }),
   loadFontAsync: mock(async () => {}),
 };
 
@@ -114,9 +150,11 @@ import {
   renderCallout,
   renderCodeBlock,
   renderHeading,
+  renderImage,
   renderParagraph,
   renderTable,
 } from "./block-renderers";
+import { THEME_COLORS } from "./highlight";
 
 const defaultFont = {
   family: "Inter",
@@ -531,6 +569,35 @@ describe("renderBulletList", () => {
     // BulletItem[] with inline code uses Frame-based layout
     expect(result.node.type).toBe("FRAME");
   });
+
+  it("should render task list items with checkboxes instead of markers", async () => {
+    const items = [
+      { text: "Done", spans: [{ text: "Done" }], checked: true },
+      { text: "Todo", spans: [{ text: "Todo" }], checked: false },
+    ];
+
+    const result = await renderBulletList(
+      items,
+      undefined,
+      defaultStyle,
+      false,
+      1,
+      100,
+      200,
+    );
+
+    // Task lists use Frame-based layout even without nesting
+    expect(result.node.type).toBe("FRAME");
+
+    const rows = (result.node as unknown as FrameNode).children.map(
+      (item) => (item as FrameNode).children[0] as FrameNode,
+    );
+    const [doneBox, todoBox] = rows.map((row) => row.children[0] as FrameNode);
+    expect(doneBox.name).toBe("Checkbox (checked)");
+    expect(doneBox.children).toHaveLength(1);
+    expect(todoBox.name).toBe("Checkbox");
+    expect(todoBox.children).toHaveLength(0);
+  });
 });
 
 describe("renderTable", () => {
@@ -624,6 +691,53 @@ describe("renderTable", () => {
 
     expect(result).toBeDefined();
   });
+
+  it("should apply table style colors, stripes, borders and column widths", async () => {
+    const headers = [[{ text: "Name" }], [{ text: "Value" }]];
+    const rows = [
+      [[{ text: "a" }], [{ text: "1" }]],
+      [[{ text: "b" }], [{ text: "2" }]],
+      [[{ text: "c" }], [{ text: "3" }]],
+    ];
+    const headerBackground = { r: 0.1, g: 0.1, b: 0.2 };
+    const stripeBackground = { r: 0.9, g: 0.9, b: 0.9 };
+
+    const result = await renderTable(
+      headers,
+      rows,
+      [],
+      16,
+      baseFills,
+      0,
+      0,
+      undefined,
+      {
+        headerBackground: { color: headerBackground, opacity: 1 },
+        stripeBackground: { color: stripeBackground, opacity: 1 },
+        borderWidth: 0,
+        padding: 8,
+        columnWidths: [300],
+      },
+    );
+
+    const [header, first, second, third] = result.children as FrameNode[];
+    expect(header.fills).toEqual([
+      { type: "SOLID", color: headerBackground, opacity: 1 },
+    ]);
+    expect(first.fills).toEqual([]);
+    expect(second.fills).toEqual([
+      { type: "SOLID", color: stripeBackground, opacity: 1 },
+    ]);
+    expect(third.fills).toEqual([]);
+    expect(result.strokes).toBeUndefined();
+    expect(second.strokes).toBeUndefined();
+
+    const [nameCell, valueCell] = second.children as FrameNode[];
+    expect(nameCell.paddingLeft).toBe(8);
+    expect(nameCell.width).toBe(300);
+    expect((nameCell.children[0] as TextNode).width).toBe(284);
+    expect((valueCell.children[0] as TextNode).textAutoResize).toBeUndefined();
+  });
 });
 
 describe("renderCodeBlock", () => {
@@ -674,6 +788,106 @@ describe("renderCodeBlock", () => {
     expect(typeof result.height).toBe("number");
   });
 
+  it("should color CLI tokens instead of highlighting the code", () => {
+    const result = renderCodeBlock(
+      {
+        language: "kotlin",
+        code: "val x",
+        tokens: [
+          { text: "val", token: "keyword" },
+          { text: " x", token: "default" },
+        ],
+      },
+      14,
+      0,
+      0,
+      undefined,
+      { colors: { keyword: { color: { r: 1, g: 0, b: 0 }, opacity: 1 } } },
+    );
+
+    const text = (
+      result.node as unknown as {
+        children: Array<{
+          characters: string;
+          setRangeFills: ReturnType<typeof mock>;
+        }>;
+      }
+    ).children[0];
+    expect(text.characters).toBe("val x");
+    const fills = text.setRangeFills.mock.calls
+      .slice(-2)
+      .map((call) => [call[0], call[1], (call[2] as SolidPaint[])[0].color]);
+    expect(fills).toEqual([
+      [0, 3, { r: 1, g: 0, b: 0 }],
+      [3, 5, THEME_COLORS.default],
+    ]);
+  });
+
+  it("should add a gutter, highlight bands and dim other lines", () => {
+    const result = renderCodeBlock(
+      {
+        code: "a\nb\nc\nd",
+        highlightLines: [2, 3],
+        dimUnhighlighted: true,
+        showLineNumbers: true,
+      },
+      14,
+      0,
+      0,
+    );
+
+    const frame = result.node as unknown as {
+      layoutMode: string;
+      children: Array<{
+        name: string;
+        characters?: string;
+        y: number;
+        height: number;
+        setRangeFills?: ReturnType<typeof mock>;
+      }>;
+    };
+    expect(frame.layoutMode).toBe("HORIZONTAL");
+    expect(frame.children.map((child) => child.name)).toEqual([
+      "highlight 2-3",
+      "line numbers",
+      "",
+    ]);
+    expect(frame.children[1].characters).toBe("1\n2\n3\n4");
+    // Mock text height is 20 for 4 lines: 5px per line
+    expect(frame.children[0].y).toBe(16 + 5);
+    expect(frame.children[0].height).toBe(10);
+    // The setRangeFills mock is shared by all text nodes; take this block's calls
+    const opacities = frame.children[2].setRangeFills?.mock.calls
+      .slice(-4)
+      .map((call) => (call[2] as SolidPaint[])[0].opacity);
+    expect(opacities).toEqual([0.4, 1, 1, 0.4]);
+  });
+
+  it("should wrap the code frame with a title tab", () => {
+    const result = renderCodeBlock(
+      { language: "ts", code: "x", title: "server.ts" },
+      14,
+      10,
+      20,
+    );
+
+    const container = result.node as unknown as {
+      name: string;
+      x: number;
+      children: Array<{
+        name: string;
+        children?: Array<{ characters: string }>;
+      }>;
+    };
+    expect(container.name).toBe("Code (ts)");
+    expect(container.x).toBe(10);
+    expect(container.children.map((child) => child.name)).toEqual([
+      "title",
+      "code",
+    ]);
+    expect(container.children[0].children?.[0].characters).toBe("server.ts");
+  });
+
   it("should handle multi-line code", () => {
     const multiLineCode = `function hello() {
   console.log("world");
@@ -689,6 +903,45 @@ describe("renderCodeBlock", () => {
   });
 });
 
+describe("renderImage", () => {
+  it("should insert SVG markup as vectors", async () => {
+    const node = (await renderImage(
+      { url: "logo.svg", alt: "Logo", svg: "<svg></svg>" },
+      10,
+      20,
+    )) as unknown as {
+      name: string;
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      children: Array<{ name: string; width: number }>;
+    };
+
+    expect(node.name).toBe("Logo");
+    expect(node.width).toBe(200);
+    expect(node.height).toBe(100);
+    expect(node.x).toBe(10);
+    expect(node.y).toBe(20);
+    expect(node.children[0].name).toBe("SVG");
+  });
+
+  it("should scale SVG images to the requested size", async () => {
+    const node = (await renderImage({
+      url: "logo.svg",
+      svg: "<svg></svg>",
+      size: { width: 400 },
+    })) as unknown as {
+      height: number;
+      children: Array<{ width: number; height: number }>;
+    };
+
+    expect(node.height).toBe(200);
+    expect(node.children[0].width).toBe(400);
+    expect(node.children[0].height).toBe(200);
+  });
+});
+
 describe("parseGitHubAlert", () => {
   it("should parse NOTE alert", () => {
     const spans = [{ text: "[!NOTE]\nThis is a note." }];
@@ -828,6 +1081,24 @@ describe("renderCallout", () => {
     expect(result.name).toBe("Callout (CAUTION)");
   });
 
+  it("should render a custom label with the built-in color", async () => {
+    const alert = {
+      type: "SUCCESS" as const,
+      bodySpans: [{ text: "Deployed." }],
+      label: "✅ Shipped",
+    };
+
+    const result = await renderCallout(alert, 16);
+
+    expect(result.name).toBe("Callout (✅ Shipped)");
+    const content = result.children[1] as FrameNode;
+    const label = content.children[0] as TextNode;
+    expect(label.characters).toBe("✅ Shipped");
+    expect(label.fills).toEqual([
+      { type: "SOLID", color: { r: 0.1, g: 0.6, b: 0.42 } },
+    ]);
+  });
+
   it("should position callout at specified coordinates", async () => {
     const alert = {
       type: "TIP" as const,
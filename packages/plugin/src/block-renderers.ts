@@ -1,14 +1,25 @@
 import type {
   BulletItem,
+  CodeToken,
   FigmaSelectionLink,
   FootnoteItem,
   ImageSize,
   TableAlignment,
   TextSpan,
 } from "@figdeck/shared";
-import { BULLET_MARKERS } from "@figdeck/shared";
+import { getBulletMarker } from "@figdeck/shared";
 import { base64ToUint8Array } from "./base64";
-import { createDefaultTextFill } from "./colors";
+import {
+  createDefaultTextFill,
+  createSolidPaint,
+  getPaintRGB,
+  type PaintColor,
+  type ResolvedColor,
+} from "./colors";
+import {
+  applyInstanceOverrides,
+  createComponentInstance,
+} from "./component-instance";
 import {
   FIGMA_BRAND_COLOR,
   FIGMA_CARD_BG,
@@ -16,8 +27,13 @@ import {
   MAX_PREVIEW_HEIGHT,
   MAX_PREVIEW_WIDTH,
 } from "./constants";
-import { highlightCode } from "./highlight";
-import type { ResolvedFontName, ResolvedTextStyle } from "./styles";
+import { colorTokens, highlightCode, THEME_COLORS } from "./highlight";
+import type {
+  ResolvedCodePalette,
+  ResolvedFontName,
+  ResolvedTableStyle,
+  ResolvedTextStyle,
+} from "./styles";
 import { LAYOUT } from "./styles";
 import {
   isValidHyperlinkUrl,
@@ -28,16 +44,26 @@ import {
 } from "./text-renderer";
 
 /**
- * GitHub Alert types
+ * Alert types: the GitHub Alert types plus the extra built-in callout types
  */
-export type AlertType = "NOTE" | "TIP" | "IMPORTANT" | "WARNING" | "CAUTION";
+export type AlertType =
+  | "NOTE"
+  | "TIP"
+  | "IMPORTANT"
+  | "WARNING"
+  | "CAUTION"
+  | "SUCCESS"
+  | "QUESTION"
+  | "EXAMPLE";
 
 /**
- * Parsed GitHub Alert from blockquote
+ * Parsed GitHub Alert from blockquote, or a callout block
  */
 export interface ParsedAlert {
   type: AlertType;
   bodySpans: TextSpan[];
+  /** Header text replacing the type name, e.g. a callout title */
+  label?: string;
 }
 
 /**
@@ -64,6 +90,18 @@ const ALERT_COLORS: Record<AlertType, { accent: RGB; label: RGB }> = {
     accent: { r: 0.84, g: 0.24, b: 0.24 }, // Red
     label: { r: 0.84, g: 0.24, b: 0.24 },
   },
+  SUCCESS: {
+    accent: { r: 0.1, g: 0.6, b: 0.42 }, // Emerald
+    label: { r: 0.1, g: 0.6, b: 0.42 },
+  },
+  QUESTION: {
+    accent: { r: 0.05, g: 0.58, b: 0.66 }, // Teal
+    label: { r: 0.05, g: 0.58, b: 0.66 },
+  },
+  EXAMPLE: {
+    accent: { r: 0.36, g: 0.39, b: 0.83 }, // Indigo
+    label: { r: 0.36, g: 0.39, b: 0.83 },
+  },
 };
 
 /**
@@ -251,7 +289,7 @@ function isBulletItemArray(
  */
 function hasSpecialFormattingInItems(items: BulletItem[]): boolean {
   for (const item of items) {
-    if (item.spans?.some((s) => s.code || s.superscript)) {
+    if (item.spans?.some((s) => s.code || s.superscript || s.math)) {
       return true;
     }
     if (item.children && hasSpecialFormattingInItems(item.children)) {
@@ -276,6 +314,63 @@ function hasMultiParagraphItems(items: BulletItem[]): boolean {
   return false;
 }
 
+/**
+ * Check if any BulletItem (recursively) is a task list item
+ */
+function hasTaskItems(items: BulletItem[]): boolean {
+  for (const item of items) {
+    if (typeof item.checked === "boolean") {
+      return true;
+    }
+    if (item.children && hasTaskItems(item.children)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Create a vector checkbox sized to the list's font size.
+ * The box outline and check mark use the text color so they work on any background.
+ */
+function createTaskCheckbox(
+  checked: boolean,
+  fontSize: number,
+  fills: Paint[] | undefined,
+): FrameNode {
+  const size = Math.round(fontSize * 0.8);
+  const paint = fills ?? createDefaultTextFill();
+  const strokeWeight = Math.max(1.5, Math.round(size * 0.1));
+
+  const box = figma.createFrame();
+  box.name = checked ? "Checkbox (checked)" : "Checkbox";
+  box.resize(size, size);
+  box.cornerRadius = Math.max(2, Math.round(size * 0.15));
+  box.fills = [];
+  box.strokes = paint;
+  box.strokeWeight = strokeWeight;
+
+  if (checked) {
+    const point = (ratio: number) => (size * ratio).toFixed(2);
+    const check = figma.createVector();
+    check.name = "Check";
+    check.vectorPaths = [
+      {
+        windingRule: "NONE",
+        data: `M ${point(0.22)} ${point(0.52)} L ${point(0.42)} ${point(0.72)} L ${point(0.78)} ${point(0.3)}`,
+      },
+    ];
+    check.fills = [];
+    check.strokes = paint;
+    check.strokeWeight = strokeWeight;
+    check.strokeCap = "ROUND";
+    check.strokeJoin = "ROUND";
+    box.appendChild(check);
+  }
+
+  return box;
+}
+
 /**
  * Render nested bullet items recursively using Frame-based layout
  */
@@ -336,21 +431,27 @@ async function renderNestedBulletItems(
     itemRow.itemSpacing = LAYOUT.BULLET_ITEM_SPACING;
     itemRow.fills = [];
 
-    // Bullet/number marker
-    const marker = figma.createText();
-    try {
-      marker.fontName = regularFontName;
-    } catch {
-      marker.fontName = { family: "Inter", style: "Regular" };
-    }
-    marker.fontSize = style.fontSize;
-    marker.characters = ordered
-      ? `${startNum + i}.`
-      : BULLET_MARKERS[Math.min(depth, BULLET_MARKERS.length - 1)];
-    if (style.fills) {
-      marker.fills = style.fills;
+    if (typeof item.checked === "boolean") {
+      // Task list item: checkbox replaces the bullet/number marker
+      itemRow.counterAxisAlignItems = "CENTER";
+      itemRow.appendChild(
+        createTaskCheckbox(item.checked, style.fontSize, style.fills),
+      );
+    } else {
+      // Bullet/number marker
+      const marker = figma.createText();
+      try {
+        marker.fontName = regularFontName;
+      } catch {
+        marker.fontName = { family: "Inter", style: "Regular" };
+      }
+      marker.fontSize = style.fontSize;
+      marker.characters = ordered ? `${startNum + i}.` : getBulletMarker(depth);
+      if (style.fills) {
+        marker.fills = style.fills;
+      }
+      itemRow.appendChild(marker);
     }
-    itemRow.appendChild(marker);
 
     // Item text content
     if (item.spans && item.spans.length > 0) {
@@ -424,9 +525,10 @@ export async function renderBulletList(
     );
     const hasSpecial = hasSpecialFormattingInItems(items);
     const hasMultiParagraph = hasMultiParagraphItems(items);
+    const hasTasks = hasTaskItems(items);
 
-    if (hasNesting || hasSpecial || hasMultiParagraph) {
-      // Use Frame-based layout for nested/complex lists
+    if (hasNesting || hasSpecial || hasMultiParagraph || hasTasks) {
+      // Use Frame-based layout for nested/complex lists and task lists
       const frame = await renderNestedBulletItems(
         items,
         style,
@@ -551,7 +653,7 @@ export async function renderBulletList(
   if (itemSpans && itemSpans.length > 0) {
     // Check if any item has inline code or superscript - if so, use Frame-based layout
     const hasSpecialFormatting = itemSpans.some((spans) =>
-      spans.some((s) => s.code || s.superscript),
+      spans.some((s) => s.code || s.superscript || s.math),
     );
 
     if (hasSpecialFormatting) {
@@ -802,7 +904,9 @@ const CALLOUT_LAYOUT = {
 
 /**
  * Render a GitHub Alert callout block
- * Displays with accent color, label header, and body text
+ * Displays with accent color, label header, and body text.
+ * `accentColor` replaces the built-in color of the alert type, and
+ * `alert.label` replaces the type name in the header.
  */
 export async function renderCallout(
   alert: ParsedAlert,
@@ -812,23 +916,21 @@ export async function renderCallout(
   y?: number,
   font?: ResolvedFontName,
   codeFont?: ResolvedFontName,
+  accentColor?: ResolvedColor,
 ): Promise<FrameNode> {
-  const colors = ALERT_COLORS[alert.type];
+  const colors: { accent: PaintColor; label: PaintColor } = accentColor
+    ? { accent: accentColor, label: accentColor }
+    : ALERT_COLORS[alert.type];
 
   // Main frame container
   const frame = figma.createFrame();
-  frame.name = `Callout (${alert.type})`;
+  const labelText = alert.label ?? alert.type;
+  frame.name = `Callout (${labelText})`;
   frame.layoutMode = "HORIZONTAL";
   frame.primaryAxisSizingMode = "AUTO";
   frame.counterAxisSizingMode = "AUTO";
   frame.itemSpacing = 0;
-  frame.fills = [
-    {
-      type: "SOLID",
-      color: colors.accent,
-      opacity: CALLOUT_LAYOUT.BG_OPACITY,
-    },
-  ];
+  frame.fills = [createSolidPaint(colors.accent, CALLOUT_LAYOUT.BG_OPACITY)];
   frame.cornerRadius = CALLOUT_LAYOUT.BORDER_RADIUS;
   if (x !== undefined) frame.x = x;
   if (y !== undefined) frame.y = y;
@@ -837,7 +939,7 @@ export async function renderCallout(
   const accent = figma.createRectangle();
   accent.name = "accent";
   accent.resize(CALLOUT_LAYOUT.ACCENT_WIDTH, 100); // Height adjusted later
-  accent.fills = [{ type: "SOLID", color: colors.accent }];
+  accent.fills = [createSolidPaint(colors.accent)];
   accent.topLeftRadius = CALLOUT_LAYOUT.BORDER_RADIUS;
   accent.bottomLeftRadius = CALLOUT_LAYOUT.BORDER_RADIUS;
   frame.appendChild(accent);
@@ -868,8 +970,8 @@ export async function renderCallout(
   const label = figma.createText();
   label.fontName = { family: labelFont.family, style: labelFont.bold };
   label.fontSize = baseSize * 0.9;
-  label.characters = alert.type;
-  label.fills = [{ type: "SOLID", color: colors.label }];
+  label.characters = labelText;
+  label.fills = [createSolidPaint(colors.label)];
   contentFrame.appendChild(label);
 
   // Body text
@@ -921,17 +1023,98 @@ export interface ImageBlockData {
   alt?: string;
   mimeType?: string;
   dataBase64?: string;
+  svg?: string;
   source?: "local" | "remote";
   size?: ImageSize;
 }
 
+/**
+ * Calculate the rendered image size from its natural size and the
+ * user-specified size, keeping the aspect ratio when only one side is given
+ */
+function getImageSize(
+  naturalSize: { width: number; height: number },
+  size?: ImageSize,
+): { width: number; height: number } {
+  if (size?.width && size?.height) {
+    // Both dimensions specified - use as-is
+    return { width: size.width, height: size.height };
+  }
+  if (size?.width) {
+    // Width only - calculate height from aspect ratio
+    const ratio = naturalSize.height / naturalSize.width;
+    return { width: size.width, height: Math.round(size.width * ratio) };
+  }
+  if (size?.height) {
+    // Height only - calculate width from aspect ratio
+    const ratio = naturalSize.width / naturalSize.height;
+    return { width: Math.round(size.height * ratio), height: size.height };
+  }
+
+  // No size specified - apply max constraints
+  let width = naturalSize.width;
+  let height = naturalSize.height;
+  const maxWidth = MAX_PREVIEW_WIDTH;
+  const maxHeight = MAX_PREVIEW_HEIGHT;
+
+  if (width > maxWidth || height > maxHeight) {
+    const scaleX = maxWidth / width;
+    const scaleY = maxHeight / height;
+    const scale = Math.min(scaleX, scaleY);
+    width = Math.round(width * scale);
+    height = Math.round(height * scale);
+  }
+  return { width, height };
+}
+
+/**
+ * Render SVG markup as editable vectors inside a frame of the image size.
+ * Like an image fill, the vectors cover the frame and overflow is clipped.
+ */
+function renderSvgImage(
+  svg: string,
+  image: ImageBlockData,
+  x?: number,
+  y?: number,
+): FrameNode {
+  const vectors = figma.createNodeFromSvg(svg);
+  vectors.name = "SVG";
+  const naturalSize = {
+    width: Math.max(1, vectors.width),
+    height: Math.max(1, vectors.height),
+  };
+  const { width, height } = getImageSize(naturalSize, image.size);
+
+  const frame = figma.createFrame();
+  frame.name = image.alt || "Image";
+  frame.resize(width, height);
+  frame.fills = [];
+  frame.clipsContent = true;
+  frame.cornerRadius = 4;
+
+  const scale = Math.max(
+    width / naturalSize.width,
+    height / naturalSize.height,
+  );
+  vectors.rescale(scale);
+  frame.appendChild(vectors);
+  vectors.x = (width - vectors.width) / 2;
+  vectors.y = (height - vectors.height) / 2;
+
+  if (x !== undefined) frame.x = x;
+  if (y !== undefined) frame.y = y;
+  return frame;
+}
+
 /**
  * Render an image block
+ * - If svg is provided (local SVG), insert it as vectors with figma.createNodeFromSvg
  * - If dataBase64 is provided (local image), decode and use figma.createImage
  * - If source is "remote", fetch bytes then try figma.createImage
  * - Otherwise, fall back to placeholder
  *
- * Supported formats: PNG, JPEG, GIF (per Figma's createImage API)
+ * Supported raster formats: PNG, JPEG, GIF (per Figma's createImage API);
+ * the CLI converts local WebP and AVIF files to PNG
  */
 export async function renderImage(
   image: ImageBlockData,
@@ -939,6 +1122,10 @@ export async function renderImage(
   y?: number,
 ): Promise<FrameNode> {
   try {
+    if (image.svg) {
+      return renderSvgImage(image.svg, image, x, y);
+    }
+
     let imageData: Image | null = null;
 
     if (image.dataBase64) {
@@ -958,38 +1145,7 @@ export async function renderImage(
       const naturalSize = await imageData.getSizeAsync();
 
       // Calculate target size based on user specification or defaults
-      let width: number;
-      let height: number;
-
-      if (image.size?.width && image.size?.height) {
-        // Both dimensions specified - use as-is
-        width = image.size.width;
-        height = image.size.height;
-      } else if (image.size?.width) {
-        // Width only - calculate height from aspect ratio
-        const ratio = naturalSize.height / naturalSize.width;
-        width = image.size.width;
-        height = Math.round(width * ratio);
-      } else if (image.size?.height) {
-        // Height only - calculate width from aspect ratio
-        const ratio = naturalSize.width / naturalSize.height;
-        height = image.size.height;
-        width = Math.round(height * ratio);
-      } else {
-        // No size specified - apply max constraints
-        width = naturalSize.width;
-        height = naturalSize.height;
-        const maxWidth = MAX_PREVIEW_WIDTH;
-        const maxHeight = MAX_PREVIEW_HEIGHT;
-
-        if (width > maxWidth || height > maxHeight) {
-          const scaleX = maxWidth / width;
-          const scaleY = maxHeight / height;
-          const scale = Math.min(scaleX, scaleY);
-          width = Math.round(width * scale);
-          height = Math.round(height * scale);
-        }
-      }
+      const { width, height } = getImageSize(naturalSize, image.size);
 
       // Create frame with image fill
       const frame = figma.createFrame();
@@ -1210,9 +1366,11 @@ async function updateTextLayerByName(
 
 /**
  * Render a Figma selection link
- * If the node exists in the same file, clone it as a preview
+ * If the node exists in the same file, clone it as a preview; components
+ * and component sets are placed as instances
  * Otherwise, show a card with a link
- * Supports text layer overrides in cloned components via textOverrides
+ * Supports variant and property overrides on instances, and text layer
+ * overrides in cloned components via textOverrides
  */
 export async function renderFigmaLink(
   link: FigmaSelectionLink,
@@ -1230,8 +1388,14 @@ export async function renderFigmaLink(
       const targetNode = await figma.getNodeByIdAsync(link.nodeId);
 
       if (targetNode && "clone" in targetNode) {
-        // Clone the node for preview
-        const clonedNode = (targetNode as SceneNode).clone();
+        // Place components as instances; clone other nodes for preview
+        const clonedNode =
+          createComponentInstance(targetNode) ??
+          (targetNode as SceneNode).clone();
+
+        // Set variants and component properties before text, since
+        // switching variants can reset text layers
+        await applyInstanceOverrides(clonedNode, link);
 
         // Update text layers if textOverrides are provided
         if (link.textOverrides) {
@@ -1433,9 +1597,13 @@ const TABLE_LAYOUT = {
 
 /**
  * Normalize column widths across all rows in a table
- * Finds the maximum width for each column and applies it to all cells
+ * Finds the maximum width for each column and applies it to all cells.
+ * Columns with an explicit width use it instead, wrapping their text.
  */
-function normalizeColumnWidths(tableFrame: FrameNode): void {
+function normalizeColumnWidths(
+  tableFrame: FrameNode,
+  columnWidths?: number[],
+): void {
   const rows = tableFrame.children as FrameNode[];
   if (rows.length === 0) return;
 
@@ -1459,8 +1627,22 @@ function normalizeColumnWidths(tableFrame: FrameNode): void {
   for (const row of rows) {
     const cells = row.children as FrameNode[];
     for (let i = 0; i < cells.length && i < numColumns; i++) {
+      const fixedWidth = columnWidths?.[i];
       cells[i].layoutSizingHorizontal = "FIXED";
-      cells[i].resize(maxWidths[i], cells[i].height);
+      cells[i].resize(fixedWidth ?? maxWidths[i], cells[i].height);
+      if (fixedWidth !== undefined) {
+        const textWidth = Math.max(
+          1,
+          fixedWidth - cells[i].paddingLeft - cells[i].paddingRight,
+        );
+        for (const child of cells[i].children) {
+          if (child.type === "TEXT") {
+            child.layoutSizingHorizontal = "FIXED";
+            child.textAutoResize = "HEIGHT";
+            child.resize(textWidth, child.height);
+          }
+        }
+      }
     }
   }
 }
@@ -1468,23 +1650,29 @@ function normalizeColumnWidths(tableFrame: FrameNode): void {
 /**
  * Create a table cell frame with consistent styling
  */
-function createTableCell(name: string, showLeftBorder: boolean): FrameNode {
+function createTableCell(
+  name: string,
+  showLeftBorder: boolean,
+  padding: number,
+  borderColor: PaintColor,
+  borderWidth: number,
+): FrameNode {
   const cell = figma.createFrame();
   cell.name = name;
   cell.layoutMode = "HORIZONTAL";
   cell.primaryAxisSizingMode = "AUTO";
   cell.counterAxisSizingMode = "AUTO";
-  cell.paddingLeft = TABLE_LAYOUT.CELL_PADDING;
-  cell.paddingRight = TABLE_LAYOUT.CELL_PADDING;
-  cell.paddingTop = TABLE_LAYOUT.CELL_PADDING;
-  cell.paddingBottom = TABLE_LAYOUT.CELL_PADDING;
+  cell.paddingLeft = padding;
+  cell.paddingRight = padding;
+  cell.paddingTop = padding;
+  cell.paddingBottom = padding;
   cell.fills = [];
 
-  if (showLeftBorder) {
-    cell.strokes = [{ type: "SOLID", color: TABLE_LAYOUT.BORDER_COLOR }];
-    cell.strokeWeight = TABLE_LAYOUT.BORDER_WIDTH;
+  if (showLeftBorder && borderWidth > 0) {
+    cell.strokes = [createSolidPaint(borderColor)];
+    cell.strokeWeight = borderWidth;
     cell.strokeAlign = "INSIDE";
-    cell.strokeLeftWeight = TABLE_LAYOUT.BORDER_WIDTH;
+    cell.strokeLeftWeight = borderWidth;
     cell.strokeRightWeight = 0;
     cell.strokeTopWeight = 0;
     cell.strokeBottomWeight = 0;
@@ -1499,7 +1687,9 @@ function createTableCell(name: string, showLeftBorder: boolean): FrameNode {
 function createTableRow(
   name: string,
   isBodyRow: boolean,
-  bgColor?: RGB,
+  borderColor: PaintColor,
+  borderWidth: number,
+  bgColor?: PaintColor,
 ): FrameNode {
   const row = figma.createFrame();
   row.name = name;
@@ -1507,13 +1697,13 @@ function createTableRow(
   row.primaryAxisSizingMode = "AUTO";
   row.counterAxisSizingMode = "AUTO";
   row.itemSpacing = 0;
-  row.fills = bgColor ? [{ type: "SOLID", color: bgColor }] : [];
+  row.fills = bgColor ? [createSolidPaint(bgColor)] : [];
 
-  if (isBodyRow) {
-    row.strokes = [{ type: "SOLID", color: TABLE_LAYOUT.BORDER_COLOR }];
-    row.strokeWeight = TABLE_LAYOUT.BORDER_WIDTH;
+  if (isBodyRow && borderWidth > 0) {
+    row.strokes = [createSolidPaint(borderColor)];
+    row.strokeWeight = borderWidth;
     row.strokeAlign = "INSIDE";
-    row.strokeTopWeight = TABLE_LAYOUT.BORDER_WIDTH;
+    row.strokeTopWeight = borderWidth;
     row.strokeBottomWeight = 0;
     row.strokeLeftWeight = 0;
     row.strokeRightWeight = 0;
@@ -1537,6 +1727,8 @@ function toFigmaAlignment(
 
 /**
  * Render a table block
+ * `tableStyle` overrides the built-in colors, borders, padding and column
+ * widths; body rows alternate with `stripeBackground` when it is set.
  */
 export async function renderTable(
   headers: TextSpan[][],
@@ -1547,7 +1739,13 @@ export async function renderTable(
   x?: number,
   y?: number,
   font?: ResolvedFontName,
+  tableStyle: ResolvedTableStyle = {},
 ): Promise<FrameNode> {
+  const padding = tableStyle.padding ?? TABLE_LAYOUT.CELL_PADDING;
+  const borderColor: PaintColor =
+    tableStyle.borderColor ?? TABLE_LAYOUT.BORDER_COLOR;
+  const borderWidth = tableStyle.borderWidth ?? TABLE_LAYOUT.BORDER_WIDTH;
+
   const tableFrame = figma.createFrame();
   tableFrame.name = "Table";
   tableFrame.layoutMode = "VERTICAL";
@@ -1555,8 +1753,10 @@ export async function renderTable(
   tableFrame.counterAxisSizingMode = "AUTO";
   tableFrame.itemSpacing = 0;
   tableFrame.fills = [];
-  tableFrame.strokes = [{ type: "SOLID", color: TABLE_LAYOUT.BORDER_COLOR }];
-  tableFrame.strokeWeight = TABLE_LAYOUT.BORDER_WIDTH;
+  if (borderWidth > 0) {
+    tableFrame.strokes = [createSolidPaint(borderColor)];
+    tableFrame.strokeWeight = borderWidth;
+  }
   tableFrame.cornerRadius = 4;
   tableFrame.clipsContent = true;
   if (x !== undefined) tableFrame.x = x;
@@ -1576,15 +1776,23 @@ export async function renderTable(
     const headerRow = createTableRow(
       "Header Row",
       false,
-      TABLE_LAYOUT.HEADER_BG,
+      borderColor,
+      borderWidth,
+      tableStyle.headerBackground ?? TABLE_LAYOUT.HEADER_BG,
     );
 
     for (let i = 0; i < headers.length; i++) {
-      const cell = createTableCell(`Header ${i}`, i > 0);
+      const cell = createTableCell(
+        `Header ${i}`,
+        i > 0,
+        padding,
+        borderColor,
+        borderWidth,
+      );
       const textNode = await renderSpansToText(
         headers[i],
         baseSize,
-        baseFills,
+        tableStyle.headerFills ?? baseFills,
         tableFont,
       );
       textNode.fontName = { family: tableFont.family, style: tableFont.bold };
@@ -1599,10 +1807,23 @@ export async function renderTable(
   // Render body rows
   for (let rowIdx = 0; rowIdx < rows.length; rowIdx++) {
     const row = rows[rowIdx];
-    const rowFrame = createTableRow(`Row ${rowIdx}`, true);
+    const striped = rowIdx % 2 === 1 && tableStyle.stripeBackground;
+    const rowFrame = createTableRow(
+      `Row ${rowIdx}`,
+      true,
+      borderColor,
+      borderWidth,
+      striped ? tableStyle.stripeBackground : tableStyle.background,
+    );
 
     for (let i = 0; i < row.length; i++) {
-      const cell = createTableCell(`Cell ${rowIdx}-${i}`, i > 0);
+      const cell = createTableCell(
+        `Cell ${rowIdx}-${i}`,
+        i > 0,
+        padding,
+        borderColor,
+        borderWidth,
+      );
       const textNode = await renderSpansToText(
         row[i],
         baseSize,
@@ -1618,7 +1839,7 @@ export async function renderTable(
   }
 
   // Normalize column widths across all rows
-  normalizeColumnWidths(tableFrame);
+  normalizeColumnWidths(tableFrame, tableStyle.columnWidths);
 
   return tableFrame;
 }
@@ -1631,22 +1852,72 @@ const CODE_LAYOUT = {
   CORNER_RADIUS: 8,
   PADDING_X: 20,
   PADDING_Y: 16,
+  /** Gap between the line number gutter and the code */
+  GUTTER_GAP: 16,
+  /** Opacity of line numbers and dimmed lines */
+  MUTED_OPACITY: 0.4,
+  /** Title tab padding and text scale relative to the code size */
+  TITLE_PADDING_X: 16,
+  TITLE_PADDING_Y: 8,
+  TITLE_SCALE: 0.85,
 } as const;
 
+/**
+ * Code block content with the options from the fence meta
+ */
+export interface CodeBlockContent {
+  language?: string;
+  code: string;
+  highlightLines?: number[];
+  dimUnhighlighted?: boolean;
+  title?: string;
+  showLineNumbers?: boolean;
+  tokens?: CodeToken[];
+}
+
+/**
+ * Check whether a background is light, to pick a contrasting band color
+ */
+function isLightColor(color: RGB): boolean {
+  return 0.299 * color.r + 0.587 * color.g + 0.114 * color.b > 0.5;
+}
+
+/**
+ * Group sorted line numbers into runs of consecutive lines
+ */
+function groupLineRuns(lines: number[]): Array<{ start: number; end: number }> {
+  const runs: Array<{ start: number; end: number }> = [];
+  for (const line of lines) {
+    const last = runs[runs.length - 1];
+    if (last && line === last.end + 1) {
+      last.end = line;
+    } else {
+      runs.push({ start: line, end: line });
+    }
+  }
+  return runs;
+}
+
 /**
  * Render a code block with syntax highlighting
+ * `palette` overrides the built-in background and token colors.
+ * Highlighted lines get a background band, and the title becomes a header
+ * tab above the code frame.
  * Returns BlockRenderResult for consistency with other block renderers
  */
 export function renderCodeBlock(
-  codeBlock: { language?: string; code: string },
+  codeBlock: CodeBlockContent,
   codeSize: number,
   x: number,
   y: number,
   font?: ResolvedFontName,
+  palette?: ResolvedCodePalette,
 ): BlockRenderResult {
+  const name = codeBlock.language ? `Code (${codeBlock.language})` : "Code";
+  const background = palette?.background ?? CODE_LAYOUT.BG_COLOR;
   const codeFrame = figma.createFrame();
-  codeFrame.name = codeBlock.language ? `Code (${codeBlock.language})` : "Code";
-  codeFrame.fills = [{ type: "SOLID", color: CODE_LAYOUT.BG_COLOR }];
+  codeFrame.name = name;
+  codeFrame.fills = [createSolidPaint(background)];
   codeFrame.cornerRadius = CODE_LAYOUT.CORNER_RADIUS;
   codeFrame.paddingLeft = CODE_LAYOUT.PADDING_X;
   codeFrame.paddingRight = CODE_LAYOUT.PADDING_X;
@@ -1661,26 +1932,133 @@ export function renderCodeBlock(
   codeText.fontName = { family: codeFont.family, style: codeFont.regular };
   codeText.fontSize = codeSize;
 
-  const segments = highlightCode(codeBlock.code, codeBlock.language);
+  const segments = codeBlock.tokens
+    ? colorTokens(codeBlock.tokens, palette?.colors)
+    : highlightCode(codeBlock.code, codeBlock.language, palette?.colors);
 
   const fullText = segments.map((s) => s.text).join("");
   codeText.characters = fullText;
 
+  const highlighted = new Set(codeBlock.highlightLines || []);
+  const dimmed = (line: number) =>
+    codeBlock.dimUnhighlighted === true &&
+    highlighted.size > 0 &&
+    !highlighted.has(line);
+
+  // Apply token colors line by line so unhighlighted lines can be dimmed
   let charIndex = 0;
+  let line = 1;
   for (const segment of segments) {
-    if (segment.text.length > 0) {
-      codeText.setRangeFills(charIndex, charIndex + segment.text.length, [
-        { type: "SOLID", color: segment.color },
-      ]);
-      charIndex += segment.text.length;
+    const pieces = segment.text.split("\n");
+    for (let i = 0; i < pieces.length; i++) {
+      if (i > 0) {
+        charIndex += 1; // newline
+        line++;
+      }
+      const length = pieces[i].length;
+      if (length > 0) {
+        codeText.setRangeFills(charIndex, charIndex + length, [
+          createSolidPaint(
+            segment.color,
+            dimmed(line) ? CODE_LAYOUT.MUTED_OPACITY : 1,
+          ),
+        ]);
+        charIndex += length;
+      }
     }
   }
+  const lineCount = line;
+
+  if (codeBlock.showLineNumbers) {
+    codeFrame.layoutMode = "HORIZONTAL";
+    codeFrame.itemSpacing = CODE_LAYOUT.GUTTER_GAP;
+    const gutter = figma.createText();
+    gutter.name = "line numbers";
+    gutter.fontName = codeText.fontName;
+    gutter.fontSize = codeSize;
+    const numbers: string[] = [];
+    for (let i = 1; i <= lineCount; i++) numbers.push(String(i));
+    gutter.characters = numbers.join("\n");
+    gutter.textAlignHorizontal = "RIGHT";
+    gutter.fills = [
+      createSolidPaint(
+        palette?.colors.default ?? THEME_COLORS.default,
+        CODE_LAYOUT.MUTED_OPACITY,
+      ),
+    ];
+    codeFrame.appendChild(gutter);
+  }
 
   codeFrame.appendChild(codeText);
-  codeFrame.x = x;
-  codeFrame.y = y;
 
-  return { node: codeFrame, height: codeFrame.height };
+  // Bands behind highlighted lines, positioned from the measured line height
+  if (highlighted.size > 0) {
+    const lineHeight = codeText.height / lineCount;
+    const light = isLightColor(getPaintRGB(background));
+    const runs = groupLineRuns(Array.from(highlighted).sort((a, b) => a - b));
+    for (const run of runs) {
+      const band = figma.createRectangle();
+      band.name = `highlight ${run.start === run.end ? run.start : `${run.start}-${run.end}`}`;
+      band.fills = [
+        {
+          type: "SOLID",
+          color: light ? { r: 0, g: 0, b: 0 } : { r: 1, g: 1, b: 1 },
+          opacity: light ? 0.06 : 0.1,
+        },
+      ];
+      codeFrame.insertChild(0, band);
+      band.layoutPositioning = "ABSOLUTE";
+      band.x = 0;
+      band.y = codeFrame.paddingTop + (run.start - 1) * lineHeight;
+      band.resize(codeFrame.width, (run.end - run.start + 1) * lineHeight);
+    }
+  }
+
+  if (!codeBlock.title) {
+    codeFrame.x = x;
+    codeFrame.y = y;
+    return { node: codeFrame, height: codeFrame.height };
+  }
+
+  // Title tab attached to the top-left of the code frame
+  const container = figma.createFrame();
+  container.name = name;
+  container.layoutMode = "VERTICAL";
+  container.primaryAxisSizingMode = "AUTO";
+  container.counterAxisSizingMode = "AUTO";
+  container.itemSpacing = 0;
+  container.fills = [];
+
+  const tab = figma.createFrame();
+  tab.name = "title";
+  tab.layoutMode = "HORIZONTAL";
+  tab.primaryAxisSizingMode = "AUTO";
+  tab.counterAxisSizingMode = "AUTO";
+  tab.paddingLeft = CODE_LAYOUT.TITLE_PADDING_X;
+  tab.paddingRight = CODE_LAYOUT.TITLE_PADDING_X;
+  tab.paddingTop = CODE_LAYOUT.TITLE_PADDING_Y;
+  tab.paddingBottom = CODE_LAYOUT.TITLE_PADDING_Y;
+  tab.fills = [createSolidPaint(background)];
+  tab.topLeftRadius = CODE_LAYOUT.CORNER_RADIUS;
+  tab.topRightRadius = CODE_LAYOUT.CORNER_RADIUS;
+
+  const titleText = figma.createText();
+  titleText.fontName = codeText.fontName;
+  titleText.fontSize = codeSize * CODE_LAYOUT.TITLE_SCALE;
+  titleText.characters = codeBlock.title;
+  titleText.fills = [
+    createSolidPaint(palette?.colors.default ?? THEME_COLORS.default, 0.7),
+  ];
+  tab.appendChild(titleText);
+
+  codeFrame.name = "code";
+  codeFrame.topLeftRadius = 0;
+  container.appendChild(tab);
+  container.appendChild(codeFrame);
+  container.x = x;
+  container.y = y;
+
+  return { node: container, height: container.height };
 }
 
 /**
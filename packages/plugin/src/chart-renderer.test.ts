@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+import type { Chart } from "@figdeck/shared";
+import { renderChart } from "./chart-renderer";
+import { createTextStyle, installFigmaMock, type MockNode } from "./test-utils";
+
+beforeEach(() => {
+  installFigmaMock();
+});
+
+const style = createTextStyle({
+  fills: [{ type: "SOLID", color: { r: 0.2, g: 0.2, b: 0.2 } }],
+});
+
+function childrenOfType(frame: MockNode, type: string): MockNode[] {
+  return frame.children.filter((child) => child.type === type);
+}
+
+describe("renderChart", () => {
+  it("renders bars, axis labels and a legend for bar charts", async () => {
+    const chart: Chart = {
+      type: "bar",
+      title: "Sales",
+      labels: ["Q1", "Q2"],
+      series: [
+        { name: "2024", values: [10, 20] },
+        { name: "2025", values: [15, 25] },
+      ],
+      colors: ["#ff0000"],
+    };
+
+    const frame = (await renderChart(
+      chart,
+      style,
+      10,
+      20,
+    )) as unknown as MockNode;
+
+    expect(frame.name).toBe("Chart (bar)");
+    expect(frame.x).toBe(10);
+    expect(frame.y).toBe(20);
+    const bars = childrenOfType(frame, "RECTANGLE").filter((node) =>
+      node.name.startsWith("Bar:"),
+    );
+    expect(bars.map((bar) => bar.name)).toEqual([
+      "Bar: 2024 / Q1",
+      "Bar: 2024 / Q2",
+      "Bar: 2025 / Q1",
+      "Bar: 2025 / Q2",
+    ]);
+    expect(bars[0].fills).toEqual([
+      { type: "SOLID", color: { r: 1, g: 0, b: 0 } },
+    ]);
+
+    const texts = childrenOfType(frame, "TEXT").map((node) => node.characters);
+    expect(texts).toContain("Sales");
+    expect(texts).toContain("Q1");
+    expect(texts).toContain("2025");
+    expect(
+      childrenOfType(frame, "VECTOR").some((node) => node.name === "Axis"),
+    ).toBe(true);
+  });
+
+  it("renders line charts as a stroked vector with point markers", async () => {
+    const chart: Chart = {
+      type: "line",
+      labels: ["Mon", "Tue", "Wed"],
+      series: [{ name: "Visitors", values: [3, 5, 4] }],
+    };
+
+    const frame = (await renderChart(chart, style)) as unknown as MockNode;
+
+    const line = frame.children.find((node) => node.name === "Line: Visitors");
+    expect(line?.type).toBe("VECTOR");
+    expect(line?.strokeWeight).toBe(3);
+    const paths = line?.vectorPaths as Array<{ data: string }>;
+    expect(paths[0].data.match(/[ML]/g)).toEqual(["M", "L", "L"]);
+    expect(childrenOfType(frame, "ELLIPSE")).toHaveLength(3);
+    // A single series has no legend
+    expect(childrenOfType(frame, "RECTANGLE")).toHaveLength(0);
+  });
+
+  it("renders donut slices as ellipse arcs with an inner radius", async () => {
+    const chart: Chart = {
+      type: "donut",
+      labels: ["A", "B"],
+      series: [{ name: "Share", values: [1, 3] }],
+    };
+
+    const frame = (await renderChart(chart, style)) as unknown as MockNode;
+
+    const slices = childrenOfType(frame, "ELLIPSE");
+    expect(slices.map((slice) => slice.name)).toEqual(["Slice: A", "Slice: B"]);
+    const arc = slices[0].arcData as {
+      startingAngle: number;
+      endingAngle: number;
+      innerRadius: number;
+    };
+    expect(arc.startingAngle).toBeCloseTo(-Math.PI / 2);
+    expect(arc.endingAngle).toBeCloseTo(0);
+    expect(arc.innerRadius).toBeCloseTo(0.6);
+    expect(
+      childrenOfType(frame, "RECTANGLE").map((swatch) => swatch.name),
+    ).toEqual(["Legend: A", "Legend: B"]);
+  });
+
+  it("falls back to Inter when the deck font cannot be loaded", async () => {
+    const loadFontAsync = mock(async (font: FontName) => {
+      if (font.family !== "Inter") throw new Error("missing font");
+    });
+    installFigmaMock({ loadFontAsync });
+    const chart: Chart = {
+      type: "pie",
+      labels: ["A"],
+      series: [{ name: "Share", values: [1] }],
+    };
+
+    const frame = (await renderChart(chart, {
+      ...style,
+      font: { ...style.font, family: "Missing" },
+    })) as unknown as MockNode;
+
+    const label = childrenOfType(frame, "TEXT")[0];
+    expect(label.fontName).toEqual({ family: "Inter", style: "Regular" });
+  });
+});
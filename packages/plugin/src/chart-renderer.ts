@@ -0,0 +1,262 @@
+import type { Chart, ChartLabel } from "@figdeck/shared";
+import { CHART_LAYOUT, getChartColor, planChart } from "@figdeck/shared";
+import {
+  createDefaultTextFill,
+  createSolidPaint,
+  resolveColor,
+} from "./colors";
+import type { ResolvedTextStyle } from "./styles";
+
+const LINE_STROKE_WEIGHT = 3;
+const POINT_SIZE = 10;
+const GRID_OPACITY = 0.15;
+const AXIS_OPACITY = 0.5;
+
+/**
+ * Solid paint for a series or slice color
+ */
+function createSeriesFill(chart: Chart, index: number): SolidPaint {
+  const color = resolveColor(getChartColor(chart, index));
+  // Series colors are opaque; the alpha of rgba() settings is ignored
+  return color?.variable
+    ? createSolidPaint(color, 1)
+    : createSolidPaint(color?.color ?? { r: 0.5, g: 0.5, b: 0.5 });
+}
+
+/**
+ * The chart text color at a reduced opacity, for grid and axis lines
+ */
+function fadePaint(paint: Paint[], opacity: number): Paint[] {
+  const base = paint[0];
+  if (!base || base.type !== "SOLID") return paint;
+  // Keeps the variable binding of the text color
+  return [Object.assign({}, base, { opacity })];
+}
+
+/**
+ * Create a text label anchored at its planned position
+ */
+function createChartLabel(
+  label: ChartLabel,
+  fontName: FontName,
+  paint: Paint[],
+): TextNode {
+  const text = figma.createText();
+  text.name = label.text;
+  text.fontName = fontName;
+  text.fontSize = CHART_LAYOUT.FONT_SIZE;
+  text.characters = label.text;
+  text.fills = paint;
+  const offset =
+    label.align === "center"
+      ? text.width / 2
+      : label.align === "right"
+        ? text.width
+        : 0;
+  text.x = label.x - offset;
+  text.y = label.y - text.height / 2;
+  return text;
+}
+
+/**
+ * Create a straight line as a vector
+ */
+function createLine(
+  name: string,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  paint: Paint[],
+  weight = 1,
+): VectorNode {
+  const line = figma.createVector();
+  line.name = name;
+  line.x = Math.min(from.x, to.x);
+  line.y = Math.min(from.y, to.y);
+  line.vectorPaths = [
+    {
+      windingRule: "NONE",
+      data: `M ${from.x - line.x} ${from.y - line.y} L ${to.x - line.x} ${to.y - line.y}`,
+    },
+  ];
+  line.fills = [];
+  line.strokes = paint;
+  line.strokeWeight = weight;
+  return line;
+}
+
+/**
+ * Load the regular and bold label fonts, falling back to Inter
+ */
+async function loadChartFonts(
+  style: ResolvedTextStyle,
+): Promise<{ regular: FontName; bold: FontName }> {
+  const regular: FontName = {
+    family: style.font.family,
+    style: style.font.regular,
+  };
+  const bold: FontName = { family: style.font.family, style: style.font.bold };
+  try {
+    await figma.loadFontAsync(regular);
+  } catch {
+    const fallback: FontName = { family: "Inter", style: "Regular" };
+    await figma.loadFontAsync(fallback);
+    return { regular: fallback, bold: fallback };
+  }
+  try {
+    await figma.loadFontAsync(bold);
+    return { regular, bold };
+  } catch {
+    return { regular, bold: regular };
+  }
+}
+
+/**
+ * Render a chart as rectangles, vectors, ellipse arcs and text that stay
+ * editable in Figma. Labels, axes and grid lines use the paragraph color and
+ * font; series and slices use the chart colors, then the built-in palette.
+ */
+export async function renderChart(
+  chart: Chart,
+  style: ResolvedTextStyle,
+  x?: number,
+  y?: number,
+): Promise<FrameNode> {
+  const paint = style.fills ?? createDefaultTextFill();
+  const fonts = await loadChartFonts(style);
+  const plan = planChart(chart);
+
+  const frame = figma.createFrame();
+  frame.name = `Chart (${chart.type})`;
+  frame.resize(plan.width, plan.height);
+  frame.fills = [];
+  frame.clipsContent = false;
+
+  if (plan.title) {
+    const title = createChartLabel(plan.title, fonts.bold, paint);
+    title.name = "Title";
+    frame.appendChild(title);
+  }
+
+  const plot = plan.plot;
+  if (plot) {
+    for (const tick of plan.ticks) {
+      frame.appendChild(
+        createLine(
+          `Grid: ${tick.label.text}`,
+          { x: plot.x, y: tick.y },
+          { x: plot.x + plot.width, y: tick.y },
+          fadePaint(paint, GRID_OPACITY),
+        ),
+      );
+      frame.appendChild(createChartLabel(tick.label, fonts.regular, paint));
+    }
+    if (plan.baseline !== undefined) {
+      frame.appendChild(
+        createLine(
+          "Axis",
+          { x: plot.x, y: plan.baseline },
+          { x: plot.x + plot.width, y: plan.baseline },
+          fadePaint(paint, AXIS_OPACITY),
+          2,
+        ),
+      );
+    }
+    for (const category of plan.categories) {
+      frame.appendChild(createChartLabel(category, fonts.regular, paint));
+    }
+  }
+
+  for (const bar of plan.bars) {
+    const rect = figma.createRectangle();
+    rect.name = `Bar: ${chart.series[bar.series].name} / ${chart.labels[bar.index]}`;
+    rect.x = bar.x;
+    rect.y = bar.y;
+    rect.resize(Math.max(0.01, bar.width), Math.max(0.01, bar.height));
+    rect.fills = [createSeriesFill(chart, bar.series)];
+    frame.appendChild(rect);
+  }
+
+  for (const line of plan.lines) {
+    const fill = createSeriesFill(chart, line.series);
+    const name = chart.series[line.series].name;
+    if (line.points.length > 1) {
+      const minX = Math.min(...line.points.map((point) => point.x));
+      const minY = Math.min(...line.points.map((point) => point.y));
+      const vector = figma.createVector();
+      vector.name = `Line: ${name}`;
+      vector.x = minX;
+      vector.y = minY;
+      vector.vectorPaths = [
+        {
+          windingRule: "NONE",
+          data: line.points
+            .map(
+              (point, index) =>
+                `${index === 0 ? "M" : "L"} ${point.x - minX} ${point.y - minY}`,
+            )
+            .join(" "),
+        },
+      ];
+      vector.fills = [];
+      vector.strokes = [fill];
+      vector.strokeWeight = LINE_STROKE_WEIGHT;
+      vector.strokeJoin = "ROUND";
+      frame.appendChild(vector);
+    }
+    line.points.forEach((point, index) => {
+      const marker = figma.createEllipse();
+      marker.name = `Point: ${name} / ${chart.labels[index]}`;
+      marker.resize(POINT_SIZE, POINT_SIZE);
+      marker.x = point.x - POINT_SIZE / 2;
+      marker.y = point.y - POINT_SIZE / 2;
+      marker.fills = [fill];
+      frame.appendChild(marker);
+    });
+  }
+
+  const pie = plan.pie;
+  if (pie) {
+    for (const slice of plan.slices) {
+      const ellipse = figma.createEllipse();
+      ellipse.name = `Slice: ${chart.labels[slice.index]}`;
+      ellipse.resize(pie.radius * 2, pie.radius * 2);
+      ellipse.x = pie.cx - pie.radius;
+      ellipse.y = pie.cy - pie.radius;
+      ellipse.arcData = {
+        startingAngle: slice.start,
+        endingAngle: slice.end,
+        innerRadius: pie.innerRadius / pie.radius,
+      };
+      ellipse.fills = [createSeriesFill(chart, slice.index)];
+      frame.appendChild(ellipse);
+    }
+  }
+
+  const swatchSize = CHART_LAYOUT.LEGEND_SWATCH_SIZE;
+  for (const entry of plan.legend) {
+    const swatch = figma.createRectangle();
+    swatch.name = `Legend: ${entry.text}`;
+    swatch.resize(swatchSize, swatchSize);
+    swatch.x = entry.x;
+    swatch.y = entry.y - swatchSize / 2;
+    swatch.cornerRadius = 3;
+    swatch.fills = [createSeriesFill(chart, entry.colorIndex)];
+    frame.appendChild(swatch);
+    frame.appendChild(
+      createChartLabel(
+        {
+          text: entry.text,
+          x: entry.x + swatchSize + CHART_LAYOUT.GAP / 2,
+          y: entry.y,
+          align: "left",
+        },
+        fonts.regular,
+        paint,
+      ),
+    );
+  }
+
+  if (x !== undefined) frame.x = x;
+  if (y !== undefined) frame.y = y;
+  return frame;
+}
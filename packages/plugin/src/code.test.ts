@@ -1,5 +1,5 @@
 import { beforeEach, describe, expect, it, mock } from "bun:test";
-import type { BulletItem } from "@figdeck/shared";
+import type { BulletItem, CodeToken, SlideContent } from "@figdeck/shared";
 
 // Mock for TextNode
 function createMockTextNode(overrides: Partial<TextNode> = {}): TextNode {
@@ -38,6 +38,8 @@ beforeEach(() => {
     showUI: mock(() => {}),
     ui: { postMessage: mock(() => {}), onmessage: null },
     notify: mock(() => {}),
+    loadAllPagesAsync: mock(async () => {}),
+    on: mock(() => {}),
   };
 });
 
@@ -74,6 +76,104 @@ describe("validateAndSanitizeSlides", () => {
     expect(result.slides[0].cover).toBeUndefined();
   });
 
+  it("keeps speaker notes when string", async () => {
+    const { validateAndSanitizeSlides } = await import("./code");
+
+    const result = validateAndSanitizeSlides([
+      {
+        notes: "Talk about the roadmap",
+        blocks: [{ kind: "paragraph", text: "Body" }],
+      },
+    ]);
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+
+    expect(result.slides[0].notes).toBe("Talk about the roadmap");
+  });
+
+  it("drops speaker notes when not a string", async () => {
+    const { validateAndSanitizeSlides } = await import("./code");
+
+    const result = validateAndSanitizeSlides([
+      {
+        notes: { text: "not allowed" },
+        blocks: [{ kind: "paragraph", text: "Body" }],
+      },
+    ]);
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+
+    expect(result.slides[0].notes).toBeUndefined();
+  });
+
+  it("keeps known layouts and drops unknown ones", async () => {
+    const { validateAndSanitizeSlides } = await import("./code");
+
+    const result = validateAndSanitizeSlides([
+      { layout: "image-left", blocks: [{ kind: "paragraph", text: "A" }] },
+      { layout: "sideways", blocks: [{ kind: "paragraph", text: "B" }] },
+    ]);
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+
+    expect(result.slides[0].layout).toBe("image-left");
+    expect(result.slides[1].layout).toBeUndefined();
+  });
+
+  it("keeps valid build steps and drops invalid ones", async () => {
+    const { validateAndSanitizeSlides } = await import("./code");
+
+    const result = validateAndSanitizeSlides([
+      { build: { step: 2, total: 3 }, blocks: [] },
+      { build: { step: 4, total: 3 }, blocks: [] },
+      { build: "1/2" as never, blocks: [] },
+    ]);
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+
+    expect(result.slides[0].build).toEqual({ step: 2, total: 3 });
+    expect(result.slides[1].build).toBeUndefined();
+    expect(result.slides[2].build).toBeUndefined();
+  });
+
+  it("keeps valid auto-fit settings", async () => {
+    const { validateAndSanitizeSlides } = await import("./code");
+
+    const result = validateAndSanitizeSlides([
+      { autoFit: { mode: "shrink", minScale: 0.7 }, blocks: [] },
+      { autoFit: { mode: "shrink", minScale: 5 }, blocks: [] },
+      { autoFit: { mode: "squeeze" } as never, blocks: [] },
+    ]);
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+
+    expect(result.slides[0].autoFit).toEqual({ mode: "shrink", minScale: 0.7 });
+    expect(result.slides[1].autoFit).toEqual({ mode: "shrink" });
+    expect(result.slides[2].autoFit).toBeUndefined();
+  });
+
+  it("keeps unique slide ids and drops duplicates", async () => {
+    const { validateAndSanitizeSlides } = await import("./code");
+
+    const result = validateAndSanitizeSlides([
+      { id: "intro", blocks: [{ kind: "paragraph", text: "A" }] },
+      { id: "intro", blocks: [{ kind: "paragraph", text: "B" }] },
+      { id: 42, blocks: [{ kind: "paragraph", text: "C" }] },
+    ]);
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+
+    expect(result.slides[0].id).toBe("intro");
+    expect(result.slides[1].id).toBeUndefined();
+    expect(result.slides[2].id).toBeUndefined();
+  });
+
   it("preserves BulletItem hierarchy while sanitizing text", async () => {
     const { validateAndSanitizeSlides } = await import("./code");
 
@@ -148,6 +248,169 @@ describe("validateAndSanitizeSlides", () => {
     expect(bulletItems[0].childrenStart).toBe(4);
   });
 
+  it("keeps boolean task list states", async () => {
+    const { validateAndSanitizeSlides } = await import("./code");
+
+    const result = validateAndSanitizeSlides([
+      {
+        blocks: [
+          {
+            kind: "bullets",
+            items: [
+              { text: "Done", checked: true },
+              { text: "Plain", checked: "yes" as never },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+
+    const block = result.slides[0].blocks[0];
+    if (block.kind !== "bullets") return;
+
+    const bulletItems = block.items as BulletItem[];
+    expect(bulletItems[0].checked).toBe(true);
+    expect(bulletItems[1].checked).toBeUndefined();
+  });
+
+  it("keeps valid diagrams and drops malformed ones", async () => {
+    const { validateAndSanitizeSlides } = await import("./code");
+
+    const diagram = {
+      type: "flowchart",
+      width: 300,
+      height: 60,
+      nodes: [
+        {
+          id: "A",
+          label: "A",
+          shape: "rect",
+          x: 0,
+          y: 0,
+          width: 120,
+          height: 56,
+        },
+        {
+          id: "B",
+          label: "B",
+          shape: "blob",
+          x: 180,
+          y: 0,
+          width: 120,
+          height: 56,
+        },
+      ],
+      edges: [
+        {
+          from: "A",
+          to: "B",
+          line: "solid",
+          arrow: true,
+          points: [
+            { x: 120, y: 28 },
+            { x: 180, y: 28 },
+          ],
+        },
+        { from: "A", to: "B", line: "solid", arrow: true, points: [] },
+      ],
+    };
+
+    const result = validateAndSanitizeSlides([
+      {
+        blocks: [
+          { kind: "diagram", diagram: diagram as never },
+          { kind: "diagram", diagram: { type: "gantt" } as never },
+        ],
+      },
+    ]);
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+
+    expect(result.slides[0].blocks).toHaveLength(1);
+    const block = result.slides[0].blocks[0];
+    if (block.kind !== "diagram") throw new Error("expected diagram");
+    expect(block.diagram.nodes.map((node) => node.id)).toEqual(["A"]);
+    expect(block.diagram.edges).toHaveLength(1);
+  });
+
+  it("keeps valid charts and drops malformed series", async () => {
+    const { validateAndSanitizeSlides } = await import("./code");
+
+    const result = validateAndSanitizeSlides([
+      {
+        blocks: [
+          {
+            kind: "chart",
+            chart: {
+              type: "bar",
+              labels: ["Q1", "Q2"],
+              series: [
+                { name: "Sales", values: [10, 20, 30] },
+                { name: "Broken", values: ["10", 20] },
+              ],
+            } as never,
+          },
+          {
+            kind: "chart",
+            chart: { type: "radar", labels: ["A"], series: [] } as never,
+          },
+        ],
+      },
+    ]);
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+
+    expect(result.slides[0].blocks).toHaveLength(1);
+    const block = result.slides[0].blocks[0];
+    if (block.kind !== "chart") throw new Error("expected chart");
+    expect(block.chart.series).toEqual([{ name: "Sales", values: [10, 20] }]);
+  });
+
+  it("keeps valid math and drops malformed formulas", async () => {
+    const { validateAndSanitizeSlides } = await import("./code");
+
+    const math = {
+      svg: '<svg viewBox="0 -750 1000 1000"></svg>',
+      width: 1,
+      height: 1,
+      depth: 0.25,
+    };
+
+    const result = validateAndSanitizeSlides([
+      {
+        blocks: [
+          { kind: "math", tex: "x", math },
+          { kind: "math", tex: "y", math: { svg: "<script>" } as never },
+          {
+            kind: "paragraph",
+            text: "a x",
+            spans: [
+              { text: "a " },
+              { text: "x", math },
+              { text: "y", math: { ...math, width: "wide" } as never },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+
+    const [mathBlock, paragraph] = result.slides[0].blocks;
+    expect(result.slides[0].blocks).toHaveLength(2);
+    if (mathBlock.kind !== "math") throw new Error("expected math");
+    expect(mathBlock.math).toEqual(math);
+    if (paragraph.kind !== "paragraph") throw new Error("expected paragraph");
+    expect(paragraph.spans?.[1].math).toEqual(math);
+    expect(paragraph.spans?.[2].math).toBeUndefined();
+  });
+
   it("rejects figma blocks with invalid URLs", async () => {
     const { validateAndSanitizeSlides } = await import("./code");
 
@@ -192,6 +455,39 @@ describe("validateAndSanitizeSlides", () => {
     expect(result.slides[0].blocks[0].kind).toBe("figma");
   });
 
+  it("keeps string component overrides on figma blocks", async () => {
+    const { validateAndSanitizeSlides } = await import("./code");
+
+    const result = validateAndSanitizeSlides([
+      {
+        blocks: [
+          {
+            kind: "figma",
+            link: {
+              url: "https://www.figma.com/file/abc/Name?node-id=1-2",
+              component: { variants: { State: "Active", Size: 2 } },
+              nestedInstances: [
+                { path: ["Toolbar", "Button"], properties: { Label: "Save" } },
+                { path: [], variants: { State: "Hover" } },
+                { path: ["Icon"] },
+              ],
+            },
+          },
+        ],
+      },
+    ]);
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+
+    const block = result.slides[0].blocks[0];
+    if (block.kind !== "figma") throw new Error("expected figma block");
+    expect(block.link.component).toEqual({ variants: { State: "Active" } });
+    expect(block.link.nestedInstances).toEqual([
+      { path: ["Toolbar", "Button"], properties: { Label: "Save" } },
+    ]);
+  });
+
   it("limits TextSpan array length", async () => {
     const { validateAndSanitizeSlides } = await import("./code");
 
@@ -248,6 +544,219 @@ describe("validateAndSanitizeSlides", () => {
     // Should be limited to MAX_BULLET_ITEMS (100)
     expect(block.items.length).toBeLessThanOrEqual(100);
   });
+
+  it("keeps code tokens only when they match the code", async () => {
+    const { validateAndSanitizeSlides } = await import("./code");
+
+    const tokens = [
+      { text: "const", token: "keyword" },
+      { text: " a = ", token: "default" },
+      { text: "1", token: "number" },
+    ];
+    const code = (extra: Record<string, unknown>) =>
+      Object.assign({ kind: "code", code: "const a = 1" }, extra);
+
+    const result = validateAndSanitizeSlides([
+      {
+        blocks: [
+          code({ tokens }),
+          code({
+            tokens: [{ text: "const a = 1 and more", token: "default" }],
+          }),
+          code({ tokens: [{ text: "const a = 1", token: "unknown" }] }),
+          code({ tokens: [{ text: 1, token: "default" }] }),
+          code({ tokens: "const" }),
+          {
+            kind: "columns",
+            columns: [
+              [code({ tokens })],
+              [code({ tokens: [{ text: "x", token: "default" }] })],
+            ],
+          },
+        ],
+      },
+    ]);
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+
+    const blocks = result.slides[0].blocks;
+    expect(blocks.slice(0, 5).map((block) => "tokens" in block)).toEqual([
+      true,
+      false,
+      false,
+      false,
+      false,
+    ]);
+    if (blocks[0].kind !== "code") throw new Error("expected code block");
+    expect(blocks[0].tokens).toEqual(tokens as CodeToken[]);
+
+    const columns = blocks[5];
+    if (columns.kind !== "columns") throw new Error("expected columns");
+    expect(columns.columns.map((column) => "tokens" in column[0])).toEqual([
+      true,
+      false,
+    ]);
+  });
+
+  it("drops code tokens when the code is truncated", async () => {
+    const { validateAndSanitizeSlides } = await import("./code");
+
+    const long = "x".repeat(1_000_001);
+    const result = validateAndSanitizeSlides([
+      {
+        blocks: [
+          {
+            kind: "code",
+            code: long,
+            tokens: [{ text: long, token: "default" }],
+          },
+        ],
+      },
+    ]);
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    const block = result.slides[0].blocks[0];
+    if (block.kind !== "code") throw new Error("expected code block");
+    expect(block.tokens).toBeUndefined();
+  });
+});
+
+describe("applySlidePatch", () => {
+  const slideA: SlideContent = {
+    id: "a",
+    blocks: [{ kind: "paragraph", text: "A" }],
+  };
+  const slideB: SlideContent = {
+    id: "b",
+    blocks: [{ kind: "paragraph", text: "B" }],
+  };
+
+  it("applies added, changed, removed and moved slides", async () => {
+    const { applySlidePatch } = await import("./code");
+
+    const editedA: SlideContent = {
+      id: "a",
+      blocks: [{ kind: "paragraph", text: "A2" }],
+    };
+    const slideC: SlideContent = {
+      id: "c",
+      blocks: [{ kind: "paragraph", text: "C" }],
+    };
+
+    const result = applySlidePatch([slideA, slideB], {
+      order: ["c", "a"],
+      added: [slideC],
+      changed: [editedA],
+      removed: ["b"],
+    });
+
+    expect(result).toEqual([slideC, editedA]);
+  });
+
+  it("keeps unchanged slides from the base revision", async () => {
+    const { applySlidePatch } = await import("./code");
+
+    const result = applySlidePatch([slideA, slideB], {
+      order: ["b", "a"],
+      added: [],
+      changed: [],
+      removed: [],
+    });
+
+    expect(result).toEqual([slideB, slideA]);
+  });
+
+  it("returns null when the order references an unknown slide", async () => {
+    const { applySlidePatch } = await import("./code");
+
+    const result = applySlidePatch([slideA], {
+      order: ["a", "missing"],
+      added: [],
+      changed: [],
+      removed: [],
+    });
+
+    expect(result).toBeNull();
+  });
+});
+
+describe("getSlideKey", () => {
+  it("uses the slide id when present", async () => {
+    const { getSlideKey } = await import("./code");
+
+    expect(getSlideKey({ id: "intro", blocks: [] }, 3)).toBe("id:intro");
+  });
+
+  it("falls back to the index without an id", async () => {
+    const { getSlideKey } = await import("./code");
+
+    expect(getSlideKey({ blocks: [] }, 3)).toBe("index:3");
+  });
+});
+
+describe("getSlideTransition", () => {
+  it("returns the slide transition for regular slides", async () => {
+    const { getSlideTransition } = await import("./code");
+
+    expect(
+      getSlideTransition({ blocks: [], transition: { style: "dissolve" } }),
+    ).toEqual({ style: "dissolve" });
+  });
+
+  it("smart-animates later build steps", async () => {
+    const { getSlideTransition } = await import("./code");
+
+    expect(
+      getSlideTransition({
+        blocks: [],
+        build: { step: 2, total: 3 },
+        transition: { style: "dissolve", duration: 0.5 },
+      }),
+    ).toEqual({ style: "smart-animate", timing: "on-click", duration: 0.5 });
+  });
+});
+
+describe("reorderSlides", () => {
+  function createMockSlide(id: string): SlideNode {
+    return { id } as unknown as SlideNode;
+  }
+
+  it("moves managed slides into Markdown order", async () => {
+    const { reorderSlides } = await import("./code");
+
+    const a = createMockSlide("a");
+    const b = createMockSlide("b");
+    const other = createMockSlide("other");
+    const setSlideGrid = mock((_grid: SlideNode[][]) => {});
+    Object.assign((globalThis as { figma?: object }).figma ?? {}, {
+      getSlideGrid: () => [[a, other, b]],
+      setSlideGrid,
+    });
+
+    reorderSlides([b, a]);
+
+    expect(setSlideGrid).toHaveBeenCalledTimes(1);
+    const grid = setSlideGrid.mock.calls[0][0];
+    expect(grid[0].map((slide) => slide.id)).toEqual(["b", "other", "a"]);
+  });
+
+  it("does not touch the grid when order is unchanged", async () => {
+    const { reorderSlides } = await import("./code");
+
+    const a = createMockSlide("a");
+    const b = createMockSlide("b");
+    const setSlideGrid = mock((_grid: SlideNode[][]) => {});
+    Object.assign((globalThis as { figma?: object }).figma ?? {}, {
+      getSlideGrid: () => [[a], [b]],
+      setSlideGrid,
+    });
+
+    reorderSlides([a, b]);
+
+    expect(setSlideGrid).not.toHaveBeenCalled();
+  });
 });
 
 describe("constrainNodeToWidth", () => {
@@ -342,3 +851,25 @@ describe("constrainTextNodesInFrame", () => {
     expect(nestedText.textAutoResize).toBe("HEIGHT");
   });
 });
+
+describe("getContentOverflow", () => {
+  const container = (heights: number[]) =>
+    ({
+      height: 1080,
+      paddingTop: 100,
+      paddingBottom: 100,
+      itemSpacing: 30,
+      children: heights.map((height) => ({ height })),
+    }) as unknown as FrameNode;
+
+  it("should return 0 when the children fit", async () => {
+    const { getContentOverflow } = await import("./code");
+    expect(getContentOverflow(container([400, 450]))).toBe(0);
+    expect(getContentOverflow(container([]))).toBe(0);
+  });
+
+  it("should include padding and spacing in the overflow", async () => {
+    const { getContentOverflow } = await import("./code");
+    expect(getContentOverflow(container([400, 400, 100]))).toBe(80);
+  });
+});
@@ -1,19 +1,43 @@
 import type {
   BulletItem,
   CalloutType,
+  Chart,
+  ChartSeries,
+  CodeToken,
+  ColorVariablesMessage,
   ColumnsBlock,
+  ComponentPropertyOverrides,
+  Diagram,
+  DiagramEdge,
+  DiagramNode,
+  DiagramPoint,
   FigmaSelectionLink,
   HorizontalAlign,
+  MathSvg,
+  NestedInstanceOverride,
+  OverflowMessage,
+  PatchSlidesMessage,
   SlideBlock,
   SlideBlockItem,
   SlideContent,
+  SlideLayout,
+  SlideOverflow,
   SlideTransitionConfig,
   TextSpan,
   TitlePrefixConfig,
   VerticalAlign,
 } from "@figdeck/shared";
 import {
+  CHART_LAYOUT,
+  DIAGRAM_LAYOUT,
+  getCalloutLabel,
+  getSlideNumbers,
+  isBuiltInCalloutType,
+  isCodeTokenType,
+  isValidChartType,
   isValidFigmaUrl,
+  isValidSlideLayout,
+  planLayout,
   LAYOUT as SHARED_LAYOUT,
   TRANSITION_CURVE_TO_FIGMA,
   TRANSITION_STYLE_TO_FIGMA,
@@ -31,8 +55,15 @@ import {
   renderParagraph,
   renderTable,
 } from "./block-renderers";
-import { PLUGIN_DATA_KEY } from "./constants";
+import { renderChart } from "./chart-renderer";
+import {
+  DEFAULT_AUTO_FIT_MIN_SCALE,
+  PLUGIN_DATA_ID_KEY,
+  PLUGIN_DATA_KEY,
+} from "./constants";
+import { renderDiagram } from "./diagram-renderer";
 import { djb2Hash } from "./hash";
+import { renderMathBlock } from "./math-renderer";
 import { cloneNode, createNodeCache } from "./node-cache";
 import {
   applyBackground,
@@ -45,7 +76,11 @@ import {
   LAYOUT,
   type ResolvedTextStyle,
   resolveSlideStyles,
+  scaleTextStyles,
 } from "./styles";
+import { applyTextStyle, loadTextStyles } from "./text-styles";
+import { createTextSync, tagBlockText } from "./text-sync";
+import { getColorVariableSignature, resolveColorVariables } from "./variables";
 
 // Security limits
 const MAX_SLIDES = 100;
@@ -53,21 +88,36 @@ const MAX_BLOCKS_PER_SLIDE = 50;
 const MAX_STRING_LENGTH = 100000;
 const MAX_SPANS_PER_ELEMENT = 500;
 const MAX_BULLET_ITEMS = 100;
+const MAX_MATH_SVG_LENGTH = 500000;
+const MAX_IMAGE_SVG_LENGTH = 5 * 1024 * 1024;
 
-// Slide hash cache: maps slide index to { hash, nodeId } for incremental updates
+// Slide hash cache: maps slide key to { hash, nodeId, position } for incremental updates
 interface SlideHashEntry {
   hash: string;
   nodeId: string;
+  /** Slide number and total used for the last slide number render */
+  position: number;
+  total: number;
+  /** Overflow measured when the slide was generated */
+  fit: SlideFit;
+}
+const slideHashCache = new Map<string, SlideHashEntry>();
+
+/**
+ * Get the identity key for a slide.
+ * Slides without an id (e.g. older JSON exports) fall back to their index.
+ */
+export function getSlideKey(slide: SlideContent, index: number): string {
+  return slide.id ? `id:${slide.id}` : `index:${index}`;
 }
-const slideHashCache = new Map<number, SlideHashEntry>();
 
 /**
  * Compute a stable hash for a slide's content.
- * Includes all fields that affect rendering.
+ * Includes all fields that affect rendering, and which color variables resolved.
  */
 function computeSlideHash(slide: SlideContent): string {
   // JSON.stringify provides a stable serialization for comparison
-  return djb2Hash(JSON.stringify(slide));
+  return djb2Hash(JSON.stringify(slide) + getColorVariableSignature(slide));
 }
 
 // Default spacing between prefix component and title text
@@ -78,25 +128,62 @@ const COVER_DEFAULT_H1_SIZE = 80;
 const COVER_DEFAULT_H2_SIZE = 48;
 const COVER_INFO_ITEM_SPACING = 8;
 
+// Emphasis sizes for named layouts
+const BIG_NUMBER_SIZE = 240;
+const QUOTE_TEXT_SIZE = 48;
+
 /**
- * Map CLI's CalloutType (lowercase) to Plugin's AlertType (uppercase)
+ * Map CLI's CalloutType (lowercase) to Plugin's AlertType (uppercase).
+ * User-defined types use the NOTE look unless their style sets a color.
  */
-function calloutTypeToAlertType(type: CalloutType): AlertType {
+function calloutTypeToAlertType(type: string): AlertType {
   const mapping: Record<CalloutType, AlertType> = {
     note: "NOTE",
     tip: "TIP",
+    important: "IMPORTANT",
     warning: "WARNING",
     caution: "CAUTION",
+    success: "SUCCESS",
+    question: "QUESTION",
+    example: "EXAMPLE",
   };
-  return mapping[type];
+  return isBuiltInCalloutType(type) ? mapping[type] : "NOTE";
 }
 
 // Back-pressure: track in-flight generateSlides and pending payload
 let isGenerating = false;
 let pendingSlides: SlideContent[] | null = null;
+let pendingRevision: number | null = null;
+
+// Latest slides generated and acknowledged to the CLI, and their revision.
+// Patches are based on the acknowledged revision, so these only change once
+// generation succeeds.
+let currentSlides: SlideContent[] | null = null;
+let currentRevision: number | null = null;
+
+// Whether the user has been told that speaker notes could not be written
+let speakerNotesNoticeShown = false;
 
 figma.showUI(__html__, { visible: true, width: 360, height: 420 });
 
+// Report edits to generated text back to the CLI
+// (documentchange needs all pages loaded with dynamic page access)
+figma
+  .loadAllPagesAsync()
+  .then(() => {
+    figma.on(
+      "documentchange",
+      createTextSync({
+        getRevision: () => currentRevision,
+        isBusy: () => isGenerating,
+        send: (edit) => figma.ui.postMessage(edit),
+      }),
+    );
+  })
+  .catch((error) => {
+    console.warn("[figdeck] Could not watch text edits:", error);
+  });
+
 // Node cache for title prefix components
 const prefixNodeCache = createNodeCache();
 
@@ -217,6 +304,63 @@ function applySlideTransition(
   slideNode.setSlideTransition(transition);
 }
 
+/**
+ * Get the transition to apply when entering a slide.
+ * Build steps after the first smart-animate from the previous step so that
+ * newly revealed content appears animated; duration and curve still follow
+ * the slide's own transition.
+ */
+export function getSlideTransition(
+  slide: SlideContent,
+): SlideTransitionConfig | undefined {
+  if (!slide.build || slide.build.step <= 1) {
+    return slide.transition;
+  }
+  const transition: SlideTransitionConfig = {
+    style: "smart-animate",
+    timing: "on-click",
+  };
+  if (slide.transition?.duration !== undefined) {
+    transition.duration = slide.transition.duration;
+  }
+  if (slide.transition?.curve !== undefined) {
+    transition.curve = slide.transition.curve;
+  }
+  return transition;
+}
+
+/**
+ * Slide node with speaker notes. The plugin typings do not declare them,
+ * so support is detected at runtime before writing.
+ */
+type SpeakerNotesSlideNode = SlideNode & { speakerNotes: string };
+
+function supportsSpeakerNotes(
+  slideNode: SlideNode,
+): slideNode is SpeakerNotesSlideNode {
+  return "speakerNotes" in slideNode;
+}
+
+/**
+ * Write speaker notes to a SlideNode.
+ * An empty string clears notes left over from a previous render.
+ * If the client has no speaker notes, the user is notified once.
+ */
+function applySpeakerNotes(slideNode: SlideNode, notes: string): void {
+  if (supportsSpeakerNotes(slideNode)) {
+    slideNode.speakerNotes = notes;
+    return;
+  }
+  if (!notes || speakerNotesNoticeShown) {
+    return;
+  }
+  speakerNotesNoticeShown = true;
+  console.warn("[figdeck] Speaker notes are not supported by this client");
+  figma.notify("Speaker notes are not supported here and were skipped", {
+    timeout: 3000,
+  });
+}
+
 /**
  * Create content container frame with alignment settings
  */
@@ -285,6 +429,7 @@ async function renderBlockItemToNode(
         0,
         codeFont,
       );
+      await applyTextStyle(result.node, styles.paragraph);
       return result.node;
     }
 
@@ -312,6 +457,7 @@ async function renderBlockItemToNode(
         0,
         codeFont,
       );
+      await applyTextStyle(result.node, style);
       return result.node;
     }
 
@@ -326,6 +472,7 @@ async function renderBlockItemToNode(
         0,
         codeFont,
       );
+      await applyTextStyle(result.node, styles.bullet);
       return result.node;
     }
 
@@ -336,7 +483,9 @@ async function renderBlockItemToNode(
         0,
         0,
         codeFont,
+        styles.codePalette,
       );
+      await applyTextStyle(result.node, styles.code);
       return result.node;
     }
 
@@ -356,15 +505,20 @@ async function renderBlockItemToNode(
 
     case "callout": {
       const spans = block.spans || [{ text: block.text }];
-      const alertType = calloutTypeToAlertType(block.type);
+      const calloutStyle = styles.callouts[block.type];
       const node = await renderCallout(
-        { type: alertType, bodySpans: spans },
+        {
+          type: calloutTypeToAlertType(block.type),
+          bodySpans: spans,
+          label: getCalloutLabel(block.type, block.title, calloutStyle),
+        },
         styles.paragraph.fontSize,
         styles.paragraph.fills,
         0,
         0,
         styles.paragraph.font,
         codeFont,
+        calloutStyle?.color,
       );
       return node;
     }
@@ -376,6 +530,7 @@ async function renderBlockItemToNode(
           alt: block.alt,
           mimeType: block.mimeType,
           dataBase64: block.dataBase64,
+          svg: block.svg,
           source: block.source,
           size: block.size,
         },
@@ -390,11 +545,12 @@ async function renderBlockItemToNode(
         block.headers,
         block.rows,
         block.align || [],
-        styles.paragraph.fontSize * 0.85,
-        styles.paragraph.fills,
+        styles.table.fontSize ?? styles.paragraph.fontSize * 0.85,
+        styles.table.fills ?? styles.paragraph.fills,
         0,
         0,
         styles.paragraph.font,
+        styles.table,
       );
       return node;
     }
@@ -404,6 +560,19 @@ async function renderBlockItemToNode(
       return node;
     }
 
+    case "diagram": {
+      const node = await renderDiagram(block.diagram, styles.paragraph);
+      return node;
+    }
+
+    case "chart": {
+      return renderChart(block.chart, styles.paragraph);
+    }
+
+    case "math": {
+      return renderMathBlock(block.math, styles.paragraph);
+    }
+
     default: {
       const unknownBlock = block as { kind: string };
       console.warn(`[figdeck] Unknown block item kind: ${unknownBlock.kind}`);
@@ -606,6 +775,27 @@ async function renderBlockToNode(
   return renderBlockItemToNode(block as SlideBlockItem, styles);
 }
 
+/**
+ * Create the bold title text node with the title's text style applied
+ */
+async function createTitleText(
+  title: string,
+  titleStyle: ReturnType<typeof resolveSlideStyles>["h1"],
+): Promise<TextNode> {
+  const titleText = figma.createText();
+  titleText.fontName = {
+    family: titleStyle.font.family,
+    style: titleStyle.font.bold,
+  };
+  titleText.fontSize = titleStyle.fontSize;
+  titleText.characters = title;
+  if (titleStyle.fills) {
+    titleText.fills = titleStyle.fills;
+  }
+  await applyTextStyle(titleText, titleStyle);
+  return titleText;
+}
+
 /**
  * Render title (with optional prefix) for container-based layout
  */
@@ -614,32 +804,16 @@ async function renderTitleToNode(
   titleStyle: ReturnType<typeof resolveSlideStyles>["h1"],
   titlePrefix: TitlePrefixConfig | null | undefined,
 ): Promise<SceneNode> {
-  const font = titleStyle.font;
-
   // If no prefix config, render simple title
   if (!titlePrefix?.nodeId) {
-    const titleText = figma.createText();
-    titleText.fontName = { family: font.family, style: font.bold };
-    titleText.fontSize = titleStyle.fontSize;
-    titleText.characters = title;
-    if (titleStyle.fills) {
-      titleText.fills = titleStyle.fills;
-    }
-    return titleText;
+    return createTitleText(title, titleStyle);
   }
 
   // Find and clone prefix node
   const prefixNode = await findCloneableNode(titlePrefix.nodeId);
   if (!prefixNode) {
     // Fallback to simple title if prefix not found
-    const titleText = figma.createText();
-    titleText.fontName = { family: font.family, style: font.bold };
-    titleText.fontSize = titleStyle.fontSize;
-    titleText.characters = title;
-    if (titleStyle.fills) {
-      titleText.fills = titleStyle.fills;
-    }
-    return titleText;
+    return createTitleText(title, titleStyle);
   }
 
   const prefixClone = cloneNode(prefixNode);
@@ -647,24 +821,11 @@ async function renderTitleToNode(
   // If clone failed (node was deleted), fallback to simple title
   if (!prefixClone) {
     prefixNodeCache.clear(); // Clear stale cache
-    const titleText = figma.createText();
-    titleText.fontName = { family: font.family, style: font.bold };
-    titleText.fontSize = titleStyle.fontSize;
-    titleText.characters = title;
-    if (titleStyle.fills) {
-      titleText.fills = titleStyle.fills;
-    }
-    return titleText;
+    return createTitleText(title, titleStyle);
   }
 
   // Create title text node
-  const titleText = figma.createText();
-  titleText.fontName = { family: font.family, style: font.bold };
-  titleText.fontSize = titleStyle.fontSize;
-  titleText.characters = title;
-  if (titleStyle.fills) {
-    titleText.fills = titleStyle.fills;
-  }
+  const titleText = await createTitleText(title, titleStyle);
 
   // Create horizontal auto-layout frame
   const container = figma.createFrame();
@@ -706,18 +867,108 @@ function getStyleForBlock(
 }
 
 /**
- * Fill a slide with content using container-based layout
+ * Check whether a block has a custom position (figma/image position or style x/y)
  */
-async function fillSlide(
-  slideNode: SlideNode,
-  slide: SlideContent,
-  availableFonts: Set<string>,
-) {
-  const styles = applyFontFallbacks(
-    resolveSlideStyles(slide.styles),
-    availableFonts,
+function hasAbsolutePosition(
+  block: SlideBlock,
+  styles: ReturnType<typeof resolveSlideStyles>,
+): boolean {
+  if (block.kind === "figma") {
+    return block.link.x !== undefined || block.link.y !== undefined;
+  }
+  if (block.kind === "image" && block.position) {
+    return block.position.x !== undefined || block.position.y !== undefined;
+  }
+  const blockStyle = getStyleForBlock(block.kind, styles);
+  return (
+    blockStyle !== undefined &&
+    (blockStyle.x !== undefined || blockStyle.y !== undefined)
   );
+}
+
+/**
+ * Render a block with a custom position and return it with its coordinates
+ */
+async function renderAbsoluteBlock(
+  block: SlideBlock,
+  styles: ReturnType<typeof resolveSlideStyles>,
+): Promise<{ node: SceneNode; x: number; y: number } | null> {
+  if (block.kind === "figma") {
+    const figmaNode = await renderFigmaLink(block.link);
+    return { node: figmaNode, x: block.link.x ?? 0, y: block.link.y ?? 0 };
+  }
+
+  if (block.kind === "image" && block.position) {
+    const imageNode = await renderImage({
+      url: block.url,
+      alt: block.alt,
+      mimeType: block.mimeType,
+      dataBase64: block.dataBase64,
+      svg: block.svg,
+      source: block.source,
+      size: block.size,
+    });
+    return {
+      node: imageNode,
+      x: block.position.x ?? 0,
+      y: block.position.y ?? 0,
+    };
+  }
+
+  const blockStyle = getStyleForBlock(block.kind, styles);
+  const blockNode = await renderBlockToNode(
+    block,
+    styles,
+    LAYOUT.CONTENT_WIDTH,
+  );
+  if (!blockNode) return null;
+  return { node: blockNode, x: blockStyle?.x ?? 0, y: blockStyle?.y ?? 0 };
+}
 
+/**
+ * Content of a regular slide before it is added to the slide node
+ */
+interface SlideContentNodes {
+  container: FrameNode;
+  absoluteNodes: Array<{ node: SceneNode; x: number; y: number }>;
+}
+
+/**
+ * Result of fitting a slide's content into the slide
+ */
+interface SlideFit {
+  /** Content height beyond the slide in pixels (0 when it fits) */
+  overflow: number;
+  /** Text scale applied by `autoFit: shrink`, when it was shrunk */
+  scale?: number;
+}
+
+// Shrink attempts before giving up; wrapping changes make one pass inexact
+const MAX_SHRINK_ATTEMPTS = 4;
+
+/**
+ * Height by which the children of a vertical auto-layout frame exceed the
+ * frame's fixed height, including padding and item spacing
+ */
+export function getContentOverflow(container: FrameNode): number {
+  const children = container.children;
+  let height = container.paddingTop + container.paddingBottom;
+  for (const child of children) {
+    height += child.height;
+  }
+  height += container.itemSpacing * Math.max(0, children.length - 1);
+  return Math.max(0, height - container.height);
+}
+
+/**
+ * Render a slide's blocks into a content container, keeping blocks with
+ * custom positions aside for absolute placement
+ */
+async function renderSlideContent(
+  slideNode: SlideNode,
+  slide: SlideContent,
+  styles: ReturnType<typeof resolveSlideStyles>,
+): Promise<SlideContentNodes> {
   // Create content container with alignment
   const container = createContentContainer(
     slideNode.width,
@@ -727,68 +978,19 @@ async function fillSlide(
   );
 
   // Collect nodes that need absolute positioning (to be added after container)
-  const absoluteNodes: Array<{ node: SceneNode; x: number; y: number }> = [];
+  const absoluteNodes: SlideContentNodes["absoluteNodes"] = [];
 
   // Track if we've rendered the first title (H1/H2) for prefix support
   let firstTitleRendered = false;
 
   // Render blocks
   for (const block of slide.blocks) {
-    // Handle figma blocks with custom position separately
-    if (
-      block.kind === "figma" &&
-      (block.link.x !== undefined || block.link.y !== undefined)
-    ) {
-      const figmaNode = await renderFigmaLink(block.link);
-      absoluteNodes.push({
-        node: figmaNode,
-        x: block.link.x ?? 0,
-        y: block.link.y ?? 0,
-      });
-      continue;
-    }
-
-    // Handle image blocks with custom position separately
-    if (
-      block.kind === "image" &&
-      block.position &&
-      (block.position.x !== undefined || block.position.y !== undefined)
-    ) {
-      const imageNode = await renderImage({
-        url: block.url,
-        alt: block.alt,
-        mimeType: block.mimeType,
-        dataBase64: block.dataBase64,
-        source: block.source,
-        size: block.size,
-      });
-      absoluteNodes.push({
-        node: imageNode,
-        x: block.position.x ?? 0,
-        y: block.position.y ?? 0,
-      });
-      continue;
-    }
-
-    // Determine the style for this block kind
-    const blockStyle = getStyleForBlock(block.kind, styles);
-
-    // Check if this block has absolute positioning via style
-    if (
-      blockStyle &&
-      (blockStyle.x !== undefined || blockStyle.y !== undefined)
-    ) {
-      const blockNode = await renderBlockToNode(
-        block,
-        styles,
-        LAYOUT.CONTENT_WIDTH,
-      );
-      if (blockNode) {
-        absoluteNodes.push({
-          node: blockNode,
-          x: blockStyle.x ?? 0,
-          y: blockStyle.y ?? 0,
-        });
+    // Blocks with custom positions are placed outside the container
+    if (hasAbsolutePosition(block, styles)) {
+      const absoluteNode = await renderAbsoluteBlock(block, styles);
+      if (absoluteNode) {
+        tagBlockText(absoluteNode.node, slide, block);
+        absoluteNodes.push(absoluteNode);
       }
       continue;
     }
@@ -806,6 +1008,7 @@ async function fillSlide(
         titleStyle,
         slide.titlePrefix,
       );
+      tagBlockText(titleNode, slide, block);
       container.appendChild(titleNode);
       firstTitleRendered = true;
       continue;
@@ -826,13 +1029,63 @@ async function fillSlide(
       LAYOUT.CONTENT_WIDTH,
     );
     if (blockNode) {
+      tagBlockText(blockNode, slide, block);
       container.appendChild(blockNode);
     }
   }
 
+  return { container, absoluteNodes };
+}
+
+/**
+ * Fill a slide with content using container-based layout.
+ * With `autoFit: shrink`, content taller than the slide is re-rendered with
+ * smaller text, down to the slide's minimum scale.
+ */
+async function fillSlide(
+  slideNode: SlideNode,
+  slide: SlideContent,
+  availableFonts: Set<string>,
+): Promise<SlideFit> {
+  const baseStyles = applyFontFallbacks(
+    resolveSlideStyles(slide.styles),
+    availableFonts,
+  );
+  let styles = baseStyles;
+  let content = await renderSlideContent(slideNode, slide, styles);
+  const fit: SlideFit = { overflow: getContentOverflow(content.container) };
+
+  if (slide.autoFit?.mode === "shrink") {
+    const minScale = slide.autoFit.minScale ?? DEFAULT_AUTO_FIT_MIN_SCALE;
+    const { container } = content;
+    const available =
+      container.height - container.paddingTop - container.paddingBottom;
+    let scale = 1;
+    for (
+      let attempt = 0;
+      attempt < MAX_SHRINK_ATTEMPTS && fit.overflow > 0 && scale > minScale;
+      attempt++
+    ) {
+      // Text height grows roughly with font size
+      scale = Math.max(
+        minScale,
+        scale * (available / (available + fit.overflow)),
+      );
+      content.container.remove();
+      for (const { node } of content.absoluteNodes) {
+        node.remove();
+      }
+      styles = scaleTextStyles(baseStyles, scale);
+      content = await renderSlideContent(slideNode, slide, styles);
+      fit.overflow = getContentOverflow(content.container);
+      fit.scale = scale;
+    }
+  }
+
   // Add container to slide and explicitly set position to origin
   // This is necessary because grid view can have coordinate system issues
   // when the container is created before being appended to the slide
+  const { container, absoluteNodes } = content;
   slideNode.appendChild(container);
   container.x = 0;
   container.y = 0;
@@ -858,6 +1111,8 @@ async function fillSlide(
     footnotesNode.y = slideNode.height - footnotesNode.height - 40;
     slideNode.appendChild(footnotesNode);
   }
+
+  return fit;
 }
 
 /**
@@ -906,61 +1161,12 @@ async function fillCoverSlide(
 
   // Render main blocks into the centered container
   for (const block of mainBlocks) {
-    // Handle figma blocks with custom position separately
-    if (
-      block.kind === "figma" &&
-      (block.link.x !== undefined || block.link.y !== undefined)
-    ) {
-      const figmaNode = await renderFigmaLink(block.link);
-      absoluteNodes.push({
-        node: figmaNode,
-        x: block.link.x ?? 0,
-        y: block.link.y ?? 0,
-      });
-      continue;
-    }
-
-    // Handle image blocks with custom position separately
-    if (
-      block.kind === "image" &&
-      block.position &&
-      (block.position.x !== undefined || block.position.y !== undefined)
-    ) {
-      const imageNode = await renderImage({
-        url: block.url,
-        alt: block.alt,
-        mimeType: block.mimeType,
-        dataBase64: block.dataBase64,
-        source: block.source,
-        size: block.size,
-      });
-      absoluteNodes.push({
-        node: imageNode,
-        x: block.position.x ?? 0,
-        y: block.position.y ?? 0,
-      });
-      continue;
-    }
-
-    // Determine the style for this block kind
-    const blockStyle = getStyleForBlock(block.kind, styles);
-
-    // Check if this block has absolute positioning via style
-    if (
-      blockStyle &&
-      (blockStyle.x !== undefined || blockStyle.y !== undefined)
-    ) {
-      const blockNode = await renderBlockToNode(
-        block,
-        styles,
-        LAYOUT.CONTENT_WIDTH,
-      );
-      if (blockNode) {
-        absoluteNodes.push({
-          node: blockNode,
-          x: blockStyle.x ?? 0,
-          y: blockStyle.y ?? 0,
-        });
+    // Blocks with custom positions are placed outside the container
+    if (hasAbsolutePosition(block, styles)) {
+      const absoluteNode = await renderAbsoluteBlock(block, styles);
+      if (absoluteNode) {
+        tagBlockText(absoluteNode.node, slide, block);
+        absoluteNodes.push(absoluteNode);
       }
       continue;
     }
@@ -978,6 +1184,7 @@ async function fillCoverSlide(
         titleStyle,
         slide.titlePrefix,
       );
+      tagBlockText(titleNode, slide, block);
       container.appendChild(titleNode);
       firstTitleRendered = true;
       continue;
@@ -998,6 +1205,7 @@ async function fillCoverSlide(
       LAYOUT.CONTENT_WIDTH,
     );
     if (blockNode) {
+      tagBlockText(blockNode, slide, block);
       container.appendChild(blockNode);
     }
   }
@@ -1029,6 +1237,8 @@ async function fillCoverSlide(
         0,
         styles.code.font,
       );
+      await applyTextStyle(result.node, styles.paragraph);
+      tagBlockText(result.node, slide, block);
       infoFrame.appendChild(result.node);
     }
 
@@ -1065,18 +1275,195 @@ async function fillCoverSlide(
   }
 }
 
-function findExistingSlides(): Map<number, SlideNode> {
-  const slideMap = new Map<number, SlideNode>();
+/**
+ * Get styles with the emphasis size applied to headings and paragraphs,
+ * used for the big number and quote of named layouts
+ */
+function withEmphasisSize(
+  styles: ReturnType<typeof resolveSlideStyles>,
+  fontSize: number,
+): ReturnType<typeof resolveSlideStyles> {
+  const emphasize = (style: ResolvedTextStyle) =>
+    Object.assign({}, style, { fontSize });
+  return Object.assign({}, styles, {
+    h1: emphasize(styles.h1),
+    h2: emphasize(styles.h2),
+    h3: emphasize(styles.h3),
+    h4: emphasize(styles.h4),
+    paragraph: emphasize(styles.paragraph),
+  });
+}
+
+/**
+ * Fill a slide using a named layout.
+ * Headings and body blocks go into the layout's content region, images into
+ * its media region; blocks with custom positions keep their coordinates.
+ */
+async function fillLayoutSlide(
+  slideNode: SlideNode,
+  slide: SlideContent,
+  layout: Exclude<SlideLayout, "default">,
+  availableFonts: Set<string>,
+) {
+  const resolvedStyles = applyFontFallbacks(
+    resolveSlideStyles(slide.styles),
+    availableFonts,
+  );
+
+  // Section slides use the larger cover heading sizes unless explicitly set
+  const styles =
+    layout === "section"
+      ? Object.assign({}, resolvedStyles, {
+          h1: Object.assign({}, resolvedStyles.h1, {
+            fontSize: slide.styles?.headings?.h1?.size ?? COVER_DEFAULT_H1_SIZE,
+          }),
+        })
+      : resolvedStyles;
+
+  const emphasisStyles = withEmphasisSize(
+    styles,
+    layout === "big-number" ? BIG_NUMBER_SIZE : QUOTE_TEXT_SIZE,
+  );
+
+  // Collect nodes that need absolute positioning (to be added after regions)
+  const absoluteNodes: Array<{ node: SceneNode; x: number; y: number }> = [];
+  const flowBlocks: SlideBlock[] = [];
+  for (const block of slide.blocks) {
+    if (hasAbsolutePosition(block, styles)) {
+      const absoluteNode = await renderAbsoluteBlock(block, styles);
+      if (absoluteNode) {
+        tagBlockText(absoluteNode.node, slide, block);
+        absoluteNodes.push(absoluteNode);
+      }
+    } else {
+      flowBlocks.push(block);
+    }
+  }
+
+  const plan = planLayout(
+    layout,
+    flowBlocks,
+    slideNode.width,
+    slideNode.height,
+  );
+  if (plan.droppedBlocks.length > 0) {
+    console.warn(
+      `[figdeck] Layout "${layout}" has no region for ${plan.droppedBlocks.length} block(s); they were skipped`,
+    );
+  }
+
+  // Media region: the image fills the region edge to edge
+  if (plan.media && plan.mediaBlock) {
+    const image = plan.mediaBlock;
+    const imageNode = await renderImage({
+      url: image.url,
+      alt: image.alt,
+      mimeType: image.mimeType,
+      dataBase64: image.dataBase64,
+      svg: image.svg,
+      source: image.source,
+      size: { width: plan.media.width, height: plan.media.height },
+    });
+    imageNode.cornerRadius = 0;
+    slideNode.appendChild(imageNode);
+    imageNode.x = plan.media.x;
+    imageNode.y = plan.media.y;
+  }
+
+  // Content region
+  const region = plan.content;
+  const container = createContentContainer(
+    region.width,
+    region.height,
+    slide.align ?? region.align,
+    slide.valign ?? region.valign,
+  );
+  const contentWidth = region.width - LAYOUT.CONTAINER_PADDING * 2;
+
+  // Track if we've rendered the first title (H1/H2) for prefix support
+  let firstTitleRendered = false;
+
+  for (const block of plan.contentBlocks) {
+    const isTitle =
+      block.kind === "heading" &&
+      (block.level === 1 || block.level === 2) &&
+      !firstTitleRendered;
+
+    let blockNode: SceneNode | null;
+    if (block === plan.emphasisBlock) {
+      blockNode = await renderBlockToNode(block, emphasisStyles, contentWidth);
+    } else if (isTitle && slide.titlePrefix && block.kind === "heading") {
+      const titleStyle = block.level === 1 ? styles.h1 : styles.h2;
+      blockNode = await renderTitleToNode(
+        block.text,
+        titleStyle,
+        slide.titlePrefix,
+      );
+    } else {
+      blockNode = await renderBlockToNode(block, styles, contentWidth);
+    }
+
+    if (isTitle) {
+      firstTitleRendered = true;
+    }
+
+    if (blockNode) {
+      tagBlockText(blockNode, slide, block);
+      container.appendChild(blockNode);
+      // Wrap text that would overflow a narrower region
+      if (blockNode.width > contentWidth) {
+        constrainNodeToWidth(blockNode, contentWidth);
+      }
+    }
+  }
+
+  slideNode.appendChild(container);
+  container.x = region.x;
+  container.y = region.y;
+
+  // Add absolutely positioned nodes to slide
+  for (const { node, x, y } of absoluteNodes) {
+    slideNode.appendChild(node);
+    node.x = x;
+    node.y = y;
+  }
+
+  // Render footnotes at the bottom of the content region
+  if (slide.footnotes && slide.footnotes.length > 0) {
+    const footnotesNode = await renderFootnotes(
+      slide.footnotes,
+      styles.paragraph.fontSize,
+      styles.paragraph.fills,
+      styles.paragraph.font,
+      styles.code.font,
+    );
+    footnotesNode.x = region.x + LAYOUT.CONTAINER_PADDING;
+    footnotesNode.y = slideNode.height - footnotesNode.height - 40;
+    slideNode.appendChild(footnotesNode);
+  }
+}
+
+/**
+ * Collect figdeck-managed slides keyed by identity.
+ * Slides generated before ids existed are keyed by their stored index.
+ */
+function findExistingSlides(): Map<string, SlideNode> {
+  const slideMap = new Map<string, SlideNode>();
   const grid = figma.getSlideGrid();
 
   if (grid) {
     for (const row of grid) {
       for (const slide of row) {
+        const idData = slide.getPluginData(PLUGIN_DATA_ID_KEY);
+        if (idData) {
+          slideMap.set(idData, slide);
+          continue;
+        }
         const indexData = slide.getPluginData(PLUGIN_DATA_KEY);
         if (indexData) {
           const index = Number.parseInt(indexData, 10);
           if (Number.isFinite(index)) {
-            slideMap.set(index, slide);
+            slideMap.set(`index:${index}`, slide);
           }
         }
       }
@@ -1087,22 +1474,60 @@ function findExistingSlides(): Map<number, SlideNode> {
 }
 
 /**
- * Get or create a slide node for the given index
+ * Find the existing slide node for a key, falling back to the legacy
+ * index-based entry so decks generated by older versions are reused.
  */
-function getOrCreateSlide(
+function takeExistingSlide(
+  key: string,
   index: number,
-  existingSlides: Map<number, SlideNode>,
-): SlideNode {
-  const existing = existingSlides.get(index);
-  if (existing) {
-    clearSlideContent(existing);
-    existingSlides.delete(index);
-    return existing;
-  }
-  return figma.createSlide();
+  existingSlides: Map<string, SlideNode>,
+): SlideNode | null {
+  for (const candidate of [key, `index:${index}`]) {
+    const existing = existingSlides.get(candidate);
+    if (existing) {
+      existingSlides.delete(candidate);
+      return existing;
+    }
+  }
+  return null;
 }
 
-async function generateSlides(slides: SlideContent[]) {
+/**
+ * Reorder figdeck-managed slides in the slide grid to match the Markdown order.
+ * Slots of managed slides are refilled in order; other slides keep their place.
+ */
+export function reorderSlides(orderedNodes: SlideNode[]): void {
+  const grid = figma.getSlideGrid();
+  if (!grid) return;
+
+  const managedIds = new Set(orderedNodes.map((node) => node.id));
+  let next = 0;
+  let changed = false;
+
+  const newGrid = grid.map((row) =>
+    row.map((slide) => {
+      if (!managedIds.has(slide.id) || next >= orderedNodes.length) {
+        return slide;
+      }
+      const target = orderedNodes[next++];
+      if (target.id !== slide.id) {
+        changed = true;
+      }
+      return target;
+    }),
+  );
+
+  if (changed) {
+    figma.setSlideGrid(newGrid);
+  }
+}
+
+/**
+ * Generate slides and return the ones whose content overflows the slide
+ */
+async function generateSlides(
+  slides: SlideContent[],
+): Promise<SlideOverflow[]> {
   // Collect all unique fonts needed across all slides
   const allFontNames: Array<{ family: string; style: string }> = [];
   const seenFonts = new Set<string>();
@@ -1121,90 +1546,158 @@ async function generateSlides(slides: SlideContent[]) {
 
   // Load all required fonts upfront
   const availableFonts = await loadFontsForStyles(allFontNames);
+  await loadTextStyles(slides);
 
   const existingSlides = findExistingSlides();
-  const totalSlides = slides.length;
+  // Build steps share the slide number of their logical slide
+  const { positions, total: totalSlides } = getSlideNumbers(slides);
 
   // Track which slides were updated vs skipped for the notification
   let updatedCount = 0;
   let skippedCount = 0;
 
-  // Build set of valid indices for cleanup
-  const validIndices = new Set<number>();
+  // Build set of valid keys for cleanup, and the node order for the grid
+  const validKeys = new Set<string>();
+  const orderedNodes: SlideNode[] = [];
+  const overflows: SlideOverflow[] = [];
+  const recordFit = (slide: SlideContent, index: number, fit: SlideFit) => {
+    if (fit.overflow <= 0) return;
+    const overflow: SlideOverflow = {
+      slideIndex: index,
+      overflow: fit.overflow,
+    };
+    if (slide.id) overflow.slideId = slide.id;
+    if (fit.scale !== undefined) overflow.scale = fit.scale;
+    overflows.push(overflow);
+  };
 
   for (let i = 0; i < slides.length; i++) {
     const slide = slides[i];
-    validIndices.add(i);
+    const position = positions[i];
+    const key = getSlideKey(slide, i);
+    validKeys.add(key);
 
     // Compute hash for this slide
     const slideHash = computeSlideHash(slide);
-    const cachedEntry = slideHashCache.get(i);
+    const cachedEntry = slideHashCache.get(key);
+    const existingNode = takeExistingSlide(key, i, existingSlides);
 
     // Check if slide is unchanged and node still exists
-    if (cachedEntry && cachedEntry.hash === slideHash) {
-      const existingNode = existingSlides.get(i);
-      if (existingNode && existingNode.id === cachedEntry.nodeId) {
-        // Slide unchanged - skip regeneration
-        existingSlides.delete(i);
-        skippedCount++;
-        continue;
+    if (
+      cachedEntry &&
+      cachedEntry.hash === slideHash &&
+      existingNode &&
+      existingNode.id === cachedEntry.nodeId
+    ) {
+      // Slide unchanged - only refresh the slide number if it moved
+      if (
+        slide.slideNumber &&
+        (cachedEntry.position !== position || cachedEntry.total !== totalSlides)
+      ) {
+        await renderSlideNumber(
+          existingNode,
+          slide.slideNumber,
+          position,
+          totalSlides,
+        );
       }
+      existingNode.setPluginData(PLUGIN_DATA_KEY, String(i));
+      slideHashCache.set(key, {
+        hash: slideHash,
+        nodeId: existingNode.id,
+        position,
+        total: totalSlides,
+        fit: cachedEntry.fit,
+      });
+      recordFit(slide, i, cachedEntry.fit);
+      orderedNodes.push(existingNode);
+      skippedCount++;
+      continue;
     }
 
     // Slide changed or new - regenerate
-    const node = getOrCreateSlide(i, existingSlides);
+    let node: SlideNode;
+    if (existingNode) {
+      clearSlideContent(existingNode);
+      node = existingNode;
+    } else {
+      node = figma.createSlide();
+    }
     node.setPluginData(PLUGIN_DATA_KEY, String(i));
+    node.setPluginData(PLUGIN_DATA_ID_KEY, key);
 
     // Apply background before filling content
     if (slide.background) {
       await applyBackground(node, slide.background);
     }
 
-    if (i === 0 && slide.cover === true) {
+    // Only regular slides are measured; layouts and covers place content freely
+    let fit: SlideFit = { overflow: 0 };
+    if (slide.layout && slide.layout !== "default") {
+      await fillLayoutSlide(node, slide, slide.layout, availableFonts);
+    } else if (slide.cover === true && (i === 0 || slide.build !== undefined)) {
+      // Later build steps of the cover slide are rendered as cover too
       await fillCoverSlide(node, slide, availableFonts);
     } else {
-      await fillSlide(node, slide, availableFonts);
+      fit = await fillSlide(node, slide, availableFonts);
     }
+    recordFit(slide, i, fit);
 
     // Render slide number if configured
     if (slide.slideNumber) {
-      await renderSlideNumber(node, slide.slideNumber, i + 1, totalSlides);
+      await renderSlideNumber(node, slide.slideNumber, position, totalSlides);
     }
 
-    // Apply slide transition if configured
-    if (slide.transition) {
-      applySlideTransition(node, slide.transition);
+    // Apply slide transition if configured (build steps always smart-animate)
+    const transition = getSlideTransition(slide);
+    if (transition) {
+      applySlideTransition(node, transition);
     }
 
+    // Always write notes so removed notes are cleared on reused slides
+    applySpeakerNotes(node, slide.notes ?? "");
+
     // Update hash cache
-    slideHashCache.set(i, { hash: slideHash, nodeId: node.id });
+    slideHashCache.set(key, {
+      hash: slideHash,
+      nodeId: node.id,
+      position,
+      total: totalSlides,
+      fit,
+    });
+    orderedNodes.push(node);
     updatedCount++;
   }
 
   // Remove extra slides that no longer exist in the markdown
-  for (const [index, slideNode] of existingSlides) {
+  for (const [key, slideNode] of existingSlides) {
     slideNode.remove();
-    slideHashCache.delete(index);
+    slideHashCache.delete(key);
   }
 
   // Clean up hash cache for removed slides
-  // Collect indices first to avoid modifying Map during iteration
-  const indicesToDelete: number[] = [];
-  for (const index of slideHashCache.keys()) {
-    if (!validIndices.has(index)) {
-      indicesToDelete.push(index);
+  // Collect keys first to avoid modifying Map during iteration
+  const keysToDelete: string[] = [];
+  for (const key of slideHashCache.keys()) {
+    if (!validKeys.has(key)) {
+      keysToDelete.push(key);
     }
   }
-  for (const index of indicesToDelete) {
-    slideHashCache.delete(index);
+  for (const key of keysToDelete) {
+    slideHashCache.delete(key);
   }
 
+  // Move slides so the grid follows the Markdown order
+  reorderSlides(orderedNodes);
+
   // Show notification with update stats
   if (skippedCount > 0) {
     figma.notify(`Updated ${updatedCount} slides (${skippedCount} unchanged)`);
   } else {
     figma.notify(`Updated ${slides.length} slides`);
   }
+
+  return overflows;
 }
 
 function truncateString(str: string, maxLen: number): string {
@@ -1224,13 +1717,18 @@ function sanitizeTextSpans(spans: unknown): TextSpan[] | undefined {
   for (const span of limitedSpans) {
     if (!span || typeof span !== "object") continue;
 
-    const { text, ...rest } = span as TextSpan & Record<string, unknown>;
+    const { text, math, ...rest } = span as TextSpan & Record<string, unknown>;
     if (typeof text !== "string") continue;
 
-    sanitizedSpans.push({
+    const sanitizedSpan = {
       ...rest,
       text: truncateString(text, MAX_STRING_LENGTH),
-    } as TextSpan);
+    } as TextSpan;
+    const sanitizedMath = sanitizeMathSvg(math);
+    if (sanitizedMath) {
+      sanitizedSpan.math = sanitizedMath;
+    }
+    sanitizedSpans.push(sanitizedSpan);
   }
 
   return sanitizedSpans.length > 0 ? sanitizedSpans : undefined;
@@ -1258,6 +1756,10 @@ function sanitizeBulletItem(item: unknown): BulletItem | null {
     sanitized.spans = spans;
   }
 
+  if (typeof bulletItem.checked === "boolean") {
+    sanitized.checked = bulletItem.checked;
+  }
+
   if (typeof bulletItem.childrenOrdered === "boolean") {
     sanitized.childrenOrdered = bulletItem.childrenOrdered;
   }
@@ -1371,9 +1873,306 @@ function sanitizeFigmaLink(link: unknown): FigmaSelectionLink | null {
     sanitized.hideLink = l.hideLink;
   }
 
+  const component = sanitizeComponentOverrides(l.component);
+  if (component) {
+    sanitized.component = component;
+  }
+
+  if (Array.isArray(l.nestedInstances)) {
+    const nestedInstances: NestedInstanceOverride[] = [];
+    for (const item of l.nestedInstances.slice(0, MAX_NESTED_INSTANCES)) {
+      if (!item || typeof item !== "object") continue;
+      const { path } = item as { path?: unknown };
+      if (!Array.isArray(path) || path.length === 0) continue;
+      const overrides = sanitizeComponentOverrides(item);
+      if (!overrides) continue;
+      nestedInstances.push(
+        Object.assign(
+          {
+            path: path
+              .slice(0, 10)
+              .filter((name): name is string => typeof name === "string")
+              .map((name) => truncateString(name, 100)),
+          },
+          overrides,
+        ),
+      );
+    }
+    if (nestedInstances.length > 0) {
+      sanitized.nestedInstances = nestedInstances;
+    }
+  }
+
+  return sanitized;
+}
+
+const MAX_COMPONENT_PROPERTIES = 50;
+const MAX_NESTED_INSTANCES = 20;
+
+/**
+ * Sanitize a map of component property or variant values to strings
+ */
+function sanitizePropertyValues(
+  values: unknown,
+): Record<string, string> | undefined {
+  if (!values || typeof values !== "object") return undefined;
+  const sanitized: Record<string, string> = {};
+  let count = 0;
+  for (const [key, value] of Object.entries(values)) {
+    if (count >= MAX_COMPONENT_PROPERTIES) break;
+    if (typeof value !== "string") continue;
+    sanitized[truncateString(key, 100)] = truncateString(value, 1000);
+    count++;
+  }
+  return count > 0 ? sanitized : undefined;
+}
+
+/**
+ * Sanitize variant and component property overrides
+ */
+function sanitizeComponentOverrides(
+  overrides: unknown,
+): ComponentPropertyOverrides | null {
+  if (!overrides || typeof overrides !== "object") return null;
+  const o = overrides as Record<string, unknown>;
+  const sanitized: ComponentPropertyOverrides = {};
+  const variants = sanitizePropertyValues(o.variants);
+  if (variants) sanitized.variants = variants;
+  const properties = sanitizePropertyValues(o.properties);
+  if (properties) sanitized.properties = properties;
+  return variants || properties ? sanitized : null;
+}
+
+const DIAGRAM_NODE_SHAPES = ["rect", "round", "stadium", "circle", "diamond"];
+const DIAGRAM_LINE_STYLES = ["solid", "dotted", "thick"];
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function sanitizeDiagramPoint(point: unknown): DiagramPoint | null {
+  if (!point || typeof point !== "object") return null;
+  const p = point as Record<string, unknown>;
+  return isFiniteNumber(p.x) && isFiniteNumber(p.y) ? { x: p.x, y: p.y } : null;
+}
+
+/**
+ * Sanitize a diagram laid out by the CLI.
+ * Invalid nodes and edges are dropped; returns null if nothing is left.
+ */
+function sanitizeDiagram(diagram: unknown): Diagram | null {
+  if (!diagram || typeof diagram !== "object") return null;
+
+  const d = diagram as Record<string, unknown>;
+  if (
+    (d.type !== "flowchart" && d.type !== "sequence") ||
+    !isFiniteNumber(d.width) ||
+    !isFiniteNumber(d.height) ||
+    !Array.isArray(d.nodes) ||
+    !Array.isArray(d.edges)
+  ) {
+    return null;
+  }
+
+  const nodes: DiagramNode[] = [];
+  for (const node of d.nodes.slice(0, DIAGRAM_LAYOUT.MAX_ELEMENTS)) {
+    if (!node || typeof node !== "object") continue;
+    const n = node as Record<string, unknown>;
+    if (
+      typeof n.id !== "string" ||
+      typeof n.label !== "string" ||
+      typeof n.shape !== "string" ||
+      !DIAGRAM_NODE_SHAPES.includes(n.shape) ||
+      !isFiniteNumber(n.x) ||
+      !isFiniteNumber(n.y) ||
+      !isFiniteNumber(n.width) ||
+      !isFiniteNumber(n.height) ||
+      n.width <= 0 ||
+      n.height <= 0
+    ) {
+      continue;
+    }
+    nodes.push({
+      id: truncateString(n.id, 200),
+      label: truncateString(n.label, 1000),
+      shape: n.shape as DiagramNode["shape"],
+      x: n.x,
+      y: n.y,
+      width: n.width,
+      height: n.height,
+    });
+  }
+  if (nodes.length === 0) return null;
+
+  const edges: DiagramEdge[] = [];
+  for (const edge of d.edges.slice(0, DIAGRAM_LAYOUT.MAX_ELEMENTS * 2)) {
+    if (!edge || typeof edge !== "object") continue;
+    const e = edge as Record<string, unknown>;
+    if (
+      typeof e.from !== "string" ||
+      typeof e.to !== "string" ||
+      typeof e.line !== "string" ||
+      !DIAGRAM_LINE_STYLES.includes(e.line) ||
+      !Array.isArray(e.points)
+    ) {
+      continue;
+    }
+    const points = e.points
+      .slice(0, 20)
+      .map(sanitizeDiagramPoint)
+      .filter((point): point is DiagramPoint => point !== null);
+    if (points.length < 2) continue;
+
+    const sanitizedEdge: DiagramEdge = {
+      from: truncateString(e.from, 200),
+      to: truncateString(e.to, 200),
+      line: e.line as DiagramEdge["line"],
+      arrow: e.arrow === true,
+      points,
+    };
+    const labelPosition = sanitizeDiagramPoint(e.labelPosition);
+    if (typeof e.label === "string" && labelPosition) {
+      sanitizedEdge.label = truncateString(e.label, 1000);
+      sanitizedEdge.labelPosition = labelPosition;
+    }
+    edges.push(sanitizedEdge);
+  }
+
+  return {
+    type: d.type,
+    width: Math.max(0, d.width),
+    height: Math.max(0, d.height),
+    nodes,
+    edges,
+  };
+}
+
+/**
+ * Sanitize a chart parsed by the CLI.
+ * Series with non-numeric values are dropped; returns null if nothing is left.
+ */
+function sanitizeChart(chart: unknown): Chart | null {
+  if (!chart || typeof chart !== "object") return null;
+
+  const c = chart as Record<string, unknown>;
+  if (
+    typeof c.type !== "string" ||
+    !isValidChartType(c.type) ||
+    !Array.isArray(c.labels) ||
+    !Array.isArray(c.series)
+  ) {
+    return null;
+  }
+
+  const labels = c.labels
+    .slice(0, CHART_LAYOUT.MAX_POINTS)
+    .map((label) =>
+      typeof label === "string" ? truncateString(label, 200) : "",
+    );
+  const series: ChartSeries[] = [];
+  for (const entry of c.series.slice(0, CHART_LAYOUT.MAX_SERIES)) {
+    if (!entry || typeof entry !== "object") continue;
+    const s = entry as Record<string, unknown>;
+    if (
+      typeof s.name !== "string" ||
+      !Array.isArray(s.values) ||
+      !s.values.every(isFiniteNumber)
+    ) {
+      continue;
+    }
+    series.push({
+      name: truncateString(s.name, 200),
+      values: (s.values as number[]).slice(0, labels.length),
+    });
+  }
+  if (labels.length === 0 || series.length === 0) return null;
+
+  const sanitized: Chart = { type: c.type, labels, series };
+  if (typeof c.title === "string") {
+    sanitized.title = truncateString(c.title, 1000);
+  }
+  if (Array.isArray(c.colors)) {
+    sanitized.colors = c.colors
+      .filter((color): color is string => typeof color === "string")
+      .slice(0, CHART_LAYOUT.MAX_POINTS)
+      .map((color) => truncateString(color, 50));
+  }
   return sanitized;
 }
 
+/**
+ * Check SVG image markup from the CLI; oversized or non-SVG markup is
+ * dropped rather than truncated, which would corrupt it
+ */
+function isValidImageSvg(svg: unknown): svg is string {
+  return (
+    typeof svg === "string" &&
+    svg.length <= MAX_IMAGE_SVG_LENGTH &&
+    svg.includes("<svg")
+  );
+}
+
+/**
+ * Sanitize a formula rendered by the CLI; returns null unless it is an
+ * `<svg>` element of bounded size with finite em dimensions
+ */
+function sanitizeMathSvg(math: unknown): MathSvg | null {
+  if (!math || typeof math !== "object") return null;
+  const m = math as Record<string, unknown>;
+  if (
+    typeof m.svg !== "string" ||
+    !m.svg.startsWith("<svg") ||
+    m.svg.length > MAX_MATH_SVG_LENGTH ||
+    !isFiniteNumber(m.width) ||
+    !isFiniteNumber(m.height) ||
+    !isFiniteNumber(m.depth) ||
+    m.width <= 0 ||
+    m.height <= 0
+  ) {
+    return null;
+  }
+  return {
+    svg: m.svg,
+    width: m.width,
+    height: m.height,
+    depth: Math.max(0, m.depth),
+  };
+}
+
+/**
+ * Keep precomputed code tokens only when they are well formed and cover
+ * exactly `code` (after truncation), so they cannot carry extra text
+ */
+function sanitizeCodeTokens(
+  tokens: unknown,
+  code: unknown,
+): CodeToken[] | undefined {
+  if (
+    !Array.isArray(tokens) ||
+    typeof code !== "string" ||
+    tokens.length > code.length
+  ) {
+    return undefined;
+  }
+  const sanitized: CodeToken[] = [];
+  for (const token of tokens) {
+    if (!token || typeof token !== "object") return undefined;
+    const { text, token: type } = token as Record<string, unknown>;
+    if (
+      typeof text !== "string" ||
+      text === "" ||
+      typeof type !== "string" ||
+      !isCodeTokenType(type)
+    ) {
+      return undefined;
+    }
+    sanitized.push({ text, token: type });
+  }
+  return sanitized.map((token) => token.text).join("") === code
+    ? sanitized
+    : undefined;
+}
+
 export function validateAndSanitizeSlides(
   slides: unknown,
 ): { valid: true; slides: SlideContent[] } | { valid: false; error: string } {
@@ -1390,6 +2189,7 @@ export function validateAndSanitizeSlides(
   }
 
   const sanitized: SlideContent[] = [];
+  const seenIds = new Set<string>();
 
   for (let i = 0; i < slides.length; i++) {
     const slide = slides[i] as Record<string, unknown>;
@@ -1422,6 +2222,64 @@ export function validateAndSanitizeSlides(
       delete (sanitizedSlide as { cover?: unknown }).cover;
     }
 
+    // Only keep the layout if it's a known layout name
+    if (typeof slide.layout !== "string" || !isValidSlideLayout(slide.layout)) {
+      delete (sanitizedSlide as { layout?: unknown }).layout;
+    }
+
+    // Only keep build step info if it's a valid 1-indexed position
+    const build = slide.build as { step?: unknown; total?: unknown } | null;
+    const step = build && typeof build === "object" ? build.step : undefined;
+    const total = build && typeof build === "object" ? build.total : undefined;
+    if (
+      typeof step === "number" &&
+      typeof total === "number" &&
+      Number.isInteger(step) &&
+      Number.isInteger(total) &&
+      step >= 1 &&
+      step <= total
+    ) {
+      sanitizedSlide.build = { step, total };
+    } else {
+      delete (sanitizedSlide as { build?: unknown }).build;
+    }
+
+    // Only keep auto-fit settings with a known mode and a valid scale
+    const autoFit = slide.autoFit as { mode?: unknown; minScale?: unknown };
+    if (
+      autoFit &&
+      typeof autoFit === "object" &&
+      (autoFit.mode === "shrink" || autoFit.mode === "split")
+    ) {
+      sanitizedSlide.autoFit = { mode: autoFit.mode };
+      if (
+        isFiniteNumber(autoFit.minScale) &&
+        autoFit.minScale >= 0.1 &&
+        autoFit.minScale <= 1
+      ) {
+        sanitizedSlide.autoFit.minScale = autoFit.minScale;
+      }
+    } else {
+      delete (sanitizedSlide as { autoFit?: unknown }).autoFit;
+    }
+
+    // Only keep the slide id if it's a unique non-empty string
+    const slideId =
+      typeof slide.id === "string" ? truncateString(slide.id, 200) : "";
+    if (slideId && !seenIds.has(slideId)) {
+      seenIds.add(slideId);
+      sanitizedSlide.id = slideId;
+    } else {
+      delete (sanitizedSlide as { id?: unknown }).id;
+    }
+
+    // Only keep speaker notes if they're a string
+    if (typeof slide.notes === "string") {
+      sanitizedSlide.notes = truncateString(slide.notes, MAX_STRING_LENGTH);
+    } else {
+      delete (sanitizedSlide as { notes?: unknown }).notes;
+    }
+
     // Sanitize text content in blocks
     if (Array.isArray(sanitizedSlide.blocks)) {
       const validBlocks: SlideBlock[] = [];
@@ -1441,6 +2299,46 @@ export function validateAndSanitizeSlides(
           continue;
         }
 
+        // Handle diagram blocks, dropping ones that fail validation
+        if (sanitizedBlock.kind === "diagram" && "diagram" in sanitizedBlock) {
+          const sanitizedDiagram = sanitizeDiagram(sanitizedBlock.diagram);
+          if (sanitizedDiagram === null) {
+            continue;
+          }
+          sanitizedBlock.diagram = sanitizedDiagram;
+          validBlocks.push(sanitizedBlock as SlideBlock);
+          continue;
+        }
+
+        // Handle chart blocks, dropping ones that fail validation
+        if (sanitizedBlock.kind === "chart" && "chart" in sanitizedBlock) {
+          const sanitizedChart = sanitizeChart(sanitizedBlock.chart);
+          if (sanitizedChart === null) {
+            continue;
+          }
+          sanitizedBlock.chart = sanitizedChart;
+          validBlocks.push(sanitizedBlock as SlideBlock);
+          continue;
+        }
+
+        // Handle math blocks, dropping ones that fail validation
+        if (sanitizedBlock.kind === "math" && "math" in sanitizedBlock) {
+          const sanitizedMath = sanitizeMathSvg(sanitizedBlock.math);
+          if (
+            sanitizedMath === null ||
+            typeof sanitizedBlock.tex !== "string"
+          ) {
+            continue;
+          }
+          sanitizedBlock.math = sanitizedMath;
+          sanitizedBlock.tex = truncateString(
+            sanitizedBlock.tex,
+            MAX_STRING_LENGTH,
+          );
+          validBlocks.push(sanitizedBlock as SlideBlock);
+          continue;
+        }
+
         // Handle columns blocks with nested block sanitization
         if (sanitizedBlock.kind === "columns" && "columns" in sanitizedBlock) {
           const columnsBlock = sanitizedBlock as unknown as ColumnsBlock;
@@ -1451,6 +2349,38 @@ export function validateAndSanitizeSlides(
               const sanitizedColumn: SlideBlockItem[] = [];
               for (const item of column) {
                 const sanitizedItem = Object.assign({}, item);
+                if (sanitizedItem.kind === "diagram") {
+                  const sanitizedDiagram = sanitizeDiagram(
+                    sanitizedItem.diagram,
+                  );
+                  if (sanitizedDiagram === null) continue;
+                  sanitizedItem.diagram = sanitizedDiagram;
+                  sanitizedColumn.push(sanitizedItem);
+                  continue;
+                }
+                if (sanitizedItem.kind === "chart") {
+                  const sanitizedChart = sanitizeChart(sanitizedItem.chart);
+                  if (sanitizedChart === null) continue;
+                  sanitizedItem.chart = sanitizedChart;
+                  sanitizedColumn.push(sanitizedItem);
+                  continue;
+                }
+                if (sanitizedItem.kind === "math") {
+                  const sanitizedMath = sanitizeMathSvg(sanitizedItem.math);
+                  if (
+                    sanitizedMath === null ||
+                    typeof sanitizedItem.tex !== "string"
+                  ) {
+                    continue;
+                  }
+                  sanitizedItem.math = sanitizedMath;
+                  sanitizedItem.tex = truncateString(
+                    sanitizedItem.tex,
+                    MAX_STRING_LENGTH,
+                  );
+                  sanitizedColumn.push(sanitizedItem);
+                  continue;
+                }
                 if (
                   "text" in sanitizedItem &&
                   typeof sanitizedItem.text === "string"
@@ -1480,6 +2410,20 @@ export function validateAndSanitizeSlides(
                     MAX_STRING_LENGTH * 10,
                   );
                 }
+                if (sanitizedItem.kind === "code" && sanitizedItem.tokens) {
+                  const tokens = sanitizeCodeTokens(
+                    sanitizedItem.tokens,
+                    sanitizedItem.code,
+                  );
+                  if (tokens) sanitizedItem.tokens = tokens;
+                  else delete sanitizedItem.tokens;
+                }
+                if (
+                  sanitizedItem.kind === "image" &&
+                  !isValidImageSvg(sanitizedItem.svg)
+                ) {
+                  delete sanitizedItem.svg;
+                }
                 sanitizedColumn.push(sanitizedItem as SlideBlockItem);
               }
               sanitizedColumns.push(sanitizedColumn);
@@ -1534,6 +2478,20 @@ export function validateAndSanitizeSlides(
             MAX_STRING_LENGTH * 10,
           );
         }
+        if (sanitizedBlock.kind === "code" && sanitizedBlock.tokens) {
+          const tokens = sanitizeCodeTokens(
+            sanitizedBlock.tokens,
+            sanitizedBlock.code,
+          );
+          if (tokens) sanitizedBlock.tokens = tokens;
+          else delete sanitizedBlock.tokens;
+        }
+        if (
+          sanitizedBlock.kind === "image" &&
+          !isValidImageSvg(sanitizedBlock.svg)
+        ) {
+          delete sanitizedBlock.svg;
+        }
         validBlocks.push(sanitizedBlock as SlideBlock);
       }
 
@@ -1546,22 +2504,117 @@ export function validateAndSanitizeSlides(
   return { valid: true, slides: sanitized };
 }
 
+/**
+ * Apply a `patch-slides` message to the slides of its base revision.
+ * Returns null if the patch cannot be applied (e.g. an id in `order` is
+ * unknown), in which case a full sync is needed.
+ */
+export function applySlidePatch(
+  baseSlides: SlideContent[],
+  patch: Pick<PatchSlidesMessage, "order" | "added" | "changed" | "removed">,
+): SlideContent[] | null {
+  if (patch.order.length > MAX_SLIDES) {
+    return null;
+  }
+
+  const slidesById = new Map<string, SlideContent>();
+  for (const slide of baseSlides) {
+    if (slide.id) {
+      slidesById.set(slide.id, slide);
+    }
+  }
+  for (const id of patch.removed) {
+    slidesById.delete(id);
+  }
+  for (const slide of patch.added.concat(patch.changed)) {
+    if (!slide.id) {
+      return null;
+    }
+    slidesById.set(slide.id, slide);
+  }
+
+  const result: SlideContent[] = [];
+  for (const id of patch.order) {
+    const slide = slidesById.get(id);
+    if (!slide) {
+      return null;
+    }
+    result.push(slide);
+  }
+  return result;
+}
+
+/**
+ * Validate and sanitize the slides carried by a patch message.
+ * Returns the sanitized patch, or an error message.
+ */
+function validatePatch(
+  msg: Record<string, unknown>,
+):
+  | { valid: true; patch: PatchSlidesMessage }
+  | { valid: false; error: string } {
+  const { baseRevision, revision, order, added, changed, removed } = msg;
+  if (
+    typeof baseRevision !== "number" ||
+    typeof revision !== "number" ||
+    !Array.isArray(order) ||
+    !Array.isArray(added) ||
+    !Array.isArray(changed) ||
+    !Array.isArray(removed)
+  ) {
+    return { valid: false, error: "Malformed patch-slides message" };
+  }
+  if (
+    !order.every((id) => typeof id === "string") ||
+    !removed.every((id) => typeof id === "string")
+  ) {
+    return { valid: false, error: "Patch slide ids must be strings" };
+  }
+
+  const sanitizeList = (slides: unknown[]) => {
+    if (slides.length === 0) {
+      return { valid: true as const, slides: [] as SlideContent[] };
+    }
+    return validateAndSanitizeSlides(slides);
+  };
+  const addedResult = sanitizeList(added);
+  if (!addedResult.valid) return addedResult;
+  const changedResult = sanitizeList(changed);
+  if (!changedResult.valid) return changedResult;
+
+  return {
+    valid: true,
+    patch: {
+      type: "patch-slides",
+      baseRevision,
+      revision,
+      order: order as string[],
+      added: addedResult.slides,
+      changed: changedResult.slides,
+      removed: removed as string[],
+    },
+  };
+}
+
 /**
  * Process the pending slides if any, with back-pressure handling.
  * Only one generateSlides can run at a time; newer payloads replace pending ones.
  *
  * @param slides - The slides to process
+ * @param revision - Revision of the payload, reported back once generated
  * @param isContinuation - If true, this is a scheduled continuation from pending work
  *                         and should bypass the isGenerating guard
  */
 async function processSlides(
   slides: SlideContent[],
+  revision: number | null,
   isContinuation = false,
 ): Promise<void> {
   // If already generating (and not a scheduled continuation), queue this payload
   if (isGenerating && !isContinuation) {
     const hadPending = pendingSlides !== null;
     pendingSlides = slides;
+    pendingRevision = revision;
     if (hadPending) {
       console.log("[figdeck] Render skipped - newer payload queued");
     }
@@ -1571,11 +2624,31 @@ async function processSlides(
   isGenerating = true;
 
   try {
-    await generateSlides(slides);
+    const variables = await resolveColorVariables(slides);
+    const overflows = await generateSlides(slides);
+    currentSlides = slides;
+    currentRevision = revision;
     figma.ui.postMessage({
       type: "success",
       count: slides.length,
+      revision,
     });
+    if (variables.length > 0) {
+      const message: ColorVariablesMessage = {
+        type: "variables",
+        revision,
+        variables,
+      };
+      figma.ui.postMessage(message);
+    }
+    if (overflows.length > 0) {
+      const message: OverflowMessage = {
+        type: "overflow",
+        revision,
+        slides: overflows,
+      };
+      figma.ui.postMessage(message);
+    }
   } catch (error) {
     console.error("[figdeck] Error generating slides:", error);
     figma.ui.postMessage({ type: "error", message: String(error) });
@@ -1586,16 +2659,23 @@ async function processSlides(
     // resetting the flag and the setTimeout callback executing
     if (pendingSlides) {
       const next = pendingSlides;
+      const nextRevision = pendingRevision;
       pendingSlides = null;
+      pendingRevision = null;
       // Use setTimeout to avoid stack overflow on rapid updates
-      setTimeout(() => processSlides(next, true), 0);
+      setTimeout(() => processSlides(next, nextRevision, true), 0);
     } else {
       isGenerating = false;
     }
   }
 }
 
-figma.ui.onmessage = async (msg: { type: string; slides?: unknown }) => {
+figma.ui.onmessage = async (msg: {
+  type: string;
+  slides?: unknown;
+  revision?: unknown;
+  [key: string]: unknown;
+}) => {
   if (msg.type === "generate-slides" && msg.slides) {
     const validation = validateAndSanitizeSlides(msg.slides);
 
@@ -1605,6 +2685,33 @@ figma.ui.onmessage = async (msg: { type: string; slides?: unknown }) => {
       return;
     }
 
-    await processSlides(validation.slides);
+    await processSlides(
+      validation.slides,
+      typeof msg.revision === "number" ? msg.revision : null,
+    );
+  } else if (msg.type === "patch-slides") {
+    const validation = validatePatch(msg);
+
+    if (!validation.valid) {
+      console.error(`[figdeck] Validation error: ${validation.error}`);
+      figma.ui.postMessage({ type: "error", message: validation.error });
+      return;
+    }
+
+    const { patch } = validation;
+    const patched =
+      currentSlides && currentRevision === patch.baseRevision
+        ? applySlidePatch(currentSlides, patch)
+        : null;
+
+    if (!patched || patched.length === 0) {
+      console.log(
+        `[figdeck] Patch for revision ${patch.baseRevision} does not match revision ${currentRevision}, requesting full sync`,
+      );
+      figma.ui.postMessage({ type: "resync", revision: currentRevision });
+      return;
+    }
+
+    await processSlides(patched, patch.revision);
   }
 };
@@ -1,16 +1,110 @@
-import { parseColorToRGBA } from "@figdeck/shared";
+import { parseColorToRGBA, parseColorVariable } from "@figdeck/shared";
 import { DEFAULT_TEXT_COLOR } from "./constants";
+import { getColorVariable, getResolvedColorVariable } from "./variables";
 
 /**
- * Parse a color string (hex or rgba) to Figma RGB/RGBA
- * Uses shared parseColorToRGBA for consistent parsing
+ * A color setting parsed to Figma RGB, with the variable it references when
+ * that variable was found
+ */
+export interface ResolvedColor {
+  color: RGB;
+  opacity: number;
+  variable?: Variable;
+}
+
+/**
+ * A built-in color, or a color setting that may be bound to a variable
+ */
+export type PaintColor = RGB | ResolvedColor;
+
+/**
+ * Parse a color string (hex, rgba or var reference) to Figma RGB/RGBA
+ * Uses shared parseColorToRGBA for consistent parsing; variable references
+ * use the resolved variable color, else their fallback
  */
 export function parseColor(
   color: string,
 ): { r: number; g: number; b: number; a?: number } | null {
+  const variable = parseColorVariable(color);
+  if (variable) {
+    const resolved = getColorVariable(variable.name);
+    if (resolved) return resolved;
+  }
   return parseColorToRGBA(color);
 }
 
+/**
+ * Parse a color setting, keeping the variable a `var()` reference resolved to
+ * so paints created from it are bound to that variable
+ */
+export function resolveColor(color: string): ResolvedColor | null {
+  const reference = parseColorVariable(color);
+  const resolved = reference ? getResolvedColorVariable(reference.name) : null;
+  if (resolved) {
+    const { r, g, b, a } = resolved.color;
+    return { color: { r, g, b }, opacity: a ?? 1, variable: resolved.variable };
+  }
+  const parsed = parseColorToRGBA(color);
+  if (!parsed) return null;
+  return {
+    color: { r: parsed.r, g: parsed.g, b: parsed.b },
+    opacity: parsed.a ?? 1,
+  };
+}
+
+function isResolvedColor(color: PaintColor): color is ResolvedColor {
+  return "color" in color;
+}
+
+/**
+ * RGB value of a paint color
+ */
+export function getPaintRGB(color: PaintColor): RGB {
+  return isResolvedColor(color) ? color.color : color;
+}
+
+/**
+ * Create a solid paint, bound to the color's variable when it has one.
+ * `opacity` defaults to the color's own alpha.
+ */
+export function createSolidPaint(
+  color: PaintColor,
+  opacity?: number,
+): SolidPaint {
+  if (!isResolvedColor(color)) {
+    return opacity === undefined
+      ? { type: "SOLID", color }
+      : { type: "SOLID", color, opacity };
+  }
+  const paint: SolidPaint = {
+    type: "SOLID",
+    color: color.color,
+    opacity: opacity ?? color.opacity,
+  };
+  return color.variable
+    ? figma.variables.setBoundVariableForPaint(paint, "color", color.variable)
+    : paint;
+}
+
+/**
+ * Create a gradient stop, bound to the color's variable when it has one
+ */
+export function createColorStop(
+  color: ResolvedColor,
+  position: number,
+): ColorStop {
+  const stop: ColorStop = {
+    position,
+    color: Object.assign({}, color.color, { a: color.opacity }),
+  };
+  if (!color.variable) return stop;
+  return Object.assign(stop, {
+    boundVariables: {
+      color: figma.variables.createVariableAlias(color.variable),
+    },
+  });
+}
+
 /**
  * Create default text fill
  */
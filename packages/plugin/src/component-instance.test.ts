@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+import {
+  applyComponentOverrides,
+  applyInstanceOverrides,
+  createComponentInstance,
+  findNestedInstance,
+  findPropertyKey,
+} from "./component-instance";
+
+type MockInstance = {
+  type: string;
+  name: string;
+  componentProperties: Record<string, { type: string; value: unknown }>;
+  children: unknown[];
+  setProperties: ReturnType<typeof mock>;
+  findOne?: (match: (node: { name: string }) => boolean) => unknown;
+};
+
+function createMockInstance(
+  name: string,
+  properties: Record<string, string> = {},
+): MockInstance {
+  const componentProperties: MockInstance["componentProperties"] = {};
+  for (const [key, type] of Object.entries(properties)) {
+    componentProperties[key] = { type, value: "" };
+  }
+  return {
+    type: "INSTANCE",
+    name,
+    componentProperties,
+    children: [],
+    setProperties: mock((values: Record<string, unknown>) => {
+      if (values.State === "Missing") throw new Error("Invalid variant");
+    }),
+  };
+}
+
+const components: Record<string, { type: string; id: string }> = {
+  "3:4": { type: "COMPONENT", id: "3:4" },
+};
+let notify: ReturnType<typeof mock>;
+
+beforeEach(() => {
+  notify = mock(() => {});
+  (globalThis as unknown as { figma: unknown }).figma = {
+    notify,
+    getNodeByIdAsync: mock(async (id: string) => components[id] ?? null),
+  };
+});
+
+describe("createComponentInstance", () => {
+  it("instantiates components and a component set's default variant", () => {
+    const instance = { type: "INSTANCE" };
+    const component = { type: "COMPONENT", createInstance: () => instance };
+    expect(createComponentInstance(component as unknown as BaseNode)).toBe(
+      instance as unknown as InstanceNode,
+    );
+    const set = { type: "COMPONENT_SET", defaultVariant: component };
+    expect(createComponentInstance(set as unknown as BaseNode)).toBe(
+      instance as unknown as InstanceNode,
+    );
+    expect(createComponentInstance({ type: "FRAME" } as BaseNode)).toBeNull();
+  });
+});
+
+describe("findPropertyKey", () => {
+  it("matches names with or without the id suffix", () => {
+    const properties = {
+      State: { type: "VARIANT", value: "Default" },
+      "Show icon#12:0": { type: "BOOLEAN", value: true },
+    } as unknown as ComponentProperties;
+    expect(findPropertyKey(properties, "State")).toBe("State");
+    expect(findPropertyKey(properties, "Show icon")).toBe("Show icon#12:0");
+    expect(findPropertyKey(properties, "Label")).toBeUndefined();
+  });
+});
+
+describe("applyComponentOverrides", () => {
+  it("sets variants first, then typed property values", async () => {
+    const instance = createMockInstance("Button", {
+      State: "VARIANT",
+      "Show icon#1:0": "BOOLEAN",
+      "Label#2:0": "TEXT",
+      "Icon#3:0": "INSTANCE_SWAP",
+    });
+
+    const warnings = await applyComponentOverrides(
+      instance as unknown as InstanceNode,
+      {
+        variants: { State: "Active" },
+        properties: {
+          "Show icon": "false",
+          Label: "Buy now",
+          Icon: "https://www.figma.com/design/abc/Name?node-id=3-4",
+        },
+      },
+    );
+
+    expect(warnings).toEqual([]);
+    expect(instance.setProperties.mock.calls).toEqual([
+      [{ State: "Active" }],
+      [{ "Show icon#1:0": false, "Label#2:0": "Buy now", "Icon#3:0": "3:4" }],
+    ]);
+  });
+
+  it("reports unknown properties and invalid values", async () => {
+    const instance = createMockInstance("Button", {
+      State: "VARIANT",
+      "Show icon#1:0": "BOOLEAN",
+      "Icon#3:0": "INSTANCE_SWAP",
+    });
+
+    const warnings = await applyComponentOverrides(
+      instance as unknown as InstanceNode,
+      {
+        variants: { State: "Missing", Size: "Large" },
+        properties: { "Show icon": "yes", Icon: "9-9", Label: "x" },
+      },
+    );
+
+    expect(warnings).toEqual([
+      'Variant property "Size" not found on "Button"',
+      'Failed to set properties on "Button": Invalid variant',
+      'Property "Show icon" expects true or false',
+      'Component for "Icon" not found: 9-9',
+      'Property "Label" not found on "Button"',
+    ]);
+  });
+});
+
+describe("findNestedInstance", () => {
+  it("follows layer names to a nested instance", () => {
+    const button = createMockInstance("Button");
+    const toolbar = {
+      type: "FRAME",
+      name: "Toolbar",
+      findOne: (match: (node: { name: string }) => boolean) =>
+        match(button) ? button : null,
+    };
+    const root = {
+      type: "INSTANCE",
+      name: "Header",
+      findOne: (match: (node: { name: string }) => boolean) =>
+        match(toolbar) ? toolbar : null,
+    };
+
+    expect(
+      findNestedInstance(root as unknown as SceneNode, ["Toolbar", "Button"]),
+    ).toBe(button as unknown as InstanceNode);
+    expect(
+      findNestedInstance(root as unknown as SceneNode, ["Toolbar"]),
+    ).toBeNull();
+    expect(
+      findNestedInstance(root as unknown as SceneNode, ["Sidebar"]),
+    ).toBeNull();
+  });
+});
+
+describe("applyInstanceOverrides", () => {
+  it("notifies when overrides target a node that is not an instance", async () => {
+    const frame = { type: "FRAME", name: "Card" };
+    await applyInstanceOverrides(frame as unknown as SceneNode, {
+      url: "https://www.figma.com/design/abc/Name?node-id=1-2",
+      component: { variants: { State: "Active" } },
+      nestedInstances: [{ path: ["Icon"], variants: { Size: "Small" } }],
+    });
+
+    expect(notify).toHaveBeenCalledWith(
+      '"Card" is not a component; variant and property overrides were skipped (+1 more)',
+      { error: true },
+    );
+  });
+});
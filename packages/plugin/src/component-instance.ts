@@ -0,0 +1,175 @@
+import type {
+  ComponentPropertyOverrides,
+  FigmaSelectionLink,
+} from "@figdeck/shared";
+import { parseFigmaUrl } from "@figdeck/shared";
+
+/**
+ * Create an instance of a component, or of a component set's default variant
+ * Returns null for other nodes, which are cloned instead.
+ */
+export function createComponentInstance(node: BaseNode): InstanceNode | null {
+  if (node.type === "COMPONENT") return node.createInstance();
+  if (node.type === "COMPONENT_SET") {
+    return node.defaultVariant.createInstance();
+  }
+  return null;
+}
+
+/**
+ * Find the componentProperties key for a property name
+ * Non-variant keys carry an id suffix (`Show icon#12:0`), which users omit.
+ */
+export function findPropertyKey(
+  properties: ComponentProperties,
+  name: string,
+): string | undefined {
+  const keys = Object.keys(properties);
+  return (
+    keys.find((key) => key === name) ??
+    keys.find((key) => key.split("#")[0] === name)
+  );
+}
+
+/**
+ * Resolve an instance-swap value (Figma URL or node ID) to a component ID
+ */
+async function resolveSwapComponentId(value: string): Promise<string | null> {
+  const nodeId = /^https?:\/\//.test(value)
+    ? parseFigmaUrl(value).nodeId
+    : value.replace(/-/g, ":");
+  if (!nodeId) return null;
+  const node = await figma.getNodeByIdAsync(nodeId);
+  if (node?.type === "COMPONENT") return node.id;
+  if (node?.type === "COMPONENT_SET") return node.defaultVariant.id;
+  return null;
+}
+
+function setProperties(
+  instance: InstanceNode,
+  values: Record<string, string | boolean>,
+  warnings: string[],
+): void {
+  if (Object.keys(values).length === 0) return;
+  try {
+    instance.setProperties(values);
+  } catch (error) {
+    warnings.push(
+      `Failed to set properties on "${instance.name}": ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Set variant and component property values on an instance
+ * Variants are set first, since switching variants can change the other
+ * properties. Returns warnings for properties that could not be set.
+ */
+export async function applyComponentOverrides(
+  instance: InstanceNode,
+  overrides: ComponentPropertyOverrides,
+): Promise<string[]> {
+  const warnings: string[] = [];
+
+  const variants: Record<string, string> = {};
+  for (const [name, value] of Object.entries(overrides.variants ?? {})) {
+    const key = findPropertyKey(instance.componentProperties, name);
+    if (!key || instance.componentProperties[key].type !== "VARIANT") {
+      warnings.push(
+        `Variant property "${name}" not found on "${instance.name}"`,
+      );
+      continue;
+    }
+    variants[key] = value;
+  }
+  setProperties(instance, variants, warnings);
+
+  const values: Record<string, string | boolean> = {};
+  for (const [name, value] of Object.entries(overrides.properties ?? {})) {
+    const key = findPropertyKey(instance.componentProperties, name);
+    if (!key) {
+      warnings.push(`Property "${name}" not found on "${instance.name}"`);
+      continue;
+    }
+    switch (instance.componentProperties[key].type) {
+      case "BOOLEAN":
+        if (value !== "true" && value !== "false") {
+          warnings.push(`Property "${name}" expects true or false`);
+          continue;
+        }
+        values[key] = value === "true";
+        break;
+      case "INSTANCE_SWAP": {
+        const componentId = await resolveSwapComponentId(value);
+        if (!componentId) {
+          warnings.push(`Component for "${name}" not found: ${value}`);
+          continue;
+        }
+        values[key] = componentId;
+        break;
+      }
+      default:
+        // TEXT and VARIANT take the value as is
+        values[key] = value;
+    }
+  }
+  setProperties(instance, values, warnings);
+
+  return warnings;
+}
+
+/**
+ * Find an instance nested inside a node by following layer names
+ */
+export function findNestedInstance(
+  root: SceneNode,
+  path: string[],
+): InstanceNode | null {
+  let current: SceneNode = root;
+  for (const name of path) {
+    if (!("findOne" in current)) return null;
+    const next: SceneNode | null = current.findOne(
+      (node) => node.name === name,
+    );
+    if (!next) return null;
+    current = next;
+  }
+  return current.type === "INSTANCE" ? current : null;
+}
+
+/**
+ * Apply a :::figma block's variant, property and nested instance overrides
+ * to the rendered node. Problems are notified in Figma without failing the block.
+ */
+export async function applyInstanceOverrides(
+  node: SceneNode,
+  link: FigmaSelectionLink,
+): Promise<void> {
+  const warnings: string[] = [];
+
+  if (link.component) {
+    if (node.type === "INSTANCE") {
+      warnings.push(...(await applyComponentOverrides(node, link.component)));
+    } else {
+      warnings.push(
+        `"${node.name}" is not a component; variant and property overrides were skipped`,
+      );
+    }
+  }
+
+  for (const nested of link.nestedInstances ?? []) {
+    const instance = findNestedInstance(node, nested.path);
+    if (!instance) {
+      warnings.push(`Nested instance "${nested.path.join(" > ")}" not found`);
+      continue;
+    }
+    warnings.push(...(await applyComponentOverrides(instance, nested)));
+  }
+
+  if (warnings.length === 0) return;
+  for (const warning of warnings) {
+    console.warn(`[figdeck] ${warning}`);
+  }
+  const more = warnings.length > 1 ? ` (+${warnings.length - 1} more)` : "";
+  figma.notify(`${warnings[0]}${more}`, { error: true });
+}
@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { Diagram } from "@figdeck/shared";
+import { renderDiagram } from "./diagram-renderer";
+import { createTextStyle, installFigmaMock, type MockNode } from "./test-utils";
+
+beforeEach(() => {
+  installFigmaMock();
+});
+
+const style = createTextStyle();
+
+const flowchart: Diagram = {
+  type: "flowchart",
+  width: 400,
+  height: 100,
+  nodes: [
+    {
+      id: "A",
+      label: "Start",
+      shape: "rect",
+      x: 0,
+      y: 0,
+      width: 120,
+      height: 56,
+    },
+    {
+      id: "B",
+      label: "Ok?",
+      shape: "diamond",
+      x: 200,
+      y: 0,
+      width: 180,
+      height: 84,
+    },
+  ],
+  edges: [
+    {
+      from: "A",
+      to: "B",
+      label: "go",
+      labelPosition: { x: 160, y: 28 },
+      line: "dotted",
+      arrow: true,
+      points: [
+        { x: 120, y: 28 },
+        { x: 200, y: 42 },
+      ],
+    },
+  ],
+};
+
+describe("renderDiagram", () => {
+  it("renders nodes as named frames on top of an edges layer", async () => {
+    const frame = (await renderDiagram(
+      flowchart,
+      style,
+    )) as unknown as MockNode;
+
+    expect(frame.name).toBe("Diagram (flowchart)");
+    expect(frame.children.map((child) => child.name)).toEqual([
+      "Edges",
+      "Node: A",
+      "Node: B",
+    ]);
+
+    const [, rectNode, diamondNode] = frame.children;
+    expect(rectNode.cornerRadius).toBe(4);
+    expect(rectNode.children[0].characters).toBe("Start");
+    // Diamonds are drawn with a vector outline behind the label
+    expect(diamondNode.children.map((child) => child.type)).toEqual([
+      "VECTOR",
+      "TEXT",
+    ]);
+  });
+
+  it("draws edges as vectors with an arrowhead on the last point", async () => {
+    const frame = (await renderDiagram(
+      flowchart,
+      style,
+    )) as unknown as MockNode;
+    const [edge, label] = frame.children[0].children;
+
+    expect(edge.name).toBe("Edge: A → B");
+    expect(edge.dashPattern).toEqual([6, 6]);
+    const network = edge.vectorNetwork as {
+      vertices: Array<{ x: number; y: number; strokeCap: string }>;
+    };
+    expect(network.vertices).toEqual([
+      { x: 0, y: 0, strokeCap: "NONE" },
+      { x: 80, y: 14, strokeCap: "ARROW_LINES" },
+    ]);
+    expect(label.characters).toBe("go");
+  });
+
+  it("scales the diagram to the paragraph font size", async () => {
+    const frame = (await renderDiagram(flowchart, {
+      ...style,
+      fontSize: 40,
+    })) as unknown as MockNode;
+
+    expect(frame.rescale).toHaveBeenCalledWith(2);
+  });
+
+  it("shrinks diagrams wider than the content area", async () => {
+    const frame = (await renderDiagram(
+      { ...flowchart, width: 3440 },
+      style,
+    )) as unknown as MockNode;
+
+    expect(frame.rescale).toHaveBeenCalledWith(0.5);
+  });
+});
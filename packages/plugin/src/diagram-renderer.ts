@@ -0,0 +1,214 @@
+import type { Diagram, DiagramEdge, DiagramNode } from "@figdeck/shared";
+import {
+  CONTAINER_PADDING,
+  CONTENT_WIDTH,
+  DIAGRAM_LAYOUT,
+  SLIDE_HEIGHT,
+} from "@figdeck/shared";
+import { createDefaultTextFill } from "./colors";
+import type { ResolvedTextStyle } from "./styles";
+
+/** Tallest a diagram may grow on a slide before it is scaled down */
+const MAX_DIAGRAM_HEIGHT = SLIDE_HEIGHT - CONTAINER_PADDING * 2 - 160;
+
+const EDGE_STROKE_WEIGHT = { solid: 2, dotted: 2, thick: 4 } as const;
+const DOTTED_DASH_PATTERN = [6, 6];
+
+/** Corner radius for each node shape (circle and stadium depend on size) */
+function getCornerRadius(node: DiagramNode): number {
+  switch (node.shape) {
+    case "round":
+      return 16;
+    case "stadium":
+      return node.height / 2;
+    case "circle":
+      return node.width / 2;
+    default:
+      return 4;
+  }
+}
+
+/**
+ * Light tint of the diagram color used to fill node shapes
+ */
+function createNodeFill(paint: Paint[]): Paint[] {
+  const base = paint[0];
+  if (!base || base.type !== "SOLID") return [];
+  return [{ type: "SOLID", color: base.color, opacity: 0.08 }];
+}
+
+/**
+ * Create a centered label text node
+ */
+function createLabel(
+  text: string,
+  fontName: FontName,
+  paint: Paint[],
+): TextNode {
+  const label = figma.createText();
+  label.fontName = fontName;
+  label.fontSize = DIAGRAM_LAYOUT.FONT_SIZE;
+  label.characters = text;
+  label.textAlignHorizontal = "CENTER";
+  label.textAlignVertical = "CENTER";
+  label.fills = paint;
+  return label;
+}
+
+/**
+ * Render a node as a frame holding its outline and label
+ */
+function renderDiagramNode(
+  node: DiagramNode,
+  fontName: FontName,
+  paint: Paint[],
+): FrameNode {
+  const frame = figma.createFrame();
+  frame.name = `Node: ${node.id}`;
+  frame.x = node.x;
+  frame.y = node.y;
+  frame.resize(node.width, node.height);
+  frame.clipsContent = false;
+
+  if (node.shape === "diamond") {
+    frame.fills = [];
+    const outline = figma.createVector();
+    outline.name = "Shape";
+    outline.vectorPaths = [
+      {
+        windingRule: "NONZERO",
+        data: `M ${node.width / 2} 0 L ${node.width} ${node.height / 2} L ${node.width / 2} ${node.height} L 0 ${node.height / 2} Z`,
+      },
+    ];
+    outline.fills = createNodeFill(paint);
+    outline.strokes = paint;
+    outline.strokeWeight = 2;
+    frame.appendChild(outline);
+  } else {
+    frame.fills = createNodeFill(paint);
+    frame.strokes = paint;
+    frame.strokeWeight = 2;
+    frame.cornerRadius = getCornerRadius(node);
+  }
+
+  const label = createLabel(node.label, fontName, paint);
+  label.textAutoResize = "NONE";
+  label.resize(node.width, node.height);
+  label.x = 0;
+  label.y = 0;
+  frame.appendChild(label);
+
+  return frame;
+}
+
+/**
+ * Render an edge as a vector polyline, with an arrowhead on its last point
+ */
+async function renderDiagramEdge(
+  edge: DiagramEdge,
+  lifeline: boolean,
+  paint: Paint[],
+): Promise<VectorNode | null> {
+  if (edge.points.length < 2) return null;
+
+  const minX = Math.min(...edge.points.map((point) => point.x));
+  const minY = Math.min(...edge.points.map((point) => point.y));
+
+  const vector = figma.createVector();
+  vector.name = lifeline
+    ? `Lifeline: ${edge.from}`
+    : `Edge: ${edge.from} → ${edge.to}`;
+  const lastIndex = edge.points.length - 1;
+  await vector.setVectorNetworkAsync({
+    vertices: edge.points.map((point, index) => ({
+      x: point.x - minX,
+      y: point.y - minY,
+      strokeCap: index === lastIndex && edge.arrow ? "ARROW_LINES" : "NONE",
+    })),
+    segments: edge.points.slice(1).map((_, index) => ({
+      start: index,
+      end: index + 1,
+    })),
+  });
+  vector.x = minX;
+  vector.y = minY;
+  vector.fills = [];
+  vector.strokes = paint;
+  vector.strokeWeight = EDGE_STROKE_WEIGHT[edge.line];
+  if (edge.line === "dotted") {
+    vector.dashPattern = DOTTED_DASH_PATTERN;
+  }
+  return vector;
+}
+
+/**
+ * Render a diagram laid out by the CLI as frames, vectors and text that can
+ * be restyled in Figma. Labels are scaled to the paragraph size and the
+ * whole diagram shrinks to fit the slide content area.
+ */
+export async function renderDiagram(
+  diagram: Diagram,
+  style: ResolvedTextStyle,
+  x?: number,
+  y?: number,
+): Promise<FrameNode> {
+  const paint = style.fills ?? createDefaultTextFill();
+
+  let fontName: FontName = {
+    family: style.font.family,
+    style: style.font.regular,
+  };
+  try {
+    await figma.loadFontAsync(fontName);
+  } catch {
+    fontName = { family: "Inter", style: "Regular" };
+    await figma.loadFontAsync(fontName);
+  }
+
+  const frame = figma.createFrame();
+  frame.name = `Diagram (${diagram.type})`;
+  frame.resize(Math.max(1, diagram.width), Math.max(1, diagram.height));
+  frame.fills = [];
+  frame.clipsContent = false;
+
+  // Edges first so nodes and labels sit on top of them
+  const edgesFrame = figma.createFrame();
+  edgesFrame.name = "Edges";
+  edgesFrame.resize(Math.max(1, diagram.width), Math.max(1, diagram.height));
+  edgesFrame.fills = [];
+  edgesFrame.clipsContent = false;
+  frame.appendChild(edgesFrame);
+
+  for (const edge of diagram.edges) {
+    const lifeline =
+      diagram.type === "sequence" && edge.from === edge.to && !edge.arrow;
+    const vector = await renderDiagramEdge(edge, lifeline, paint);
+    if (vector) edgesFrame.appendChild(vector);
+
+    if (edge.label && edge.labelPosition) {
+      const label = createLabel(edge.label, fontName, paint);
+      label.name = `Label: ${edge.from} → ${edge.to}`;
+      label.x = edge.labelPosition.x - label.width / 2;
+      label.y = edge.labelPosition.y - label.height / 2;
+      edgesFrame.appendChild(label);
+    }
+  }
+
+  for (const node of diagram.nodes) {
+    frame.appendChild(renderDiagramNode(node, fontName, paint));
+  }
+
+  // Match the paragraph text size, but never overflow the content area
+  const scale = Math.min(
+    style.fontSize / DIAGRAM_LAYOUT.FONT_SIZE,
+    CONTENT_WIDTH / Math.max(1, diagram.width),
+    MAX_DIAGRAM_HEIGHT / Math.max(1, diagram.height),
+  );
+  if (scale !== 1) {
+    frame.rescale(scale);
+  }
+
+  if (x !== undefined) frame.x = x;
+  if (y !== undefined) frame.y = y;
+  return frame;
+}
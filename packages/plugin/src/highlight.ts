@@ -1,3 +1,8 @@
+import {
+  type CodeToken,
+  type CodeTokenType,
+  parseHighlightedHtml,
+} from "@figdeck/shared";
 import hljs from "highlight.js/lib/core";
 import bash from "highlight.js/lib/languages/bash";
 import css from "highlight.js/lib/languages/css";
@@ -9,6 +14,7 @@ import rust from "highlight.js/lib/languages/rust";
 import sql from "highlight.js/lib/languages/sql";
 import typescript from "highlight.js/lib/languages/typescript";
 import xml from "highlight.js/lib/languages/xml";
+import type { PaintColor } from "./colors";
 import { djb2Hash } from "./hash";
 
 // Register languages
@@ -37,8 +43,9 @@ export const LANG_ALIASES: Record<string, string> = {
 // Larger blocks will use plain text to avoid performance issues
 const MAX_HIGHLIGHT_LENGTH = 10000;
 
-// Cache for highlight results: maps "lang:hash" to segments
-const highlightCache = new Map<string, HighlightSegment[]>();
+// Cache for highlight results: maps "lang:hash" to token segments.
+// Colors are applied per call so decks with different palettes share entries.
+const highlightCache = new Map<string, CodeToken[]>();
 
 /**
  * Compute cache key for highlight results.
@@ -49,7 +56,7 @@ function computeHighlightCacheKey(code: string, lang: string | null): string {
 }
 
 // Theme colors (VS Code dark theme inspired)
-export const THEME_COLORS: Record<string, RGB> = {
+export const THEME_COLORS: Record<CodeTokenType, RGB> = {
   keyword: { r: 0.78, g: 0.47, b: 0.81 }, // Purple #c678dd
   string: { r: 0.6, g: 0.76, b: 0.45 }, // Green #98c379
   number: { r: 0.82, g: 0.68, b: 0.47 }, // Orange #d19a66
@@ -61,111 +68,46 @@ export const THEME_COLORS: Record<string, RGB> = {
   default: { r: 0.67, g: 0.7, b: 0.75 }, // Light gray #abb2bf
 };
 
-// Map hljs class names to theme colors
-function getColorForClass(className: string): RGB {
-  if (className.includes("keyword") || className.includes("built_in")) {
-    return THEME_COLORS.keyword;
-  }
-  if (className.includes("string") || className.includes("regexp")) {
-    return THEME_COLORS.string;
-  }
-  if (className.includes("number") || className.includes("literal")) {
-    return THEME_COLORS.number;
-  }
-  if (className.includes("comment")) {
-    return THEME_COLORS.comment;
-  }
-  if (className.includes("function") || className.includes("title")) {
-    return THEME_COLORS.function;
-  }
-  if (className.includes("variable") || className.includes("attr")) {
-    return THEME_COLORS.variable;
-  }
-  if (className.includes("type") || className.includes("class")) {
-    return THEME_COLORS.type;
-  }
-  if (className.includes("punctuation") || className.includes("operator")) {
-    return THEME_COLORS.punctuation;
-  }
-  return THEME_COLORS.default;
-}
-
 export interface HighlightSegment {
   text: string;
-  color: RGB;
-}
-
-// Parse highlighted HTML to extract text segments with colors
-function parseHighlightedCode(html: string): HighlightSegment[] {
-  const segments: HighlightSegment[] = [];
-  let currentText = "";
-  let currentColor = THEME_COLORS.default;
-  let i = 0;
-
-  while (i < html.length) {
-    if (html[i] === "<") {
-      // Flush current text
-      if (currentText) {
-        segments.push({ text: currentText, color: currentColor });
-        currentText = "";
-      }
-
-      // Find the end of the tag
-      const tagEnd = html.indexOf(">", i);
-      if (tagEnd === -1) break;
-
-      const tag = html.slice(i, tagEnd + 1);
-
-      if (tag.startsWith("<span")) {
-        // Extract class name
-        const classMatch = tag.match(/class="([^"]+)"/);
-        if (classMatch) {
-          currentColor = getColorForClass(classMatch[1]);
-        }
-      } else if (tag === "</span>") {
-        currentColor = THEME_COLORS.default;
-      }
-
-      i = tagEnd + 1;
-    } else if (html[i] === "&") {
-      // Handle HTML entities
-      const entityEnd = html.indexOf(";", i);
-      if (entityEnd !== -1) {
-        const entity = html.slice(i, entityEnd + 1);
-        if (entity === "&lt;") currentText += "<";
-        else if (entity === "&gt;") currentText += ">";
-        else if (entity === "&amp;") currentText += "&";
-        else if (entity === "&quot;") currentText += '"';
-        else if (entity === "&#x27;") currentText += "'";
-        else currentText += entity;
-        i = entityEnd + 1;
-      } else {
-        currentText += html[i];
-        i++;
-      }
-    } else {
-      currentText += html[i];
-      i++;
-    }
-  }
-
-  // Flush remaining text
-  if (currentText) {
-    segments.push({ text: currentText, color: currentColor });
-  }
-
-  return segments;
+  color: PaintColor;
 }
 
 /**
  * Highlight code and return segments with colors.
+ * Fallback for code blocks without CLI tokens (e.g. imported JSON), so only
+ * the languages registered above are highlighted.
+ * `colors` overrides the built-in palette per token kind.
  * Uses caching to avoid re-highlighting identical code.
  * Skips highlighting for very large code blocks.
  */
 export function highlightCode(
   code: string,
   language?: string,
+  colors?: Partial<Record<CodeTokenType, PaintColor>>,
 ): HighlightSegment[] {
+  return colorTokens(tokenizeCode(code, language), colors);
+}
+
+/**
+ * Color tokens with the built-in palette, overridden per token kind by `colors`
+ */
+export function colorTokens(
+  tokens: CodeToken[],
+  colors?: Partial<Record<CodeTokenType, PaintColor>>,
+): HighlightSegment[] {
+  const palette: Record<CodeTokenType, PaintColor> = Object.assign(
+    {},
+    THEME_COLORS,
+    colors,
+  );
+  return tokens.map((token) => ({
+    text: token.text,
+    color: palette[token.token],
+  }));
+}
+
+function tokenizeCode(code: string, language?: string): CodeToken[] {
   let lang = language ? language.toLowerCase() : null;
   if (lang && LANG_ALIASES[lang]) {
     lang = LANG_ALIASES[lang];
@@ -178,16 +120,16 @@ export function highlightCode(
     return cached;
   }
 
-  let segments: HighlightSegment[];
+  let segments: CodeToken[];
 
   // Guard: skip highlighting for very large code blocks
   if (code.length > MAX_HIGHLIGHT_LENGTH) {
-    segments = [{ text: code, color: THEME_COLORS.default }];
+    segments = [{ text: code, token: "default" }];
   } else if (lang && hljs.getLanguage(lang)) {
     const result = hljs.highlight(code, { language: lang });
-    segments = parseHighlightedCode(result.value);
+    segments = parseHighlightedHtml(result.value);
   } else {
-    segments = [{ text: code, color: THEME_COLORS.default }];
+    segments = [{ text: code, token: "default" }];
   }
 
   // Store in cache
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+import type { MathSvg } from "@figdeck/shared";
+import { createInlineMathNode, renderMathBlock } from "./math-renderer";
+import {
+  createMockNode,
+  createTextStyle,
+  installFigmaMock,
+  type MockNode,
+} from "./test-utils";
+
+let createNodeFromSvg: ReturnType<typeof mock>;
+
+beforeEach(() => {
+  createNodeFromSvg = mock((svg: string) => {
+    const node = createMockNode("FRAME");
+    node.svg = svg;
+    return node;
+  });
+  installFigmaMock({ createNodeFromSvg });
+});
+
+const style = createTextStyle({
+  fontSize: 40,
+  fills: [{ type: "SOLID", color: { r: 1, g: 0, b: 0 } }],
+});
+
+const math: MathSvg = {
+  svg: '<svg width="2000" height="1000"><g fill="currentColor" stroke="currentColor"></g></svg>',
+  width: 2,
+  height: 1,
+  depth: 0.25,
+};
+
+describe("renderMathBlock", () => {
+  it("imports the SVG in the text color, scaled to the font size", () => {
+    const node = renderMathBlock(math, style, 10, 20) as unknown as MockNode;
+
+    expect(node.name).toBe("Math");
+    expect(node.svg).toBe(
+      '<svg width="2000" height="1000"><g fill="#ff0000" stroke="#ff0000"></g></svg>',
+    );
+    expect(node.rescale).toHaveBeenCalledWith(0.04);
+    expect(node.x).toBe(10);
+    expect(node.y).toBe(20);
+  });
+});
+
+describe("createInlineMathNode", () => {
+  it("pads the formula so its baseline lines up with centered text", () => {
+    const wrapper = createInlineMathNode(
+      math,
+      20,
+      style.fills,
+    ) as unknown as MockNode;
+
+    expect(wrapper.name).toBe("Inline math");
+    expect(wrapper.children[0].name).toBe("Math");
+    // 1em tall with 0.25em below the baseline: 0.5 - 0.7 = -0.2em
+    expect(wrapper.paddingTop).toBeCloseTo(4);
+    expect(wrapper.paddingBottom).toBeUndefined();
+  });
+});
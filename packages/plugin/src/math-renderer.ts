@@ -0,0 +1,83 @@
+import type { MathSvg } from "@figdeck/shared";
+import { rgbaToHex } from "@figdeck/shared";
+import { createDefaultTextFill } from "./colors";
+import type { ResolvedTextStyle } from "./styles";
+
+/** MathJax SVG output uses 1000 units per em */
+const UNITS_PER_EM = 1000;
+
+/**
+ * Distance in em from the middle of a text line down to its baseline,
+ * used to line inline math up with the surrounding text
+ */
+const TEXT_BASELINE_OFFSET = 0.35;
+
+/**
+ * Hex color for the formula, taken from the first solid fill
+ */
+function getMathColor(fills?: Paint[]): string {
+  const paint = (fills ?? createDefaultTextFill()).find(
+    (fill): fill is SolidPaint => fill.type === "SOLID",
+  );
+  return paint ? rgbaToHex(paint.color) : "#000000";
+}
+
+/**
+ * Import a formula as vectors, scaled so 1em equals `fontSize`
+ */
+export function createMathNode(
+  math: MathSvg,
+  fontSize: number,
+  fills?: Paint[],
+): FrameNode {
+  const svg = math.svg.replace(/currentColor/g, getMathColor(fills));
+  const node = figma.createNodeFromSvg(svg);
+  node.name = "Math";
+  node.fills = [];
+  node.clipsContent = false;
+  node.rescale(fontSize / UNITS_PER_EM);
+  return node;
+}
+
+/**
+ * Render inline math padded so its baseline sits where the baseline of a
+ * vertically centered text line would be
+ */
+export function createInlineMathNode(
+  math: MathSvg,
+  fontSize: number,
+  fills?: Paint[],
+): FrameNode {
+  const wrapper = figma.createFrame();
+  wrapper.name = "Inline math";
+  wrapper.layoutMode = "VERTICAL";
+  wrapper.primaryAxisSizingMode = "AUTO";
+  wrapper.counterAxisSizingMode = "AUTO";
+  wrapper.fills = [];
+
+  // Positive when the formula extends further above the baseline than below
+  const imbalance = math.height - 2 * math.depth - 2 * TEXT_BASELINE_OFFSET;
+  if (imbalance > 0) {
+    wrapper.paddingBottom = imbalance * fontSize;
+  } else {
+    wrapper.paddingTop = -imbalance * fontSize;
+  }
+
+  wrapper.appendChild(createMathNode(math, fontSize, fills));
+  return wrapper;
+}
+
+/**
+ * Render a display math block (`$$ ... $$`) at the paragraph size
+ */
+export function renderMathBlock(
+  math: MathSvg,
+  style: ResolvedTextStyle,
+  x?: number,
+  y?: number,
+): FrameNode {
+  const node = createMathNode(math, style.fontSize, style.fills);
+  if (x !== undefined) node.x = x;
+  if (y !== undefined) node.y = y;
+  return node;
+}
@@ -6,7 +6,12 @@ import type {
 } from "@figdeck/shared";
 import { SLIDE_HEIGHT, SLIDE_WIDTH } from "@figdeck/shared";
 import { base64ToUint8Array } from "./base64";
-import { createGradientTransform, parseColor } from "./colors";
+import {
+  createColorStop,
+  createGradientTransform,
+  createSolidPaint,
+  resolveColor,
+} from "./colors";
 import {
   DEFAULT_SLIDE_NUMBER_FORMAT,
   DEFAULT_SLIDE_NUMBER_PADDING_X,
@@ -366,13 +371,8 @@ export async function applyBackground(
     const gradientStops: ColorStop[] = [];
 
     for (const stop of stops) {
-      const color = parseColor(stop.color);
-      if (color) {
-        gradientStops.push({
-          position: stop.position,
-          color: { r: color.r, g: color.g, b: color.b, a: color.a ?? 1 },
-        });
-      }
+      const color = resolveColor(stop.color);
+      if (color) gradientStops.push(createColorStop(color, stop.position));
     }
 
     if (gradientStops.length >= 2) {
@@ -385,14 +385,9 @@ export async function applyBackground(
       baseFillApplied = true;
     }
   } else if (background.solid) {
-    const color = parseColor(background.solid);
+    const color = resolveColor(background.solid);
     if (color) {
-      const solidFill: SolidPaint = {
-        type: "SOLID",
-        color: { r: color.r, g: color.g, b: color.b },
-        opacity: color.a ?? 1,
-      };
-      slideNode.fills = [solidFill];
+      slideNode.fills = [createSolidPaint(color)];
       baseFillApplied = true;
     } else {
       figma.notify(`Invalid color "${background.solid}"`, { error: true });
@@ -626,16 +621,8 @@ export async function renderSlideNumber(
 
   // Set color
   if (config.color) {
-    const color = parseColor(config.color);
-    if (color) {
-      textNode.fills = [
-        {
-          type: "SOLID",
-          color: { r: color.r, g: color.g, b: color.b },
-          opacity: color.a !== undefined ? color.a : 1,
-        },
-      ];
-    }
+    const color = resolveColor(config.color);
+    if (color) textNode.fills = [createSolidPaint(color)];
   } else {
     // Default: semi-transparent gray
     textNode.fills = [
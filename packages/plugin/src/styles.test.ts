@@ -5,6 +5,7 @@ import {
   createFill,
   LAYOUT,
   resolveSlideStyles,
+  scaleTextStyles,
 } from "./styles";
 
 type SolidPaint = { type: "SOLID"; color: RGB; opacity?: number };
@@ -130,6 +131,52 @@ describe("resolveSlideStyles", () => {
     });
   });
 
+  it("should resolve the code palette and callout colors", () => {
+    const styles = resolveSlideStyles({
+      codePalette: { background: "#ffffff", colors: { keyword: "#ff0000" } },
+      callouts: {
+        tip: { color: "#00ff00" },
+        decision: { icon: "⚖️", label: "Decision" },
+      },
+    });
+
+    expect(styles.codePalette).toEqual({
+      background: { color: { r: 1, g: 1, b: 1 }, opacity: 1 },
+      colors: { keyword: { color: { r: 1, g: 0, b: 0 }, opacity: 1 } },
+    });
+    expect(styles.callouts).toEqual({
+      tip: { color: { color: { r: 0, g: 1, b: 0 }, opacity: 1 } },
+      decision: { icon: "⚖️", label: "Decision" },
+    });
+  });
+
+  it("should resolve table colors and sizes", () => {
+    const styles = resolveSlideStyles({
+      table: {
+        size: 18,
+        headerColor: "#ffffff",
+        headerBackground: "#000000",
+        borderWidth: 2,
+        columnWidths: [400, 200],
+      },
+    });
+
+    expect(styles.table.fontSize).toBe(18);
+    expect((styles.table.headerFills?.[0] as SolidPaint).color).toEqual({
+      r: 1,
+      g: 1,
+      b: 1,
+    });
+    expect(styles.table.headerBackground).toEqual({
+      color: { r: 0, g: 0, b: 0 },
+      opacity: 1,
+    });
+    expect(styles.table.fills).toBeUndefined();
+    expect(styles.table.borderWidth).toBe(2);
+    expect(styles.table.columnWidths).toEqual([400, 200]);
+    expect(resolveSlideStyles({}).table).toEqual({});
+  });
+
   it("should handle empty styles object", () => {
     const styles = resolveSlideStyles({});
 
@@ -354,3 +401,27 @@ describe("applyFontFallbacks", () => {
     expect(resolved.paragraph.font.regular).toBe("Regular");
   });
 });
+
+describe("scaleTextStyles", () => {
+  it("should scale every text size and keep other settings", () => {
+    const styles = resolveSlideStyles({
+      bullets: { size: 30, spacing: 12 },
+      codePalette: { background: "#000000" },
+    });
+    const scaled = scaleTextStyles(styles, 0.5);
+
+    expect(scaled.h1.fontSize).toBe(32);
+    expect(scaled.bullet.fontSize).toBe(15);
+    expect(scaled.bullet.spacing).toBe(12);
+    expect(scaled.bullet.textScale).toBe(0.5);
+    expect(scaleTextStyles(scaled, 0.5).bullet.textScale).toBe(0.25);
+    expect(scaled.code.fontSize).toBe(8);
+    expect(scaled.codePalette).toBe(styles.codePalette);
+    expect(scaled.table.fontSize).toBeUndefined();
+    expect(
+      scaleTextStyles(resolveSlideStyles({ table: { size: 20 } }), 0.5).table
+        .fontSize,
+    ).toBe(10);
+    expect(styles.h1.fontSize).toBe(64);
+  });
+});
@@ -1,13 +1,15 @@
 import {
   CONTAINER_PADDING,
   CONTENT_WIDTH,
+  type CodeTokenType,
   type FontVariant,
   SLIDE_HEIGHT,
   SLIDE_WIDTH,
   type SlideStyles,
+  type TableStyle,
   type TextStyle,
 } from "@figdeck/shared";
-import { parseColor } from "./colors";
+import { createSolidPaint, type ResolvedColor, resolveColor } from "./colors";
 import {
   DEFAULT_BULLET_SIZE,
   DEFAULT_CODE_SIZE,
@@ -60,6 +62,10 @@ export interface ResolvedTextStyle {
   font: ResolvedFontName;
   /** Spacing between items in pixels (for bullet lists) */
   spacing?: number;
+  /** Name of the Figma text style applied after rendering */
+  textStyle?: string;
+  /** Scale applied to the text style's size by `autoFit: shrink` */
+  textScale?: number;
 }
 
 /**
@@ -73,6 +79,100 @@ export interface ResolvedSlideStyles {
   paragraph: ResolvedTextStyle;
   bullet: ResolvedTextStyle;
   code: ResolvedTextStyle;
+  /** Code block colors; missing entries use the built-in palette */
+  codePalette: ResolvedCodePalette;
+  /** Callout styles per type; missing colors use the built-in colors */
+  callouts: Record<string, ResolvedCalloutStyle>;
+  table: ResolvedTableStyle;
+}
+
+/**
+ * Callout style with the accent color parsed for Figma
+ */
+export interface ResolvedCalloutStyle {
+  color?: ResolvedColor;
+  icon?: string;
+  label?: string;
+}
+
+/**
+ * Table style with colors parsed to Figma paints.
+ * Unset values use the built-in table look.
+ */
+export interface ResolvedTableStyle {
+  fontSize?: number;
+  fills?: Paint[];
+  headerFills?: Paint[];
+  headerBackground?: ResolvedColor;
+  background?: ResolvedColor;
+  stripeBackground?: ResolvedColor;
+  borderColor?: ResolvedColor;
+  borderWidth?: number;
+  padding?: number;
+  columnWidths?: number[];
+}
+
+/**
+ * Code block colors parsed for Figma
+ */
+export interface ResolvedCodePalette {
+  background?: ResolvedColor;
+  colors: Partial<Record<CodeTokenType, ResolvedColor>>;
+}
+
+/**
+ * Parse an optional color setting, dropping alpha
+ */
+function toColor(color: string | undefined): ResolvedColor | undefined {
+  const resolved = color ? resolveColor(color) : null;
+  return resolved ? Object.assign(resolved, { opacity: 1 }) : undefined;
+}
+
+/**
+ * Resolve code block and callout colors from slide styles
+ */
+function resolveColorStyles(
+  styles: SlideStyles | undefined,
+): Pick<ResolvedSlideStyles, "codePalette" | "callouts"> {
+  const codePalette: ResolvedCodePalette = {
+    background: toColor(styles?.codePalette?.background),
+    colors: {},
+  };
+  const colors = styles?.codePalette?.colors ?? {};
+  for (const token of Object.keys(colors) as CodeTokenType[]) {
+    const color = toColor(colors[token]);
+    if (color) codePalette.colors[token] = color;
+  }
+
+  const callouts: Record<string, ResolvedCalloutStyle> = {};
+  for (const [type, style] of Object.entries(styles?.callouts ?? {})) {
+    callouts[type] = {
+      color: toColor(style.color),
+      icon: style.icon,
+      label: style.label,
+    };
+  }
+
+  return { codePalette, callouts };
+}
+
+/**
+ * Resolve the table style from slide styles
+ */
+function resolveTableStyle(table: TableStyle | undefined): ResolvedTableStyle {
+  if (!table) return {};
+  return {
+    fontSize: table.size,
+    fills: createFill({ color: table.color }),
+    headerFills: createFill({ color: table.headerColor }),
+    headerBackground: toColor(table.headerBackground),
+    background: toColor(table.background),
+    stripeBackground: toColor(table.stripeBackground),
+    borderColor: toColor(table.borderColor),
+    borderWidth: table.borderWidth,
+    padding: table.padding,
+    columnWidths: table.columnWidths,
+  };
 }
 
 /**
@@ -80,17 +180,8 @@ export interface ResolvedSlideStyles {
  */
 export function createFill(style: TextStyle | undefined): Paint[] | undefined {
   if (!style?.color) return undefined;
-  const color = parseColor(style.color);
-  if (color) {
-    return [
-      {
-        type: "SOLID" as const,
-        color: { r: color.r, g: color.g, b: color.b },
-        opacity: color.a !== undefined ? color.a : 1,
-      },
-    ];
-  }
-  return undefined;
+  const color = resolveColor(style.color);
+  return color ? [createSolidPaint(color)] : undefined;
 }
 
 /**
@@ -126,6 +217,7 @@ function resolveTextStyle(
     y: style?.y,
     font: resolveFontName(fontVariant, defaultFontStyle),
     spacing: style?.spacing,
+    textStyle: style?.textStyle,
   };
 }
 
@@ -135,6 +227,7 @@ function resolveTextStyle(
 export function resolveSlideStyles(styles?: SlideStyles): ResolvedSlideStyles {
   const headings = styles?.headings;
   const fonts = styles?.fonts;
+  const { codePalette, callouts } = resolveColorStyles(styles);
   return {
     h1: resolveTextStyle(headings?.h1, DEFAULT_H1_SIZE, "Bold", fonts?.h1),
     h2: resolveTextStyle(headings?.h2, DEFAULT_H2_SIZE, "Bold", fonts?.h2),
@@ -158,6 +251,9 @@ export function resolveSlideStyles(styles?: SlideStyles): ResolvedSlideStyles {
       "Regular",
       fonts?.code,
     ),
+    codePalette,
+    callouts,
+    table: resolveTableStyle(styles?.table),
   };
 }
 
@@ -243,7 +339,7 @@ export function applyFontFallbacks(
     };
   };
 
-  return {
+  return Object.assign({}, styles, {
     h1: Object.assign({}, styles.h1, {
       font: resolveFallbackFont(styles.h1.font),
     }),
@@ -265,7 +361,36 @@ export function applyFontFallbacks(
     code: Object.assign({}, styles.code, {
       font: resolveFallbackFont(styles.code.font),
     }),
-  };
+  });
+}
+
+/**
+ * Scale every text size by `scale`, for shrinking content to fit a slide
+ */
+export function scaleTextStyles(
+  styles: ResolvedSlideStyles,
+  scale: number,
+): ResolvedSlideStyles {
+  const scaleStyle = (style: ResolvedTextStyle): ResolvedTextStyle =>
+    Object.assign({}, style, {
+      fontSize: style.fontSize * scale,
+      textScale: (style.textScale ?? 1) * scale,
+    });
+  return Object.assign({}, styles, {
+    h1: scaleStyle(styles.h1),
+    h2: scaleStyle(styles.h2),
+    h3: scaleStyle(styles.h3),
+    h4: scaleStyle(styles.h4),
+    paragraph: scaleStyle(styles.paragraph),
+    bullet: scaleStyle(styles.bullet),
+    code: scaleStyle(styles.code),
+    table: Object.assign({}, styles.table, {
+      fontSize:
+        styles.table.fontSize !== undefined
+          ? styles.table.fontSize * scale
+          : undefined,
+    }),
+  });
 }
 
 /**
@@ -0,0 +1,98 @@
+import { mock } from "bun:test";
+import type { ResolvedTextStyle } from "./styles";
+
+/**
+ * Stand-in for a Figma scene node in renderer tests. Properties set by the
+ * code under test are kept as plain fields.
+ */
+export type MockNode = {
+  type: string;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  characters?: string;
+  parent: MockNode | null;
+  children: MockNode[];
+  pluginData: Map<string, string>;
+  getPluginData: (key: string) => string;
+  setPluginData: (key: string, value: string) => void;
+  [key: string]: unknown;
+};
+
+/**
+ * Create a mock node supporting the node methods the renderers call
+ */
+export function createMockNode(
+  type: string,
+  props: Partial<MockNode> = {},
+): MockNode {
+  const pluginData = new Map<string, string>();
+  const node: MockNode = {
+    type,
+    name: "",
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 20,
+    parent: null,
+    children: [],
+    pluginData,
+    getPluginData: (key) => pluginData.get(key) ?? "",
+    setPluginData: (key, value) => {
+      pluginData.set(key, value);
+    },
+    ...props,
+  };
+  node.appendChild = (child: MockNode) => node.children.push(child);
+  node.resize = (width: number, height: number) => {
+    node.width = width;
+    node.height = height;
+  };
+  node.rescale = mock((scale: number) => {
+    node.width *= scale;
+    node.height *= scale;
+  });
+  node.setVectorNetworkAsync = mock(async (network: unknown) => {
+    node.vectorNetwork = network;
+  });
+  return node;
+}
+
+/**
+ * Install a `figma` global whose create functions return mock nodes.
+ * Call it in `beforeEach` so every test starts with fresh mocks.
+ */
+export function installFigmaMock(overrides: Record<string, unknown> = {}) {
+  (globalThis as { figma?: unknown }).figma = {
+    createFrame: mock(() => createMockNode("FRAME")),
+    createText: mock(() => createMockNode("TEXT")),
+    createVector: mock(() => createMockNode("VECTOR")),
+    createRectangle: mock(() => createMockNode("RECTANGLE")),
+    createEllipse: mock(() => createMockNode("ELLIPSE")),
+    loadFontAsync: mock(async () => {}),
+    ...overrides,
+  };
+}
+
+/**
+ * Resolved text style with the Inter font family
+ */
+export function createTextStyle(
+  overrides: Partial<ResolvedTextStyle> = {},
+): ResolvedTextStyle {
+  return {
+    fontSize: 20,
+    fills: undefined,
+    fontStyle: "Regular",
+    font: {
+      family: "Inter",
+      regular: "Regular",
+      bold: "Bold",
+      italic: "Italic",
+      boldItalic: "Bold Italic",
+    },
+    ...overrides,
+  };
+}
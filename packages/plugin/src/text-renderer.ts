@@ -1,6 +1,7 @@
-import type { TextSpan } from "@figdeck/shared";
+import type { MathSvg, TextSpan } from "@figdeck/shared";
 import { createDefaultTextFill } from "./colors";
 import { INLINE_CODE_BG, LINK_COLOR } from "./constants";
+import { createInlineMathNode } from "./math-renderer";
 import type { ResolvedFontName } from "./styles";
 
 const DEFAULT_TEXT_FILL = createDefaultTextFill();
@@ -279,8 +280,8 @@ export async function renderSpansWithInlineCode(
   font?: ResolvedFontName,
   codeFont?: ResolvedFontName,
 ): Promise<FrameNode | TextNode> {
-  // Check if any spans have inline code
-  const hasInlineCode = spans.some((s) => s.code);
+  // Check if any spans have inline code or math
+  const hasInlineCode = spans.some((s) => s.code || s.math);
 
   if (!hasInlineCode) {
     // Simple case: no inline code, just render text
@@ -326,8 +327,8 @@ export async function renderSpansWithInlineCode(
         continue;
       }
 
-      // Check if this line has inline code
-      const lineHasCode = lineSpans.some((s) => s.code);
+      // Check if this line has inline code or math
+      const lineHasCode = lineSpans.some((s) => s.code || s.math);
 
       if (!lineHasCode) {
         // No inline code in this line - render as plain text
@@ -389,14 +390,24 @@ async function renderSingleLineWithInlineCode(
   if (x !== undefined) frame.x = x;
   if (y !== undefined) frame.y = y;
 
-  // Group consecutive spans by whether they are code or not
-  type SpanGroup = { isCode: boolean; spans: TextSpan[] };
+  // Line inline math up with the text around it
+  if (spans.some((s) => s.math)) {
+    frame.counterAxisAlignItems = "CENTER";
+  }
+
+  // Group consecutive spans by whether they are code or not;
+  // each math span gets a group of its own
+  type SpanGroup = { isCode: boolean; spans: TextSpan[]; math?: MathSvg };
   const groups: SpanGroup[] = [];
 
   for (const span of spans) {
+    if (span.math) {
+      groups.push({ isCode: false, spans: [span], math: span.math });
+      continue;
+    }
     const isCode = span.code === true;
     const lastGroup = groups[groups.length - 1];
-    if (lastGroup && lastGroup.isCode === isCode) {
+    if (lastGroup && !lastGroup.math && lastGroup.isCode === isCode) {
       lastGroup.spans.push(span);
     } else {
       groups.push({ isCode, spans: [span] });
@@ -404,7 +415,9 @@ async function renderSingleLineWithInlineCode(
   }
 
   for (const group of groups) {
-    if (group.isCode) {
+    if (group.math) {
+      frame.appendChild(createInlineMathNode(group.math, baseSize, baseFills));
+    } else if (group.isCode) {
       // Create inline code box
       const codeFrame = figma.createFrame();
       codeFrame.name = "inline-code";
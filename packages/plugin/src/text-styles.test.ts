@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+import type { SlideContent } from "@figdeck/shared";
+import { resolveSlideStyles } from "./styles";
+import {
+  applyTextStyle,
+  collectTextStyleNames,
+  loadTextStyles,
+} from "./text-styles";
+
+const titleStyle = {
+  id: "S:title",
+  type: "TEXT",
+  name: "Slides/Title",
+  fontName: { family: "Roboto", style: "Medium" },
+  fontSize: 96,
+};
+
+type Segment = {
+  start: number;
+  end: number;
+  fontName: { family: string; style: string };
+};
+
+function createMockText(segments: Segment[]) {
+  return {
+    type: "TEXT",
+    getStyledTextSegments: () => segments,
+    setRangeTextStyleIdAsync: mock(
+      async (_start: number, _end: number, _id: string) => {},
+    ),
+    setRangeFontName: mock(
+      (_start: number, _end: number, _font: FontName) => {},
+    ),
+    setRangeFontSize: mock((_start: number, _end: number, _size: number) => {}),
+  };
+}
+
+let notify: ReturnType<typeof mock>;
+
+beforeEach(() => {
+  notify = mock(() => {});
+  (globalThis as unknown as { figma: unknown }).figma = {
+    notify,
+    getLocalTextStylesAsync: mock(async () => [titleStyle]),
+    loadFontAsync: mock(async (font: FontName) => {
+      if (font.style === "Italic") throw new Error("missing font");
+    }),
+  };
+});
+
+const slides: SlideContent[] = [
+  {
+    blocks: [],
+    styles: {
+      headings: { h1: { textStyle: "Slides/Title" } },
+      paragraphs: { textStyle: "Slides/Missing" },
+    },
+  },
+  { blocks: [], styles: { headings: { h1: { textStyle: "Slides/Title" } } } },
+];
+
+describe("collectTextStyleNames", () => {
+  it("collects unique names from text element styles", () => {
+    expect(collectTextStyleNames(slides)).toEqual([
+      "Slides/Title",
+      "Slides/Missing",
+    ]);
+  });
+});
+
+describe("applyTextStyle", () => {
+  it("applies the style to text in the element's font family", async () => {
+    await loadTextStyles(slides);
+    expect(notify).toHaveBeenCalledWith(
+      'Text style "Slides/Missing" not found',
+      {
+        error: true,
+      },
+    );
+
+    const styles = resolveSlideStyles(slides[0].styles);
+    const text = createMockText([
+      { start: 0, end: 5, fontName: { family: "Inter", style: "Bold" } },
+      { start: 5, end: 9, fontName: { family: "Inter", style: "Bold Italic" } },
+      { start: 9, end: 12, fontName: { family: "Menlo", style: "Regular" } },
+    ]);
+    await applyTextStyle(text as unknown as TextNode, styles.h1);
+
+    expect(text.setRangeTextStyleIdAsync.mock.calls).toEqual([
+      [0, 5, "S:title"],
+      [5, 9, "S:title"],
+    ]);
+    expect(text.setRangeFontName).toHaveBeenCalledWith(5, 9, {
+      family: "Roboto",
+      style: "Bold Italic",
+    });
+    expect(text.setRangeFontSize).not.toHaveBeenCalled();
+  });
+
+  it("scales the style's size on shrunk slides", async () => {
+    await loadTextStyles(slides);
+    const style = Object.assign({}, resolveSlideStyles(slides[0].styles).h1, {
+      textScale: 0.5,
+    });
+    const text = createMockText([
+      { start: 0, end: 4, fontName: { family: "Inter", style: "Bold" } },
+    ]);
+    await applyTextStyle(text as unknown as TextNode, style);
+    expect(text.setRangeFontSize).toHaveBeenCalledWith(0, 4, 48);
+  });
+
+  it("leaves text alone when the style was not found", async () => {
+    await loadTextStyles(slides);
+    const text = createMockText([
+      { start: 0, end: 4, fontName: { family: "Inter", style: "Regular" } },
+    ]);
+    await applyTextStyle(
+      text as unknown as TextNode,
+      resolveSlideStyles(slides[0].styles).paragraph,
+    );
+    expect(text.setRangeTextStyleIdAsync).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,167 @@
+import type {
+  SlideContent,
+  TextStyle as SlideTextStyle,
+} from "@figdeck/shared";
+import type { ResolvedTextStyle } from "./styles";
+
+/** Text styles found for the current generation, keyed by style name */
+const resolvedTextStyles = new Map<string, TextStyle>();
+
+/** Track which missing text styles have been notified to avoid spamming */
+const missingTextStyleNotifications = new Set<string>();
+
+/** Generic font style names for bold and italic spans, by resolved variant */
+const SPAN_FONT_STYLES = {
+  bold: "Bold",
+  italic: "Italic",
+  boldItalic: "Bold Italic",
+} as const;
+
+/**
+ * Collect the `textStyle` names used by slides
+ */
+export function collectTextStyleNames(slides: SlideContent[]): string[] {
+  const names = new Set<string>();
+  const add = (style: SlideTextStyle | undefined) => {
+    if (style?.textStyle) names.add(style.textStyle);
+  };
+  for (const slide of slides) {
+    const styles = slide.styles;
+    add(styles?.headings?.h1);
+    add(styles?.headings?.h2);
+    add(styles?.headings?.h3);
+    add(styles?.headings?.h4);
+    add(styles?.paragraphs);
+    add(styles?.bullets);
+    add(styles?.code);
+  }
+  return Array.from(names);
+}
+
+async function findTextStyle(name: string): Promise<TextStyle | null> {
+  try {
+    if (typeof figma.getLocalTextStylesAsync === "function") {
+      const localStyles = await figma.getLocalTextStylesAsync();
+      const localStyle = localStyles.find((style) => style.name === name);
+      if (localStyle) return localStyle;
+    }
+
+    // Try importing by key (only if the API is available)
+    if (typeof figma.importStyleByKeyAsync === "function") {
+      const importedStyle = await figma.importStyleByKeyAsync(name);
+      if (importedStyle && importedStyle.type === "TEXT") {
+        return importedStyle as TextStyle;
+      }
+    }
+  } catch (_e) {
+    // Text style APIs may not be available in all contexts
+  }
+  return null;
+}
+
+/**
+ * Look up the text styles used by slides and load their fonts
+ * Missing styles are notified once; their text keeps the configured font.
+ */
+export async function loadTextStyles(slides: SlideContent[]): Promise<void> {
+  resolvedTextStyles.clear();
+  for (const name of collectTextStyleNames(slides)) {
+    const style = await findTextStyle(name);
+    if (!style) {
+      if (!missingTextStyleNotifications.has(name)) {
+        figma.notify(`Text style "${name}" not found`, { error: true });
+        missingTextStyleNotifications.add(name);
+      }
+      continue;
+    }
+    missingTextStyleNotifications.delete(name);
+    try {
+      await figma.loadFontAsync(style.fontName);
+      resolvedTextStyles.set(name, style);
+    } catch (error) {
+      console.warn(
+        `[figdeck] Failed to load the font of text style "${name}":`,
+        error,
+      );
+    }
+  }
+}
+
+/**
+ * Find the span variant of a resolved font style name, or null for regular text
+ */
+function getSpanVariant(
+  fontStyle: string,
+  style: ResolvedTextStyle,
+): keyof typeof SPAN_FONT_STYLES | null {
+  const base =
+    style.fontStyle === "Bold" ? style.font.bold : style.font.regular;
+  if (fontStyle === base) return null;
+  if (fontStyle === style.font.boldItalic) return "boldItalic";
+  if (fontStyle === style.font.italic) return "italic";
+  if (fontStyle === style.font.bold) return "bold";
+  return null;
+}
+
+async function applyToText(
+  node: TextNode,
+  textStyle: TextStyle,
+  style: ResolvedTextStyle,
+): Promise<void> {
+  const segments = node.getStyledTextSegments(["fontName"]);
+  for (const segment of segments) {
+    // Inline code and other fonts keep their own look
+    if (segment.fontName.family !== style.font.family) continue;
+    await node.setRangeTextStyleIdAsync(
+      segment.start,
+      segment.end,
+      textStyle.id,
+    );
+
+    // Bold and italic spans keep their weight in the style's family
+    const variant = getSpanVariant(segment.fontName.style, style);
+    if (variant) {
+      const fontName = {
+        family: textStyle.fontName.family,
+        style: SPAN_FONT_STYLES[variant],
+      };
+      try {
+        await figma.loadFontAsync(fontName);
+        node.setRangeFontName(segment.start, segment.end, fontName);
+      } catch {
+        // The style's family has no such variant; keep the style's font
+      }
+    }
+
+    // Shrunk slides scale the style's size
+    if (style.textScale !== undefined && style.textScale !== 1) {
+      node.setRangeFontSize(
+        segment.start,
+        segment.end,
+        textStyle.fontSize * style.textScale,
+      );
+    }
+  }
+}
+
+/**
+ * Apply the style's Figma text style to the text nodes of a rendered block
+ * Does nothing when the style has no `textStyle` or it was not found.
+ */
+export async function applyTextStyle(
+  node: SceneNode,
+  style: ResolvedTextStyle,
+): Promise<void> {
+  const textStyle = style.textStyle
+    ? resolvedTextStyles.get(style.textStyle)
+    : undefined;
+  if (!textStyle) return;
+
+  if (node.type === "TEXT") {
+    await applyToText(node, textStyle, style);
+  } else if ("findAllWithCriteria" in node) {
+    for (const text of node.findAllWithCriteria({ types: ["TEXT"] })) {
+      await applyToText(text, textStyle, style);
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "bun:test";
+import type { SlideContent } from "@figdeck/shared";
+import { createMockNode } from "./test-utils";
+import { getTextEdit, tagBlockText } from "./text-sync";
+
+/**
+ * Slide > container > text node, as generated by the plugin
+ */
+function createSlideWithText(characters: string) {
+  const slideNode = createMockNode("SLIDE");
+  slideNode.setPluginData("figdeck-index", "2");
+  slideNode.setPluginData("figdeck-id", "id:h-intro");
+  const container = createMockNode("FRAME", { parent: slideNode });
+  const text = createMockNode("TEXT", { characters, parent: container });
+  return { slideNode, text };
+}
+
+const slide: SlideContent = {
+  blocks: [
+    { kind: "heading", level: 1, text: "Intro" },
+    { kind: "paragraph", text: "Teh body" },
+    { kind: "code", code: "x" },
+  ],
+};
+
+describe("tagBlockText", () => {
+  it("stores the block index and generated text on text nodes", () => {
+    const { text } = createSlideWithText("Teh body");
+    tagBlockText(text as unknown as SceneNode, slide, slide.blocks[1]);
+    expect(text.pluginData.get("figdeck-block")).toBe("1");
+    expect(text.pluginData.get("figdeck-text")).toBe("Teh body");
+  });
+
+  it("tags the title next to a prefix component", () => {
+    const title = createMockNode("TEXT", { characters: "Intro" });
+    const frame = createMockNode("FRAME", {
+      name: "Title with Prefix",
+      children: [createMockNode("INSTANCE"), title],
+    });
+    tagBlockText(frame as unknown as SceneNode, slide, slide.blocks[0]);
+    expect(title.pluginData.get("figdeck-block")).toBe("0");
+  });
+
+  it("skips blocks that cannot be synced", () => {
+    const { text } = createSlideWithText("x");
+    tagBlockText(text as unknown as SceneNode, slide, slide.blocks[2]);
+    expect(text.pluginData.size).toBe(0);
+  });
+});
+
+describe("getTextEdit", () => {
+  it("reports the generated and current text with slide identity", () => {
+    const { text } = createSlideWithText("Teh body");
+    tagBlockText(text as unknown as SceneNode, slide, slide.blocks[1]);
+    text.characters = "The body";
+
+    expect(getTextEdit(text as unknown as TextNode, 7)).toEqual({
+      type: "edit",
+      revision: 7,
+      slideId: "h-intro",
+      slideIndex: 2,
+      blockIndex: 1,
+      oldText: "Teh body",
+      newText: "The body",
+    });
+  });
+
+  it("returns null for unchanged or untagged nodes", () => {
+    const { text } = createSlideWithText("Teh body");
+    expect(getTextEdit(text as unknown as TextNode, 1)).toBeNull();
+
+    tagBlockText(text as unknown as SceneNode, slide, slide.blocks[1]);
+    expect(getTextEdit(text as unknown as TextNode, 1)).toBeNull();
+  });
+
+  it("omits the slide id for index-keyed slides", () => {
+    const { slideNode, text } = createSlideWithText("Teh body");
+    slideNode.setPluginData("figdeck-id", "index:2");
+    tagBlockText(text as unknown as SceneNode, slide, slide.blocks[1]);
+    text.characters = "The body";
+
+    expect(getTextEdit(text as unknown as TextNode, null)?.slideId).toBe(
+      undefined,
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import type { EditMessage, SlideBlock, SlideContent } from "@figdeck/shared";
+import {
+  PLUGIN_DATA_BLOCK_KEY,
+  PLUGIN_DATA_ID_KEY,
+  PLUGIN_DATA_KEY,
+  PLUGIN_DATA_TEXT_KEY,
+} from "./constants";
+
+// Wait for typing to settle before reporting an edit
+const EDIT_DEBOUNCE_MS = 1500;
+
+// Block kinds rendered as one text node the CLI can map back to Markdown
+const SYNCED_BLOCK_KINDS: string[] = ["heading", "paragraph", "bullets"];
+
+/**
+ * Find the text node showing a block: the block node itself, or the title
+ * next to a cloned prefix component
+ */
+function findBlockTextNode(node: SceneNode): TextNode | null {
+  if (node.type === "TEXT") return node;
+  if (node.type === "FRAME" && node.name === "Title with Prefix") {
+    const title = node.children[node.children.length - 1];
+    return title?.type === "TEXT" ? title : null;
+  }
+  return null;
+}
+
+/**
+ * Remember which block a generated text node shows and its generated text,
+ * so edits made in Figma can be detected and sent back to the CLI.
+ * Blocks rendered as frames (inline code, nested lists, tables) are skipped.
+ */
+export function tagBlockText(
+  node: SceneNode,
+  slide: SlideContent,
+  block: SlideBlock,
+): void {
+  if (!SYNCED_BLOCK_KINDS.includes(block.kind)) return;
+  const blockIndex = slide.blocks.indexOf(block);
+  const textNode = findBlockTextNode(node);
+  if (blockIndex === -1 || !textNode) return;
+
+  textNode.setPluginData(PLUGIN_DATA_BLOCK_KEY, String(blockIndex));
+  textNode.setPluginData(PLUGIN_DATA_TEXT_KEY, textNode.characters);
+}
+
+/**
+ * Build an edit message for a tagged text node whose characters differ from
+ * the generated text. Returns null for untagged or unchanged nodes.
+ */
+export function getTextEdit(
+  node: TextNode,
+  revision: number | null,
+): EditMessage | null {
+  const blockData = node.getPluginData(PLUGIN_DATA_BLOCK_KEY);
+  if (!blockData) return null;
+  const oldText = node.getPluginData(PLUGIN_DATA_TEXT_KEY);
+  if (oldText === node.characters) return null;
+
+  let slideNode: BaseNode | null = node.parent;
+  while (slideNode && slideNode.type !== "SLIDE") {
+    slideNode = slideNode.parent;
+  }
+  if (!slideNode) return null;
+
+  const slideIndex = Number.parseInt(
+    slideNode.getPluginData(PLUGIN_DATA_KEY),
+    10,
+  );
+  const blockIndex = Number.parseInt(blockData, 10);
+  if (!Number.isFinite(slideIndex) || !Number.isFinite(blockIndex)) {
+    return null;
+  }
+
+  const edit: EditMessage = {
+    type: "edit",
+    revision,
+    slideIndex,
+    blockIndex,
+    oldText,
+    newText: node.characters,
+  };
+  const key = slideNode.getPluginData(PLUGIN_DATA_ID_KEY);
+  if (key.startsWith("id:")) {
+    edit.slideId = key.slice(3);
+  }
+  return edit;
+}
+
+export interface TextSyncOptions {
+  /** Revision of the slides currently shown */
+  getRevision: () => number | null;
+  /** Whether slides are being generated; edits wait until it finishes */
+  isBusy: () => boolean;
+  send: (edit: EditMessage) => void;
+}
+
+/**
+ * Create a `documentchange` handler that reports edits to generated text
+ * nodes once typing has settled
+ */
+export function createTextSync(
+  options: TextSyncOptions,
+): (event: DocumentChangeEvent) => void {
+  const pendingIds = new Set<string>();
+  // Last text sent per node, so the same edit is not reported twice
+  const sentTexts = new Map<string, string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, EDIT_DEBOUNCE_MS);
+  };
+
+  const flush = async () => {
+    timer = null;
+    if (options.isBusy()) {
+      schedule();
+      return;
+    }
+
+    const ids = Array.from(pendingIds);
+    pendingIds.clear();
+    for (const id of ids) {
+      const node = await figma.getNodeByIdAsync(id);
+      if (!node || node.type !== "TEXT") continue;
+      const edit = getTextEdit(node, options.getRevision());
+      if (!edit || sentTexts.get(id) === edit.newText) continue;
+      sentTexts.set(id, edit.newText);
+      options.send(edit);
+    }
+  };
+
+  return (event) => {
+    for (const change of event.documentChanges) {
+      if (
+        change.type === "PROPERTY_CHANGE" &&
+        change.properties.includes("characters") &&
+        change.node.type === "TEXT" &&
+        !change.node.removed
+      ) {
+        pendingIds.add(change.node.id);
+      }
+    }
+    if (pendingIds.size > 0) schedule();
+  };
+}
@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+import type { SlideContent } from "@figdeck/shared";
+import {
+  createColorStop,
+  createSolidPaint,
+  parseColor,
+  type ResolvedColor,
+  resolveColor,
+} from "./colors";
+import {
+  collectColorVariables,
+  getColorVariableSignature,
+  resolveColorVariables,
+} from "./variables";
+
+const primary = {
+  id: "VariableID:1",
+  name: "Brand/Primary",
+  variableCollectionId: "collection",
+  valuesByMode: { light: { r: 1, g: 0, b: 0, a: 1 } },
+};
+const alias = {
+  id: "VariableID:2",
+  name: "Text/Accent",
+  variableCollectionId: "collection",
+  valuesByMode: { light: { type: "VARIABLE_ALIAS", id: "VariableID:1" } },
+};
+
+beforeEach(() => {
+  (globalThis as unknown as { figma: unknown }).figma = {
+    mixed: Symbol("mixed"),
+    variables: {
+      getLocalVariableCollectionsAsync: mock(async () => [
+        { id: "collection", name: "Tokens", defaultModeId: "light" },
+      ]),
+      getLocalVariablesAsync: mock(async () => [primary, alias]),
+      getVariableCollectionByIdAsync: mock(async () => ({
+        id: "collection",
+        defaultModeId: "light",
+      })),
+      getVariableByIdAsync: mock(async (id: string) =>
+        id === primary.id ? primary : null,
+      ),
+      createVariableAlias: mock((variable: { id: string }) => ({
+        type: "VARIABLE_ALIAS",
+        id: variable.id,
+      })),
+      setBoundVariableForPaint: mock(
+        (paint: object, _field: string, variable: { id: string }) =>
+          Object.assign({}, paint, {
+            boundVariables: {
+              color: { type: "VARIABLE_ALIAS", id: variable.id },
+            },
+          }),
+      ),
+    },
+  };
+});
+
+const slide: SlideContent = {
+  blocks: [
+    { kind: "paragraph", text: "var(Not/AColor)" },
+    {
+      kind: "chart",
+      chart: {
+        type: "bar",
+        labels: ["a"],
+        series: [{ name: "s", values: [1] }],
+        colors: ["var(Text/Accent)"],
+      },
+    },
+  ],
+  background: { solid: "var(Tokens/Brand/Primary)" },
+  styles: { paragraphs: { color: "var(Brand/Missing, #00ff00)" } },
+};
+
+describe("collectColorVariables", () => {
+  it("collects references from color settings only", () => {
+    expect(collectColorVariables([slide])).toEqual(
+      new Map([
+        ["Tokens/Brand/Primary", ""],
+        ["Brand/Missing", "#00ff00"],
+        ["Text/Accent", ""],
+      ]),
+    );
+  });
+});
+
+describe("resolveColorVariables", () => {
+  it("resolves names, collection-qualified names and aliases", async () => {
+    const results = await resolveColorVariables([
+      slide,
+      { blocks: [], background: { solid: "var(Other)" } },
+    ]);
+    expect(results).toEqual([
+      { name: "Tokens/Brand/Primary", status: "bound" },
+      { name: "Brand/Missing", status: "fallback", fallback: "#00ff00" },
+      { name: "Text/Accent", status: "bound" },
+      { name: "Other", status: "missing" },
+    ]);
+    expect(parseColor("var(Text/Accent)")).toEqual({ r: 1, g: 0, b: 0, a: 1 });
+    expect(parseColor("var(Brand/Missing, #00ff00)")).toEqual({
+      r: 0,
+      g: 1,
+      b: 0,
+    });
+    expect(getColorVariableSignature(slide)).toBe(
+      "Tokens/Brand/Primary=VariableID:1;Brand/Missing=;Text/Accent=VariableID:2",
+    );
+  });
+
+  it("returns nothing when no variables are referenced", async () => {
+    expect(await resolveColorVariables([{ blocks: [] }])).toEqual([]);
+  });
+});
+
+describe("createSolidPaint", () => {
+  it("binds paints created from resolved variable colors only", async () => {
+    await resolveColorVariables([slide]);
+
+    const background = resolveColor("var(Tokens/Brand/Primary)");
+    expect(background?.variable).toBe(primary as unknown as Variable);
+    expect(createSolidPaint(background as ResolvedColor)).toMatchObject({
+      color: { r: 1, g: 0, b: 0 },
+      boundVariables: { color: { id: "VariableID:1" } },
+    });
+
+    // The same color written as a literal stays unbound
+    const literal = createSolidPaint(resolveColor("#ff0000") as ResolvedColor);
+    expect(literal).toEqual({
+      type: "SOLID",
+      color: { r: 1, g: 0, b: 0 },
+      opacity: 1,
+    });
+
+    // Fallbacks of missing variables are plain colors
+    expect(resolveColor("var(Brand/Missing, #00ff00)")).toEqual({
+      color: { r: 0, g: 1, b: 0 },
+      opacity: 1,
+    });
+  });
+
+  it("binds gradient stops through a variable alias", async () => {
+    await resolveColorVariables([slide]);
+    const color = resolveColor("var(Text/Accent)") as ResolvedColor;
+
+    expect(createColorStop(color, 0.5)).toEqual({
+      position: 0.5,
+      color: { r: 1, g: 0, b: 0, a: 1 },
+      boundVariables: { color: { type: "VARIABLE_ALIAS", id: "VariableID:2" } },
+    });
+  });
+});
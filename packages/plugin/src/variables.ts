@@ -0,0 +1,231 @@
+import type {
+  ColorVariableResolution,
+  RGBAColor,
+  SlideBlock,
+  SlideBlockItem,
+  SlideContent,
+} from "@figdeck/shared";
+import { parseColorToRGBA, parseColorVariable } from "@figdeck/shared";
+
+export interface ResolvedColorVariable {
+  variable: Variable;
+  color: RGBAColor;
+}
+
+/** Variables found for the current generation, keyed by the referenced name */
+const resolvedVariables = new Map<string, ResolvedColorVariable>();
+
+/** Maximum alias chain followed when resolving a variable value */
+const MAX_ALIAS_DEPTH = 10;
+
+function collectFromValue(value: unknown, refs: Map<string, string>): void {
+  if (typeof value === "string") {
+    const ref = parseColorVariable(value);
+    if (ref && !refs.has(ref.name)) refs.set(ref.name, ref.fallback ?? "");
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectFromValue(item, refs);
+  } else if (value && typeof value === "object") {
+    for (const item of Object.values(value)) collectFromValue(item, refs);
+  }
+}
+
+function collectFromBlocks(
+  blocks: Array<SlideBlock | SlideBlockItem>,
+  refs: Map<string, string>,
+): void {
+  for (const block of blocks) {
+    if (block.kind === "chart") {
+      collectFromValue(block.chart.colors, refs);
+    } else if (block.kind === "columns") {
+      for (const column of block.columns) collectFromBlocks(column, refs);
+    }
+  }
+}
+
+/**
+ * Collect `var(...)` color references of slides with their fallbacks
+ * (empty string when none). Only color settings are searched, not text.
+ */
+export function collectColorVariables(
+  slides: SlideContent[],
+): Map<string, string> {
+  const refs = new Map<string, string>();
+  for (const slide of slides) {
+    collectFromValue(slide.background, refs);
+    collectFromValue(slide.styles, refs);
+    collectFromValue(slide.slideNumber, refs);
+    collectFromBlocks(slide.blocks, refs);
+  }
+  return refs;
+}
+
+function isVariableAlias(value: VariableValue): value is VariableAlias {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as VariableAlias).type === "VARIABLE_ALIAS"
+  );
+}
+
+function isColorValue(value: VariableValue): value is RGB | RGBA {
+  return typeof value === "object" && value !== null && "r" in value;
+}
+
+/**
+ * Resolve a variable's color in its collection's default mode, following aliases
+ */
+async function resolveVariableColor(
+  variable: Variable,
+  depth = 0,
+): Promise<RGBAColor | null> {
+  if (depth > MAX_ALIAS_DEPTH) return null;
+  const collection = await figma.variables.getVariableCollectionByIdAsync(
+    variable.variableCollectionId,
+  );
+  if (!collection) return null;
+  const value = variable.valuesByMode[collection.defaultModeId];
+  if (isVariableAlias(value)) {
+    const target = await figma.variables.getVariableByIdAsync(value.id);
+    return target ? resolveVariableColor(target, depth + 1) : null;
+  }
+  if (!isColorValue(value)) return null;
+  return { r: value.r, g: value.g, b: value.b, a: "a" in value ? value.a : 1 };
+}
+
+/**
+ * Find local color variables by name or `Collection/Name`
+ */
+async function findLocalVariables(
+  names: string[],
+): Promise<Map<string, Variable>> {
+  const found = new Map<string, Variable>();
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  const collectionNames = new Map(collections.map((c) => [c.id, c.name]));
+  const variables = await figma.variables.getLocalVariablesAsync("COLOR");
+
+  for (const name of names) {
+    const variable =
+      variables.find((v) => v.name === name) ??
+      variables.find(
+        (v) =>
+          `${collectionNames.get(v.variableCollectionId)}/${v.name}` === name,
+      );
+    if (variable) found.set(name, variable);
+  }
+  return found;
+}
+
+/**
+ * Import color variables from enabled team libraries by name or `Collection/Name`
+ * Requires the `teamlibrary` permission; returns nothing when unavailable.
+ */
+async function findLibraryVariables(
+  names: string[],
+): Promise<Map<string, Variable>> {
+  const found = new Map<string, Variable>();
+  try {
+    if (
+      typeof figma.teamLibrary?.getVariablesInLibraryCollectionAsync !==
+      "function"
+    ) {
+      return found;
+    }
+    const collections =
+      await figma.teamLibrary.getAvailableLibraryVariableCollectionsAsync();
+    for (const collection of collections) {
+      const variables =
+        await figma.teamLibrary.getVariablesInLibraryCollectionAsync(
+          collection.key,
+        );
+      for (const name of names) {
+        if (found.has(name)) continue;
+        const match = variables.find(
+          (v) =>
+            v.resolvedType === "COLOR" &&
+            (v.name === name || `${collection.name}/${v.name}` === name),
+        );
+        if (match) {
+          found.set(
+            name,
+            await figma.variables.importVariableByKeyAsync(match.key),
+          );
+        }
+      }
+      if (found.size === names.length) break;
+    }
+  } catch (error) {
+    console.warn("[figdeck] Failed to search library variables:", error);
+  }
+  return found;
+}
+
+/**
+ * Resolve every color variable referenced by the slides
+ * Results are kept for `getColorVariable` and `getResolvedColorVariable`
+ * until the next call, and returned for reporting to the CLI.
+ */
+export async function resolveColorVariables(
+  slides: SlideContent[],
+): Promise<ColorVariableResolution[]> {
+  resolvedVariables.clear();
+  const refs = collectColorVariables(slides);
+  if (refs.size === 0) return [];
+
+  const names = [...refs.keys()];
+  let variables = new Map<string, Variable>();
+  if (typeof figma.variables?.getLocalVariablesAsync === "function") {
+    variables = await findLocalVariables(names);
+    const missing = names.filter((name) => !variables.has(name));
+    if (missing.length > 0) {
+      for (const [name, variable] of await findLibraryVariables(missing)) {
+        variables.set(name, variable);
+      }
+    }
+  }
+
+  const results: ColorVariableResolution[] = [];
+  for (const name of names) {
+    const variable = variables.get(name);
+    const color = variable ? await resolveVariableColor(variable) : null;
+    if (variable && color) {
+      resolvedVariables.set(name, { variable, color });
+      results.push({ name, status: "bound" });
+      continue;
+    }
+    const fallback = refs.get(name);
+    results.push(
+      fallback && parseColorToRGBA(fallback)
+        ? { name, status: "fallback", fallback }
+        : { name, status: "missing" },
+    );
+  }
+  return results;
+}
+
+/**
+ * Current color of a resolved variable, or null when it was not found
+ */
+export function getColorVariable(name: string): RGBAColor | null {
+  return resolvedVariables.get(name)?.color ?? null;
+}
+
+/**
+ * A resolved variable and its current color, or null when it was not found
+ */
+export function getResolvedColorVariable(
+  name: string,
+): ResolvedColorVariable | null {
+  return resolvedVariables.get(name) ?? null;
+}
+
+/**
+ * Cache key part describing how a slide's variables resolved, so slides
+ * are regenerated when a variable appears or disappears
+ */
+export function getColorVariableSignature(slide: SlideContent): string {
+  const parts: string[] = [];
+  for (const name of collectColorVariables([slide]).keys()) {
+    parts.push(`${name}=${resolvedVariables.get(name)?.variable.id ?? ""}`);
+  }
+  return parts.join(";");
+}
@@ -7,9 +7,23 @@
  */
 export const BULLET_MARKERS = ["•", "◦", "▪", "–"] as const;
 
+/**
+ * Markers for GFM task list items in plain-text contexts
+ * Checked: ☑ (U+2611)
+ * Unchecked: ☐ (U+2610)
+ */
+export const TASK_MARKERS = { checked: "☑", unchecked: "☐" } as const;
+
 /**
  * Get bullet marker for a given nesting depth
  */
 export function getBulletMarker(depth: number): string {
   return BULLET_MARKERS[Math.min(depth, BULLET_MARKERS.length - 1)];
 }
+
+/**
+ * Get task list marker for a checked state
+ */
+export function getTaskMarker(checked: boolean): string {
+  return checked ? TASK_MARKERS.checked : TASK_MARKERS.unchecked;
+}
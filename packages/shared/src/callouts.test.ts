@@ -0,0 +1,26 @@
+import { describe, expect, it } from "bun:test";
+import { getCalloutLabel, isBuiltInCalloutType } from "./callouts";
+
+describe("isBuiltInCalloutType", () => {
+  it("accepts built-in types only", () => {
+    expect(isBuiltInCalloutType("note")).toBe(true);
+    expect(isBuiltInCalloutType("question")).toBe(true);
+    expect(isBuiltInCalloutType("decision")).toBe(false);
+  });
+});
+
+describe("getCalloutLabel", () => {
+  it("prefers the title, then the style label, then the type name", () => {
+    expect(getCalloutLabel("note", undefined, undefined)).toBe("NOTE");
+    expect(getCalloutLabel("note", undefined, { label: "Info" })).toBe("Info");
+    expect(getCalloutLabel("note", "Heads up", { label: "Info" })).toBe(
+      "Heads up",
+    );
+  });
+
+  it("prefixes the style icon", () => {
+    expect(getCalloutLabel("decision", undefined, { icon: "⚖️" })).toBe(
+      "⚖️ DECISION",
+    );
+  });
+});
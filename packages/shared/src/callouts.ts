@@ -0,0 +1,35 @@
+import type { CalloutStyle, CalloutType } from "./types.js";
+
+/**
+ * Built-in callout types
+ */
+export const VALID_CALLOUT_TYPES: readonly CalloutType[] = [
+  "note",
+  "tip",
+  "important",
+  "warning",
+  "caution",
+  "success",
+  "question",
+  "example",
+] as const;
+
+/**
+ * Check if a string is a built-in callout type
+ */
+export function isBuiltInCalloutType(value: string): value is CalloutType {
+  return VALID_CALLOUT_TYPES.includes(value as CalloutType);
+}
+
+/**
+ * Header text of a callout: the block title, else the style label, else the
+ * type name in uppercase, preceded by the style icon if set
+ */
+export function getCalloutLabel(
+  type: string,
+  title: string | undefined,
+  style: Pick<CalloutStyle, "icon" | "label"> | undefined,
+): string {
+  const label = title || style?.label || type.toUpperCase();
+  return style?.icon ? `${style.icon} ${label}` : label;
+}
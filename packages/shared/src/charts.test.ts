@@ -0,0 +1,111 @@
+import { describe, expect, it } from "bun:test";
+import {
+  CHART_COLORS,
+  CHART_LAYOUT,
+  formatChartValue,
+  getChartColor,
+  planChart,
+} from "./charts.js";
+import type { Chart } from "./types.js";
+
+const bar: Chart = {
+  type: "bar",
+  labels: ["Q1", "Q2", "Q3"],
+  series: [
+    { name: "Revenue", values: [120, 150, 90] },
+    { name: "Cost", values: [80, 100, 60] },
+  ],
+};
+
+describe("formatChartValue", () => {
+  it("adds thousands separators and the step's decimals", () => {
+    expect(formatChartValue(1250000)).toBe("1,250,000");
+    expect(formatChartValue(0.30000000000000004, 0.1)).toBe("0.3");
+    expect(formatChartValue(-40, 20)).toBe("-40");
+    expect(formatChartValue(-0.001, 0.5)).toBe("0.0");
+  });
+});
+
+describe("getChartColor", () => {
+  it("uses the chart colors before the built-in palette", () => {
+    const chart: Chart = { ...bar, colors: ["#111111"] };
+    expect(getChartColor(chart, 0)).toBe("#111111");
+    expect(getChartColor(chart, 1)).toBe(CHART_COLORS[1]);
+    expect(getChartColor(bar, CHART_COLORS.length)).toBe(CHART_COLORS[0]);
+  });
+});
+
+describe("planChart", () => {
+  it("rounds the value axis to whole ticks starting at zero", () => {
+    const plan = planChart(bar);
+
+    expect(plan.ticks.map((tick) => tick.label.text)).toEqual([
+      "0",
+      "50",
+      "100",
+      "150",
+    ]);
+    const plot = plan.plot;
+    expect(plot).toBeDefined();
+    if (!plot) return;
+    expect(plan.baseline).toBe(plot.y + plot.height);
+    expect(plan.ticks[3].y).toBe(plot.y);
+  });
+
+  it("groups bars per category and adds a legend for several series", () => {
+    const plan = planChart(bar);
+
+    expect(plan.bars).toHaveLength(6);
+    const [revenue, cost] = plan.bars.filter((b) => b.index === 0);
+    expect(cost.x).toBeCloseTo(revenue.x + revenue.width);
+    expect(revenue.height).toBeGreaterThan(cost.height);
+    expect(revenue.y + revenue.height).toBe(plan.baseline as number);
+    expect(plan.legend.map((entry) => entry.text)).toEqual(["Revenue", "Cost"]);
+    expect(plan.categories.map((label) => label.text)).toEqual([
+      "Q1",
+      "Q2",
+      "Q3",
+    ]);
+  });
+
+  it("draws negative bars below the baseline", () => {
+    const plan = planChart({
+      type: "bar",
+      labels: ["A", "B"],
+      series: [{ name: "Delta", values: [30, -20] }],
+    });
+
+    expect(plan.ticks[0].label.text).toBe("-20");
+    expect(plan.bars[1].y).toBe(plan.baseline as number);
+    expect(plan.legend).toEqual([]);
+  });
+
+  it("places line points at the category centers", () => {
+    const plan = planChart({ ...bar, type: "line", title: "Trend" });
+
+    expect(plan.bars).toEqual([]);
+    expect(plan.lines).toHaveLength(2);
+    expect(plan.lines[0].points.map((point) => point.x)).toEqual(
+      plan.categories.map((label) => label.x),
+    );
+    expect(plan.title?.text).toBe("Trend");
+  });
+
+  it("splits pie charts into slices from twelve o'clock", () => {
+    const plan = planChart({
+      type: "donut",
+      labels: ["A", "B", "C"],
+      series: [{ name: "Share", values: [50, 0, 50] }],
+    });
+
+    expect(plan.slices).toEqual([
+      { index: 0, start: -Math.PI / 2, end: Math.PI / 2 },
+      { index: 2, start: Math.PI / 2, end: (Math.PI * 3) / 2 },
+    ]);
+    expect(plan.pie?.innerRadius).toBe(
+      (plan.pie?.radius ?? 0) * CHART_LAYOUT.DONUT_INNER_RATIO,
+    );
+    expect(plan.legend).toHaveLength(3);
+    expect(plan.plot).toBeUndefined();
+  });
+});
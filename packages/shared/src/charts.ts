@@ -0,0 +1,305 @@
+import type { Chart, ChartType, DiagramPoint } from "./types.js";
+
+/**
+ * Valid ```chart types
+ */
+export const VALID_CHART_TYPES: readonly ChartType[] = [
+  "bar",
+  "line",
+  "pie",
+  "donut",
+] as const;
+
+/**
+ * Layout constants for charts, shared by the plugin renderer and the preview
+ */
+export const CHART_LAYOUT = {
+  WIDTH: 1200,
+  HEIGHT: 600,
+  /** Font size of titles, axis labels and legend entries */
+  FONT_SIZE: 20,
+  /** Approximate label character width as a ratio of the font size */
+  CHAR_WIDTH_RATIO: 0.6,
+  /** Space between the title, plot, axis labels and legend */
+  GAP: 16,
+  /** Share of each category's width taken by its bars */
+  BAR_GROUP_RATIO: 0.7,
+  /** Inner radius of donut charts as a ratio of the outer radius */
+  DONUT_INNER_RATIO: 0.6,
+  LEGEND_SWATCH_SIZE: 16,
+  /** Approximate number of value axis ticks */
+  TICK_COUNT: 5,
+  /** Maximum number of series in one chart */
+  MAX_SERIES: 10,
+  /** Maximum number of labels (categories or slices) in one chart */
+  MAX_POINTS: 100,
+} as const;
+
+/**
+ * Built-in series colors, used after the chart's own `colors`
+ */
+export const CHART_COLORS: readonly string[] = [
+  "#3b82f6",
+  "#f97316",
+  "#10b981",
+  "#a855f7",
+  "#ef4444",
+  "#eab308",
+  "#06b6d4",
+  "#ec4899",
+];
+
+/**
+ * Check if a string is a valid chart type
+ */
+export function isValidChartType(value: string): value is ChartType {
+  return VALID_CHART_TYPES.includes(value as ChartType);
+}
+
+/**
+ * Color of a series (bar and line charts) or slice (pie and donut charts)
+ */
+export function getChartColor(chart: Chart, index: number): string {
+  return chart.colors?.[index] ?? CHART_COLORS[index % CHART_COLORS.length];
+}
+
+/**
+ * A text label placed on the chart; `y` is the vertical center of the text
+ */
+export interface ChartLabel {
+  text: string;
+  x: number;
+  y: number;
+  align: "left" | "center" | "right";
+}
+
+export interface ChartRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Positions of every chart element in a CHART_LAYOUT.WIDTH x HEIGHT frame
+ */
+export interface ChartPlan {
+  width: number;
+  height: number;
+  title?: ChartLabel;
+  /** Plot area of bar and line charts */
+  plot?: ChartRect;
+  /** Y of the zero value in the plot area */
+  baseline?: number;
+  /** Value axis ticks with the y of their grid line */
+  ticks: Array<{ y: number; label: ChartLabel }>;
+  /** Category labels under the plot area */
+  categories: ChartLabel[];
+  bars: Array<ChartRect & { series: number; index: number }>;
+  lines: Array<{ series: number; points: DiagramPoint[] }>;
+  /** Center and radii of pie and donut charts */
+  pie?: { cx: number; cy: number; radius: number; innerRadius: number };
+  /** Slice angles in radians, clockwise from the positive x axis */
+  slices: Array<{ index: number; start: number; end: number }>;
+  /** Legend entries: the swatch is centered on `y` and starts at `x` */
+  legend: Array<{ text: string; colorIndex: number; x: number; y: number }>;
+}
+
+/**
+ * Approximate rendered width of a label at the chart font size
+ */
+function textWidth(text: string): number {
+  return text.length * CHART_LAYOUT.FONT_SIZE * CHART_LAYOUT.CHAR_WIDTH_RATIO;
+}
+
+/**
+ * Pick a 1, 2 or 5 x 10^n tick step giving about TICK_COUNT ticks
+ */
+function niceStep(range: number): number {
+  const rough = range / CHART_LAYOUT.TICK_COUNT;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const normalized = rough / magnitude;
+  const nice =
+    normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  return nice * magnitude;
+}
+
+/**
+ * Format a tick value with thousands separators and the step's precision
+ */
+export function formatChartValue(value: number, step = 1): string {
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  const [whole, fraction] = Math.abs(value).toFixed(decimals).split(".");
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  const sign = value < 0 && Number(whole + (fraction ?? "")) !== 0 ? "-" : "";
+  return fraction ? `${sign}${grouped}.${fraction}` : `${sign}${grouped}`;
+}
+
+/**
+ * Lay out the legend centered in a row at `y`
+ */
+function layoutLegend(
+  entries: string[],
+  width: number,
+  y: number,
+): ChartPlan["legend"] {
+  const spacing = CHART_LAYOUT.GAP * 1.5;
+  const entryWidth = (text: string) =>
+    CHART_LAYOUT.LEGEND_SWATCH_SIZE + CHART_LAYOUT.GAP / 2 + textWidth(text);
+  const total =
+    entries.reduce((sum, text) => sum + entryWidth(text), 0) +
+    spacing * Math.max(0, entries.length - 1);
+  let x = Math.max(0, (width - total) / 2);
+  return entries.map((text, colorIndex) => {
+    const entry = { text, colorIndex, x, y };
+    x += entryWidth(text) + spacing;
+    return entry;
+  });
+}
+
+/**
+ * Compute the position of every element of a chart.
+ * Bar and line charts get a value axis with rounded ticks that always
+ * includes zero; pie and donut charts are centered in the space left by the
+ * title and legend.
+ */
+export function planChart(chart: Chart): ChartPlan {
+  const { WIDTH: width, HEIGHT: height, FONT_SIZE, GAP } = CHART_LAYOUT;
+  const lineHeight = FONT_SIZE * 1.2;
+  const plan: ChartPlan = {
+    width,
+    height,
+    ticks: [],
+    categories: [],
+    bars: [],
+    lines: [],
+    slices: [],
+    legend: [],
+  };
+
+  let top = 0;
+  if (chart.title) {
+    plan.title = {
+      text: chart.title,
+      x: width / 2,
+      y: lineHeight / 2,
+      align: "center",
+    };
+    top = lineHeight + GAP;
+  }
+
+  const circular = chart.type === "pie" || chart.type === "donut";
+  const legendEntries = circular
+    ? chart.labels
+    : chart.series.length > 1
+      ? chart.series.map((series) => series.name)
+      : [];
+  let bottom = height;
+  if (legendEntries.length > 0) {
+    plan.legend = layoutLegend(legendEntries, width, height - lineHeight / 2);
+    bottom = height - lineHeight - GAP;
+  }
+
+  if (circular) {
+    const values = (chart.series[0]?.values ?? []).map((value) =>
+      Math.max(0, value),
+    );
+    const total = values.reduce((sum, value) => sum + value, 0);
+    const radius = Math.max(1, Math.min(width, bottom - top) / 2);
+    plan.pie = {
+      cx: width / 2,
+      cy: top + (bottom - top) / 2,
+      radius,
+      innerRadius:
+        chart.type === "donut" ? radius * CHART_LAYOUT.DONUT_INNER_RATIO : 0,
+    };
+    let angle = -Math.PI / 2;
+    values.forEach((value, index) => {
+      if (total <= 0 || value <= 0) return;
+      const sweep = (value / total) * Math.PI * 2;
+      plan.slices.push({ index, start: angle, end: angle + sweep });
+      angle += sweep;
+    });
+    return plan;
+  }
+
+  // Value axis: round the range out to whole ticks, always including zero
+  const allValues = chart.series.flatMap((series) => series.values);
+  const rawMin = Math.min(0, ...allValues);
+  const rawMax = Math.max(0, ...allValues);
+  const step = niceStep(rawMax - rawMin || 1);
+  const min = Math.floor(rawMin / step) * step;
+  const roundedMax = Math.ceil(rawMax / step) * step;
+  const max = roundedMax > min ? roundedMax : min + step;
+  const tickValues: number[] = [];
+  for (let i = 0; min + i * step <= max + step / 2; i++) {
+    tickValues.push(min + i * step);
+  }
+  const tickLabels = tickValues.map((value) => formatChartValue(value, step));
+  const axisWidth = Math.max(...tickLabels.map(textWidth)) + GAP;
+
+  const plot: ChartRect = {
+    x: axisWidth,
+    y: top + lineHeight / 2,
+    width: width - axisWidth,
+    height: Math.max(1, bottom - (top + lineHeight / 2) - lineHeight - GAP),
+  };
+  plan.plot = plot;
+  const toY = (value: number) =>
+    plot.y + plot.height - ((value - min) / (max - min)) * plot.height;
+  plan.baseline = toY(0);
+  plan.ticks = tickValues.map((value, index) => ({
+    y: toY(value),
+    label: {
+      text: tickLabels[index],
+      x: axisWidth - GAP,
+      y: toY(value),
+      align: "right",
+    },
+  }));
+
+  const count = Math.max(1, chart.labels.length);
+  const categoryWidth = plot.width / count;
+  const categoryY = plot.y + plot.height + GAP + lineHeight / 2;
+  plan.categories = chart.labels.map((text, index) => ({
+    text,
+    x: plot.x + categoryWidth * (index + 0.5),
+    y: categoryY,
+    align: "center",
+  }));
+
+  if (chart.type === "bar") {
+    const groupWidth = categoryWidth * CHART_LAYOUT.BAR_GROUP_RATIO;
+    const barWidth = groupWidth / Math.max(1, chart.series.length);
+    chart.series.forEach((series, seriesIndex) => {
+      series.values.forEach((value, index) => {
+        if (index >= chart.labels.length) return;
+        const y = toY(Math.max(0, value));
+        plan.bars.push({
+          series: seriesIndex,
+          index,
+          x:
+            plot.x +
+            categoryWidth * index +
+            (categoryWidth - groupWidth) / 2 +
+            barWidth * seriesIndex,
+          y,
+          width: barWidth,
+          height: Math.abs(toY(Math.min(0, value)) - y),
+        });
+      });
+    });
+  } else {
+    plan.lines = chart.series.map((series, seriesIndex) => ({
+      series: seriesIndex,
+      points: series.values
+        .slice(0, chart.labels.length)
+        .map((value, index) => ({
+          x: plot.x + categoryWidth * (index + 0.5),
+          y: toY(value),
+        })),
+    }));
+  }
+
+  return plan;
+}
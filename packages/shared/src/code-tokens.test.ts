@@ -0,0 +1,36 @@
+import { describe, expect, it } from "bun:test";
+import { parseHighlightedHtml } from "./code-tokens.js";
+
+describe("parseHighlightedHtml", () => {
+  it("maps span classes to token kinds and decodes entities", () => {
+    expect(
+      parseHighlightedHtml(
+        '<span class="hljs-keyword">if</span> (a &lt; b) <span class="hljs-string">&quot;x&quot;</span>',
+      ),
+    ).toEqual([
+      { text: "if", token: "keyword" },
+      { text: " (a < b) ", token: "default" },
+      { text: '"x"', token: "string" },
+    ]);
+  });
+
+  it("resumes the outer kind after a nested span", () => {
+    expect(
+      parseHighlightedHtml(
+        '<span class="hljs-string">f&quot;a <span class="hljs-subst">{b}</span> c&quot;</span>',
+      ),
+    ).toEqual([
+      { text: 'f"a ', token: "string" },
+      { text: "{b}", token: "default" },
+      { text: ' c"', token: "string" },
+    ]);
+  });
+
+  it("merges adjacent tokens of the same kind", () => {
+    expect(
+      parseHighlightedHtml(
+        '<span class="hljs-title function_">a</span><span class="hljs-title">b</span>',
+      ),
+    ).toEqual([{ text: "ab", token: "function" }]);
+  });
+});
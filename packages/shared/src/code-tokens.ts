@@ -0,0 +1,111 @@
+import type { CodeToken, CodeTokenType } from "./types.js";
+
+/**
+ * Token kinds the code highlighter colors
+ */
+export const CODE_TOKEN_TYPES: readonly CodeTokenType[] = [
+  "keyword",
+  "string",
+  "number",
+  "comment",
+  "function",
+  "variable",
+  "type",
+  "punctuation",
+  "default",
+] as const;
+
+/**
+ * Check if a string is a code token kind
+ */
+export function isCodeTokenType(value: string): value is CodeTokenType {
+  return CODE_TOKEN_TYPES.includes(value as CodeTokenType);
+}
+
+/**
+ * Map a highlight.js class name to a token kind
+ */
+export function getTokenForClass(className: string): CodeTokenType {
+  if (className.includes("keyword") || className.includes("built_in")) {
+    return "keyword";
+  }
+  if (className.includes("string") || className.includes("regexp")) {
+    return "string";
+  }
+  if (className.includes("number") || className.includes("literal")) {
+    return "number";
+  }
+  if (className.includes("comment")) {
+    return "comment";
+  }
+  if (className.includes("function") || className.includes("title")) {
+    return "function";
+  }
+  if (className.includes("variable") || className.includes("attr")) {
+    return "variable";
+  }
+  if (className.includes("type") || className.includes("class")) {
+    return "type";
+  }
+  if (className.includes("punctuation") || className.includes("operator")) {
+    return "punctuation";
+  }
+  return "default";
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&lt;": "<",
+  "&gt;": ">",
+  "&amp;": "&",
+  "&quot;": '"',
+  "&#x27;": "'",
+};
+
+/**
+ * Convert highlight.js HTML output to tokens.
+ * Text inside nested spans takes the innermost span's kind, and the outer
+ * kind resumes after the nested span closes. Adjacent tokens of the same
+ * kind are merged.
+ */
+export function parseHighlightedHtml(html: string): CodeToken[] {
+  const tokens: CodeToken[] = [];
+  const stack: CodeTokenType[] = [];
+  let text = "";
+  let i = 0;
+
+  const flush = () => {
+    if (!text) return;
+    const token = stack.length > 0 ? stack[stack.length - 1] : "default";
+    const last = tokens[tokens.length - 1];
+    if (last && last.token === token) last.text += text;
+    else tokens.push({ text, token });
+    text = "";
+  };
+
+  while (i < html.length) {
+    if (html[i] === "<") {
+      const tagEnd = html.indexOf(">", i);
+      if (tagEnd === -1) break;
+      flush();
+      const tag = html.slice(i, tagEnd + 1);
+      if (tag.startsWith("<span")) {
+        const classMatch = tag.match(/class="([^"]+)"/);
+        stack.push(classMatch ? getTokenForClass(classMatch[1]) : "default");
+      } else if (tag === "</span>") {
+        stack.pop();
+      }
+      i = tagEnd + 1;
+    } else if (html[i] === "&") {
+      const entityEnd = html.indexOf(";", i);
+      const entity = entityEnd === -1 ? "&" : html.slice(i, entityEnd + 1);
+      text += HTML_ENTITIES[entity] ?? entity;
+      i += entity.length;
+    } else {
+      text += html[i];
+      i++;
+    }
+  }
+
+  flush();
+  return tokens;
+}
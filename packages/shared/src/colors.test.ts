@@ -0,0 +1,30 @@
+import { describe, expect, it } from "bun:test";
+import { parseColorToRGBA, parseColorVariable } from "./colors";
+
+describe("parseColorVariable", () => {
+  it("parses the name and optional fallback", () => {
+    expect(parseColorVariable("var(Brand/Primary)")).toEqual({
+      name: "Brand/Primary",
+    });
+    expect(parseColorVariable("VAR( Brand/Primary , #1a73e8 )")).toEqual({
+      name: "Brand/Primary",
+      fallback: "#1a73e8",
+    });
+  });
+
+  it("returns null for literal colors", () => {
+    expect(parseColorVariable("#1a73e8")).toBeNull();
+    expect(parseColorVariable("var()")).toBeNull();
+  });
+});
+
+describe("parseColorToRGBA", () => {
+  it("uses the fallback of a variable reference", () => {
+    expect(parseColorToRGBA("var(Brand/Primary, #ff0000)")).toEqual({
+      r: 1,
+      g: 0,
+      b: 0,
+    });
+    expect(parseColorToRGBA("var(Brand/Primary)")).toBeNull();
+  });
+});
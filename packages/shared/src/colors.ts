@@ -13,14 +13,46 @@ export interface RGBAColor {
   a?: number;
 }
 
+/**
+ * Reference to a Figma color variable, e.g. `var(Brand/Primary, #1a73e8)`
+ */
+export interface ColorVariableReference {
+  /** Variable name, optionally prefixed with its collection (`Tokens/Brand/Primary`) */
+  name: string;
+  /** Literal color used when the variable cannot be resolved */
+  fallback?: string;
+}
+
+const COLOR_VARIABLE_PATTERN = /^var\(\s*([^,()]+?)\s*(?:,\s*(.+?)\s*)?\)$/i;
+
+/**
+ * Parse a `var(Name)` or `var(Name, fallback)` color reference
+ * Returns null if the string is not a variable reference
+ */
+export function parseColorVariable(
+  color: string,
+): ColorVariableReference | null {
+  const match = color.trim().match(COLOR_VARIABLE_PATTERN);
+  if (!match) return null;
+  const ref: ColorVariableReference = { name: match[1] };
+  if (match[2]) ref.fallback = match[2];
+  return ref;
+}
+
 /**
  * Parse a color string to RGBA floats (0-1 range)
  * Supports: #rgb, #rrggbb, rgb(r,g,b), rgba(r,g,b,a)
+ * Variable references resolve to their fallback color, if any
  * Returns null if the color format is not recognized
  */
 export function parseColorToRGBA(color: string): RGBAColor | null {
   color = color.trim();
 
+  const variable = parseColorVariable(color);
+  if (variable) {
+    return variable.fallback ? parseColorToRGBA(variable.fallback) : null;
+  }
+
   // Handle hex colors (#rgb or #rrggbb)
   if (color.startsWith("#")) {
     let hex = color.slice(1);
@@ -71,11 +103,19 @@ export function parseColorToRGBA(color: string): RGBAColor | null {
  * - #rrggbb -> #rrggbb (lowercase)
  * - rgb(r,g,b) -> #rrggbb
  * - rgba(r,g,b,a) -> rgba(r,g,b,a) (preserved for alpha)
+ * - var(Name, fallback) -> var(Name, normalized fallback)
  * Returns the original string if format is not recognized
  */
 export function normalizeColor(color: string): string {
   color = color.trim();
 
+  const variable = parseColorVariable(color);
+  if (variable) {
+    return variable.fallback
+      ? `var(${variable.name}, ${normalizeColor(variable.fallback)})`
+      : `var(${variable.name})`;
+  }
+
   // Handle #rgb shorthand
   if (/^#[0-9a-fA-F]{3}$/.test(color)) {
     const r = color[1];
@@ -0,0 +1,44 @@
+import type { SlideNumberPosition } from "./types.js";
+
+/**
+ * RGB color with channels in the 0-1 range (Figma's color format)
+ */
+export interface RGBColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Default font sizes
+export const DEFAULT_H1_SIZE = 64;
+export const DEFAULT_H2_SIZE = 48;
+export const DEFAULT_H3_SIZE = 36;
+export const DEFAULT_H4_SIZE = 28;
+export const DEFAULT_PARAGRAPH_SIZE = 24;
+export const DEFAULT_BULLET_SIZE = 24;
+export const DEFAULT_CODE_SIZE = 16;
+
+// Smallest text scale for `autoFit: shrink` when `minScale` is not set
+export const DEFAULT_AUTO_FIT_MIN_SCALE = 0.6;
+
+// Default colors
+export const DEFAULT_TEXT_COLOR = "#000000";
+
+// Link color
+export const LINK_COLOR: RGBColor = { r: 0.23, g: 0.52, b: 0.93 }; // #3b82f5
+
+// Inline code background
+export const INLINE_CODE_BG: RGBColor = { r: 0.94, g: 0.94, b: 0.94 }; // #f0f0f0
+
+// Figma link card colors
+export const FIGMA_CARD_BG: RGBColor = { r: 0.96, g: 0.96, b: 0.98 };
+export const FIGMA_CARD_BORDER: RGBColor = { r: 0.85, g: 0.85, b: 0.9 };
+export const FIGMA_BRAND_COLOR: RGBColor = { r: 0.64, g: 0.33, b: 0.97 }; // Figma purple
+
+// Slide number defaults
+export const DEFAULT_SLIDE_NUMBER_SIZE = 14;
+export const DEFAULT_SLIDE_NUMBER_POSITION: SlideNumberPosition =
+  "bottom-right";
+export const DEFAULT_SLIDE_NUMBER_PADDING_X = 32;
+export const DEFAULT_SLIDE_NUMBER_PADDING_Y = 24;
+export const DEFAULT_SLIDE_NUMBER_FORMAT = "{{current}} / {{total}}";
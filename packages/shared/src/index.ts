@@ -1,15 +1,68 @@
 // Types
 
 // Bullets
-export { BULLET_MARKERS, getBulletMarker } from "./bullets.js";
+export {
+  BULLET_MARKERS,
+  getBulletMarker,
+  getTaskMarker,
+  TASK_MARKERS,
+} from "./bullets.js";
+// Callouts
+export {
+  getCalloutLabel,
+  isBuiltInCalloutType,
+  VALID_CALLOUT_TYPES,
+} from "./callouts.js";
+// Charts
+export type { ChartLabel, ChartPlan, ChartRect } from "./charts.js";
+export {
+  CHART_COLORS,
+  CHART_LAYOUT,
+  formatChartValue,
+  getChartColor,
+  isValidChartType,
+  planChart,
+  VALID_CHART_TYPES,
+} from "./charts.js";
+// Code tokens
+export {
+  CODE_TOKEN_TYPES,
+  getTokenForClass,
+  isCodeTokenType,
+  parseHighlightedHtml,
+} from "./code-tokens.js";
 // Color utilities
-export type { RGBAColor } from "./colors.js";
+export type { ColorVariableReference, RGBAColor } from "./colors.js";
 export {
   normalizeColor,
   parseColorToRGBA,
+  parseColorVariable,
   rgbaToHex,
 } from "./colors.js";
 
+// Default sizes and colors
+export type { RGBColor } from "./defaults.js";
+export {
+  DEFAULT_AUTO_FIT_MIN_SCALE,
+  DEFAULT_BULLET_SIZE,
+  DEFAULT_CODE_SIZE,
+  DEFAULT_H1_SIZE,
+  DEFAULT_H2_SIZE,
+  DEFAULT_H3_SIZE,
+  DEFAULT_H4_SIZE,
+  DEFAULT_PARAGRAPH_SIZE,
+  DEFAULT_SLIDE_NUMBER_FORMAT,
+  DEFAULT_SLIDE_NUMBER_PADDING_X,
+  DEFAULT_SLIDE_NUMBER_PADDING_Y,
+  DEFAULT_SLIDE_NUMBER_POSITION,
+  DEFAULT_SLIDE_NUMBER_SIZE,
+  DEFAULT_TEXT_COLOR,
+  FIGMA_BRAND_COLOR,
+  FIGMA_CARD_BG,
+  FIGMA_CARD_BORDER,
+  INLINE_CODE_BG,
+  LINK_COLOR,
+} from "./defaults.js";
 // Figma URL utilities
 export {
   extractHostname,
@@ -17,6 +70,16 @@ export {
   isValidFigmaUrl,
   parseFigmaUrl,
 } from "./figma.js";
+// Layouts
+export type { LayoutPlan, LayoutRegion } from "./layouts.js";
+export {
+  isValidSlideLayout,
+  planLayout,
+  VALID_SLIDE_LAYOUTS,
+} from "./layouts.js";
+// Slide numbers
+export type { SlideNumbers } from "./slide-numbers.js";
+export { getSlideNumbers } from "./slide-numbers.js";
 // Transitions
 export {
   isValidTransitionCurve,
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "bun:test";
+import { planLayout } from "./layouts.js";
+import type { SlideBlock } from "./types.js";
+
+const heading: SlideBlock = { kind: "heading", level: 2, text: "Title" };
+const paragraph: SlideBlock = { kind: "paragraph", text: "Body" };
+const image: SlideBlock = { kind: "image", url: "./photo.png" };
+const quote: SlideBlock = { kind: "blockquote", text: "Stay hungry" };
+
+describe("planLayout", () => {
+  it("centers all blocks for section", () => {
+    const plan = planLayout("section", [heading, paragraph], 1920, 1080);
+
+    expect(plan.content).toMatchObject({
+      x: 0,
+      width: 1920,
+      align: "center",
+      valign: "middle",
+    });
+    expect(plan.contentBlocks).toEqual([heading, paragraph]);
+    expect(plan.media).toBeUndefined();
+  });
+
+  it("puts the first image on the left for image-left", () => {
+    const plan = planLayout(
+      "image-left",
+      [heading, image, paragraph],
+      1920,
+      1080,
+    );
+
+    expect(plan.media).toMatchObject({ x: 0, width: 960, height: 1080 });
+    expect(plan.content).toMatchObject({ x: 960, width: 960 });
+    expect(plan.mediaBlock).toBe(image);
+    expect(plan.contentBlocks).toEqual([heading, paragraph]);
+  });
+
+  it("puts the first image on the right for image-right", () => {
+    const plan = planLayout("image-right", [image, heading], 1920, 1080);
+
+    expect(plan.media).toMatchObject({ x: 960, width: 960 });
+    expect(plan.content).toMatchObject({ x: 0, width: 960 });
+    expect(plan.contentBlocks).toEqual([heading]);
+  });
+
+  it("keeps the media region empty without an image", () => {
+    const plan = planLayout("image-left", [heading], 1920, 1080);
+
+    expect(plan.mediaBlock).toBeUndefined();
+    expect(plan.contentBlocks).toEqual([heading]);
+  });
+
+  it("emphasizes the blockquote for quote", () => {
+    const plan = planLayout("quote", [quote, paragraph], 1920, 1080);
+
+    expect(plan.emphasisBlock).toBe(quote);
+    expect(plan.contentBlocks).toEqual([quote, paragraph]);
+  });
+
+  it("emphasizes the first heading for big-number", () => {
+    const number: SlideBlock = { kind: "heading", level: 1, text: "42%" };
+    const plan = planLayout("big-number", [number, paragraph], 1920, 1080);
+
+    expect(plan.emphasisBlock).toBe(number);
+  });
+
+  it("falls back to the first paragraph for big-number", () => {
+    const plan = planLayout("big-number", [paragraph], 1920, 1080);
+
+    expect(plan.emphasisBlock).toBe(paragraph);
+  });
+
+  it("keeps only the title for title-only", () => {
+    const plan = planLayout("title-only", [heading, paragraph], 1920, 1080);
+
+    expect(plan.contentBlocks).toEqual([heading]);
+    expect(plan.droppedBlocks).toEqual([paragraph]);
+    expect(plan.content).toMatchObject({ align: "left", valign: "top" });
+  });
+});
@@ -0,0 +1,141 @@
+import type {
+  HorizontalAlign,
+  SlideBlock,
+  SlideLayout,
+  VerticalAlign,
+} from "./types.js";
+
+/**
+ * Valid built-in slide layouts
+ */
+export const VALID_SLIDE_LAYOUTS: readonly SlideLayout[] = [
+  "default",
+  "section",
+  "image-left",
+  "image-right",
+  "quote",
+  "big-number",
+  "title-only",
+] as const;
+
+/**
+ * Check if a string is a valid slide layout
+ */
+export function isValidSlideLayout(value: string): value is SlideLayout {
+  return VALID_SLIDE_LAYOUTS.includes(value as SlideLayout);
+}
+
+/**
+ * A rectangular area of the slide with the alignment of its content
+ */
+export interface LayoutRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  align: HorizontalAlign;
+  valign: VerticalAlign;
+}
+
+type ImageBlock = Extract<SlideBlock, { kind: "image" }>;
+
+/**
+ * Where each block of a slide goes for a given layout
+ */
+export interface LayoutPlan {
+  /** Region holding headings and body blocks */
+  content: LayoutRegion;
+  /** Region filled edge to edge by the media block (image layouts only) */
+  media?: LayoutRegion;
+  /** Blocks rendered in the content region, in document order */
+  contentBlocks: SlideBlock[];
+  /** Image rendered in the media region */
+  mediaBlock?: ImageBlock;
+  /** Content block rendered at the layout's emphasis size (big number, quote) */
+  emphasisBlock?: SlideBlock;
+  /** Blocks the layout has no region for */
+  droppedBlocks: SlideBlock[];
+}
+
+/**
+ * Plan how a slide's blocks are placed for a named layout.
+ * Blocks with absolute positions should be removed before planning.
+ */
+export function planLayout(
+  layout: Exclude<SlideLayout, "default">,
+  blocks: SlideBlock[],
+  width: number,
+  height: number,
+): LayoutPlan {
+  const fullSlide = (
+    align: HorizontalAlign,
+    valign: VerticalAlign,
+  ): LayoutRegion => ({ x: 0, y: 0, width, height, align, valign });
+
+  switch (layout) {
+    case "section":
+      return {
+        content: fullSlide("center", "middle"),
+        contentBlocks: blocks,
+        droppedBlocks: [],
+      };
+
+    case "image-left":
+    case "image-right": {
+      const half = Math.round(width / 2);
+      const mediaBlock = blocks.find(
+        (block): block is ImageBlock => block.kind === "image",
+      );
+      const mediaX = layout === "image-left" ? 0 : width - half;
+      const contentX = layout === "image-left" ? half : 0;
+      return {
+        content: {
+          x: contentX,
+          y: 0,
+          width: width - half,
+          height,
+          align: "left",
+          valign: "middle",
+        },
+        media: {
+          x: mediaX,
+          y: 0,
+          width: half,
+          height,
+          align: "center",
+          valign: "middle",
+        },
+        contentBlocks: blocks.filter((block) => block !== mediaBlock),
+        mediaBlock,
+        droppedBlocks: [],
+      };
+    }
+
+    case "quote":
+      return {
+        content: fullSlide("center", "middle"),
+        contentBlocks: blocks,
+        emphasisBlock: blocks.find((block) => block.kind === "blockquote"),
+        droppedBlocks: [],
+      };
+
+    case "big-number":
+      return {
+        content: fullSlide("center", "middle"),
+        contentBlocks: blocks,
+        emphasisBlock:
+          blocks.find((block) => block.kind === "heading") ??
+          blocks.find((block) => block.kind === "paragraph"),
+        droppedBlocks: [],
+      };
+
+    case "title-only": {
+      const title = blocks.find((block) => block.kind === "heading");
+      return {
+        content: fullSlide("left", "top"),
+        contentBlocks: title ? [title] : [],
+        droppedBlocks: blocks.filter((block) => block !== title),
+      };
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  findConfigFile,
+  loadConfig,
+  loadConfigFile,
+  validateConfig,
+} from "./project-config";
+
+describe("findConfigFile", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "figdeck-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("walks up from the deck directory", () => {
+    const nested = join(dir, "decks", "talk");
+    mkdirSync(nested, { recursive: true });
+    writeFileSync(join(dir, "figdeck.config.json"), "{}");
+
+    expect(findConfigFile(nested)).toBe(join(dir, "figdeck.config.json"));
+  });
+
+  it("prefers the nearest file and the TypeScript config", () => {
+    const nested = join(dir, "decks");
+    mkdirSync(nested);
+    writeFileSync(join(dir, "figdeck.config.json"), "{}");
+    writeFileSync(join(nested, "figdeck.config.json"), "{}");
+    writeFileSync(join(nested, "figdeck.config.ts"), "export default {};");
+
+    expect(findConfigFile(nested)).toBe(join(nested, "figdeck.config.ts"));
+  });
+});
+
+describe("loadConfig", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "figdeck-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns null without a config file", async () => {
+    const isolated = join(dir, "deck");
+    mkdirSync(isolated);
+    // Only meaningful when no config exists above the temp directory
+    if (findConfigFile(dir) === null) {
+      expect(await loadConfig(isolated)).toBeNull();
+    }
+  });
+
+  it("loads JSON configs", async () => {
+    writeFileSync(
+      join(dir, "figdeck.config.json"),
+      JSON.stringify({
+        serve: { port: 5000 },
+        images: { maxSizeMb: 10 },
+        frontmatter: { align: "center" },
+      }),
+    );
+
+    expect(await loadConfig(dir)).toEqual({
+      path: join(dir, "figdeck.config.json"),
+      config: {
+        serve: { port: 5000 },
+        images: { maxSizeMb: 10 },
+        frontmatter: { align: "center" },
+      },
+    });
+  });
+
+  it("loads the default export of TypeScript configs", async () => {
+    const path = join(dir, "figdeck.config.ts");
+    writeFileSync(
+      path,
+      [
+        "const port: number = 4200;",
+        "export default { serve: { port }, fonts: { body: { family: 'Inter' } } };",
+      ].join("\n"),
+    );
+
+    expect(await loadConfigFile(path)).toEqual({
+      serve: { port: 4200 },
+      fonts: { body: { family: "Inter" } },
+    });
+  });
+
+  it("loads TypeScript configs only when scripts are allowed", async () => {
+    writeFileSync(
+      join(dir, "figdeck.config.ts"),
+      "export default { serve: { port: 4200 } };",
+    );
+
+    expect(await loadConfig(dir)).toBeNull();
+    expect(await loadConfig(dir, { allowScript: true })).toEqual({
+      path: join(dir, "figdeck.config.ts"),
+      config: { serve: { port: 4200 } },
+    });
+
+    // The JSON config beside it applies instead
+    writeFileSync(
+      join(dir, "figdeck.config.json"),
+      JSON.stringify({ serve: { port: 5000 } }),
+    );
+    expect(await loadConfig(dir)).toEqual({
+      path: join(dir, "figdeck.config.json"),
+      config: { serve: { port: 5000 } },
+    });
+  });
+
+  it("falls back to the JSON config when the TypeScript config cannot be imported", async () => {
+    writeFileSync(join(dir, "figdeck.config.ts"), "export default {");
+    const jsonPath = join(dir, "figdeck.config.json");
+    writeFileSync(jsonPath, JSON.stringify({ serve: { port: 5000 } }));
+
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      expect(await loadConfig(dir, { allowScript: true })).toEqual({
+        path: jsonPath,
+        config: { serve: { port: 5000 } },
+      });
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+      expect(String(warnSpy.mock.calls[0][0])).toEndWith(
+        `; using ${jsonPath} instead`,
+      );
+    } finally {
+      warnSpy.mockRestore();
+    }
+
+    // Without a JSON config the import error is reported
+    rmSync(jsonPath);
+    await expect(loadConfig(dir, { allowScript: true })).rejects.toThrow(
+      "Could not load config",
+    );
+  });
+
+  it("reports invalid JSON with the file path", async () => {
+    const path = join(dir, "figdeck.config.json");
+    writeFileSync(path, "{ serve: ");
+
+    await expect(loadConfigFile(path)).rejects.toThrow(
+      `Could not read config ${path}`,
+    );
+  });
+});
+
+describe("validateConfig", () => {
+  it("rejects values of the wrong type", () => {
+    expect(() => validateConfig([], "figdeck.config.json")).toThrow(
+      "expected an object",
+    );
+    expect(() =>
+      validateConfig({ serve: { port: "4141" } }, "figdeck.config.json"),
+    ).toThrow('"serve.port" must be an integer between 1 and 65535');
+    expect(() =>
+      validateConfig({ images: { maxSizeMb: -1 } }, "figdeck.config.json"),
+    ).toThrow('"images.maxSizeMb" must be a number of 0 or more');
+    expect(() =>
+      validateConfig({ frontmatter: "align: center" }, "figdeck.config.json"),
+    ).toThrow('"frontmatter" must be an object');
+  });
+
+  it("warns about unknown keys", () => {
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      validateConfig({ serve: { prot: 1 }, theme: "dark" }, "cfg.json");
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[figdeck] Unknown key "theme" in cfg.json',
+      );
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[figdeck] Unknown key "serve.prot" in cfg.json',
+      );
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,238 @@
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { pathToFileURL } from "node:url";
+
+/**
+ * Project config file names, in lookup order within a directory
+ */
+export const CONFIG_FILE_NAMES = [
+  "figdeck.config.ts",
+  "figdeck.config.json",
+] as const;
+
+const CONFIG_KEYS = ["serve", "images", "fonts", "frontmatter"];
+const SERVE_KEYS = ["host", "port", "secret"];
+const IMAGES_KEYS = ["maxSizeMb"];
+
+/**
+ * Defaults for `figdeck serve`; command-line flags take precedence
+ */
+export interface ServeConfig {
+  host?: string;
+  port?: number;
+  secret?: string;
+}
+
+export interface ImagesConfig {
+  /** Maximum local image size in MB; 0 disables the limit */
+  maxSizeMb?: number;
+}
+
+/**
+ * Contents of `figdeck.config.json` / `figdeck.config.ts`
+ */
+export interface FigdeckConfig {
+  serve?: ServeConfig;
+  images?: ImagesConfig;
+  /** Font families, in the same shape as the `fonts` frontmatter key */
+  fonts?: Record<string, unknown>;
+  /** Base frontmatter applied under each deck's global frontmatter */
+  frontmatter?: Record<string, unknown>;
+}
+
+export interface ConfigLoadOptions {
+  /**
+   * Load `figdeck.config.ts`, which runs code from the project. Off by
+   * default so read-only tools (lint, editor diagnostics) never run it;
+   * without it, or when the runtime cannot import it, the
+   * `figdeck.config.json` next to a TypeScript config is used.
+   */
+  allowScript?: boolean;
+}
+
+/**
+ * A config file found for a deck
+ */
+export interface LoadedConfig {
+  /** Absolute path of the config file */
+  path: string;
+  config: FigdeckConfig;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function warnUnknownKeys(
+  value: Record<string, unknown>,
+  known: string[],
+  prefix: string,
+  path: string,
+): void {
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) {
+      console.warn(`[figdeck] Unknown key "${prefix}${key}" in ${path}`);
+    }
+  }
+}
+
+/**
+ * Validate the shape of a config object. Throws on invalid values and warns
+ * about unknown keys.
+ */
+export function validateConfig(value: unknown, path: string): FigdeckConfig {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid config ${path}: ${message}`);
+  };
+
+  if (!isPlainObject(value)) fail("expected an object");
+  const raw = value as Record<string, unknown>;
+  warnUnknownKeys(raw, CONFIG_KEYS, "", path);
+
+  const config: FigdeckConfig = {};
+
+  if (raw.serve !== undefined) {
+    if (!isPlainObject(raw.serve)) fail('"serve" must be an object');
+    const serve = raw.serve as Record<string, unknown>;
+    warnUnknownKeys(serve, SERVE_KEYS, "serve.", path);
+    if (serve.host !== undefined && typeof serve.host !== "string") {
+      fail('"serve.host" must be a string');
+    }
+    if (
+      serve.port !== undefined &&
+      (!Number.isInteger(serve.port) ||
+        (serve.port as number) < 1 ||
+        (serve.port as number) > 65535)
+    ) {
+      fail('"serve.port" must be an integer between 1 and 65535');
+    }
+    if (serve.secret !== undefined && typeof serve.secret !== "string") {
+      fail('"serve.secret" must be a string');
+    }
+    config.serve = serve as ServeConfig;
+  }
+
+  if (raw.images !== undefined) {
+    if (!isPlainObject(raw.images)) fail('"images" must be an object');
+    const images = raw.images as Record<string, unknown>;
+    warnUnknownKeys(images, IMAGES_KEYS, "images.", path);
+    if (
+      images.maxSizeMb !== undefined &&
+      (typeof images.maxSizeMb !== "number" ||
+        !Number.isFinite(images.maxSizeMb) ||
+        images.maxSizeMb < 0)
+    ) {
+      fail('"images.maxSizeMb" must be a number of 0 or more');
+    }
+    config.images = images as ImagesConfig;
+  }
+
+  if (raw.fonts !== undefined) {
+    if (!isPlainObject(raw.fonts)) fail('"fonts" must be an object');
+    config.fonts = raw.fonts as Record<string, unknown>;
+  }
+
+  if (raw.frontmatter !== undefined) {
+    if (!isPlainObject(raw.frontmatter))
+      fail('"frontmatter" must be an object');
+    config.frontmatter = raw.frontmatter as Record<string, unknown>;
+  }
+
+  return config;
+}
+
+/**
+ * Find the nearest config file, looking in `startDir` and then each
+ * parent directory up to the filesystem root
+ */
+export function findConfigFile(startDir: string): string | null {
+  let dir = startDir;
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) return candidate;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Import a TypeScript config with the runtime's own TypeScript support
+ * (Bun, or Node.js 22.18 and later)
+ */
+async function importConfigScript(
+  path: string,
+): Promise<{ default?: unknown }> {
+  // The modification time in the URL makes edits load instead of the cached module
+  const url = pathToFileURL(path);
+  url.searchParams.set("mtime", String(statSync(path).mtimeMs));
+  try {
+    return await import(url.href);
+  } catch (error) {
+    const hint =
+      (error as { code?: string }).code === "ERR_UNKNOWN_FILE_EXTENSION"
+        ? " (figdeck.config.ts needs Bun or Node.js 22.18+; use figdeck.config.json instead)"
+        : "";
+    throw new Error(
+      `Could not load config ${path}: ${(error as Error).message}${hint}`,
+    );
+  }
+}
+
+/**
+ * Load and validate a config file. TypeScript configs must
+ * `export default` the config object.
+ */
+export async function loadConfigFile(path: string): Promise<FigdeckConfig> {
+  if (path.endsWith(".json")) {
+    let value: unknown;
+    try {
+      value = JSON.parse(readFileSync(path, "utf-8"));
+    } catch (error) {
+      throw new Error(
+        `Could not read config ${path}: ${(error as Error).message}`,
+      );
+    }
+    return validateConfig(value, path);
+  }
+
+  const module = await importConfigScript(path);
+  return validateConfig(module.default, path);
+}
+
+/**
+ * Find and load the config file that applies to files in `startDir`.
+ * Returns null when there is none, or when the nearest config is a
+ * TypeScript config that may not be loaded and has no JSON config beside it.
+ * A TypeScript config the runtime cannot import falls back to that JSON
+ * config with a warning.
+ */
+export async function loadConfig(
+  startDir: string,
+  options: ConfigLoadOptions = {},
+): Promise<LoadedConfig | null> {
+  const path = findConfigFile(startDir);
+  if (!path) return null;
+  if (!path.endsWith(".ts")) {
+    return { path, config: await loadConfigFile(path) };
+  }
+
+  const jsonPath = join(dirname(path), "figdeck.config.json");
+  if (options.allowScript) {
+    let module: { default?: unknown } | undefined;
+    try {
+      module = await importConfigScript(path);
+    } catch (error) {
+      if (!existsSync(jsonPath)) throw error;
+      console.warn(
+        `[figdeck] ${(error as Error).message}; using ${jsonPath} instead`,
+      );
+    }
+    if (module) return { path, config: validateConfig(module.default, path) };
+  }
+
+  if (!existsSync(jsonPath)) return null;
+  return { path: jsonPath, config: await loadConfigFile(jsonPath) };
+}
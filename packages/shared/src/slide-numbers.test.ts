@@ -0,0 +1,30 @@
+import { describe, expect, it } from "bun:test";
+import { getSlideNumbers } from "./slide-numbers.js";
+
+describe("getSlideNumbers", () => {
+  it("numbers slides in order", () => {
+    expect(getSlideNumbers([{}, {}, {}])).toEqual({
+      positions: [1, 2, 3],
+      total: 3,
+    });
+  });
+
+  it("gives build steps the number of their logical slide", () => {
+    const slides = [
+      {},
+      { build: { step: 1, total: 3 } },
+      { build: { step: 2, total: 3 } },
+      { build: { step: 3, total: 3 } },
+      {},
+    ];
+
+    expect(getSlideNumbers(slides)).toEqual({
+      positions: [1, 2, 2, 2, 3],
+      total: 3,
+    });
+  });
+
+  it("returns no positions for an empty deck", () => {
+    expect(getSlideNumbers([])).toEqual({ positions: [], total: 0 });
+  });
+});
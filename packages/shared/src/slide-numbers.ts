@@ -0,0 +1,27 @@
+import type { SlideContent } from "./types.js";
+
+/**
+ * Slide number of each slide in a deck, and the number of logical slides
+ */
+export interface SlideNumbers {
+  /** 1-indexed logical slide number per slide */
+  positions: number[];
+  total: number;
+}
+
+/**
+ * Number the slides of a deck for `{{current}}` and `{{total}}`.
+ * Build steps after the first share the number of their logical slide and
+ * do not count towards the total.
+ */
+export function getSlideNumbers(
+  slides: readonly Pick<SlideContent, "build">[],
+): SlideNumbers {
+  const positions: number[] = [];
+  let total = 0;
+  for (const slide of slides) {
+    if (!slide.build || slide.build.step <= 1) total++;
+    positions.push(total);
+  }
+  return { positions, total };
+}
@@ -75,10 +75,13 @@ export interface TextSpan {
   href?: string;
   /** Display as superscript-style (smaller, raised) */
   superscript?: boolean;
+  /** Inline math rendered to SVG; `text` keeps the TeX source */
+  math?: MathSvg;
 }
 
 export interface TextStyle {
   size?: number;
+  /** Hex, rgb()/rgba() or a Figma variable reference such as `var(Brand/Primary)` */
   color?: string;
   /** Absolute X position in pixels (slide is 1920x1080) */
   x?: number;
@@ -86,6 +89,8 @@ export interface TextStyle {
   y?: number;
   /** Spacing between items in pixels (for bullet lists) */
   spacing?: number;
+  /** Name of a Figma text style applied to the text, e.g. "Slides/Title" */
+  textStyle?: string;
 }
 
 /**
@@ -131,6 +136,75 @@ export interface HeadingStyles {
   h4?: TextStyle;
 }
 
+/**
+ * Token kinds colored by the code highlighter
+ */
+export type CodeTokenType =
+  | "keyword"
+  | "string"
+  | "number"
+  | "comment"
+  | "function"
+  | "variable"
+  | "type"
+  | "punctuation"
+  | "default";
+
+/**
+ * A run of code text with its token kind
+ */
+export interface CodeToken {
+  text: string;
+  token: CodeTokenType;
+}
+
+/**
+ * Code block colors (hex strings)
+ */
+export interface CodePalette {
+  /** Code frame background */
+  background?: string;
+  /** Text color per token kind; `default` is used for unhighlighted text */
+  colors?: Partial<Record<CodeTokenType, string>>;
+}
+
+/**
+ * Appearance of one callout type
+ */
+export interface CalloutStyle {
+  /** Accent bar, label and tinted background color (hex) */
+  color?: string;
+  /** Glyph shown before the label, e.g. an emoji */
+  icon?: string;
+  /** Label text; defaults to the type name in uppercase */
+  label?: string;
+}
+
+/**
+ * Table colors, borders and sizing (colors are hex strings)
+ */
+export interface TableStyle {
+  /** Cell font size; defaults to 85% of the paragraph size */
+  size?: number;
+  /** Body text color */
+  color?: string;
+  /** Header text color */
+  headerColor?: string;
+  /** Header row fill */
+  headerBackground?: string;
+  /** Body row fill */
+  background?: string;
+  /** Fill of every other body row, starting with the second */
+  stripeBackground?: string;
+  borderColor?: string;
+  /** Border width in pixels; 0 removes the borders */
+  borderWidth?: number;
+  /** Cell padding in pixels */
+  padding?: number;
+  /** Column widths in pixels, from the first column; others size to content */
+  columnWidths?: number[];
+}
+
 export interface SlideStyles {
   headings?: HeadingStyles;
   paragraphs?: TextStyle;
@@ -138,6 +212,12 @@ export interface SlideStyles {
   code?: TextStyle;
   /** Font configuration for all text elements */
   fonts?: FontConfig;
+  /** Code block background and syntax colors */
+  codePalette?: CodePalette;
+  /** Callout appearance per built-in or user-defined callout type */
+  callouts?: Record<string, CalloutStyle>;
+  /** Table colors, borders and sizing */
+  table?: TableStyle;
 }
 
 export type SlideNumberPosition =
@@ -182,6 +262,8 @@ export type TableAlignment = "left" | "center" | "right" | null;
 export interface BulletItem {
   text: string;
   spans?: TextSpan[];
+  /** GFM task list state: true for `[x]`, false for `[ ]`, unset for plain items */
+  checked?: boolean | null;
   childrenOrdered?: boolean;
   childrenStart?: number;
   children?: BulletItem[];
@@ -206,6 +288,19 @@ export type HorizontalAlign = "left" | "center" | "right";
  */
 export type VerticalAlign = "top" | "middle" | "bottom";
 
+/**
+ * Built-in slide layouts that place headings, images and body blocks
+ * into predefined regions
+ */
+export type SlideLayout =
+  | "default"
+  | "section"
+  | "image-left"
+  | "image-right"
+  | "quote"
+  | "big-number"
+  | "title-only";
+
 /**
  * Slide transition styles (kebab-case for user-friendly YAML)
  */
@@ -271,9 +366,18 @@ export interface SlideTransitionConfig {
 }
 
 /**
- * Callout/alert types for :::note, :::tip, :::warning, :::caution blocks
+ * Built-in callout types for :::note, :::tip, :::warning, ... blocks.
+ * Other types can be defined under the `callouts` frontmatter key.
  */
-export type CalloutType = "note" | "tip" | "warning" | "caution";
+export type CalloutType =
+  | "note"
+  | "tip"
+  | "important"
+  | "warning"
+  | "caution"
+  | "success"
+  | "question"
+  | "example";
 
 /**
  * Figma selection link extracted from :::figma block
@@ -288,6 +392,28 @@ export interface FigmaSelectionLink {
   textOverrides?: Record<string, { text: string; spans?: TextSpan[] }>;
   /** Hide the clickable link label below the preview */
   hideLink?: boolean;
+  /** Variant and component property values when the node is a component or instance */
+  component?: ComponentPropertyOverrides;
+  /** Overrides for instances nested inside the component */
+  nestedInstances?: NestedInstanceOverride[];
+}
+
+/**
+ * Variant and component property values for a component instance
+ */
+export interface ComponentPropertyOverrides {
+  /** Variant property values, e.g. `{ State: "Active" }` */
+  variants?: Record<string, string>;
+  /** Boolean (`true`/`false`), text and instance-swap (Figma URL or node ID) property values */
+  properties?: Record<string, string>;
+}
+
+/**
+ * Overrides for an instance nested inside a component instance
+ */
+export interface NestedInstanceOverride extends ComponentPropertyOverrides {
+  /** Layer names leading from the block's instance to the nested instance */
+  path: string[];
 }
 
 /** Image size specification (parsed from Marp-style alt text) */
@@ -302,6 +428,100 @@ export interface ImagePosition {
   y?: number; // px (percentages are pre-converted based on SLIDE_HEIGHT)
 }
 
+/** Diagram types supported in ```mermaid fences */
+export type DiagramType = "flowchart" | "sequence";
+
+/** Node outlines, following Mermaid flowchart shapes */
+export type DiagramNodeShape =
+  | "rect"
+  | "round"
+  | "stadium"
+  | "circle"
+  | "diamond";
+
+/** Edge line styles (`-->`, `-.->`, `==>`) */
+export type DiagramLineStyle = "solid" | "dotted" | "thick";
+
+export interface DiagramPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Diagram node with its computed box in diagram coordinates
+ */
+export interface DiagramNode {
+  id: string;
+  label: string;
+  shape: DiagramNodeShape;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Diagram edge routed as a polyline in diagram coordinates.
+ * Sequence diagram lifelines are edges from a participant to itself.
+ */
+export interface DiagramEdge {
+  from: string;
+  to: string;
+  label?: string;
+  /** Center of the label */
+  labelPosition?: DiagramPoint;
+  line: DiagramLineStyle;
+  /** Draw an arrowhead at the last point */
+  arrow: boolean;
+  points: DiagramPoint[];
+}
+
+/**
+ * Diagram with a computed layout, parsed from a ```mermaid fence by the CLI.
+ * Coordinates assume labels set at DIAGRAM_LAYOUT.FONT_SIZE.
+ */
+export interface Diagram {
+  type: DiagramType;
+  width: number;
+  height: number;
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+/** Chart types supported in ```chart fences */
+export type ChartType = "bar" | "line" | "pie" | "donut";
+
+export interface ChartSeries {
+  name: string;
+  values: number[];
+}
+
+/**
+ * Chart data parsed from a ```chart fence by the CLI.
+ * Bar and line charts plot every series against `labels`; pie and donut
+ * charts use the first series, one slice per label.
+ */
+export interface Chart {
+  type: ChartType;
+  title?: string;
+  labels: string[];
+  series: ChartSeries[];
+  /** Series (or slice) colors as hex strings, before the built-in palette */
+  colors?: string[];
+}
+
+/**
+ * Math formula rendered to SVG by the CLI.
+ * Sizes are in em, relative to the surrounding font size.
+ */
+export interface MathSvg {
+  svg: string;
+  width: number;
+  height: number;
+  /** Distance below the text baseline */
+  depth: number;
+}
+
 /**
  * Individual slide block types (excluding columns to avoid circular reference)
  */
@@ -316,13 +536,29 @@ export type SlideBlockItem =
       /** @deprecated Use BulletItem[] with spans instead */
       itemSpans?: TextSpan[][];
     }
-  | { kind: "code"; language?: string; code: string }
+  | {
+      kind: "code";
+      language?: string;
+      code: string;
+      /** 1-based lines to highlight, from fence meta like `{1,3-5}` */
+      highlightLines?: number[];
+      /** Dim the lines that are not highlighted (`dim` in the fence meta) */
+      dimUnhighlighted?: boolean;
+      /** File name shown as a header tab, from `title="server.ts"` */
+      title?: string;
+      /** Show a line number gutter (`showLineNumbers` in the fence meta) */
+      showLineNumbers?: boolean;
+      /** Syntax tokens covering `code`; the plugin highlights `code` itself when absent */
+      tokens?: CodeToken[];
+    }
   | {
       kind: "image";
       url: string;
       alt?: string;
       mimeType?: string;
       dataBase64?: string;
+      /** SVG markup, inserted as vectors instead of an image fill */
+      svg?: string;
       source?: "local" | "remote";
       size?: ImageSize;
       position?: ImagePosition;
@@ -335,8 +571,19 @@ export type SlideBlockItem =
       align?: TableAlignment[];
     }
   | { kind: "figma"; link: FigmaSelectionLink }
+  | { kind: "diagram"; diagram: Diagram }
+  | { kind: "chart"; chart: Chart }
+  | { kind: "math"; tex: string; math: MathSvg }
   | { kind: "footnotes"; items: FootnoteItem[] }
-  | { kind: "callout"; type: CalloutType; text: string; spans?: TextSpan[] };
+  | {
+      kind: "callout";
+      /** A built-in CalloutType or a type defined under `callouts` */
+      type: string;
+      /** Custom title from `:::type[Title]`, replacing the type label */
+      title?: string;
+      text: string;
+      spans?: TextSpan[];
+    };
 
 /**
  * Column layout block for multi-column slide layouts (2-4 columns)
@@ -377,7 +624,58 @@ export const LAYOUT = {
   MAX_COLUMN_GAP: 200,
 } as const;
 
+/**
+ * Layout constants for diagrams, shared by the CLI layout and plugin renderer
+ */
+export const DIAGRAM_LAYOUT = {
+  /** Label font size the layout is computed for */
+  FONT_SIZE: 20,
+  /** Approximate label character width as a ratio of the font size */
+  CHAR_WIDTH_RATIO: 0.6,
+  /** Horizontal padding inside a node */
+  NODE_PADDING_X: 24,
+  NODE_MIN_WIDTH: 120,
+  NODE_HEIGHT: 56,
+  /** Gap between nodes in the same rank */
+  NODE_GAP: 48,
+  /** Gap between ranks (flowchart) */
+  RANK_GAP: 80,
+  /** Vertical distance between messages (sequence) */
+  MESSAGE_GAP: 64,
+  /** Maximum number of nodes or edges in one diagram */
+  MAX_ELEMENTS: 200,
+} as const;
+
+/**
+ * Position of a build slide within the sequence expanded from one logical
+ * slide (`<!-- pause -->` or `incremental: true`)
+ */
+export interface SlideBuildStep {
+  /** 1-indexed step number */
+  step: number;
+  /** Total number of steps in the sequence */
+  total: number;
+}
+
+/**
+ * How a slide whose content is taller than the slide is handled:
+ * - `shrink`: the plugin scales text down, but not below `minScale`
+ * - `split`: the CLI continues long bullet lists onto follow-up slides
+ */
+export type AutoFitMode = "shrink" | "split";
+
+export interface AutoFitConfig {
+  mode: AutoFitMode;
+  /** Smallest text scale for `shrink` (0.1-1) */
+  minScale?: number;
+}
+
 export interface SlideContent {
+  /**
+   * Stable slide identity used by the plugin to match existing slides.
+   * Comes from the `id:` frontmatter key or a content fingerprint.
+   */
+  id?: string;
   blocks: SlideBlock[];
   background?: SlideBackground;
   styles?: SlideStyles;
@@ -389,22 +687,133 @@ export interface SlideContent {
   align?: HorizontalAlign;
   /** Vertical alignment of slide content */
   valign?: VerticalAlign;
+  /** Built-in layout used to place the slide content */
+  layout?: SlideLayout;
   /** Footnotes for this slide */
   footnotes?: FootnoteItem[];
   /** Slide transition configuration */
   transition?: SlideTransitionConfig;
+  /** Speaker notes shown in the presenter view */
+  notes?: string;
+  /** Set on build slides that reveal a logical slide step by step */
+  build?: SlideBuildStep;
+  /** Handling of content taller than the slide */
+  autoFit?: AutoFitConfig;
 }
 
 export interface GenerateSlidesMessage {
   type: "generate-slides";
   slides: SlideContent[];
+  /** Revision of this payload, acknowledged by the plugin after generation */
+  revision?: number;
+}
+
+/**
+ * Incremental update sent by CLI to Plugin.
+ * Only contains the slides that differ from `baseRevision`, which is the
+ * last revision the plugin acknowledged. Slides are matched by `id`.
+ */
+export interface PatchSlidesMessage {
+  type: "patch-slides";
+  baseRevision: number;
+  revision: number;
+  /** Ids of all slides in their new order (covers moved slides) */
+  order: string[];
+  /** Slides that did not exist in the base revision */
+  added: SlideContent[];
+  /** Slides whose content differs from the base revision */
+  changed: SlideContent[];
+  /** Ids of slides that no longer exist */
+  removed: string[];
+}
+
+/**
+ * Acknowledgement sent by Plugin to CLI once a revision has been generated.
+ */
+export interface AckMessage {
+  type: "ack";
+  revision: number;
+}
+
+/**
+ * Sent by Plugin to CLI when a patch does not apply to the plugin's
+ * current revision. The CLI answers with a full `generate-slides`.
+ */
+export interface ResyncMessage {
+  type: "resync";
+  revision: number | null;
+}
+
+/**
+ * Sent by Plugin to CLI when a user edits the text of a generated block in
+ * Figma. Texts are the node's characters as generated and after the edit.
+ */
+export interface EditMessage {
+  type: "edit";
+  /** Revision the edited slide was generated from */
+  revision: number | null;
+  /** Id of the edited slide, when the slide has one */
+  slideId?: string;
+  slideIndex: number;
+  blockIndex: number;
+  oldText: string;
+  newText: string;
+}
+
+/**
+ * A slide whose content is still taller than the slide after generation
+ */
+export interface SlideOverflow {
+  slideIndex: number;
+  /** Id of the slide, when the slide has one */
+  slideId?: string;
+  /** Content height beyond the slide in pixels */
+  overflow: number;
+  /** Text scale applied by `autoFit: shrink`, when it was shrunk */
+  scale?: number;
+}
+
+/**
+ * Sent by Plugin to CLI after generation when content overflows slides
+ */
+export interface OverflowMessage {
+  type: "overflow";
+  /** Revision the slides were generated from */
+  revision: number | null;
+  slides: SlideOverflow[];
+}
+
+/**
+ * How the plugin resolved a `var(...)` color reference
+ * - bound: the variable was found and fills are bound to it
+ * - fallback: the variable is missing; the literal fallback color was used
+ * - missing: the variable is missing and no fallback was given
+ */
+export type ColorVariableStatus = "bound" | "fallback" | "missing";
+
+export interface ColorVariableResolution {
+  /** Variable name as written in the Markdown */
+  name: string;
+  status: ColorVariableStatus;
+  /** Fallback color used instead of the variable */
+  fallback?: string;
+}
+
+/**
+ * Sent by Plugin to CLI after generation when slides reference color variables
+ */
+export interface ColorVariablesMessage {
+  type: "variables";
+  /** Revision the slides were generated from */
+  revision: number | null;
+  variables: ColorVariableResolution[];
 }
 
 /**
  * Protocol version for CLI-Plugin communication.
  * Increment only when breaking changes are made to the message format.
  */
-export const PROTOCOL_VERSION = "1";
+export const PROTOCOL_VERSION = "2";
 
 /**
  * Hello message sent by CLI to Plugin upon connection.
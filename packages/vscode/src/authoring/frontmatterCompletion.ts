@@ -1,5 +1,5 @@
+import { FRONTMATTER_SPEC, type FrontmatterDef } from "@figdeck/lint";
 import * as vscode from "vscode";
-import { FRONTMATTER_SPEC, type FrontmatterDef } from "../frontmatter-spec";
 import {
   hasMeaningfulContent,
   looksLikeInlineFrontmatter,
@@ -1,9 +1,9 @@
-import * as vscode from "vscode";
 import {
   TRANSITION_CURVES,
   TRANSITION_STYLES,
   TRANSITION_TIMING_TYPES,
-} from "../frontmatter-spec";
+} from "@figdeck/lint";
+import * as vscode from "vscode";
 
 /**
  * CodeAction provider for figdeck diagnostics
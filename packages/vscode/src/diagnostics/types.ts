@@ -1,39 +1,7 @@
+import type { Issue, IssueSeverity } from "@figdeck/lint";
 import type * as vscode from "vscode";
 
-/**
- * Severity level for diagnostic issues
- */
-export type IssueSeverity = "error" | "warning" | "info" | "hint";
-
-/**
- * A diagnostic issue found in the document
- */
-export interface Issue {
-  /** Severity of the issue */
-  severity: IssueSeverity;
-  /** Human-readable message describing the issue */
-  message: string;
-  /** Range in the document where the issue occurs */
-  range: {
-    startLine: number;
-    startColumn: number;
-    endLine: number;
-    endColumn: number;
-  };
-  /** Optional code for the diagnostic (for CodeAction matching) */
-  code?: string;
-  /** Optional data for quick fixes */
-  data?: unknown;
-  /** Optional source identifier */
-  source?: string;
-}
-
-/**
- * Result of analyzing a document
- */
-export interface AnalysisResult {
-  issues: Issue[];
-}
+export type { AnalysisResult, Issue, IssueSeverity } from "@figdeck/lint";
 
 /**
  * Convert IssueSeverity to VS Code DiagnosticSeverity
@@ -1,3 +1,4 @@
+import { analyzeDocument } from "@figdeck/lint";
 import * as vscode from "vscode";
 import { registerFrontmatterCompletion } from "./authoring/frontmatterCompletion";
 import {
@@ -6,7 +7,6 @@ import {
   type SlideInfo,
   SlideOutlineProvider,
 } from "./authoring/slideOutline";
-import { analyzeDocument } from "./diagnostics/analyzer";
 import { registerCodeActionProvider } from "./diagnostics/codeActions";
 import { DiagnosticsManager } from "./diagnostics/collection";
 import {
@@ -14,6 +14,7 @@ import {
   runCli,
   showCliNotFoundNotification,
 } from "./ops/figdeckCli";
+import { getExplicitSetting, loadProjectConfig } from "./ops/projectConfig";
 import { ServerManager } from "./ops/serverManager";
 
 let outputChannel: vscode.OutputChannel;
@@ -31,9 +32,19 @@ export function activate(context: vscode.ExtensionContext) {
   // Create diagnostics manager
   const config = vscode.workspace.getConfiguration("figdeck.diagnostics");
   diagnosticsManager = new DiagnosticsManager(
-    (document, basePath) => {
-      const imagesConfig = vscode.workspace.getConfiguration("figdeck.images");
-      const maxSizeMb = imagesConfig.get<number>("maxSizeMb", 5);
+    async (document, basePath) => {
+      // Explicit setting, then figdeck.config.* (0 disables the limit), then 5MB.
+      // Diagnostics never run figdeck.config.ts.
+      const projectConfig = await loadProjectConfig(
+        document.uri.fsPath,
+        outputChannel,
+        false,
+      );
+      let maxSizeMb: number | null =
+        getExplicitSetting<number>("figdeck.images", "maxSizeMb") ??
+        projectConfig?.images?.maxSizeMb ??
+        5;
+      if (maxSizeMb === 0) maxSizeMb = null;
       return analyzeDocument(document, basePath, { images: { maxSizeMb } });
     },
     {
@@ -207,6 +218,16 @@ export function activate(context: vscode.ExtensionContext) {
     }),
   );
 
+  // Re-check open decks when a project config changes
+  const configWatcher = vscode.workspace.createFileSystemWatcher(
+    "**/figdeck.config.{json,ts}",
+  );
+  const refreshDiagnostics = () => diagnosticsManager.refresh();
+  configWatcher.onDidCreate(refreshDiagnostics);
+  configWatcher.onDidChange(refreshDiagnostics);
+  configWatcher.onDidDelete(refreshDiagnostics);
+  context.subscriptions.push(configWatcher);
+
   outputChannel.appendLine(
     "Commands, TreeView, Diagnostics, and Server Manager registered",
   );
@@ -41,6 +41,16 @@ describe("VS Code extension packaging", () => {
     ).toBe(true);
   });
 
+  it("declares limited support for untrusted workspaces", () => {
+    const packageJson = readJson<{
+      capabilities?: { untrustedWorkspaces?: { supported?: unknown } };
+    }>(extensionPackageJsonPath);
+
+    expect(packageJson.capabilities?.untrustedWorkspaces?.supported).toBe(
+      "limited",
+    );
+  });
+
   it("keeps the figdeck-global snippet prefix present", () => {
     const snippetsJson =
       readJson<Record<string, { prefix?: unknown }>>(snippetsPath);
@@ -0,0 +1,50 @@
+import * as path from "node:path";
+import { type FigdeckConfig, loadConfig } from "@figdeck/lint";
+import * as vscode from "vscode";
+
+// Last load error, so a broken config is reported once instead of on every analysis
+let lastError: string | null = null;
+
+/**
+ * Load the figdeck.config.json / figdeck.config.ts that applies to a file.
+ * figdeck.config.ts runs project code, so it is only loaded with
+ * `allowScript`, and never in untrusted workspaces; otherwise the
+ * figdeck.config.json beside it is used. Load errors are written to the
+ * output channel and treated as no config.
+ */
+export async function loadProjectConfig(
+  filePath: string,
+  outputChannel: vscode.OutputChannel,
+  allowScript: boolean,
+): Promise<FigdeckConfig | null> {
+  try {
+    const loaded = await loadConfig(path.dirname(filePath), {
+      allowScript: allowScript && vscode.workspace.isTrusted,
+    });
+    lastError = null;
+    return loaded?.config ?? null;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message !== lastError) {
+      lastError = message;
+      outputChannel.appendLine(`[figdeck] ${message}`);
+    }
+    return null;
+  }
+}
+
+/**
+ * Get a setting only when the user set it, so project config values apply
+ * before the setting's default
+ */
+export function getExplicitSetting<T>(
+  section: string,
+  key: string,
+): T | undefined {
+  const inspected = vscode.workspace.getConfiguration(section).inspect<T>(key);
+  return (
+    inspected?.workspaceFolderValue ??
+    inspected?.workspaceValue ??
+    inspected?.globalValue
+  );
+}
@@ -1,6 +1,7 @@
 import type { ChildProcess } from "node:child_process";
 import * as vscode from "vscode";
 import { detectCli, runCli, showCliNotFoundNotification } from "./figdeckCli";
+import { getExplicitSetting, loadProjectConfig } from "./projectConfig";
 
 export type ServerState = "stopped" | "starting" | "running" | "error";
 
@@ -63,16 +64,39 @@ export class ServerManager implements vscode.Disposable {
       return;
     }
 
+    // The CLI may come from the workspace and loads figdeck.config.ts
+    if (!vscode.workspace.isTrusted) {
+      vscode.window.showErrorMessage(
+        "Trust this workspace to start figdeck serve",
+      );
+      return;
+    }
+
     // Detect CLI
     const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
     const cliResult = await detectCli(workspaceFolder);
 
-    // Get config
+    // Get config: explicit settings, then figdeck.config.*, then defaults
     const config = vscode.workspace.getConfiguration("figdeck.serve");
-    const host = config.get<string>("host", "127.0.0.1");
-    const port = config.get<number>("port", 4141);
+    const projectConfig = await loadProjectConfig(
+      file,
+      this.outputChannel,
+      true,
+    );
+    const serveConfig = projectConfig?.serve ?? {};
+    const host =
+      getExplicitSetting<string>("figdeck.serve", "host") ??
+      serveConfig.host ??
+      "127.0.0.1";
+    const port =
+      getExplicitSetting<number>("figdeck.serve", "port") ??
+      serveConfig.port ??
+      4141;
     const allowRemote = config.get<boolean>("allowRemote", false);
-    const secret = config.get<string>("secret", "");
+    const secret =
+      getExplicitSetting<string>("figdeck.serve", "secret") ||
+      serveConfig.secret ||
+      "";
     const noAuth = config.get<boolean>("noAuth", false);
     const noWatch = config.get<boolean>("noWatch", false);
 